@@ -0,0 +1,81 @@
+/**
+ * This Lambda reads the audit log.
+ * It validates the user's JWT token before performing any operation. Only admins and users with the
+ * audit:read permission can read the audit log.
+ * Operations include:
+ * - GET /api/audit?actor=&entity=&shortname=&version=&from=&to=&limit= - List audit entries, newest first
+ *
+ * The shortname, version, configuration, trash and user Lambdas write an entry to the audit table for every create,
+ * update and delete, with the user, the request ID and the item before and after the change. Entries are
+ * never modified: the Lambdas can only add entries to the audit table and query it.
+ */
+
+const { verifyToken, PERMISSIONS, hasPermission } = require('/opt/nodejs/layer-utils');
+const { getAuditEntries } = require('./utils/index');
+
+const SECRET_KEY = process.env.SECRET_KEY;
+const AUDIT_TABLE = process.env.AUDIT_TABLE;
+
+exports.handler = async (event) => {
+  console.log('Audit Lambda triggered. Event:', JSON.stringify(event));
+
+  try {
+    // Extract authorization token
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      console.error('Authorization header is missing or malformed');
+      return unauthorizedResponse('Authorization token is missing or malformed');
+    }
+
+    let decodedToken;
+    try {
+      decodedToken = verifyToken(authHeader.split(' ')[1], SECRET_KEY);
+    } catch (error) {
+      console.error('Error verifying token:', error);
+      return unauthorizedResponse(error.message);
+    }
+
+    if (!hasPermission(decodedToken, PERMISSIONS.AUDIT_READ)) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ message: `Only admins and users with the ${PERMISSIONS.AUDIT_READ} permission can read the audit log` })
+      };
+    }
+
+    const httpMethod = event.requestContext.http.method;
+    if (httpMethod !== 'GET') {
+      return {
+        statusCode: 405,
+        body: JSON.stringify({ message: 'Method not allowed' })
+      };
+    }
+
+    // GET /api/audit - List audit entries matching the filters
+    const queryParams = event.queryStringParameters || {};
+    return await getAuditEntries(
+      {
+        actor: queryParams.actor,
+        entity: queryParams.entity,
+        shortname: queryParams.shortname,
+        version: queryParams.version,
+        from: queryParams.from,
+        to: queryParams.to,
+        limit: queryParams.limit
+      },
+      AUDIT_TABLE
+    );
+  } catch (error) {
+    console.error('Unexpected error in Audit Lambda:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal server error', error: error.message })
+    };
+  }
+};
+
+function unauthorizedResponse(message) {
+  return {
+    statusCode: 401,
+    body: JSON.stringify({ message })
+  };
+}
@@ -0,0 +1,141 @@
+const AWS = require('aws-sdk');
+const { AUDIT_ENTITIES } = require('/opt/nodejs/layer-utils');
+
+const dynamoDB = new AWS.DynamoDB.DocumentClient();
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+// Bounds of the timestamp range when no date is given
+const MIN_TIMESTAMP = '0000';
+const MAX_TIMESTAMP = '9999';
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Read a bound of the date range of an audit query.
+ * @param {string} [value] - A date (YYYY-MM-DD) or an ISO 8601 timestamp.
+ * @param {boolean} endOfDay - Whether a date stands for the end of the day rather than its start.
+ * @returns {string|null} - The bound as an ISO timestamp, or null if the value is invalid.
+ */
+function readDateBound(value, endOfDay) {
+  if (DATE_ONLY.test(value)) {
+    value = `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z`;
+  }
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Query the newest items of a partition of an index, page by page, until there are enough.
+ * @param {Object} params - The query parameters.
+ * @param {number} limit - The number of items wanted.
+ * @returns {Promise<Object>} - The items, newest first, and whether older items were left out.
+ */
+async function queryNewest(params, limit) {
+  const items = [];
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamoDB.query({ ...params, ScanIndexForward: false, ExclusiveStartKey: lastEvaluatedKey }).promise();
+    items.push(...(result.Items || []));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey && items.length < limit);
+
+  return { items: items.slice(0, limit), truncated: items.length > limit || Boolean(lastEvaluatedKey) };
+}
+
+/**
+ * Get the audit entries matching filters, newest first.
+ * Entries are read from the most selective index among the filters given: shortname, version, actor, then
+ * entity; without any of them, the entries of every entity are read and merged.
+ * @param {Object} filters - The filters; all are optional.
+ * @param {string} [filters.actor] - The userId or email of the user who made the changes.
+ * @param {string} [filters.entity] - The entity changed: shortname, version, configuration or user.
+ * @param {string} [filters.shortname] - The shortname of the items changed.
+ * @param {string} [filters.version] - The version of the items changed.
+ * @param {string} [filters.from] - The start of the date range, as a date or an ISO 8601 timestamp.
+ * @param {string} [filters.to] - The end of the date range; a date includes the whole day.
+ * @param {string} [filters.limit] - The maximum number of entries, 100 by default and 500 at most.
+ * @param {string} auditTable - The audit DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getAuditEntries(filters, auditTable) {
+  const { actor, entity, shortname, version } = filters;
+
+  if (entity && !AUDIT_ENTITIES.includes(entity)) {
+    return badRequest(`Entity must be one of: ${AUDIT_ENTITIES.join(', ')}`);
+  }
+
+  const from = filters.from ? readDateBound(filters.from, false) : MIN_TIMESTAMP;
+  const to = filters.to ? readDateBound(filters.to, true) : MAX_TIMESTAMP;
+  if (!from || !to) {
+    return badRequest('From and to must be dates (YYYY-MM-DD) or ISO 8601 timestamps');
+  }
+
+  const limit = filters.limit === undefined ? DEFAULT_LIMIT : Number(filters.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return badRequest(`Limit must be a whole number between 1 and ${MAX_LIMIT}`);
+  }
+
+  try {
+    // Actors are indexed by userId; an email is matched with a filter
+    const isActorEmail = Boolean(actor) && actor.includes('@');
+    const attributeFilters = { shortname, version, entity, actor: isActorEmail ? undefined : actor };
+    const partitions = [['shortname', 'ShortnameTimestampIndex'], ['version', 'VersionTimestampIndex'], ['actor', 'ActorTimestampIndex'], ['entity', 'EntityTimestampIndex']];
+    const [partitionAttribute, indexName] = partitions.find(([attribute]) => attributeFilters[attribute]) || ['entity', 'EntityTimestampIndex'];
+    const partitionValues = attributeFilters[partitionAttribute] ? [attributeFilters[partitionAttribute]] : AUDIT_ENTITIES;
+
+    const names = { '#partition': partitionAttribute, '#timestamp': 'timestamp' };
+    const values = { ':from': from, ':to': to };
+    const conditions = [];
+    for (const [attribute, value] of Object.entries(attributeFilters)) {
+      if (!value || attribute === partitionAttribute) continue;
+      names[`#${attribute}`] = attribute;
+      values[`:${attribute}`] = value;
+      conditions.push(`#${attribute} = :${attribute}`);
+    }
+    if (isActorEmail) {
+      names['#actorEmail'] = 'actorEmail';
+      values[':actorEmail'] = actor;
+      conditions.push('#actorEmail = :actorEmail');
+    }
+
+    const results = await Promise.all(partitionValues.map(partitionValue => queryNewest({
+      TableName: auditTable,
+      IndexName: indexName,
+      KeyConditionExpression: '#partition = :partition AND #timestamp BETWEEN :from AND :to',
+      ...(conditions.length > 0 && { FilterExpression: conditions.join(' AND ') }),
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: { ...values, ':partition': partitionValue }
+    }, limit)));
+
+    const entries = results
+      .flatMap(result => result.items)
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        entries: entries.slice(0, limit),
+        truncated: entries.length > limit || results.some(result => result.truncated)
+      })
+    };
+  } catch (error) {
+    console.error('Error fetching audit entries:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch audit entries', error: error.message })
+    };
+  }
+}
+
+function badRequest(message) {
+  return {
+    statusCode: 400,
+    body: JSON.stringify({ message })
+  };
+}
+
+module.exports = {
+  getAuditEntries
+};
@@ -0,0 +1,112 @@
+/**
+ * This Lambda handles discussion threads.
+ * It validates the user's JWT token before performing any operation.
+ * Operations include:
+ * - GET /api/comments?target=&version=&shortname=&key= - List the comments of a thread, oldest first
+ * - POST /api/comments - Comment in a thread
+ * - DELETE /api/comments/{commentId} - Delete a comment (its author or admins only)
+ * - POST /api/comments/read - Mark a thread as read
+ * - GET /api/comments/threads?target=&version=&shortname= - List the threads with comments, with their comment
+ *   count and whether they are unread
+ * - GET /api/comments/mentions - List the threads the user was mentioned in and has not read since
+ *
+ * A thread discusses a version, a shortname within a version, or a configuration key of a layer: the shortname
+ * is "*" for the defaults layers, and the version "*" for the global defaults. Comments mention users as @
+ * followed by their email; a mentioned user must exist.
+ */
+
+const { verifyToken } = require('/opt/nodejs/layer-utils');
+const {
+  getComments,
+  createComment,
+  deleteComment,
+  markThreadRead,
+  getThreads,
+  getMentions
+} = require('./utils/index');
+
+const SECRET_KEY = process.env.SECRET_KEY;
+const TABLES = {
+  comments: process.env.COMMENTS_TABLE,
+  threads: process.env.COMMENT_THREADS_TABLE,
+  reads: process.env.COMMENT_READS_TABLE,
+  users: process.env.USERS_TABLE,
+  versions: process.env.VERSIONS_TABLE,
+  shortnameVersions: process.env.SHORTNAME_VERSIONS_TABLE,
+  configurations: process.env.CONFIGURATIONS_TABLE
+};
+
+exports.handler = async (event) => {
+  console.log('Comment Lambda triggered. Event:', JSON.stringify(event));
+
+  try {
+    // Extract authorization token
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      console.error('Authorization header is missing or malformed');
+      return unauthorizedResponse('Authorization token is missing or malformed');
+    }
+
+    let decodedToken;
+    try {
+      decodedToken = verifyToken(authHeader.split(' ')[1], SECRET_KEY);
+    } catch (error) {
+      console.error('Error verifying token:', error);
+      return unauthorizedResponse(error.message);
+    }
+
+    const httpMethod = event.requestContext.http.method;
+    const path = event.requestContext.http.path;
+    const commentId = (event.pathParameters || {}).commentId;
+    const queryParams = event.queryStringParameters || {};
+
+    if (path.endsWith('/comments/threads') && httpMethod === 'GET') {
+      // GET /api/comments/threads - List the threads with comments
+      return await getThreads(queryParams, decodedToken, TABLES);
+    }
+
+    if (path.endsWith('/comments/mentions') && httpMethod === 'GET') {
+      // GET /api/comments/mentions - List the unread mentions of the user
+      return await getMentions(decodedToken, TABLES.reads);
+    }
+
+    if (path.endsWith('/comments/read') && httpMethod === 'POST') {
+      // POST /api/comments/read - Mark a thread as read
+      return await markThreadRead(JSON.parse(event.body || '{}'), decodedToken, TABLES.reads);
+    }
+
+    if (commentId && httpMethod === 'DELETE') {
+      // DELETE /api/comments/{commentId} - Delete a comment
+      return await deleteComment(commentId, decodedToken, TABLES);
+    }
+
+    if (!commentId && httpMethod === 'GET') {
+      // GET /api/comments - List the comments of a thread
+      return await getComments(queryParams, TABLES);
+    }
+
+    if (!commentId && httpMethod === 'POST') {
+      // POST /api/comments - Comment in a thread
+      const { body, ...target } = JSON.parse(event.body || '{}');
+      return await createComment(target, body, decodedToken, TABLES);
+    }
+
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ message: 'Method not allowed' })
+    };
+  } catch (error) {
+    console.error('Unexpected error in Comment Lambda:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal server error', error: error.message })
+    };
+  }
+};
+
+function unauthorizedResponse(message) {
+  return {
+    statusCode: 401,
+    body: JSON.stringify({ message })
+  };
+}
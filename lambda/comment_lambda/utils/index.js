@@ -0,0 +1,506 @@
+const AWS = require('aws-sdk');
+const { generateId, isAdmin, queryAll } = require('/opt/nodejs/layer-utils');
+
+const dynamoDB = new AWS.DynamoDB.DocumentClient();
+
+// What a thread discusses: a version, a shortname within a version, or a configuration key of a layer
+const COMMENT_TARGETS = ['version', 'shortname', 'configuration'];
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_MENTIONS = 10;
+// Defaults are stored under the wildcard shortname and version
+const ANY = '*';
+// An @ followed by the email of a user; trailing punctuation is not part of the mention
+const MENTION_PATTERN = /@([^\s@]+@[^\s@]+\.[^\s@]*[^\s@.,;:!?)\]])/g;
+
+/**
+ * Read the target of a thread from request parameters.
+ * @param {Object} params - The request parameters.
+ * @param {string} params.target - What the thread discusses: version, shortname or configuration.
+ * @param {string} params.version - The version, or "*" for the global defaults.
+ * @param {string} [params.shortname] - The shortname, or "*" for the defaults; required for shortname and configuration threads.
+ * @param {string} [params.key] - The configuration key; required for configuration threads.
+ * @returns {Object} - The target, or an error message.
+ */
+function readTarget({ target, version, shortname, key }) {
+  if (!COMMENT_TARGETS.includes(target)) {
+    return { error: `Target must be one of: ${COMMENT_TARGETS.join(', ')}` };
+  }
+
+  if (!version || (version === ANY && !(target === 'configuration' && shortname === ANY))) {
+    return { error: 'Version is required' };
+  }
+
+  if (target === 'version') {
+    return { target: { target, version } };
+  }
+
+  if (!shortname || (shortname === ANY && target !== 'configuration')) {
+    return { error: 'Shortname is required' };
+  }
+
+  if (target === 'shortname') {
+    return { target: { target, shortname, version } };
+  }
+
+  if (!key) {
+    return { error: 'Key is required' };
+  }
+
+  return { target: { target, shortname, version, key } };
+}
+
+/**
+ * Get the ID of the thread of a target.
+ * @param {Object} target - The target of the thread.
+ * @returns {string} - The thread ID.
+ */
+function getThreadId({ target, shortname, version, key }) {
+  switch (target) {
+    case 'version':
+      return `version:${version}`;
+    case 'shortname':
+      return `shortname:${shortname}:${version}`;
+    default:
+      return `configuration:${shortname}:${version}:${key}`;
+  }
+}
+
+/**
+ * Build an update expression setting attributes.
+ * @param {Object} values - The attributes to set, by name.
+ * @returns {Object} - The UpdateExpression clause, ExpressionAttributeNames and ExpressionAttributeValues.
+ */
+function toSetExpression(values) {
+  const names = Object.keys(values);
+  return {
+    clause: `SET ${names.map(name => `#${name} = :${name}`).join(', ')}`,
+    names: Object.fromEntries(names.map(name => [`#${name}`, name])),
+    values: Object.fromEntries(names.map(name => [`:${name}`, values[name]]))
+  };
+}
+
+/**
+ * Build the update of the read state of a thread for a user, keeping the target of the thread so that mentions
+ * can link to it.
+ * @param {Object} target - The target of the thread.
+ * @param {string} userId - The user ID.
+ * @param {Object} values - The attributes of the read state to set.
+ * @param {string} readsTable - The comment reads DynamoDB table name.
+ * @returns {Object} - The update parameters.
+ */
+function buildReadUpdate(target, userId, values, readsTable) {
+  const set = toSetExpression({ ...target, ...values });
+  return {
+    TableName: readsTable,
+    Key: { userId, threadId: getThreadId(target) },
+    UpdateExpression: set.clause,
+    ExpressionAttributeNames: set.names,
+    ExpressionAttributeValues: set.values
+  };
+}
+
+/**
+ * Check that the target of a thread exists: its version, its shortname within the version, or its key in the
+ * configurations of the layer.
+ * @param {Object} target - The target of the thread.
+ * @param {Object} tables - The DynamoDB table names.
+ * @returns {Promise<Object|null>} - A 404 response if the target does not exist, or null.
+ */
+async function checkTarget({ target, shortname, version, key }, tables) {
+  const notFound = (message) => ({ statusCode: 404, body: JSON.stringify({ message }) });
+
+  if (version !== ANY) {
+    const result = await dynamoDB.get({ TableName: tables.versions, Key: { version } }).promise();
+    if (!result.Item) return notFound('Version not found');
+  }
+
+  if (target === 'shortname') {
+    const result = await dynamoDB.get({
+      TableName: tables.shortnameVersions,
+      Key: { shortnameVersionId: `${shortname}:${version}` }
+    }).promise();
+    if (!result.Item) return notFound(`Shortname ${shortname} not found in version ${version}`);
+  }
+
+  if (target === 'configuration') {
+    const configurations = await queryAll(dynamoDB, {
+      TableName: tables.configurations,
+      IndexName: 'ShortnameVersionIndex',
+      KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
+      FilterExpression: '#key = :key',
+      ExpressionAttributeNames: { '#key': 'key' },
+      ExpressionAttributeValues: { ':shortnameVersion': `${shortname}:${version}`, ':key': key }
+    });
+    if (configurations.length === 0) return notFound(`Configuration key ${key} not found`);
+  }
+
+  return null;
+}
+
+/**
+ * Find the users mentioned in a comment, as @ followed by their email.
+ * @param {string} body - The comment.
+ * @param {string} usersTable - The users DynamoDB table name.
+ * @returns {Promise<Object>} - The mentioned users, or a 400 response naming an unknown user.
+ */
+async function resolveMentions(body, usersTable) {
+  const emails = [...new Set([...body.matchAll(MENTION_PATTERN)].map(match => match[1]))];
+  if (emails.length > MAX_MENTIONS) {
+    return {
+      response: {
+        statusCode: 400,
+        body: JSON.stringify({ message: `A comment can mention at most ${MAX_MENTIONS} users` })
+      }
+    };
+  }
+
+  const mentions = [];
+  for (const email of emails) {
+    const result = await dynamoDB.query({
+      TableName: usersTable,
+      IndexName: 'EmailIndex',
+      KeyConditionExpression: 'email = :email',
+      ExpressionAttributeValues: { ':email': email }
+    }).promise();
+
+    const mentioned = (result.Items || [])[0];
+    if (!mentioned) {
+      return {
+        response: {
+          statusCode: 400,
+          body: JSON.stringify({ message: `Unknown user mentioned: @${email}` })
+        }
+      };
+    }
+
+    mentions.push({ userId: mentioned.userId, email: mentioned.email });
+  }
+
+  return { mentions };
+}
+
+/**
+ * Get the comments of a thread, oldest first.
+ * @param {Object} params - The target of the thread, as request parameters.
+ * @param {Object} tables - The DynamoDB table names.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getComments(params, tables) {
+  const { target, error } = readTarget(params);
+  if (error) {
+    return { statusCode: 400, body: JSON.stringify({ message: error }) };
+  }
+
+  try {
+    const threadId = getThreadId(target);
+    const [threadResult, comments] = await Promise.all([
+      dynamoDB.get({ TableName: tables.threads, Key: { threadId } }).promise(),
+      queryAll(dynamoDB, {
+        TableName: tables.comments,
+        IndexName: 'ThreadCreatedAtIndex',
+        KeyConditionExpression: 'threadId = :threadId',
+        ExpressionAttributeValues: { ':threadId': threadId }
+      })
+    ]);
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ thread: threadResult.Item || null, comments })
+    };
+  } catch (error) {
+    console.error('Error fetching comments:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch comments', error: error.message })
+    };
+  }
+}
+
+/**
+ * Add a comment to a thread. The thread counts its comments; the author has read the thread, and each
+ * mentioned user gets an unread mention.
+ * @param {Object} params - The target of the thread, as request parameters.
+ * @param {string} body - The comment.
+ * @param {Object} user - The decoded token of the author.
+ * @param {Object} tables - The DynamoDB table names.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function createComment(params, body, user, tables) {
+  const { target, error } = readTarget(params);
+  if (error) {
+    return { statusCode: 400, body: JSON.stringify({ message: error }) };
+  }
+
+  if (typeof body !== 'string' || !body.trim()) {
+    return { statusCode: 400, body: JSON.stringify({ message: 'Comment is required' }) };
+  }
+
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: `A comment can hold at most ${MAX_COMMENT_LENGTH} characters` })
+    };
+  }
+
+  try {
+    const missing = await checkTarget(target, tables);
+    if (missing) return missing;
+
+    const { mentions, response } = await resolveMentions(body, tables.users);
+    if (response) return response;
+
+    const now = new Date().toISOString();
+    const threadId = getThreadId(target);
+    const comment = {
+      commentId: generateId(),
+      threadId,
+      ...target,
+      body: body.trim(),
+      mentions,
+      createdBy: user.userId,
+      createdByEmail: user.email,
+      createdAt: now
+    };
+
+    const thread = toSetExpression({ ...target, lastCommentAt: now, lastCommentBy: user.userId, lastCommentByEmail: user.email });
+    await dynamoDB.transactWrite({
+      TransactItems: [
+        {
+          Put: {
+            TableName: tables.comments,
+            Item: comment,
+            ConditionExpression: 'attribute_not_exists(commentId)'
+          }
+        },
+        {
+          Update: {
+            TableName: tables.threads,
+            Key: { threadId },
+            UpdateExpression: `${thread.clause} ADD commentCount :one`,
+            ExpressionAttributeNames: thread.names,
+            ExpressionAttributeValues: { ...thread.values, ':one': 1 }
+          }
+        }
+      ]
+    }).promise();
+
+    await dynamoDB.update(buildReadUpdate(target, user.userId, { lastReadAt: now }, tables.reads)).promise();
+    for (const mention of mentions.filter(mentioned => mentioned.userId !== user.userId)) {
+      await dynamoDB.update(buildReadUpdate(target, mention.userId, {
+        lastMentionedAt: now,
+        mentionedBy: user.userId,
+        mentionedByEmail: user.email
+      }, tables.reads)).promise();
+    }
+
+    return {
+      statusCode: 201,
+      body: JSON.stringify(comment)
+    };
+  } catch (error) {
+    console.error('Error creating comment:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to create comment', error: error.message })
+    };
+  }
+}
+
+/**
+ * Delete a comment. Only its author and admins can delete a comment.
+ * @param {string} commentId - The comment ID.
+ * @param {Object} user - The decoded user token.
+ * @param {Object} tables - The DynamoDB table names.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function deleteComment(commentId, user, tables) {
+  try {
+    const result = await dynamoDB.get({ TableName: tables.comments, Key: { commentId } }).promise();
+    const comment = result.Item;
+    if (!comment) {
+      return { statusCode: 404, body: JSON.stringify({ message: 'Comment not found' }) };
+    }
+
+    if (comment.createdBy !== user.userId && !isAdmin(user)) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ message: 'Only the author of a comment or an admin can delete it' })
+      };
+    }
+
+    await dynamoDB.transactWrite({
+      TransactItems: [
+        {
+          Delete: {
+            TableName: tables.comments,
+            Key: { commentId },
+            ConditionExpression: 'attribute_exists(commentId)'
+          }
+        },
+        {
+          Update: {
+            TableName: tables.threads,
+            Key: { threadId: comment.threadId },
+            UpdateExpression: 'ADD commentCount :minusOne',
+            ExpressionAttributeValues: { ':minusOne': -1 }
+          }
+        }
+      ]
+    }).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: 'Comment deleted successfully' })
+    };
+  } catch (error) {
+    if (error.code === 'TransactionCanceledException') {
+      return { statusCode: 404, body: JSON.stringify({ message: 'Comment not found' }) };
+    }
+
+    console.error(`Error deleting comment ${commentId}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to delete comment', error: error.message })
+    };
+  }
+}
+
+/**
+ * Mark a thread as read by a user, which also clears an unread mention in it.
+ * @param {Object} params - The target of the thread, as request parameters.
+ * @param {Object} user - The decoded user token.
+ * @param {string} readsTable - The comment reads DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function markThreadRead(params, user, readsTable) {
+  const { target, error } = readTarget(params);
+  if (error) {
+    return { statusCode: 400, body: JSON.stringify({ message: error }) };
+  }
+
+  try {
+    const lastReadAt = new Date().toISOString();
+    await dynamoDB.update(buildReadUpdate(target, user.userId, { lastReadAt }, readsTable)).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ threadId: getThreadId(target), lastReadAt })
+    };
+  } catch (error) {
+    console.error('Error marking thread as read:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to mark thread as read', error: error.message })
+    };
+  }
+}
+
+/**
+ * Get the read state of every thread for a user.
+ * @param {string} userId - The user ID.
+ * @param {string} readsTable - The comment reads DynamoDB table name.
+ * @returns {Promise<Map<string, Object>>} - The read state items, by thread ID.
+ */
+async function getReadStates(userId, readsTable) {
+  const reads = await queryAll(dynamoDB, {
+    TableName: readsTable,
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: { ':userId': userId }
+  });
+  return new Map(reads.map(read => [read.threadId, read]));
+}
+
+/**
+ * Get the threads with comments about a kind of target, for the comment counts shown in tables. A thread is
+ * unread for a user when someone else commented since the user last read it.
+ * @param {Object} filters - The filters.
+ * @param {string} filters.target - What the threads discuss: version, shortname or configuration.
+ * @param {string} [filters.version] - Only the threads of a version, or "*" for the global defaults.
+ * @param {string} [filters.shortname] - Only the threads of a shortname, or "*" for the defaults.
+ * @param {Object} user - The decoded user token.
+ * @param {Object} tables - The DynamoDB table names.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getThreads({ target, version, shortname }, user, tables) {
+  if (!COMMENT_TARGETS.includes(target)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: `Target must be one of: ${COMMENT_TARGETS.join(', ')}` })
+    };
+  }
+
+  try {
+    // The threads of a version are queried by version, others by target; the key of the index cannot be filtered on
+    const filter = { ...(version ? { target } : {}), ...(shortname ? { shortname } : {}) };
+    const names = Object.keys(filter);
+    const threads = await queryAll(dynamoDB, {
+      TableName: tables.threads,
+      ...(version
+        ? { IndexName: 'VersionIndex', KeyConditionExpression: '#version = :version' }
+        : { IndexName: 'TargetIndex', KeyConditionExpression: '#target = :target' }),
+      FilterExpression: [...names.map(name => `#${name} = :${name}`), 'commentCount > :none'].join(' AND '),
+      ExpressionAttributeNames: {
+        ...Object.fromEntries(names.map(name => [`#${name}`, name])),
+        ...(version ? { '#version': 'version' } : { '#target': 'target' })
+      },
+      ExpressionAttributeValues: {
+        ...Object.fromEntries(names.map(name => [`:${name}`, filter[name]])),
+        ...(version ? { ':version': version } : { ':target': target }),
+        ':none': 0
+      }
+    });
+
+    const reads = await getReadStates(user.userId, tables.reads);
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        threads: threads.map(thread => {
+          const read = reads.get(thread.threadId);
+          const unread = thread.lastCommentBy !== user.userId && (!read || !read.lastReadAt || read.lastReadAt < thread.lastCommentAt);
+          return { ...thread, unread };
+        })
+      })
+    };
+  } catch (error) {
+    console.error('Error fetching comment threads:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch comment threads', error: error.message })
+    };
+  }
+}
+
+/**
+ * Get the threads a user was mentioned in and has not read since, newest mention first.
+ * @param {Object} user - The decoded user token.
+ * @param {string} readsTable - The comment reads DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getMentions(user, readsTable) {
+  try {
+    const reads = await getReadStates(user.userId, readsTable);
+    const mentions = [...reads.values()]
+      .filter(read => read.lastMentionedAt && (!read.lastReadAt || read.lastReadAt < read.lastMentionedAt))
+      .sort((a, b) => b.lastMentionedAt.localeCompare(a.lastMentionedAt));
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ mentions })
+    };
+  } catch (error) {
+    console.error('Error fetching mentions:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch mentions', error: error.message })
+    };
+  }
+}
+
+module.exports = {
+  getComments,
+  createComment,
+  deleteComment,
+  markThreadRead,
+  getThreads,
+  getMentions
+};
@@ -7,26 +7,151 @@
  * - GET /api/shortnames/{shortname}/versions/{version}/configurations/{configId} - Get a specific configuration
  * - PUT /api/shortnames/{shortname}/versions/{version}/configurations/{configId} - Update a configuration
  * - DELETE /api/shortnames/{shortname}/versions/{version}/configurations/{configId} - Delete a configuration
+ * - POST /api/shortnames/{shortname}/versions/{version}/configurations/{configId}/reveal - Reveal the value of a secret configuration
+ * - POST /api/shortnames/{shortname}/versions/{version}/configurations/{configId}/rename - Rename the key of a configuration
+ * - GET /api/shortnames/{shortname}/versions/{version}/configurations/{configId}/revisions - List the revisions of a configuration
+ * - POST /api/shortnames/{shortname}/versions/{version}/configurations/{configId}/revisions/{revision}/revert - Revert a configuration to a revision
+ * - GET|PUT|DELETE /api/shortnames/{shortname}/schema - Manage the JSON Schema of a shortname
+ * - GET|PUT|DELETE /api/shortnames/{shortname}/versions/{version}/schema - Manage the JSON Schema of a shortname and version
+ * - GET /api/shortnames/{shortname}/versions/{version}/configurations/resolved - Resolve configurations across layers
+ * - GET /api/versions/{version}/configurations?tags=a,b - Configurations of every shortname of a version, filtered by tags
+ * - GET /api/versions/{version}/diff/{otherVersion} - Compare two versions across every shortname
+ *
+ * The same configuration operations are available on the defaults layers:
+ * - /api/defaults/configurations[/{configId}[/reveal|/rename|/revisions]] - Global defaults
+ * - /api/versions/{version}/defaults/configurations[/{configId}[/reveal|/rename|/revisions]] - Defaults for every shortname of a version
+ *
+ * Deprecated keys apply to every shortname and version:
+ * - GET /api/deprecations - List deprecated keys
+ * - PUT|DELETE /api/deprecations/{key} - Deprecate a key with a replacement key and a sunset date, or undo it
+ * - GET /api/deprecations/report - List the shortnames and versions still using deprecated keys
+ *
+ * Changes to published versions go through change requests, reviewed by another user:
+ * - GET|POST /api/shortnames/{shortname}/versions/{version}/change-requests[?status=] - List or propose change requests
+ * - GET|POST /api/versions/{version}/defaults/change-requests[?status=] - The same, for the defaults of a version
+ * - GET|POST /api/defaults/change-requests[?status=] - The same, for the global defaults
+ * - GET /api/change-requests/{changeRequestId} - Get a change request
+ * - POST /api/change-requests/{changeRequestId}/approve - Approve a change request, applying its changes at once
+ * - POST /api/change-requests/{changeRequestId}/reject - Reject a change request
+ *
+ * Consumers read configurations without a user token:
+ * - GET /api/delivery/shortnames/{shortname}/versions/{version} - Public configurations, plus internal and
+ *   secret ones when the x-api-key header holds the internal API key, of published or deprecated versions only
+ * - GET /api/delivery/shortnames/{shortname}?clientId=... - The same, of the version the client gets from the
+ *   percentage rollout of the shortname; the client identifier can also be passed in the x-client-id header
+ *
+ * Configurations of published, deprecated and archived versions are immutable: writes return a 409.
+ * Published versions can still be changed through a change request: an editor proposes creates, updates and
+ * deletes of configurations with a comment, and a user with the change-request:approve permission other than
+ * the editor approves it, applying every change in one transaction, or rejects it.
+ * Global defaults are delivered by every published version that does not override them: writing a key one of them
+ * inherits returns a 409, and goes through a change request instead.
+ * Writes to a version locked for a release return a 423, unless the user can override version locks.
+ * Renaming a key snapshots every affected version first, so it can be undone by restoring the snapshots.
+ * Every write of a configuration is stored as a numbered revision; reverting to a revision writes a new one.
+ * Deleting a configuration moves it to the trash, from which it can be restored for the retention period.
+ * Every create, update and delete of a configuration is recorded in the audit table, with the user, the
+ * request ID and the configuration before and after the change (secret values left out).
+ *
+ * On reads, {version} can also be a channel name such as "stable", resolved to the version the channel points to,
+ * or "latest", "latest-stable" or a range such as "2.x", resolved to the highest matching published version
+ * (of the shortname, if any).
  */
 
 const { 
   verifyToken, 
+  resolveRolloutVersion,
+  checkVersionWritable,
+  checkGlobalDefaultsWritable,
   getAllConfigurations, 
   getConfiguration, 
+  getResolvedConfigurations,
+  getDeliveredConfigurations,
+  getVersionConfigurations,
+  getVersionDiff,
   createConfiguration, 
   updateConfiguration, 
-  deleteConfiguration 
+  deleteConfiguration,
+  revealConfiguration,
+  renameConfiguration,
+  getConfigurationRevisions,
+  revertConfiguration,
+  getConfigurationSchema,
+  putConfigurationSchema,
+  deleteConfigurationSchema,
+  getDeprecations,
+  putDeprecation,
+  deleteDeprecation,
+  getDeprecationReport,
+  createChangeRequest,
+  getChangeRequests,
+  getChangeRequest,
+  approveChangeRequest,
+  rejectChangeRequest
 } = require('./utils/index');
+const { ANY, getLayerScope } = require('./utils/layers');
+const { parseTags } = require('./utils/tags');
+const { canApproveChangeRequests } = require('./utils/changeRequests');
+const { isValidVersion, isVersionAlias, resolveVersion, parseRevision, createAuditContext, createTrashContext } = require('/opt/nodejs/layer-utils');
 
 const SECRET_KEY = process.env.SECRET_KEY;
 const SHORTNAMES_TABLE = process.env.SHORTNAMES_TABLE;
 const VERSIONS_TABLE = process.env.VERSIONS_TABLE;
+const SHORTNAME_VERSIONS_TABLE = process.env.SHORTNAME_VERSIONS_TABLE;
 const CONFIGURATIONS_TABLE = process.env.CONFIGURATIONS_TABLE;
+const SCHEMAS_TABLE = process.env.SCHEMAS_TABLE;
+const DEPRECATIONS_TABLE = process.env.DEPRECATIONS_TABLE;
+const CHANNELS_TABLE = process.env.CHANNELS_TABLE;
+const ROLLOUTS_TABLE = process.env.ROLLOUTS_TABLE;
+const SNAPSHOTS_TABLE = process.env.SNAPSHOTS_TABLE;
+const REVISIONS_TABLE = process.env.REVISIONS_TABLE;
+const CONFIG_BUCKET = process.env.CONFIG_BUCKET;
+const AUDIT_TABLE = process.env.AUDIT_TABLE;
+const TRASH_TABLE = process.env.TRASH_TABLE;
+const CHANGE_REQUESTS_TABLE = process.env.CHANGE_REQUESTS_TABLE;
+const DELIVERY_INTERNAL_API_KEY = process.env.DELIVERY_INTERNAL_API_KEY;
 
 exports.handler = async (event) => {
   console.log('Configuration Lambda triggered. Event:', JSON.stringify(event));
 
   try {
+    // Consumer reads are filtered by visibility tier instead of requiring a user token
+    if (event.requestContext.http.path.startsWith('/api/delivery/')) {
+      const { shortname } = event.pathParameters || {};
+      let { version } = event.pathParameters || {};
+      if (!shortname) {
+        return badRequestResponse('Shortname is required in the URL');
+      }
+
+      if (!version) {
+        // Without a version, the rollout of the shortname picks one from the client identifier
+        const clientId = (event.queryStringParameters || {}).clientId || event.headers['x-client-id'] || event.headers['X-Client-Id'];
+        if (!clientId) {
+          return badRequestResponse('A version in the URL or a client identifier is required');
+        }
+
+        const rollout = await resolveRolloutVersion(shortname, clientId, ROLLOUTS_TABLE);
+        if (rollout.response) {
+          return rollout.response;
+        }
+        version = rollout.version;
+      } else if (!isValidVersion(version)) {
+        const resolved = await resolveVersion(version, VERSIONS_TABLE, CHANNELS_TABLE, shortname, SHORTNAME_VERSIONS_TABLE);
+        if (resolved.response) {
+          return resolved.response;
+        }
+        version = resolved.version;
+      }
+
+      const apiKey = event.headers['x-api-key'] || event.headers['X-Api-Key'];
+      const isInternal = Boolean(DELIVERY_INTERNAL_API_KEY) && apiKey === DELIVERY_INTERNAL_API_KEY;
+      if (apiKey && !isInternal) {
+        return unauthorizedResponse('Invalid API key');
+      }
+
+      return await getDeliveredConfigurations(shortname, version, isInternal, CONFIGURATIONS_TABLE, VERSIONS_TABLE);
+    }
+
     // Extract authorization token
     const authHeader = event.headers.Authorization || event.headers.authorization;
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -50,23 +175,253 @@ exports.handler = async (event) => {
     const { userId } = decodedToken;
     console.log('Decoded token:', decodedToken);
 
+    // Writes to configurations are recorded in the audit table
+    const audit = createAuditContext(event, decodedToken, AUDIT_TABLE);
+    // Deleted configurations are moved to the trash
+    const trash = createTrashContext(decodedToken, TRASH_TABLE);
+
     // Handle different HTTP methods
     const httpMethod = event.requestContext.http.method;
+    const path = event.requestContext.http.path;
     const pathParams = event.pathParameters || {};
-    const shortname = pathParams.shortname;
-    const version = pathParams.version;
     const configId = pathParams.configId;
 
+    // Handle deprecation routes, which are not attached to a shortname or version
+    if (path.startsWith('/api/deprecations')) {
+      if (path === '/api/deprecations/report' && httpMethod === 'GET') {
+        const queryParams = event.queryStringParameters || {};
+        return await getDeprecationReport(queryParams.pastSunset === 'true', DEPRECATIONS_TABLE, CONFIGURATIONS_TABLE);
+      }
+
+      const deprecatedKey = pathParams.key;
+      switch (httpMethod) {
+        case 'GET':
+          return await getDeprecations(DEPRECATIONS_TABLE);
+
+        case 'PUT':
+          if (!deprecatedKey) {
+            return badRequestResponse('Key is required in the URL');
+          }
+
+          const deprecationBody = JSON.parse(event.body || '{}');
+          return await putDeprecation(
+            deprecatedKey,
+            {
+              sunsetDate: deprecationBody.sunsetDate,
+              replacementKey: deprecationBody.replacementKey,
+              reason: deprecationBody.reason
+            },
+            userId,
+            DEPRECATIONS_TABLE
+          );
+
+        case 'DELETE':
+          if (!deprecatedKey) {
+            return badRequestResponse('Key is required in the URL');
+          }
+
+          return await deleteDeprecation(deprecatedKey, DEPRECATIONS_TABLE);
+
+        default:
+          return {
+            statusCode: 405,
+            body: JSON.stringify({ message: 'Method not allowed' })
+          };
+      }
+    }
+
+    // Handle the review of change requests, which are found by their ID
+    if (path.startsWith('/api/change-requests/')) {
+      const changeRequestId = pathParams.changeRequestId;
+      if (httpMethod === 'GET') {
+        return await getChangeRequest(changeRequestId, CHANGE_REQUESTS_TABLE);
+      }
+
+      if (httpMethod === 'POST' && (path.endsWith('/approve') || path.endsWith('/reject'))) {
+        if (!canApproveChangeRequests(decodedToken)) {
+          return {
+            statusCode: 403,
+            body: JSON.stringify({ message: 'You do not have permission to review change requests' })
+          };
+        }
+
+        const reviewBody = JSON.parse(event.body || '{}');
+        if (path.endsWith('/reject')) {
+          return await rejectChangeRequest(changeRequestId, reviewBody.comment, decodedToken, CHANGE_REQUESTS_TABLE);
+        }
+
+        return await approveChangeRequest(
+          changeRequestId,
+          reviewBody.comment,
+          decodedToken,
+          VERSIONS_TABLE,
+          SHORTNAME_VERSIONS_TABLE,
+          CONFIGURATIONS_TABLE,
+          SCHEMAS_TABLE,
+          REVISIONS_TABLE,
+          CHANGE_REQUESTS_TABLE,
+          trash,
+          audit
+        );
+      }
+
+      return {
+        statusCode: 405,
+        body: JSON.stringify({ message: 'Method not allowed' })
+      };
+    }
+
+    // Channels such as "stable" and aliases such as "latest" or "2.x" resolve to a version on reads
+    let requestedVersion = pathParams.version;
+    if (requestedVersion && isVersionAlias(requestedVersion) && httpMethod !== 'GET') {
+      return badRequestResponse(`Version alias "${requestedVersion}" can only be used to read configurations`);
+    }
+
+    if (requestedVersion && httpMethod === 'GET' && !isValidVersion(requestedVersion)) {
+      const resolved = await resolveVersion(requestedVersion, VERSIONS_TABLE, CHANNELS_TABLE, pathParams.shortname, SHORTNAME_VERSIONS_TABLE);
+      if (resolved.response) {
+        return resolved.response;
+      }
+      requestedVersion = resolved.version;
+    }
+
+    // Configurations of every shortname of a version, e.g. to find those tagged with a feature area
+    if (httpMethod === 'GET' && path === `/api/versions/${pathParams.version}/configurations`) {
+      const queryParams = event.queryStringParameters || {};
+      return await getVersionConfigurations(requestedVersion, parseTags(queryParams.tags), CONFIGURATIONS_TABLE);
+    }
+
+    // Shortnames, keys and values that differ between two versions
+    if (httpMethod === 'GET' && path === `/api/versions/${pathParams.version}/diff/${pathParams.otherVersion}`) {
+      let otherVersion = pathParams.otherVersion;
+      if (!isValidVersion(otherVersion)) {
+        const resolved = await resolveVersion(otherVersion, VERSIONS_TABLE, CHANNELS_TABLE);
+        if (resolved.response) {
+          return resolved.response;
+        }
+        otherVersion = resolved.version;
+      }
+
+      return await getVersionDiff(requestedVersion, otherVersion, VERSIONS_TABLE, SHORTNAME_VERSIONS_TABLE, CONFIGURATIONS_TABLE);
+    }
+
+    // Defaults layers are stored under a wildcard shortname and version
+    const layer = path.startsWith('/api/defaults/')
+      ? 'global'
+      : path.startsWith('/api/versions/') ? 'version' : 'shortname';
+    const { shortname, version } = getLayerScope(layer, pathParams.shortname, requestedVersion);
+
     if (!shortname) {
       return badRequestResponse('Shortname is required in the URL');
     }
 
+    // Published and locked versions are immutable; revealing a secret is a read, renames check every version they
+    // touch, and change requests are proposed to published versions precisely because they cannot be written
+    if (httpMethod !== 'GET' && version && version !== ANY && !path.endsWith('/reveal') && !path.endsWith('/rename') && !path.endsWith('/change-requests')) {
+      const lockedResponse = await checkVersionWritable(version, decodedToken, VERSIONS_TABLE);
+      if (lockedResponse) {
+        return lockedResponse;
+      }
+    }
+
+    // Every version inherits the global defaults it does not override, published ones included; renames check the
+    // global defaults they touch themselves
+    if (layer === 'global' && httpMethod !== 'GET' && !path.endsWith('/reveal') && !path.endsWith('/rename') && !path.endsWith('/change-requests')) {
+      const createdKey = httpMethod === 'POST' && !configId ? JSON.parse(event.body || '{}').key : undefined;
+      const inheritedResponse = await checkGlobalDefaultsWritable(
+        [createdKey],
+        decodedToken,
+        { configId },
+        VERSIONS_TABLE,
+        SHORTNAME_VERSIONS_TABLE,
+        CONFIGURATIONS_TABLE
+      );
+      if (inheritedResponse) {
+        return inheritedResponse;
+      }
+    }
+
+    // Handle schema routes, attached to a shortname or to a shortname and version
+    if (path.endsWith('/schema')) {
+      switch (httpMethod) {
+        case 'GET':
+          return await getConfigurationSchema(shortname, version, SCHEMAS_TABLE, CONFIGURATIONS_TABLE);
+
+        case 'PUT':
+          const schemaBody = JSON.parse(event.body || '{}');
+          if (!schemaBody.schema) {
+            return badRequestResponse('Schema is required');
+          }
+
+          return await putConfigurationSchema(
+            shortname,
+            version,
+            schemaBody.schema,
+            userId,
+            SCHEMAS_TABLE,
+            CONFIGURATIONS_TABLE,
+            SHORTNAME_VERSIONS_TABLE
+          );
+
+        case 'DELETE':
+          return await deleteConfigurationSchema(shortname, version, SCHEMAS_TABLE);
+
+        default:
+          return {
+            statusCode: 405,
+            body: JSON.stringify({ message: 'Method not allowed' })
+          };
+      }
+    }
+
     if (!version) {
       return badRequestResponse('Version is required in the URL');
     }
 
+    // Handle change request routes, attached to a shortname and version or to the defaults of a version
+    if (path.endsWith('/change-requests')) {
+      switch (httpMethod) {
+        case 'GET':
+          const queryParams = event.queryStringParameters || {};
+          return await getChangeRequests(shortname, version, queryParams.status, CHANGE_REQUESTS_TABLE);
+
+        case 'POST':
+          const changeRequestBody = JSON.parse(event.body || '{}');
+          if (typeof changeRequestBody.comment !== 'string' || !changeRequestBody.comment.trim()) {
+            return badRequestResponse('Comment is required');
+          }
+
+          return await createChangeRequest(
+            shortname,
+            version,
+            { comment: changeRequestBody.comment.trim(), changes: changeRequestBody.changes },
+            decodedToken,
+            VERSIONS_TABLE,
+            CONFIGURATIONS_TABLE,
+            SCHEMAS_TABLE,
+            CHANGE_REQUESTS_TABLE
+          );
+
+        default:
+          return {
+            statusCode: 405,
+            body: JSON.stringify({ message: 'Method not allowed' })
+          };
+      }
+    }
+
+    // Resolve configurations across the defaults and overrides layers
+    if (layer === 'shortname' && httpMethod === 'GET' && path.endsWith('/configurations/resolved')) {
+      return await getResolvedConfigurations(shortname, version, CONFIGURATIONS_TABLE);
+    }
+
     switch (httpMethod) {
       case 'GET':
+        if (configId && path.endsWith('/revisions')) {
+          // List the revisions of a configuration
+          return await getConfigurationRevisions(shortname, version, configId, CONFIGURATIONS_TABLE, REVISIONS_TABLE);
+        }
+
         if (configId) {
           // Get specific configuration
           return await getConfiguration(shortname, version, configId, CONFIGURATIONS_TABLE);
@@ -76,6 +431,61 @@ exports.handler = async (event) => {
         }
 
       case 'POST':
+        // Reveal a secret value
+        if (configId && path.endsWith('/reveal')) {
+          return await revealConfiguration(shortname, version, configId, CONFIGURATIONS_TABLE, audit);
+        }
+
+        // Rename a key, optionally in every shortname and version that has it
+        if (configId && path.endsWith('/rename')) {
+          const renameBody = JSON.parse(event.body || '{}');
+          if (!renameBody.newKey) {
+            return badRequestResponse('New key is required');
+          }
+
+          return await renameConfiguration(
+            shortname,
+            version,
+            configId,
+            {
+              newKey: renameBody.newKey,
+              allScopes: Boolean(renameBody.allScopes),
+              dryRun: Boolean(renameBody.dryRun)
+            },
+            decodedToken,
+            CONFIGURATIONS_TABLE,
+            SCHEMAS_TABLE,
+            VERSIONS_TABLE,
+            REVISIONS_TABLE,
+            {
+              snapshotsTable: SNAPSHOTS_TABLE,
+              shortnameVersionsTable: SHORTNAME_VERSIONS_TABLE,
+              bucket: CONFIG_BUCKET
+            },
+            audit
+          );
+        }
+
+        // Revert to a revision, stored as a new revision
+        if (configId && path.endsWith('/revert')) {
+          const revision = parseRevision(pathParams.revision);
+          if (!revision) {
+            return badRequestResponse('Revision must be a positive whole number');
+          }
+
+          return await revertConfiguration(
+            shortname,
+            version,
+            configId,
+            revision,
+            userId,
+            CONFIGURATIONS_TABLE,
+            SCHEMAS_TABLE,
+            REVISIONS_TABLE,
+            audit
+          );
+        }
+
         // Create new configuration
         if (configId) {
           return badRequestResponse('ConfigId should not be provided in the URL for POST requests');
@@ -89,13 +499,24 @@ exports.handler = async (event) => {
         return await createConfiguration(
           shortname, 
           version, 
-          createBody.key,
-          createBody.value,
+          {
+            key: createBody.key,
+            value: createBody.value,
+            description: createBody.description || '',
+            valueType: createBody.valueType,
+            enumOptions: createBody.enumOptions,
+            visibility: createBody.visibility,
+            secret: Boolean(createBody.secret),
+            tags: createBody.tags
+          },
           userId, 
-          createBody.description || '', 
           SHORTNAMES_TABLE,
           VERSIONS_TABLE,
-          CONFIGURATIONS_TABLE
+          CONFIGURATIONS_TABLE,
+          SCHEMAS_TABLE,
+          DEPRECATIONS_TABLE,
+          REVISIONS_TABLE,
+          audit
         );
 
       case 'PUT':
@@ -109,9 +530,20 @@ exports.handler = async (event) => {
           shortname, 
           version, 
           configId, 
-          updateBody.value,
-          updateBody.description,
-          CONFIGURATIONS_TABLE
+          {
+            value: updateBody.value,
+            description: updateBody.description,
+            valueType: updateBody.valueType,
+            enumOptions: updateBody.enumOptions,
+            visibility: updateBody.visibility,
+            secret: updateBody.secret,
+            tags: updateBody.tags
+          },
+          userId,
+          CONFIGURATIONS_TABLE,
+          SCHEMAS_TABLE,
+          REVISIONS_TABLE,
+          audit
         );
 
       case 'DELETE':
@@ -120,7 +552,7 @@ exports.handler = async (event) => {
           return badRequestResponse('ConfigId is required in the URL');
         }
 
-        return await deleteConfiguration(shortname, version, configId, CONFIGURATIONS_TABLE);
+        return await deleteConfiguration(shortname, version, configId, CONFIGURATIONS_TABLE, SCHEMAS_TABLE, trash, audit);
 
       default:
         return {
@@ -0,0 +1,115 @@
+/**
+ * Change requests to the configurations of published versions.
+ *
+ * Configurations of a published version cannot be written directly. Instead, an editor proposes a set of
+ * changes (creates, updates and deletes of configurations of one scope) with a comment, and another user
+ * holding the approve permission reviews them. Approving a change request applies all of its changes at
+ * once; rejecting it leaves the configurations as they are.
+ */
+
+const { PERMISSIONS, hasPermission } = require('/opt/nodejs/layer-utils');
+
+const CHANGE_REQUEST_STATUSES = ['pending', 'applied', 'rejected'];
+const CHANGE_ACTIONS = ['create', 'update', 'delete'];
+// Attributes of a configuration a change may set
+const CHANGE_ATTRIBUTES = ['value', 'description', 'valueType', 'enumOptions', 'visibility', 'tags'];
+// Changes are applied in a single transaction, which holds up to 100 items: each change writes up to three
+// items (the configuration and its revisions, or the configuration and its trash items), plus the change request
+const MAX_CHANGES = 25;
+
+/**
+ * Check whether a user can approve or reject change requests.
+ * @param {Object} user - The decoded user token.
+ * @returns {boolean} - Whether the user holds the approve permission.
+ */
+function canApproveChangeRequests(user) {
+  return hasPermission(user, PERMISSIONS.CHANGE_REQUEST_APPROVE);
+}
+
+/**
+ * Read the changes proposed in a change request, keeping only the attributes a change may set.
+ * @param {any} changes - The requested changes.
+ * @returns {Object} - The changes, or an error message.
+ */
+function readChanges(changes) {
+  if (!Array.isArray(changes) || changes.length === 0) {
+    return { error: 'At least one change is required' };
+  }
+
+  if (changes.length > MAX_CHANGES) {
+    return { error: `A change request can hold at most ${MAX_CHANGES} changes` };
+  }
+
+  const read = [];
+  for (const [index, change] of changes.entries()) {
+    const label = `Change ${index + 1}`;
+    if (!change || typeof change !== 'object' || !CHANGE_ACTIONS.includes(change.action)) {
+      return { error: `${label}: action must be one of: ${CHANGE_ACTIONS.join(', ')}` };
+    }
+
+    if (change.action === 'create' && (typeof change.key !== 'string' || !change.key)) {
+      return { error: `${label}: key is required` };
+    }
+
+    if (change.action !== 'create' && (typeof change.configId !== 'string' || !change.configId)) {
+      return { error: `${label}: configId is required` };
+    }
+
+    const attributes = {};
+    if (change.action !== 'delete') {
+      for (const attribute of CHANGE_ATTRIBUTES) {
+        if (change[attribute] !== undefined) {
+          attributes[attribute] = change[attribute];
+        }
+      }
+
+      if (change.action === 'update' && Object.keys(attributes).length === 0) {
+        return { error: `${label}: an update must change at least one attribute` };
+      }
+    }
+
+    read.push({
+      action: change.action,
+      ...(change.action === 'create' ? { key: change.key } : { configId: change.configId }),
+      ...attributes
+    });
+  }
+
+  return { changes: read };
+}
+
+/**
+ * Prepare a change request for a response. Proposed secret values are stored encrypted and never returned.
+ * @param {Object} item - The change request item.
+ * @returns {Object} - The change request as returned by the API.
+ */
+function toChangeRequestResponse(item) {
+  return {
+    ...item,
+    changes: item.changes.map(({ encryptedValue, ...change }) => (encryptedValue ? { ...change, value: null } : change))
+  };
+}
+
+/**
+ * Prefix the message of an error response with the change it was raised for.
+ * @param {number} index - The index of the change in the change request.
+ * @param {Object} response - The error response.
+ * @returns {Object} - The response, its body also holding the number of the change.
+ */
+function toChangeResponse(index, response) {
+  const body = JSON.parse(response.body);
+  return {
+    ...response,
+    body: JSON.stringify({ ...body, message: `Change ${index + 1}: ${body.message}`, change: index + 1 })
+  };
+}
+
+module.exports = {
+  CHANGE_REQUEST_STATUSES,
+  CHANGE_ACTIONS,
+  MAX_CHANGES,
+  canApproveChangeRequests,
+  readChanges,
+  toChangeRequestResponse,
+  toChangeResponse
+};
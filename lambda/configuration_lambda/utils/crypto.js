@@ -0,0 +1,123 @@
+/**
+ * Encryption of secret configuration values.
+ *
+ * Values are encrypted with AES-256-GCM. The data key comes from a key provider:
+ * - the KMS provider generates a data key per value and stores it encrypted
+ *   with the KMS key next to the ciphertext (envelope encryption);
+ * - the local provider uses a single key from the environment and is meant for
+ *   tests and local development.
+ */
+
+const crypto = require('crypto');
+const AWS = require('aws-sdk');
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+/**
+ * Create a key provider backed by a local 256-bit key.
+ * @param {string} key - The base64-encoded key.
+ * @returns {Object} - The key provider.
+ */
+function createLocalKeyProvider(key) {
+  const dataKey = Buffer.from(key, 'base64');
+  if (dataKey.length !== 32) {
+    throw new Error('The local encryption key must be 32 bytes, base64-encoded');
+  }
+
+  return {
+    name: 'local',
+    generateDataKey: async () => ({ plaintext: dataKey, encrypted: null }),
+    decryptDataKey: async () => dataKey
+  };
+}
+
+/**
+ * Create a key provider backed by an AWS KMS key.
+ * @param {string} keyId - The KMS key ID or ARN.
+ * @param {Object} [kms] - The KMS client.
+ * @returns {Object} - The key provider.
+ */
+function createKmsKeyProvider(keyId, kms = new AWS.KMS()) {
+  return {
+    name: 'kms',
+    generateDataKey: async () => {
+      const result = await kms.generateDataKey({ KeyId: keyId, KeySpec: 'AES_256' }).promise();
+      return { plaintext: result.Plaintext, encrypted: result.CiphertextBlob.toString('base64') };
+    },
+    decryptDataKey: async (encrypted) => {
+      const result = await kms.decrypt({ CiphertextBlob: Buffer.from(encrypted, 'base64') }).promise();
+      return result.Plaintext;
+    }
+  };
+}
+
+/**
+ * Get the key provider configured through the environment.
+ * CONFIG_KMS_KEY_ID selects the KMS provider, CONFIG_ENCRYPTION_KEY the local one.
+ * @returns {Object} - The key provider.
+ * @throws {Error} - If no key provider is configured.
+ */
+function getKeyProvider() {
+  if (process.env.CONFIG_KMS_KEY_ID) {
+    return createKmsKeyProvider(process.env.CONFIG_KMS_KEY_ID);
+  }
+
+  if (process.env.CONFIG_ENCRYPTION_KEY) {
+    return createLocalKeyProvider(process.env.CONFIG_ENCRYPTION_KEY);
+  }
+
+  throw new Error('No encryption key is configured for secret values');
+}
+
+/**
+ * Encrypt a configuration value.
+ * @param {any} value - The value, serialized as JSON before encryption.
+ * @param {Object} keyProvider - The key provider.
+ * @returns {Promise<Object>} - The encrypted value, safe to store.
+ */
+async function encryptValue(value, keyProvider) {
+  const { plaintext, encrypted } = await keyProvider.generateDataKey();
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, plaintext, iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), 'utf8'), cipher.final()]);
+
+  const encryptedValue = {
+    provider: keyProvider.name,
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    ciphertext: ciphertext.toString('base64')
+  };
+
+  if (encrypted) {
+    encryptedValue.encryptedKey = encrypted;
+  }
+
+  return encryptedValue;
+}
+
+/**
+ * Decrypt a value encrypted with encryptValue.
+ * @param {Object} encryptedValue - The encrypted value.
+ * @param {Object} keyProvider - The key provider.
+ * @returns {Promise<any>} - The original value.
+ */
+async function decryptValue(encryptedValue, keyProvider) {
+  const dataKey = await keyProvider.decryptDataKey(encryptedValue.encryptedKey);
+  const decipher = crypto.createDecipheriv(ALGORITHM, dataKey, Buffer.from(encryptedValue.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(encryptedValue.tag, 'base64'));
+  const plaintext = Buffer.concat([
+    decipher.update(Buffer.from(encryptedValue.ciphertext, 'base64')),
+    decipher.final()
+  ]);
+
+  return JSON.parse(plaintext.toString('utf8'));
+}
+
+module.exports = {
+  createLocalKeyProvider,
+  createKmsKeyProvider,
+  getKeyProvider,
+  encryptValue,
+  decryptValue
+};
@@ -1,9 +1,40 @@
 const AWS = require('aws-sdk');
 const jwt = require('jsonwebtoken');
 const { v4: uuidv4 } = require('uuid');
+const {
+  getVersionStatus,
+  isWritableStatus,
+  isDeliverableStatus,
+  getEffectiveItems,
+  diffVersions,
+  createSnapshot,
+  getVersionLock,
+  canOverrideVersionLock,
+  versionLockResponse,
+  checkVersionLock,
+  selectRolloutVersion,
+  recordAudit,
+  queryAll,
+  moveToTrash,
+  buildTrashItems,
+  toRevision,
+  toInitialRevision,
+  putRevision
+} = require('/opt/nodejs/layer-utils');
+const { DEFAULT_VALUE_TYPE, validateValueType } = require('./valueTypes');
+const { validateSchemaDocument, validateConfiguration, findMissingRequiredKeys } = require('./jsonSchema');
+const { getKeyProvider, encryptValue, decryptValue } = require('./crypto');
+const { ANY, getLayerChain, resolveLayers } = require('./layers');
+const { findReferences, resolveReferences, renameReferences, resolveValue } = require('./interpolation');
+const { normalizeTags, validateTags } = require('./tags');
+const { DEFAULT_VISIBILITY, VISIBILITY_TIERS, isValidVisibility, getVisibility, getRequestedVisibility, getReadableTiers } = require('./visibility');
+const { CHANGE_REQUEST_STATUSES, readChanges, toChangeRequestResponse, toChangeResponse } = require('./changeRequests');
 
 const dynamoDB = new AWS.DynamoDB.DocumentClient();
 
+// Items a DynamoDB transaction can write at once
+const MAX_TRANSACTION_ITEMS = 100;
+
 /**
  * Verify a JWT token.
  * @param {string} token - The JWT token.
@@ -23,6 +54,308 @@ function verifyToken(token, secretKey) {
   }
 }
 
+/**
+ * Prepare a configuration item for a response. Secret values are never returned,
+ * neither in plaintext nor encrypted.
+ * @param {Object} item - The configuration item.
+ * @returns {Object} - The configuration as returned by the API.
+ */
+function toResponseItem(item) {
+  const visibility = getVisibility(item);
+  if (!item.secret) {
+    return { ...item, visibility };
+  }
+
+  const { encryptedValue, ...rest } = item;
+  return { ...rest, visibility, value: null };
+}
+
+/**
+ * Normalize and validate the tags of a write.
+ * @param {any} tags - The requested tags.
+ * @returns {Object} - The normalized tags, or a 400 response.
+ */
+function readTags(tags) {
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    return { response: { statusCode: 400, body: JSON.stringify({ message: 'Tags must be an array of strings' }) } };
+  }
+
+  const normalized = normalizeTags(tags);
+  const tagsError = validateTags(normalized);
+  if (tagsError) {
+    return { response: { statusCode: 400, body: JSON.stringify({ message: tagsError }) } };
+  }
+
+  return { tags: normalized };
+}
+
+/**
+ * Resolve the version a client gets from the percentage rollout of a shortname. The assignment is sticky,
+ * based on a hash of the client identifier.
+ * @param {string} shortname - The shortname.
+ * @param {string} clientId - The client identifier.
+ * @param {string} rolloutsTable - The rollouts DynamoDB table name.
+ * @returns {Promise<Object>} - The resolved version, or a 404 response.
+ */
+async function resolveRolloutVersion(shortname, clientId, rolloutsTable) {
+  const result = await dynamoDB.get({ TableName: rolloutsTable, Key: { shortname } }).promise();
+  if (!result.Item) {
+    return {
+      response: {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No rollout configured for shortname ${shortname}` })
+      }
+    };
+  }
+
+  return { version: selectRolloutVersion(result.Item, clientId).version };
+}
+
+/**
+ * Find the versions, among the given ones, whose configurations are immutable because they were published.
+ * The wildcard version of the global defaults is not part of the version lifecycle.
+ * @param {Array<string>} versions - The versions.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @returns {Promise<Array<Object>>} - The locked versions and their status.
+ */
+async function findLockedVersions(versions, versionsTable) {
+  const locked = [];
+  for (const version of new Set(versions.filter(version => version !== ANY))) {
+    const result = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (result.Item && !isWritableStatus(getVersionStatus(result.Item))) {
+      locked.push({ version, status: getVersionStatus(result.Item) });
+    }
+  }
+
+  return locked;
+}
+
+/**
+ * Find the versions, among the given ones, locked for a release against the writes of a user.
+ * @param {Array<string>} versions - The versions.
+ * @param {Object} user - The decoded user token.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @returns {Promise<Array<Object>>} - The versions locked for the user and their lock.
+ */
+async function findReleaseLockedVersions(versions, user, versionsTable) {
+  if (canOverrideVersionLock(user)) {
+    return [];
+  }
+
+  const locked = [];
+  for (const version of new Set(versions.filter(version => version !== ANY))) {
+    const result = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    const lock = getVersionLock(result.Item);
+    if (lock) {
+      locked.push({ version, lock });
+    }
+  }
+
+  return locked;
+}
+
+/**
+ * Check that the configurations of a version can be written by a user.
+ * @param {string} version - The version.
+ * @param {Object} user - The decoded user token.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @returns {Promise<Object|null>} - A 409 response if the version is immutable, a 423 response if it is
+ *   locked for a release, or null.
+ */
+async function checkVersionWritable(version, user, versionsTable) {
+  const result = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+  if (!result.Item) {
+    return null;
+  }
+
+  const status = getVersionStatus(result.Item);
+  if (!isWritableStatus(status)) {
+    return {
+      statusCode: 409,
+      body: JSON.stringify({
+        message: `Version ${version} is ${status} and its configurations can no longer be modified`,
+        status
+      })
+    };
+  }
+
+  return checkVersionLock(result.Item, user);
+}
+
+/**
+ * Find the versions delivered to consumers or locked for a release that inherit keys of the global defaults:
+ * versions whose defaults do not override a key, unless every shortname of the version does.
+ * @param {Array<string>} keys - The keys of the global defaults.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Array<Object>>} - The version items inheriting at least one of the keys.
+ */
+async function findInheritingVersions(keys, versionsTable, shortnameVersionsTable, configurationsTable) {
+  const versionsResult = await dynamoDB.scan({ TableName: versionsTable }).promise();
+  const candidates = (versionsResult.Items || [])
+    .filter(item => isDeliverableStatus(getVersionStatus(item)) || getVersionLock(item));
+
+  const inheriting = [];
+  for (const item of candidates) {
+    const versionDefaults = new Set((await queryConfigurations(ANY, item.version, configurationsTable)).map(config => config.key));
+    const inheritedKeys = keys.filter(key => !versionDefaults.has(key));
+    if (inheritedKeys.length === 0) continue;
+
+    // Consumers are served the global defaults of any shortname without an override
+    const shortnameVersions = await queryAll(dynamoDB, {
+      TableName: shortnameVersionsTable,
+      IndexName: 'VersionIndex',
+      KeyConditionExpression: 'version = :version',
+      ExpressionAttributeValues: { ':version': item.version }
+    });
+    let overridden = shortnameVersions.length > 0;
+    for (const { shortname } of shortnameVersions) {
+      const overrides = new Set((await queryConfigurations(shortname, item.version, configurationsTable)).map(config => config.key));
+      if (!inheritedKeys.every(key => overrides.has(key))) {
+        overridden = false;
+        break;
+      }
+    }
+
+    if (!overridden) {
+      inheriting.push(item);
+    }
+  }
+
+  return inheriting;
+}
+
+/**
+ * Check that keys of the global defaults can be written by a user. Published and deprecated versions deliver the
+ * global defaults they do not override, so such keys only change through an approved change request.
+ * @param {Array<string>} keys - The keys of the global defaults the write changes.
+ * @param {Object} user - The decoded user token.
+ * @param {Object} options - What the write is.
+ * @param {string} [options.configId] - A configuration of the global defaults the write changes, whose key is
+ *   checked too.
+ * @param {boolean} [options.changeRequest=false] - Whether the write applies an approved change request, which only
+ *   checks release locks.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Object|null>} - A 409 response if a delivered version inherits a key, a 423 response if a version
+ *   locked for a release does, or null.
+ */
+async function checkGlobalDefaultsWritable(keys, user, options, versionsTable, shortnameVersionsTable, configurationsTable) {
+  if (options.configId) {
+    const existingResult = await dynamoDB.get({ TableName: configurationsTable, Key: { configId: options.configId } }).promise();
+    if (existingResult.Item && existingResult.Item.shortnameVersion === `${ANY}:${ANY}`) {
+      keys = [...keys, existingResult.Item.key];
+    }
+  }
+
+  keys = [...new Set(keys.filter(Boolean))];
+  if (keys.length === 0) {
+    return null;
+  }
+
+  const inheriting = await findInheritingVersions(keys, versionsTable, shortnameVersionsTable, configurationsTable);
+
+  const delivered = inheriting.filter(item => isDeliverableStatus(getVersionStatus(item)));
+  if (!options.changeRequest && delivered.length > 0) {
+    const versions = delivered.map(item => ({ version: item.version, status: getVersionStatus(item) }));
+    return {
+      statusCode: 409,
+      body: JSON.stringify({
+        message: `${keys.join(', ')} ${keys.length === 1 ? 'is' : 'are'} inherited from the global defaults by versions that can no longer be modified: ${versions.map(item => `${item.version} (${item.status})`).join(', ')}. Propose the change in a change request instead`,
+        versions
+      })
+    };
+  }
+
+  const locked = inheriting.find(item => getVersionLock(item));
+  return locked ? checkVersionLock(locked, user) : null;
+}
+
+/**
+ * Build the 400 response returned for an unsupported visibility tier.
+ * @returns {Object} - The response object.
+ */
+function invalidVisibilityResponse() {
+  return {
+    statusCode: 400,
+    body: JSON.stringify({ message: `Visibility must be one of: ${VISIBILITY_TIERS.join(', ')}` })
+  };
+}
+
+/**
+ * Read the value of a configuration item, decrypting it if it is a secret.
+ * @param {Object} item - The configuration item.
+ * @returns {Promise<any>} - The configuration value.
+ */
+async function readValue(item) {
+  return item.secret ? decryptValue(item.encryptedValue, getKeyProvider()) : item.value;
+}
+
+/**
+ * Build the transaction items writing a configuration along with its next revision, unless it changed since it
+ * was read. The next revision follows the latest stored one. Configurations written before revisions were stored
+ * get their state as read stored as revision 1 first.
+ * @param {Object} existing - The configuration item as read.
+ * @param {Object} changes - The attributes to set; attributes set to undefined are removed.
+ * @param {string} userId - The user ID making the write.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @param {number} [revertedFrom] - The revision the write reverts to, if any.
+ * @returns {Promise<Object>} - The configuration item as it will be written, and the transaction items.
+ */
+async function buildConfigurationRevision(existing, changes, userId, configurationsTable, revisionsTable, revertedFrom) {
+  const latestResult = await dynamoDB.query({
+    TableName: revisionsTable,
+    KeyConditionExpression: 'configId = :configId',
+    ExpressionAttributeValues: { ':configId': existing.configId },
+    ScanIndexForward: false,
+    Limit: 1
+  }).promise();
+  const [latest] = latestResult.Items || [];
+  const revision = latest ? latest.revision + 1 : 2;
+
+  const timestamp = new Date().toISOString();
+  const updated = { ...existing, ...changes, revision, updatedAt: timestamp };
+  for (const attribute of Object.keys(updated)) {
+    if (updated[attribute] === undefined) delete updated[attribute];
+  }
+
+  return {
+    updated,
+    transactItems: [
+      {
+        Put: {
+          TableName: configurationsTable,
+          Item: updated,
+          ConditionExpression: 'updatedAt = :updatedAt',
+          ExpressionAttributeValues: { ':updatedAt': existing.updatedAt }
+        }
+      },
+      ...(latest ? [] : [putRevision(revisionsTable, toInitialRevision(existing))]),
+      putRevision(revisionsTable, toRevision(updated, revision, userId, timestamp, revertedFrom))
+    ]
+  };
+}
+
+/**
+ * Write a configuration along with its next revision, unless it changed since it was read.
+ * @param {Object} existing - The configuration item as read.
+ * @param {Object} changes - The attributes to set; attributes set to undefined are removed.
+ * @param {string} userId - The user ID making the write.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @param {number} [revertedFrom] - The revision the write reverts to, if any.
+ * @returns {Promise<Object>} - The configuration item as written.
+ * @throws {Error} - A TransactionCanceledException if the configuration changed since it was read.
+ */
+async function writeConfigurationRevision(existing, changes, userId, configurationsTable, revisionsTable, revertedFrom) {
+  const { updated, transactItems } = await buildConfigurationRevision(existing, changes, userId, configurationsTable, revisionsTable, revertedFrom);
+  await dynamoDB.transactWrite({ TransactItems: transactItems }).promise();
+  return updated;
+}
+
 /**
  * Get all configurations for a shortname and version from DynamoDB.
  * @param {string} shortname - The shortname.
@@ -47,7 +380,7 @@ async function getAllConfigurations(shortname, version, configurationsTable) {
     return {
       statusCode: 200,
       body: JSON.stringify({
-        configurations: result.Items || []
+        configurations: (result.Items || []).map(toResponseItem)
       })
     };
   } catch (error) {
@@ -60,240 +393,561 @@ async function getAllConfigurations(shortname, version, configurationsTable) {
 }
 
 /**
- * Get a specific configuration for a shortname and version from DynamoDB.
+ * Resolve the effective configurations of a shortname and version across the global defaults,
+ * version defaults and shortname overrides layers. Each key comes with the layer its value
+ * comes from and the chain of layers that define it, so the result can be explained.
  * @param {string} shortname - The shortname.
  * @param {string} version - The version.
- * @param {string} configId - The configuration ID.
  * @param {string} configurationsTable - The DynamoDB table name.
  * @returns {Promise<Object>} - The response object.
  */
-async function getConfiguration(shortname, version, configId, configurationsTable) {
+async function getResolvedConfigurations(shortname, version, configurationsTable) {
   try {
-    const params = {
-      TableName: configurationsTable,
-      Key: { configId }
-    };
+    const layers = await queryLayers(shortname, version, configurationsTable);
+    const configurations = resolveLayers(layers);
 
-    const result = await dynamoDB.get(params).promise();
-    if (!result.Item) {
-      return {
-        statusCode: 404,
-        body: JSON.stringify({ message: 'Configuration not found' })
-      };
-    }
+    // Replace references between keys by the values they point to
+    const { values, secretKeys } = getReferenceScope(configurations);
+    const interpolated = resolveReferences(values, secretKeys);
+    for (const config of configurations) {
+      if (config.secret || findReferences(config.value).length === 0) continue;
 
-    // Verify that the configuration belongs to the specified shortname and version
-    const shortnameVersion = `${shortname}:${version}`;
-    if (result.Item.shortnameVersion !== shortnameVersion) {
-      return {
-        statusCode: 404,
-        body: JSON.stringify({ message: 'Configuration not found for the specified shortname and version' })
-      };
+      config.rawValue = config.value;
+      if (interpolated.errors[config.key]) {
+        config.interpolationError = interpolated.errors[config.key];
+      } else {
+        config.value = interpolated.values[config.key];
+      }
     }
 
     return {
       statusCode: 200,
-      body: JSON.stringify(result.Item)
+      body: JSON.stringify({
+        shortname,
+        version,
+        layers: layers.map(({ layer }) => layer),
+        configurations
+      })
     };
   } catch (error) {
-    console.error(`Error fetching configuration ${configId} for shortname ${shortname} and version ${version}:`, error);
+    console.error(`Error resolving configurations for shortname ${shortname} and version ${version}:`, error);
     return {
       statusCode: 500,
-      body: JSON.stringify({ message: 'Failed to fetch configuration', error: error.message })
+      body: JSON.stringify({ message: 'Failed to resolve configurations', error: error.message })
     };
   }
 }
 
 /**
- * Create a new configuration for a shortname and version in DynamoDB.
- * @param {string} shortname - The shortname.
+ * Get the configurations of every shortname of a version, optionally only those carrying all the given tags.
+ * Defaults layers are not included.
  * @param {string} version - The version.
- * @param {string} key - The configuration key.
- * @param {any} value - The configuration value.
- * @param {string} userId - The user ID creating the configuration.
- * @param {string} description - The configuration description.
- * @param {string} shortnamesTable - The shortnames DynamoDB table name.
- * @param {string} versionsTable - The versions DynamoDB table name.
- * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {Array<string>} tags - The normalized tags the configurations must all carry.
+ * @param {string} configurationsTable - The DynamoDB table name.
  * @returns {Promise<Object>} - The response object.
  */
-async function createConfiguration(shortname, version, key, value, userId, description, shortnamesTable, versionsTable, configurationsTable) {
+async function getVersionConfigurations(version, tags, configurationsTable) {
   try {
-    // Check if shortname exists
-    const shortnameParams = {
-      TableName: shortnamesTable,
-      Key: { shortname }
-    };
+    const expressionAttributeValues = { ':version': version, ':any': ANY };
+    const conditions = ['#version = :version', 'shortname <> :any'];
+    tags.forEach((tag, index) => {
+      conditions.push(`contains(tags, :tag${index})`);
+      expressionAttributeValues[`:tag${index}`] = tag;
+    });
 
-    const shortnameResult = await dynamoDB.get(shortnameParams).promise();
-    if (!shortnameResult.Item) {
-      return {
-        statusCode: 404,
-        body: JSON.stringify({ message: 'Shortname not found' })
-      };
-    }
+    const items = await scanConfigurations(configurationsTable, {
+      FilterExpression: conditions.join(' AND '),
+      ExpressionAttributeNames: { '#version': 'version' },
+      ExpressionAttributeValues: expressionAttributeValues
+    });
 
-    // Check if version exists
-    const versionId = `${shortname}:${version}`;
-    const versionParams = {
-      TableName: versionsTable,
-      Key: { versionId }
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        version,
+        tags,
+        configurations: items
+          .map(toResponseItem)
+          .sort((a, b) => a.shortname.localeCompare(b.shortname) || a.key.localeCompare(b.key))
+      })
+    };
+  } catch (error) {
+    console.error(`Error fetching configurations for version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch configurations', error: error.message })
     };
+  }
+}
 
-    const versionResult = await dynamoDB.get(versionParams).promise();
-    if (!versionResult.Item) {
-      return {
-        statusCode: 404,
-        body: JSON.stringify({ message: 'Version not found' })
-      };
-    }
+/**
+ * Compare two versions across every shortname: the shortnames added to or removed from the version, and for
+ * each shortname the keys added or removed and the values changed, version defaults included.
+ * @param {string} fromVersion - The version compared from.
+ * @param {string} toVersion - The version compared to.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getVersionDiff(fromVersion, toVersion, versionsTable, shortnameVersionsTable, configurationsTable) {
+  try {
+    const loadVersion = async (version) => {
+      const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+      if (!versionResult.Item) return null;
 
-    // Check if configuration key already exists for this shortname and version
-    const shortnameVersion = `${shortname}:${version}`;
-    const existingParams = {
-      TableName: configurationsTable,
-      IndexName: 'ShortnameVersionIndex',
-      KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
-      FilterExpression: '#key = :key',
-      ExpressionAttributeNames: {
-        '#key': 'key'
-      },
-      ExpressionAttributeValues: {
-        ':shortnameVersion': shortnameVersion,
-        ':key': key
-      }
+      const shortnameVersions = await dynamoDB.query({
+        TableName: shortnameVersionsTable,
+        IndexName: 'VersionIndex',
+        KeyConditionExpression: 'version = :version',
+        ExpressionAttributeValues: { ':version': version }
+      }).promise();
+
+      const shortnames = new Map();
+      await Promise.all((shortnameVersions.Items || []).map(async ({ shortname }) => {
+        shortnames.set(shortname, getEffectiveItems(await queryLayers(shortname, version, configurationsTable, true)));
+      }));
+      return shortnames;
     };
 
-    const existingResult = await dynamoDB.query(existingParams).promise();
-    if (existingResult.Items && existingResult.Items.length > 0) {
+    const [fromShortnames, toShortnames] = await Promise.all([loadVersion(fromVersion), loadVersion(toVersion)]);
+    const missingVersion = !fromShortnames ? fromVersion : !toShortnames ? toVersion : null;
+    if (missingVersion) {
       return {
-        statusCode: 409,
-        body: JSON.stringify({ message: 'Configuration key already exists for this shortname and version' })
+        statusCode: 404,
+        body: JSON.stringify({ message: `Version ${missingVersion} not found` })
       };
     }
 
-    // Create new configuration
-    const configId = uuidv4();
-    const timestamp = new Date().toISOString();
-    const configItem = {
-      configId,
-      shortnameVersion,
-      shortname,
-      version,
-      key,
-      value,
-      description,
-      createdBy: userId,
-      createdAt: timestamp,
-      updatedAt: timestamp
-    };
-
-    const params = {
-      TableName: configurationsTable,
-      Item: configItem
-    };
-
-    await dynamoDB.put(params).promise();
     return {
-      statusCode: 201,
-      body: JSON.stringify(configItem)
+      statusCode: 200,
+      body: JSON.stringify({
+        from: fromVersion,
+        to: toVersion,
+        ...diffVersions(fromShortnames, toShortnames)
+      })
     };
   } catch (error) {
-    console.error(`Error creating configuration for shortname ${shortname} and version ${version}:`, error);
+    console.error(`Error comparing versions ${fromVersion} and ${toVersion}:`, error);
     return {
       statusCode: 500,
-      body: JSON.stringify({ message: 'Failed to create configuration', error: error.message })
+      body: JSON.stringify({ message: 'Failed to compare versions', error: error.message })
     };
   }
 }
 
 /**
- * Update a configuration for a shortname and version in DynamoDB.
+ * Deliver the effective configurations of a shortname and version to a consumer, as key/value pairs.
+ * End-user SDKs only receive public values; backend services holding the internal API key also
+ * receive internal values and decrypted secrets. References are resolved among the delivered values
+ * only, so a value referencing a tier the consumer cannot read is left out and listed instead.
  * @param {string} shortname - The shortname.
  * @param {string} version - The version.
- * @param {string} configId - The configuration ID.
- * @param {any} value - The updated configuration value.
- * @param {string} description - The updated description.
+ * @param {boolean} isInternal - Whether the consumer is a backend service holding the internal API key.
  * @param {string} configurationsTable - The DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name; only published and deprecated versions are delivered.
  * @returns {Promise<Object>} - The response object.
  */
-async function updateConfiguration(shortname, version, configId, value, description, configurationsTable) {
+async function getDeliveredConfigurations(shortname, version, isInternal, configurationsTable, versionsTable) {
   try {
-    // Check if configuration exists
-    const existingParams = {
-      TableName: configurationsTable,
-      Key: { configId }
-    };
-
-    const existingResult = await dynamoDB.get(existingParams).promise();
-    if (!existingResult.Item) {
-      return {
-        statusCode: 404,
-        body: JSON.stringify({ message: 'Configuration not found' })
-      };
-    }
-
-    // Verify that the configuration belongs to the specified shortname and version
-    const shortnameVersion = `${shortname}:${version}`;
-    if (existingResult.Item.shortnameVersion !== shortnameVersion) {
+    const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (!versionResult.Item || !isDeliverableStatus(getVersionStatus(versionResult.Item))) {
       return {
         statusCode: 404,
-        body: JSON.stringify({ message: 'Configuration not found for the specified shortname and version' })
+        body: JSON.stringify({ message: `Version ${version} is not published` })
       };
     }
 
-    // Build update expression and attribute values
-    const timestamp = new Date().toISOString();
-    let updateExpression = 'SET updatedAt = :updatedAt';
-    const expressionAttributeValues = {
-      ':updatedAt': timestamp
-    };
+    const tiers = getReadableTiers(isInternal);
+    const layers = await queryLayers(shortname, version, configurationsTable, true);
+    const items = new Map(layers.flatMap(({ configurations }) => configurations.map(item => [item.configId, item])));
+    const delivered = resolveLayers(layers).filter(config => tiers.includes(config.visibility));
 
-    if (value !== undefined) {
-      updateExpression += ', #value = :value';
-      expressionAttributeValues[':value'] = value;
+    const values = {};
+    for (const config of delivered) {
+      values[config.key] = await readValue(items.get(config.configId));
     }
 
-    if (description !== undefined) {
-      updateExpression += ', description = :description';
-      expressionAttributeValues[':description'] = description;
+    const secretKeys = new Set(delivered.filter(config => config.secret).map(config => config.key));
+    const interpolated = resolveReferences(values, secretKeys);
+    const configurations = {};
+    for (const config of delivered) {
+      if (config.secret) {
+        configurations[config.key] = values[config.key];
+      } else if (!interpolated.errors[config.key]) {
+        configurations[config.key] = interpolated.values[config.key];
+      }
     }
 
-    // Update configuration
-    const params = {
-      TableName: configurationsTable,
-      Key: { configId },
-      UpdateExpression: updateExpression,
-      ExpressionAttributeValues: expressionAttributeValues,
-      ExpressionAttributeNames: {
-        '#value': 'value'
-      },
-      ReturnValues: 'ALL_NEW'
-    };
+    // Only the keys are reported, the reasons may name keys of tiers the consumer cannot read
+    const unresolvedKeys = Object.keys(interpolated.errors).filter(key => !secretKeys.has(key));
 
-    const result = await dynamoDB.update(params).promise();
     return {
       statusCode: 200,
-      body: JSON.stringify(result.Attributes)
+      body: JSON.stringify({
+        shortname,
+        version,
+        configurations,
+        ...(unresolvedKeys.length > 0 && { unresolvedKeys })
+      })
     };
   } catch (error) {
-    console.error(`Error updating configuration ${configId} for shortname ${shortname} and version ${version}:`, error);
+    console.error(`Error delivering configurations for shortname ${shortname} and version ${version}:`, error);
     return {
       statusCode: 500,
-      body: JSON.stringify({ message: 'Failed to update configuration', error: error.message })
+      body: JSON.stringify({ message: 'Failed to deliver configurations', error: error.message })
     };
   }
 }
 
 /**
- * Delete a configuration.
- * @param {string} shortname - The shortname.
- * @param {string} version - The version.
- * @param {string} configId - The configuration ID to delete.
+ * Query the configurations of every layer that applies to a shortname and version.
+ * Secret values are masked unless the raw items are asked for.
+ * @param {string} shortname - The shortname, or "*" for defaults.
+ * @param {string} version - The version, or "*" for global defaults.
+ * @param {string} configurationsTable - The DynamoDB table name.
+ * @param {boolean} [raw=false] - Whether to keep the encrypted values of secrets.
+ * @returns {Promise<Array<Object>>} - The layers from lowest to highest precedence, each with its configurations.
+ */
+async function queryLayers(shortname, version, configurationsTable, raw = false) {
+  return Promise.all(getLayerChain(shortname, version).map(async ({ layer, shortnameVersion }) => {
+    const result = await dynamoDB.query({
+      TableName: configurationsTable,
+      IndexName: 'ShortnameVersionIndex',
+      KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
+      ExpressionAttributeValues: {
+        ':shortnameVersion': shortnameVersion
+      }
+    }).promise();
+
+    const items = result.Items || [];
+    return {
+      layer,
+      configurations: raw ? items.map(item => ({ ...item, visibility: getVisibility(item) })) : items.map(toResponseItem)
+    };
+  }));
+}
+
+/**
+ * Get the values that configurations may reference.
+ * @param {Array<Object>} configurations - The resolved configurations in scope.
+ * @returns {Object} - The raw values by key, and the keys of secret values, which cannot be referenced.
+ */
+function getReferenceScope(configurations) {
+  const values = {};
+  const secretKeys = new Set();
+
+  for (const config of configurations) {
+    if (config.secret) {
+      secretKeys.add(config.key);
+    } else {
+      values[config.key] = config.value;
+    }
+  }
+
+  return { values, secretKeys };
+}
+
+/**
+ * Check that the references of a value resolve, without cycles, in the scope of a shortname and version,
+ * and that the resolved value matches the type of the configuration. Public values may only reference public
+ * keys, so that resolving them never exposes internal values.
+ * @param {string} shortname - The shortname, or "*" for defaults.
+ * @param {string} version - The version, or "*" for global defaults.
+ * @param {string} key - The configuration key.
+ * @param {any} value - The configuration value.
+ * @param {string} visibility - The visibility tier of the configuration.
+ * @param {string} valueType - The value type of the configuration.
+ * @param {Array<string>} [enumOptions] - The allowed options for enum values.
+ * @param {string} configurationsTable - The DynamoDB table name.
+ * @returns {Promise<Object|null>} - A 400 response, or null if the value resolves.
+ */
+async function checkInterpolation(shortname, version, key, value, visibility, valueType, enumOptions, configurationsTable) {
+  const references = findReferences(value);
+  if (references.length === 0) {
+    return null;
+  }
+
+  const configurations = resolveLayers(await queryLayers(shortname, version, configurationsTable));
+  const { values, secretKeys } = getReferenceScope(configurations);
+  const resolved = resolveValue(key, value, values, secretKeys);
+  let referenceError = resolved.error;
+  if (!referenceError && visibility === 'public') {
+    const internal = configurations.find(config => references.includes(config.key) && config.visibility !== 'public');
+    if (internal) {
+      referenceError = `Public key "${key}" cannot reference ${internal.visibility} key "${internal.key}"`;
+    }
+  }
+  if (referenceError) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({
+        message: referenceError,
+        errors: [{ field: 'value', path: `/${key}`, message: referenceError }]
+      })
+    };
+  }
+
+  const typeError = validateValueType(resolved.value, valueType, enumOptions);
+  if (typeError) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: typeError })
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Get a specific configuration for a shortname and version from DynamoDB.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} configId - The configuration ID.
+ * @param {string} configurationsTable - The DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getConfiguration(shortname, version, configId, configurationsTable) {
+  try {
+    const params = {
+      TableName: configurationsTable,
+      Key: { configId }
+    };
+
+    const result = await dynamoDB.get(params).promise();
+    if (!result.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Configuration not found' })
+      };
+    }
+
+    // Verify that the configuration belongs to the specified shortname and version
+    const shortnameVersion = `${shortname}:${version}`;
+    if (result.Item.shortnameVersion !== shortnameVersion) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Configuration not found for the specified shortname and version' })
+      };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify(toResponseItem(result.Item))
+    };
+  } catch (error) {
+    console.error(`Error fetching configuration ${configId} for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch configuration', error: error.message })
+    };
+  }
+}
+
+/**
+ * Create a new configuration for a shortname and version in DynamoDB.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {Object} configData - The configuration attributes.
+ * @param {string} configData.key - The configuration key.
+ * @param {any} configData.value - The configuration value.
+ * @param {string} configData.description - The configuration description.
+ * @param {string} [configData.valueType] - The declared value type (defaults to string).
+ * @param {Array<string>} [configData.enumOptions] - The allowed options for enum values.
+ * @param {string} [configData.visibility] - The visibility tier: public (default), internal or secret.
+ * @param {boolean} [configData.secret] - Deprecated alias for the secret visibility tier.
+ * @param {Array<string>} [configData.tags] - Free-form tags grouping configurations by feature area.
+ * @param {string} userId - The user ID creating the configuration.
+ * @param {string} shortnamesTable - The shortnames DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name.
  * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @param {string} deprecationsTable - The key deprecations DynamoDB table name.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object. Creating a deprecated key succeeds with a warning.
+ */
+async function createConfiguration(shortname, version, configData, userId, shortnamesTable, versionsTable, configurationsTable, schemasTable, deprecationsTable, revisionsTable, audit) {
+  const { key, value, description } = configData;
+  const valueType = configData.valueType || DEFAULT_VALUE_TYPE;
+  const enumOptions = valueType === 'enum' ? configData.enumOptions : undefined;
+  const visibility = getRequestedVisibility(configData.visibility, configData.secret, DEFAULT_VISIBILITY);
+  const secret = visibility === 'secret';
+
+  try {
+    if (!isValidVisibility(visibility)) {
+      return invalidVisibilityResponse();
+    }
+
+    const { tags, response: tagsResponse } = readTags(configData.tags || []);
+    if (tagsResponse) {
+      return tagsResponse;
+    }
+
+    // Check that the value matches its declared type; values referencing other keys are checked once resolved
+    const resolvesReferences = !secret && findReferences(value).length > 0;
+    const typeError = resolvesReferences ? null : validateValueType(value, valueType, enumOptions);
+    if (typeError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: typeError })
+      };
+    }
+
+    // Defaults layers are not tied to a shortname, only overrides need an existing shortname and version
+    if (shortname !== ANY) {
+      // Check if shortname exists
+      const shortnameParams = {
+        TableName: shortnamesTable,
+        Key: { shortname }
+      };
+
+      const shortnameResult = await dynamoDB.get(shortnameParams).promise();
+      if (!shortnameResult.Item) {
+        return {
+          statusCode: 404,
+          body: JSON.stringify({ message: 'Shortname not found' })
+        };
+      }
+
+      // Check if version exists
+      const versionId = `${shortname}:${version}`;
+      const versionParams = {
+        TableName: versionsTable,
+        Key: { versionId }
+      };
+
+      const versionResult = await dynamoDB.get(versionParams).promise();
+      if (!versionResult.Item) {
+        return {
+          statusCode: 404,
+          body: JSON.stringify({ message: 'Version not found' })
+        };
+      }
+    }
+
+    // Check if configuration key already exists for this shortname and version
+    const shortnameVersion = `${shortname}:${version}`;
+    const existingParams = {
+      TableName: configurationsTable,
+      IndexName: 'ShortnameVersionIndex',
+      KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
+      FilterExpression: '#key = :key',
+      ExpressionAttributeNames: {
+        '#key': 'key'
+      },
+      ExpressionAttributeValues: {
+        ':shortnameVersion': shortnameVersion,
+        ':key': key
+      }
+    };
+
+    const existingResult = await dynamoDB.query(existingParams).promise();
+    if (existingResult.Items && existingResult.Items.length > 0) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: 'Configuration key already exists for this shortname and version' })
+      };
+    }
+
+    // Check the configuration against the schema of the shortname and version, if any
+    const schemaResponse = await checkAgainstSchema(shortname, version, key, value, schemasTable);
+    if (schemaResponse) {
+      return schemaResponse;
+    }
+
+    // Check that references to other keys resolve to a value of the declared type; secret values are stored as is
+    if (resolvesReferences) {
+      const interpolationResponse = await checkInterpolation(shortname, version, key, value, visibility, valueType, enumOptions, configurationsTable);
+      if (interpolationResponse) {
+        return interpolationResponse;
+      }
+    }
+
+    // Create new configuration
+    const configId = uuidv4();
+    const timestamp = new Date().toISOString();
+    const configItem = {
+      configId,
+      shortnameVersion,
+      shortname,
+      version,
+      key,
+      value,
+      valueType,
+      visibility,
+      description,
+      revision: 1,
+      createdBy: userId,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    if (enumOptions) {
+      configItem.enumOptions = enumOptions;
+    }
+
+    if (tags.length > 0) {
+      configItem.tags = tags;
+    }
+
+    // Secret values are only stored encrypted
+    if (secret) {
+      configItem.secret = true;
+      configItem.encryptedValue = await encryptValue(value, getKeyProvider());
+      delete configItem.value;
+    }
+
+    // The configuration is stored with its first revision
+    await dynamoDB.transactWrite({
+      TransactItems: [
+        { Put: { TableName: configurationsTable, Item: configItem } },
+        putRevision(revisionsTable, toRevision(configItem, 1, userId, timestamp))
+      ]
+    }).promise();
+    await recordAudit(dynamoDB, audit, { entity: 'configuration', action: 'create', entityId: configId, shortname, version, after: configItem });
+
+    const deprecationWarning = await getDeprecationWarning(key, deprecationsTable);
+    return {
+      statusCode: 201,
+      body: JSON.stringify({
+        ...toResponseItem(configItem),
+        ...(deprecationWarning && { warnings: [deprecationWarning] })
+      })
+    };
+  } catch (error) {
+    console.error(`Error creating configuration for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to create configuration', error: error.message })
+    };
+  }
+}
+
+/**
+ * Update a configuration for a shortname and version in DynamoDB.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} configId - The configuration ID.
+ * @param {Object} updates - The attributes to update; omitted attributes are left unchanged.
+ * @param {any} [updates.value] - The updated configuration value.
+ * @param {string} [updates.description] - The updated description.
+ * @param {string} [updates.valueType] - The updated value type.
+ * @param {Array<string>} [updates.enumOptions] - The updated enum options.
+ * @param {string} [updates.visibility] - The updated visibility tier.
+ * @param {boolean} [updates.secret] - Deprecated alias for the secret visibility tier.
+ * @param {Array<string>} [updates.tags] - The updated tags; an empty array removes them.
+ * @param {number} [updates.revertedFrom] - The revision the update reverts to, recorded in the new revision.
+ * @param {string} userId - The user ID updating the configuration.
+ * @param {string} configurationsTable - The DynamoDB table name.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function deleteConfiguration(shortname, version, configId, configurationsTable) {
+async function updateConfiguration(shortname, version, configId, updates, userId, configurationsTable, schemasTable, revisionsTable, audit) {
+  const { value, description } = updates;
+
   try {
     // Check if configuration exists
     const existingParams = {
@@ -318,30 +972,1784 @@ async function deleteConfiguration(shortname, version, configId, configurationsT
       };
     }
 
-    // Delete the configuration
-    await dynamoDB.delete({
+    // Check that the resulting value still matches the resulting type
+    const existing = existingResult.Item;
+    const valueType = updates.valueType || existing.valueType || DEFAULT_VALUE_TYPE;
+    const enumOptions = valueType === 'enum' ? (updates.enumOptions || existing.enumOptions) : undefined;
+    const visibility = getRequestedVisibility(updates.visibility, updates.secret, getVisibility(existing));
+    if (!isValidVisibility(visibility)) {
+      return invalidVisibilityResponse();
+    }
+
+    const { tags, response: tagsResponse } = updates.tags !== undefined ? readTags(updates.tags) : {};
+    if (tagsResponse) {
+      return tagsResponse;
+    }
+
+    const secret = visibility === 'secret';
+    const currentValue = value !== undefined ? value : await readValue(existing);
+    // Values referencing other keys are checked once resolved
+    const resolvesReferences = !secret && findReferences(currentValue).length > 0;
+    const typeError = resolvesReferences ? null : validateValueType(currentValue, valueType, enumOptions);
+    if (typeError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: typeError })
+      };
+    }
+
+    // Check the updated value against the schema of the shortname and version, if any
+    if (value !== undefined) {
+      const schemaResponse = await checkAgainstSchema(shortname, version, existing.key, value, schemasTable);
+      if (schemaResponse) {
+        return schemaResponse;
+      }
+    }
+
+    // Check that references to other keys resolve to a value of the resulting type; secret values are stored as is
+    const typeChanged = updates.valueType !== undefined || updates.enumOptions !== undefined;
+    if (resolvesReferences && (value !== undefined || visibility !== getVisibility(existing) || typeChanged)) {
+      const interpolationResponse = await checkInterpolation(
+        shortname,
+        version,
+        existing.key,
+        currentValue,
+        visibility,
+        valueType,
+        enumOptions,
+        configurationsTable
+      );
+      if (interpolationResponse) {
+        return interpolationResponse;
+      }
+    }
+
+    // Secret values are only stored encrypted, and re-encrypted when the value changes or when the
+    // configuration becomes a secret; attributes left undefined are removed
+    const keepsEncryptedValue = secret && value === undefined && existing.secret;
+    const changes = {
+      valueType,
+      visibility,
+      value: secret ? undefined : currentValue,
+      secret: secret || undefined,
+      encryptedValue: keepsEncryptedValue
+        ? existing.encryptedValue
+        : secret ? await encryptValue(currentValue, getKeyProvider()) : undefined,
+      enumOptions,
+      ...(description !== undefined && { description }),
+      ...(tags && { tags: tags.length > 0 ? tags : undefined })
+    };
+
+    const updated = await writeConfigurationRevision(existing, changes, userId, configurationsTable, revisionsTable, updates.revertedFrom);
+    await recordAudit(dynamoDB, audit, {
+      entity: 'configuration',
+      action: 'update',
+      entityId: configId,
+      shortname,
+      version,
+      before: existing,
+      after: updated
+    });
+    return {
+      statusCode: 200,
+      body: JSON.stringify(toResponseItem(updated))
+    };
+  } catch (error) {
+    if (error.code === 'TransactionCanceledException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Configuration ${configId} was changed by another request, please retry` })
+      };
+    }
+
+    console.error(`Error updating configuration ${configId} for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to update configuration', error: error.message })
+    };
+  }
+}
+
+/**
+ * Get the revisions of a configuration, newest first. Secret values are never returned.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} configId - The configuration ID.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getConfigurationRevisions(shortname, version, configId, configurationsTable, revisionsTable) {
+  try {
+    const result = await dynamoDB.get({
       TableName: configurationsTable,
       Key: { configId }
     }).promise();
 
+    if (!result.Item || result.Item.shortnameVersion !== `${shortname}:${version}`) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Configuration not found for the specified shortname and version' })
+      };
+    }
+
+    const revisions = await queryAll(dynamoDB, {
+      TableName: revisionsTable,
+      KeyConditionExpression: 'configId = :configId',
+      ExpressionAttributeValues: { ':configId': configId },
+      ScanIndexForward: false
+    });
+
+    // Configurations not written since revisions are stored only have their current state
+    if (revisions.length === 0) {
+      revisions.push(toInitialRevision(result.Item));
+    }
+
     return {
       statusCode: 200,
-      body: JSON.stringify({ message: 'Configuration deleted successfully' })
+      body: JSON.stringify({
+        configId,
+        key: result.Item.key,
+        revisions: revisions.map(toResponseItem)
+      })
     };
   } catch (error) {
-    console.error(`Error deleting configuration ${configId} for shortname ${shortname} and version ${version}:`, error);
+    console.error(`Error fetching revisions of configuration ${configId} for shortname ${shortname} and version ${version}:`, error);
     return {
       statusCode: 500,
-      body: JSON.stringify({ message: 'Failed to delete configuration', error: error.message })
+      body: JSON.stringify({ message: 'Failed to fetch configuration revisions', error: error.message })
+    };
+  }
+}
+
+/**
+ * Revert a configuration to one of its revisions. The value, type, visibility, tags and description of
+ * the revision are written as a new revision, with the same checks as an update; the key is left unchanged.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} configId - The configuration ID.
+ * @param {number} revision - The revision number to revert to.
+ * @param {string} userId - The user ID reverting the configuration.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function revertConfiguration(shortname, version, configId, revision, userId, configurationsTable, schemasTable, revisionsTable, audit) {
+  try {
+    const result = await dynamoDB.get({
+      TableName: revisionsTable,
+      Key: { configId, revision }
+    }).promise();
+
+    if (!result.Item || result.Item.shortname !== shortname || result.Item.version !== version) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `Revision ${revision} of the configuration not found` })
+      };
+    }
+
+    const target = result.Item;
+    return await updateConfiguration(
+      shortname,
+      version,
+      configId,
+      {
+        value: await readValue(target),
+        description: target.description || '',
+        valueType: target.valueType || DEFAULT_VALUE_TYPE,
+        enumOptions: target.enumOptions,
+        visibility: getVisibility(target),
+        tags: target.tags || [],
+        revertedFrom: revision
+      },
+      userId,
+      configurationsTable,
+      schemasTable,
+      revisionsTable,
+      audit
+    );
+  } catch (error) {
+    console.error(`Error reverting configuration ${configId} to revision ${revision}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to revert configuration', error: error.message })
+    };
+  }
+}
+
+/**
+ * Reveal the decrypted value of a secret configuration. Every reveal is written to the audit log
+ * with the user who asked for it and the key revealed, never the value.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} configId - The configuration ID.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function revealConfiguration(shortname, version, configId, configurationsTable, audit) {
+  try {
+    const result = await dynamoDB.get({
+      TableName: configurationsTable,
+      Key: { configId }
+    }).promise();
+
+    if (!result.Item || result.Item.shortnameVersion !== `${shortname}:${version}`) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Configuration not found for the specified shortname and version' })
+      };
+    }
+
+    if (!result.Item.secret) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: 'Configuration is not a secret' })
+      };
+    }
+
+    const value = await readValue(result.Item);
+    await recordAudit(dynamoDB, audit, {
+      entity: 'configuration',
+      action: 'reveal',
+      entityId: configId,
+      shortname,
+      version,
+      after: { configId, key: result.Item.key }
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ configId, key: result.Item.key, value })
+    };
+  } catch (error) {
+    console.error(`Error revealing configuration ${configId} for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to reveal configuration', error: error.message })
+    };
+  }
+}
+
+/**
+ * Rename the key of a configuration in place, keeping its configId and createdAt. The rename can be
+ * applied to every shortname and version (defaults layers included) that has the same key. References
+ * to the old key from the scopes that inherit a renamed configuration are rewritten to the new key.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} configId - The configuration ID.
+ * @param {Object} options - The rename options.
+ * @param {string} options.newKey - The new key.
+ * @param {boolean} [options.allScopes] - Whether to rename the key in every shortname and version that has it.
+ * @param {boolean} [options.dryRun] - Whether to only preview the affected configurations.
+ * @param {Object} user - The decoded token of the user renaming the configuration.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name; published and locked versions cannot be renamed into.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @param {Object} snapshots - Where the versions are snapshotted before the rename.
+ * @param {string} snapshots.snapshotsTable - The snapshots DynamoDB table name.
+ * @param {string} snapshots.shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} snapshots.bucket - The S3 bucket holding the snapshot bodies.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function renameConfiguration(shortname, version, configId, options, user, configurationsTable, schemasTable, versionsTable, revisionsTable, snapshots, audit) {
+  const { newKey, allScopes, dryRun } = options;
+
+  try {
+    const existingResult = await dynamoDB.get({
+      TableName: configurationsTable,
+      Key: { configId }
+    }).promise();
+
+    if (!existingResult.Item || existingResult.Item.shortnameVersion !== `${shortname}:${version}`) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Configuration not found for the specified shortname and version' })
+      };
+    }
+
+    const oldKey = existingResult.Item.key;
+    if (newKey === oldKey) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: 'The new key must differ from the current key' })
+      };
+    }
+
+    const items = await scanConfigurations(configurationsTable);
+    const renamed = allScopes ? items.filter(item => item.key === oldKey) : [existingResult.Item];
+    const renamedScopes = new Set(renamed.map(item => item.shortnameVersion));
+    const renamedIds = new Set(renamed.map(item => item.configId));
+    const remainingScopes = new Set(items
+      .filter(item => item.key === oldKey && !renamedIds.has(item.configId))
+      .map(item => item.shortnameVersion));
+
+    // Scopes inherit the layers below them, so references are rewritten wherever a renamed configuration
+    // was visible, unless another layer of the scope still provides the old key
+    const references = items.filter(item => {
+      if (item.secret || renamedIds.has(item.configId) || !findReferences(item.value).includes(oldKey)) {
+        return false;
+      }
+
+      const chain = getLayerChain(item.shortname, item.version).map(({ shortnameVersion }) => shortnameVersion);
+      return chain.some(scope => renamedScopes.has(scope)) && !chain.some(scope => remainingScopes.has(scope));
+    });
+
+    const toAffected = item => ({ configId: item.configId, shortname: item.shortname, version: item.version, key: item.key });
+    const preview = {
+      oldKey,
+      newKey,
+      configurations: renamed.map(toAffected),
+      references: references.map(toAffected)
+    };
+
+    const conflicts = renamed.filter(item => items.some(other => other.shortnameVersion === item.shortnameVersion && other.key === newKey));
+    if (conflicts.length > 0) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          message: `Key "${newKey}" already exists for ${conflicts.map(item => `${item.shortname}:${item.version}`).join(', ')}`,
+          ...preview,
+          conflicts: conflicts.map(toAffected)
+        })
+      };
+    }
+
+    // Published versions are immutable, including their references to the old key
+    const lockedVersions = await findLockedVersions([...renamed, ...references].map(item => item.version), versionsTable);
+    if (lockedVersions.length > 0) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          message: `The rename would modify versions that can no longer be modified: ${lockedVersions.map(locked => `${locked.version} (${locked.status})`).join(', ')}`,
+          ...preview,
+          lockedVersions
+        })
+      };
+    }
+
+    // Versions locked for a release are rejected as a whole, like a write to one of them
+    const [releaseLocked] = await findReleaseLockedVersions([...renamed, ...references].map(item => item.version), user, versionsTable);
+    if (releaseLocked) {
+      return versionLockResponse(releaseLocked.version, releaseLocked.lock);
+    }
+
+    // Renaming a key of the global defaults, or rewriting one of its references, changes the versions inheriting it
+    const globalKeys = [
+      ...(renamed.some(item => item.shortnameVersion === `${ANY}:${ANY}`) ? [oldKey, newKey] : []),
+      ...references.filter(item => item.shortnameVersion === `${ANY}:${ANY}`).map(item => item.key)
+    ];
+    const inheritedResponse = await checkGlobalDefaultsWritable(
+      globalKeys,
+      user,
+      {},
+      versionsTable,
+      snapshots.shortnameVersionsTable,
+      configurationsTable
+    );
+    if (inheritedResponse) {
+      return inheritedResponse;
+    }
+
+    // The new key must be allowed by the schema of every renamed configuration
+    for (const item of renamed) {
+      if (item.shortname === ANY) continue;
+
+      const schemaResponse = await checkAgainstSchema(item.shortname, item.version, newKey, await readValue(item), schemasTable);
+      if (schemaResponse) {
+        return schemaResponse;
+      }
+    }
+
+    // The renamed configurations and the rewritten references are written in one transaction, so a rename
+    // applies entirely or not at all
+    const writes = [
+      ...await Promise.all(renamed.map(async item => ({
+        item,
+        ...await buildConfigurationRevision(item, { key: newKey }, user.userId, configurationsTable, revisionsTable)
+      }))),
+      ...await Promise.all(references.map(async item => ({
+        item,
+        ...await buildConfigurationRevision(item, { value: renameReferences(item.value, oldKey, newKey) }, user.userId, configurationsTable, revisionsTable)
+      })))
+    ];
+    const transactItems = writes.flatMap(write => write.transactItems);
+    if (transactItems.length > MAX_TRANSACTION_ITEMS) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          message: `The rename would write ${writes.length} configurations, more than a single transaction can hold; rename the key in fewer scopes at a time`,
+          ...preview
+        })
+      };
+    }
+
+    if (dryRun) {
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ dryRun: true, ...preview })
+      };
+    }
+
+    // Snapshot every affected version first, so the rename can be undone by restoring them
+    const snapshotIds = {};
+    for (const affectedVersion of new Set([...renamed, ...references].map(item => item.version))) {
+      if (affectedVersion === ANY) continue;
+
+      const snapshot = await createSnapshot(
+        affectedVersion,
+        { trigger: 'rename', description: `Before renaming ${oldKey} to ${newKey}`, userId: user.userId },
+        { snapshotsTable: snapshots.snapshotsTable, shortnameVersionsTable: snapshots.shortnameVersionsTable, configurationsTable },
+        snapshots.bucket
+      );
+      snapshotIds[affectedVersion] = snapshot.snapshotId;
+    }
+
+    await dynamoDB.transactWrite({ TransactItems: transactItems }).promise();
+
+    // Every renamed configuration and every configuration whose references were rewritten gets a new
+    // revision and is audited
+    for (const { item, updated } of writes) {
+      await recordAudit(dynamoDB, audit, {
+        entity: 'configuration',
+        action: 'update',
+        entityId: item.configId,
+        shortname: item.shortname,
+        version: item.version,
+        before: item,
+        after: updated
+      });
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: 'Configuration renamed successfully', ...preview, snapshotIds })
+    };
+  } catch (error) {
+    if (error.code === 'TransactionCanceledException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: 'A configuration was changed by another request during the rename, please retry' })
+      };
+    }
+
+    console.error(`Error renaming configuration ${configId} for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to rename configuration', error: error.message })
+    };
+  }
+}
+
+/**
+ * Delete a configuration, moving it to the trash.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} configId - The configuration ID to delete.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @param {Object} trash - The trash context of the request.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function deleteConfiguration(shortname, version, configId, configurationsTable, schemasTable, trash, audit) {
+  try {
+    // Check if configuration exists
+    const existingParams = {
+      TableName: configurationsTable,
+      Key: { configId }
+    };
+
+    const existingResult = await dynamoDB.get(existingParams).promise();
+    if (!existingResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Configuration not found' })
+      };
+    }
+
+    // Verify that the configuration belongs to the specified shortname and version
+    const shortnameVersion = `${shortname}:${version}`;
+    if (existingResult.Item.shortnameVersion !== shortnameVersion) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Configuration not found for the specified shortname and version' })
+      };
+    }
+
+    // Keys required by the schema cannot be deleted
+    const { schema } = await getEffectiveSchema(shortname, version, schemasTable);
+    if (schema && (schema.required || []).includes(existingResult.Item.key)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({
+          message: 'Configuration does not conform to the schema',
+          errors: [{ field: 'key', path: `/${existingResult.Item.key}`, message: 'This key is required by the schema and cannot be deleted' }]
+        })
+      };
+    }
+
+    // Keys still referenced by other configurations of the same scope cannot be deleted,
+    // unless a lower layer still provides them
+    const deletedKey = existingResult.Item.key;
+    const remaining = (await queryLayers(shortname, version, configurationsTable))
+      .map(layer => ({ ...layer, configurations: layer.configurations.filter(config => config.configId !== configId) }));
+    const { values } = getReferenceScope(resolveLayers(remaining));
+    if (!Object.prototype.hasOwnProperty.call(values, deletedKey)) {
+      const dependents = Object.keys(values).filter(key => findReferences(values[key]).includes(deletedKey));
+      if (dependents.length > 0) {
+        return {
+          statusCode: 400,
+          body: JSON.stringify({ message: `Key "${deletedKey}" is referenced by: ${dependents.join(', ')}` })
+        };
+      }
+    }
+
+    // Move the configuration to the trash; its revisions are kept
+    const entry = await moveToTrash(
+      dynamoDB,
+      trash,
+      { entity: 'configuration', entityId: configId, shortname, version, key: deletedKey },
+      [{ table: 'configurations', key: { configId }, item: existingResult.Item }],
+      { configurations: configurationsTable }
+    );
+    await recordAudit(dynamoDB, audit, {
+      entity: 'configuration',
+      action: 'delete',
+      entityId: configId,
+      shortname,
+      version,
+      before: existingResult.Item
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        message: 'Configuration moved to the trash',
+        deletionId: entry.deletionId,
+        expiresAt: entry.expiresAt
+      })
+    };
+  } catch (error) {
+    console.error(`Error deleting configuration ${configId} for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to delete configuration', error: error.message })
+    };
+  }
+}
+
+/**
+ * Build the schema ID for a shortname, or for a shortname and version.
+ * @param {string} shortname - The shortname.
+ * @param {string} [version] - The version, omitted for shortname-wide schemas.
+ * @returns {string} - The schema ID.
+ */
+function getSchemaId(shortname, version) {
+  return version ? `${shortname}:${version}` : shortname;
+}
+
+/**
+ * Get the schema that applies to a shortname and version. A schema attached to the
+ * shortname and version takes precedence over the one attached to the shortname.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @returns {Promise<Object>} - The schema (or null) and where it came from ("version", "shortname" or null).
+ */
+async function getEffectiveSchema(shortname, version, schemasTable) {
+  const versionResult = await dynamoDB.get({
+    TableName: schemasTable,
+    Key: { schemaId: getSchemaId(shortname, version) }
+  }).promise();
+
+  if (versionResult.Item) {
+    return { schema: versionResult.Item.schema, source: 'version' };
+  }
+
+  const shortnameResult = await dynamoDB.get({
+    TableName: schemasTable,
+    Key: { schemaId: getSchemaId(shortname) }
+  }).promise();
+
+  if (shortnameResult.Item) {
+    return { schema: shortnameResult.Item.schema, source: 'shortname' };
+  }
+
+  return { schema: null, source: null };
+}
+
+/**
+ * Validate a configuration against the schema of its shortname and version.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} key - The configuration key.
+ * @param {any} value - The configuration value.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @returns {Promise<Object|null>} - A 400 response listing per-field errors, or null if the configuration conforms.
+ */
+async function checkAgainstSchema(shortname, version, key, value, schemasTable) {
+  const { schema } = await getEffectiveSchema(shortname, version, schemasTable);
+  if (!schema) {
+    return null;
+  }
+
+  const errors = validateConfiguration(schema, key, value);
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return {
+    statusCode: 400,
+    body: JSON.stringify({ message: 'Configuration does not conform to the schema', errors })
+  };
+}
+
+/**
+ * Check every configuration of a shortname and version against a schema.
+ * @param {Object} schema - The configuration schema.
+ * @param {Array<Object>} configurations - The configurations to check.
+ * @returns {Object} - The non-conforming configurations and the missing required keys.
+ */
+function checkConformance(schema, configurations) {
+  const violations = configurations
+    .map(config => ({
+      configId: config.configId,
+      key: config.key,
+      // Secret values were validated before being encrypted, only their key is checked here
+      errors: validateConfiguration(schema, config.key, config.value)
+        .filter(error => !config.secret || error.field === 'key')
+    }))
+    .filter(result => result.errors.length > 0);
+
+  return {
+    violations,
+    missingKeys: findMissingRequiredKeys(schema, configurations.map(config => config.key))
+  };
+}
+
+/**
+ * Query all configurations of a shortname and version.
+ * @param {string} shortname - The shortname.
+ * @param {string} version - The version.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Array<Object>>} - The configurations.
+ */
+async function queryConfigurations(shortname, version, configurationsTable) {
+  const result = await dynamoDB.query({
+    TableName: configurationsTable,
+    IndexName: 'ShortnameVersionIndex',
+    KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
+    ExpressionAttributeValues: {
+      ':shortnameVersion': `${shortname}:${version}`
+    }
+  }).promise();
+
+  return result.Items || [];
+}
+
+/**
+ * Scan every configuration of every shortname and version, defaults layers included.
+ * @param {string} configurationsTable - The DynamoDB table name.
+ * @param {Object} [filter] - A FilterExpression with its attribute names and values.
+ * @returns {Promise<Array<Object>>} - The configuration items.
+ */
+async function scanConfigurations(configurationsTable, filter = {}) {
+  const items = [];
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamoDB.scan({
+      TableName: configurationsTable,
+      ...filter,
+      ExclusiveStartKey: lastEvaluatedKey
+    }).promise();
+
+    items.push(...(result.Items || []));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return items;
+}
+
+/**
+ * Get the schema of a shortname, or the effective schema of a shortname and version
+ * together with the configurations that do not conform to it.
+ * @param {string} shortname - The shortname.
+ * @param {string} [version] - The version.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getConfigurationSchema(shortname, version, schemasTable, configurationsTable) {
+  try {
+    if (!version) {
+      const result = await dynamoDB.get({
+        TableName: schemasTable,
+        Key: { schemaId: getSchemaId(shortname) }
+      }).promise();
+
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          schema: result.Item ? result.Item.schema : null,
+          source: result.Item ? 'shortname' : null,
+          updatedAt: result.Item ? result.Item.updatedAt : null
+        })
+      };
+    }
+
+    const { schema, source } = await getEffectiveSchema(shortname, version, schemasTable);
+    const conformance = schema
+      ? checkConformance(schema, await queryConfigurations(shortname, version, configurationsTable))
+      : { violations: [], missingKeys: [] };
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ schema, source, ...conformance })
+    };
+  } catch (error) {
+    console.error(`Error fetching schema for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch schema', error: error.message })
+    };
+  }
+}
+
+/**
+ * Attach a schema to a shortname, or to a shortname and version, and report the existing
+ * configurations that no longer conform to it.
+ * @param {string} shortname - The shortname.
+ * @param {string} [version] - The version, omitted for shortname-wide schemas.
+ * @param {Object} schema - The JSON Schema describing the allowed keys and values.
+ * @param {string} userId - The user ID saving the schema.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function putConfigurationSchema(shortname, version, schema, userId, schemasTable, configurationsTable, shortnameVersionsTable) {
+  try {
+    const schemaError = validateSchemaDocument(schema);
+    if (schemaError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: `Invalid schema: ${schemaError}` })
+      };
+    }
+
+    const timestamp = new Date().toISOString();
+    const schemaItem = {
+      schemaId: getSchemaId(shortname, version),
+      shortname,
+      schema,
+      updatedBy: userId,
+      updatedAt: timestamp
+    };
+
+    if (version) {
+      schemaItem.version = version;
+    }
+
+    await dynamoDB.put({
+      TableName: schemasTable,
+      Item: schemaItem
+    }).promise();
+
+    // Work out which versions the schema applies to: a shortname-wide schema applies to
+    // every version of the shortname that does not have a schema of its own
+    let versions = [version];
+    if (!version) {
+      const linksResult = await dynamoDB.query({
+        TableName: shortnameVersionsTable,
+        IndexName: 'ShortnameIndex',
+        KeyConditionExpression: 'shortname = :shortname',
+        ExpressionAttributeValues: {
+          ':shortname': shortname
+        }
+      }).promise();
+
+      versions = [];
+      for (const link of linksResult.Items || []) {
+        const { source } = await getEffectiveSchema(shortname, link.version, schemasTable);
+        if (source === 'shortname') {
+          versions.push(link.version);
+        }
+      }
+    }
+
+    const nonConforming = [];
+    for (const affectedVersion of versions) {
+      const configurations = await queryConfigurations(shortname, affectedVersion, configurationsTable);
+      const { violations, missingKeys } = checkConformance(schema, configurations);
+      if (violations.length > 0 || missingKeys.length > 0) {
+        nonConforming.push({ version: affectedVersion, violations, missingKeys });
+      }
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ ...schemaItem, nonConforming })
+    };
+  } catch (error) {
+    console.error(`Error saving schema for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to save schema', error: error.message })
+    };
+  }
+}
+
+/**
+ * Remove the schema attached to a shortname, or to a shortname and version.
+ * @param {string} shortname - The shortname.
+ * @param {string} [version] - The version, omitted for shortname-wide schemas.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function deleteConfigurationSchema(shortname, version, schemasTable) {
+  try {
+    const schemaId = getSchemaId(shortname, version);
+    const existingResult = await dynamoDB.get({
+      TableName: schemasTable,
+      Key: { schemaId }
+    }).promise();
+
+    if (!existingResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Schema not found' })
+      };
+    }
+
+    await dynamoDB.delete({
+      TableName: schemasTable,
+      Key: { schemaId }
+    }).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: 'Schema deleted successfully' })
+    };
+  } catch (error) {
+    console.error(`Error deleting schema for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to delete schema', error: error.message })
+    };
+  }
+}
+
+/**
+ * Describe the deprecation of a key for a warning.
+ * @param {Object} deprecation - The deprecation item.
+ * @returns {string} - The warning message.
+ */
+function formatDeprecationWarning(deprecation) {
+  const replacement = deprecation.replacementKey ? `, use "${deprecation.replacementKey}" instead` : '';
+  const sunset = deprecation.sunsetDate < today()
+    ? `its sunset date ${deprecation.sunsetDate} has passed`
+    : `it will be removed after ${deprecation.sunsetDate}`;
+  return `Key "${deprecation.key}" is deprecated${replacement}; ${sunset}`;
+}
+
+/**
+ * Get today's date as YYYY-MM-DD, the format of sunset dates.
+ * @returns {string} - Today's date.
+ */
+function today() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Get the deprecation warning of a key, if it is deprecated.
+ * @param {string} key - The configuration key.
+ * @param {string} deprecationsTable - The key deprecations DynamoDB table name.
+ * @returns {Promise<string|null>} - The warning message, or null if the key is not deprecated.
+ */
+async function getDeprecationWarning(key, deprecationsTable) {
+  const result = await dynamoDB.get({
+    TableName: deprecationsTable,
+    Key: { key }
+  }).promise();
+
+  return result.Item ? formatDeprecationWarning(result.Item) : null;
+}
+
+/**
+ * Get all deprecated keys.
+ * @param {string} deprecationsTable - The key deprecations DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getDeprecations(deprecationsTable) {
+  try {
+    const result = await dynamoDB.scan({ TableName: deprecationsTable }).promise();
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        deprecations: (result.Items || []).sort((a, b) => a.key.localeCompare(b.key))
+      })
+    };
+  } catch (error) {
+    console.error('Error fetching key deprecations:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch deprecations', error: error.message })
+    };
+  }
+}
+
+/**
+ * Mark a key as deprecated, or update its deprecation. Deprecation applies to the key in every
+ * shortname and version.
+ * @param {string} key - The configuration key.
+ * @param {Object} data - The deprecation attributes.
+ * @param {string} data.sunsetDate - The date (YYYY-MM-DD) after which the key should no longer be used.
+ * @param {string} [data.replacementKey] - The key to use instead.
+ * @param {string} [data.reason] - Why the key is deprecated.
+ * @param {string} userId - The user ID deprecating the key.
+ * @param {string} deprecationsTable - The key deprecations DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function putDeprecation(key, data, userId, deprecationsTable) {
+  const { sunsetDate, replacementKey, reason } = data;
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(sunsetDate || '') || isNaN(Date.parse(sunsetDate))) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'Sunset date must be a date formatted as YYYY-MM-DD' })
+    };
+  }
+
+  if (replacementKey === key) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'A key cannot replace itself' })
+    };
+  }
+
+  try {
+    const item = {
+      key,
+      sunsetDate,
+      deprecatedBy: userId,
+      deprecatedAt: new Date().toISOString()
+    };
+
+    if (replacementKey) {
+      item.replacementKey = replacementKey;
+    }
+
+    if (reason) {
+      item.reason = reason;
+    }
+
+    await dynamoDB.put({
+      TableName: deprecationsTable,
+      Item: item
+    }).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify(item)
+    };
+  } catch (error) {
+    console.error(`Error deprecating key ${key}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to deprecate key', error: error.message })
+    };
+  }
+}
+
+/**
+ * Remove the deprecation of a key.
+ * @param {string} key - The configuration key.
+ * @param {string} deprecationsTable - The key deprecations DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function deleteDeprecation(key, deprecationsTable) {
+  try {
+    const existingResult = await dynamoDB.get({
+      TableName: deprecationsTable,
+      Key: { key }
+    }).promise();
+
+    if (!existingResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Deprecation not found' })
+      };
+    }
+
+    await dynamoDB.delete({
+      TableName: deprecationsTable,
+      Key: { key }
+    }).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: 'Deprecation removed successfully' })
+    };
+  } catch (error) {
+    console.error(`Error removing deprecation of key ${key}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to remove deprecation', error: error.message })
+    };
+  }
+}
+
+/**
+ * List every shortname and version, defaults layers included, that still uses a deprecated key.
+ * @param {boolean} pastSunsetOnly - Whether to only list keys whose sunset date has passed.
+ * @param {string} deprecationsTable - The key deprecations DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getDeprecationReport(pastSunsetOnly, deprecationsTable, configurationsTable) {
+  try {
+    const deprecationsResult = await dynamoDB.scan({ TableName: deprecationsTable }).promise();
+    const date = today();
+    const deprecations = new Map((deprecationsResult.Items || [])
+      .filter(deprecation => !pastSunsetOnly || deprecation.sunsetDate < date)
+      .map(deprecation => [deprecation.key, deprecation]));
+
+    const usages = deprecations.size === 0 ? [] : (await scanConfigurations(configurationsTable))
+      .filter(item => deprecations.has(item.key))
+      .map(item => {
+        const deprecation = deprecations.get(item.key);
+        return {
+          key: item.key,
+          shortname: item.shortname,
+          version: item.version,
+          configId: item.configId,
+          replacementKey: deprecation.replacementKey,
+          sunsetDate: deprecation.sunsetDate,
+          pastSunset: deprecation.sunsetDate < date
+        };
+      })
+      .sort((a, b) => a.sunsetDate.localeCompare(b.sunsetDate)
+        || a.key.localeCompare(b.key)
+        || `${a.shortname}:${a.version}`.localeCompare(`${b.shortname}:${b.version}`));
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ date, usages })
+    };
+  } catch (error) {
+    console.error('Error building the deprecation report:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to build the deprecation report', error: error.message })
+    };
+  }
+}
+
+/**
+ * Check the changes of a change request against the configurations of its scope as they are now, as each
+ * write would be checked on its own, then check references as the changes would leave the scope.
+ * Changes read back from a stored change request carry the updatedAt of the configuration they were
+ * proposed against, and fail if the configuration changed since.
+ * @param {string} shortname - The shortname, or "*" for version defaults.
+ * @param {string} version - The version.
+ * @param {Array<Object>} changes - The changes, with plaintext values.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @returns {Promise<Object>} - The planned changes, each with the configuration it changes, or an error response.
+ */
+async function planChanges(shortname, version, changes, configurationsTable, schemasTable) {
+  const layers = await queryLayers(shortname, version, configurationsTable);
+  const { schema } = await getEffectiveSchema(shortname, version, schemasTable);
+  const existingById = new Map((await queryConfigurations(shortname, version, configurationsTable)).map(item => [item.configId, item]));
+  // The configurations of the scope as the changes leave them, with plaintext values
+  const remaining = new Map(existingById);
+  const planned = [];
+
+  for (const [index, change] of changes.entries()) {
+    const fail = (statusCode, body) => ({ response: toChangeResponse(index, { statusCode, body: JSON.stringify(body) }) });
+    const existing = change.action === 'create' ? null : existingById.get(change.configId);
+
+    if (change.action !== 'create') {
+      if (!existing) {
+        return change.baseUpdatedAt
+          ? fail(409, { message: `Configuration ${change.configId} was deleted since the change request was proposed` })
+          : fail(404, { message: `Configuration ${change.configId} not found for the specified shortname and version` });
+      }
+
+      if (!remaining.has(change.configId) || planned.some(plan => plan.configId === change.configId)) {
+        return fail(400, { message: `Configuration "${existing.key}" is changed more than once` });
+      }
+
+      if (change.baseUpdatedAt && existing.updatedAt !== change.baseUpdatedAt) {
+        return fail(409, { message: `Configuration "${existing.key}" was changed since the change request was proposed` });
+      }
+    }
+
+    if (change.action === 'delete') {
+      // Keys required by the schema cannot be deleted
+      if (schema && (schema.required || []).includes(existing.key)) {
+        return fail(400, {
+          message: 'Configuration does not conform to the schema',
+          errors: [{ field: 'key', path: `/${existing.key}`, message: 'This key is required by the schema and cannot be deleted' }]
+        });
+      }
+
+      remaining.delete(change.configId);
+      planned.push({ index, action: 'delete', configId: change.configId, key: existing.key, existing });
+      continue;
+    }
+
+    const key = existing ? existing.key : change.key;
+    const valueType = change.valueType || (existing ? existing.valueType : undefined) || DEFAULT_VALUE_TYPE;
+    const enumOptions = valueType === 'enum' ? (change.enumOptions || (existing ? existing.enumOptions : undefined)) : undefined;
+    const visibility = change.visibility || (existing ? getVisibility(existing) : DEFAULT_VISIBILITY);
+    if (!isValidVisibility(visibility)) {
+      return { response: toChangeResponse(index, invalidVisibilityResponse()) };
+    }
+
+    const { tags, response: tagsResponse } = change.tags !== undefined ? readTags(change.tags) : {};
+    if (tagsResponse) {
+      return { response: toChangeResponse(index, tagsResponse) };
+    }
+
+    const value = change.value !== undefined || !existing ? change.value : await readValue(existing);
+    // Values referencing other keys are checked once resolved, along with their references
+    const resolvesReferences = visibility !== 'secret' && findReferences(value).length > 0;
+    const typeError = resolvesReferences ? null : validateValueType(value, valueType, enumOptions);
+    if (typeError) {
+      return fail(400, { message: typeError });
+    }
+
+    if (!existing && Array.from(remaining.values()).some(item => item.key === key)) {
+      return fail(409, { message: `Configuration key "${key}" already exists for this shortname and version` });
+    }
+
+    // Check the value against the schema of the shortname and version, if any
+    if (schema && change.value !== undefined) {
+      const errors = validateConfiguration(schema, key, value);
+      if (errors.length > 0) {
+        return fail(400, { message: 'Configuration does not conform to the schema', errors });
+      }
+    }
+
+    const configId = existing ? existing.configId : uuidv4();
+    const attributes = {
+      valueType,
+      visibility,
+      value,
+      enumOptions,
+      description: change.description !== undefined ? change.description : (existing ? existing.description : ''),
+      tags: tags ? (tags.length > 0 ? tags : undefined) : (existing ? existing.tags : undefined)
+    };
+    remaining.set(configId, {
+      ...(existing || { configId, shortnameVersion: `${shortname}:${version}`, shortname, version }),
+      ...attributes,
+      key,
+      secret: visibility === 'secret' || undefined,
+      encryptedValue: undefined
+    });
+    planned.push({
+      index,
+      action: change.action,
+      configId,
+      key,
+      existing,
+      attributes,
+      // Whether references have to be checked again
+      checksReferences: change.value !== undefined || !existing || visibility !== getVisibility(existing) ||
+        (resolvesReferences && (change.valueType !== undefined || change.enumOptions !== undefined))
+    });
+  }
+
+  // References resolve against the scope as the changes leave it; secret values are stored as is
+  const scopeLayers = layers.map((layer, index) => (index < layers.length - 1 ? layer : {
+    ...layer,
+    configurations: Array.from(remaining.values()).map(toResponseItem)
+  }));
+  const configurations = resolveLayers(scopeLayers);
+  const { values, secretKeys } = getReferenceScope(configurations);
+
+  for (const plan of planned) {
+    const fail = (message) => ({ response: toChangeResponse(plan.index, { statusCode: 400, body: JSON.stringify({ message }) }) });
+
+    // Deleted keys cannot be referenced anymore, unless a lower layer still provides them
+    if (plan.action === 'delete') {
+      if (!Object.prototype.hasOwnProperty.call(values, plan.key)) {
+        const dependents = Object.keys(values).filter(key => findReferences(values[key]).includes(plan.key));
+        if (dependents.length > 0) {
+          return fail(`Key "${plan.key}" is referenced by: ${dependents.join(', ')}`);
+        }
+      }
+      continue;
+    }
+
+    const { value, visibility, valueType, enumOptions } = plan.attributes;
+    if (visibility === 'secret' || !plan.checksReferences) continue;
+
+    const resolved = resolveValue(plan.key, value, values, secretKeys);
+    let referenceError = resolved.error;
+    if (!referenceError && visibility === 'public') {
+      const references = findReferences(value);
+      const internal = configurations.find(config => references.includes(config.key) && config.visibility !== 'public');
+      if (internal) {
+        referenceError = `Public key "${plan.key}" cannot reference ${internal.visibility} key "${internal.key}"`;
+      }
+    }
+    if (referenceError) {
+      return {
+        response: toChangeResponse(plan.index, {
+          statusCode: 400,
+          body: JSON.stringify({
+            message: referenceError,
+            errors: [{ field: 'value', path: `/${plan.key}`, message: referenceError }]
+          })
+        })
+      };
+    }
+
+    // Values referencing other keys are only type-checked once resolved
+    const typeError = validateValueType(resolved.value, valueType, enumOptions);
+    if (typeError) {
+      return fail(typeError);
+    }
+  }
+
+  return { planned };
+}
+
+/**
+ * Get the version of a change request, checking that its configurations can only be changed by a change request.
+ * @param {string} version - The version.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @returns {Promise<Object>} - The version item, or a 404 or 409 response.
+ */
+async function getPublishedVersion(version, versionsTable) {
+  const result = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+  if (!result.Item) {
+    return { response: { statusCode: 404, body: JSON.stringify({ message: 'Version not found' }) } };
+  }
+
+  const status = getVersionStatus(result.Item);
+  if (status !== 'published') {
+    return {
+      response: {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Change requests only apply to published versions, version ${version} is ${status}`, status })
+      }
+    };
+  }
+
+  return { item: result.Item };
+}
+
+/**
+ * Get a change request, checking that it can still be reviewed by a user: it must be pending, and
+ * proposed by another user.
+ * @param {string} changeRequestId - The change request ID.
+ * @param {Object} user - The decoded token of the reviewer.
+ * @param {string} changeRequestsTable - The change requests DynamoDB table name.
+ * @returns {Promise<Object>} - The change request item, or a 403, 404 or 409 response.
+ */
+async function getReviewableChangeRequest(changeRequestId, user, changeRequestsTable) {
+  const result = await dynamoDB.get({ TableName: changeRequestsTable, Key: { changeRequestId } }).promise();
+  if (!result.Item) {
+    return { response: { statusCode: 404, body: JSON.stringify({ message: 'Change request not found' }) } };
+  }
+
+  if (result.Item.status !== 'pending') {
+    return {
+      response: { statusCode: 409, body: JSON.stringify({ message: `Change request is already ${result.Item.status}` }) }
+    };
+  }
+
+  // Four eyes: nobody reviews their own changes, admins included
+  if (result.Item.createdBy === user.userId) {
+    return {
+      response: { statusCode: 403, body: JSON.stringify({ message: 'A change request must be reviewed by another user than its author' }) }
+    };
+  }
+
+  return { item: result.Item };
+}
+
+/**
+ * Build the attributes recording the review of a change request.
+ * @param {string} status - The status the review leaves the change request in: applied or rejected.
+ * @param {string} [reviewComment] - The comment of the reviewer.
+ * @param {Object} user - The decoded token of the reviewer.
+ * @returns {Object} - The update expression and its attribute names and values.
+ */
+function toReviewUpdate(status, reviewComment, user) {
+  const values = {
+    ':status': status,
+    ':pending': 'pending',
+    ':reviewedBy': user.userId,
+    ':reviewedAt': new Date().toISOString()
+  };
+  const assignments = ['#status = :status', 'reviewedBy = :reviewedBy', 'reviewedAt = :reviewedAt'];
+  if (user.email) {
+    values[':reviewedByEmail'] = user.email;
+    assignments.push('reviewedByEmail = :reviewedByEmail');
+  }
+  if (reviewComment) {
+    values[':reviewComment'] = reviewComment;
+    assignments.push('reviewComment = :reviewComment');
+  }
+
+  return {
+    UpdateExpression: `SET ${assignments.join(', ')}`,
+    ConditionExpression: '#status = :pending',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: values
+  };
+}
+
+/**
+ * Propose changes to the configurations of a published version, or to the global defaults, for another user to review.
+ * @param {string} shortname - The shortname, or "*" for defaults.
+ * @param {string} version - The version, or "*" for global defaults.
+ * @param {Object} data - The change request.
+ * @param {string} data.comment - Why the changes are proposed.
+ * @param {Array<Object>} data.changes - The changes: create (key and attributes), update (configId and the
+ *   attributes to change) or delete (configId) a configuration.
+ * @param {Object} user - The decoded token of the user proposing the changes.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @param {string} changeRequestsTable - The change requests DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function createChangeRequest(shortname, version, data, user, versionsTable, configurationsTable, schemasTable, changeRequestsTable) {
+  try {
+    const { changes, error } = readChanges(data.changes);
+    if (error) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: error })
+      };
+    }
+
+    // Global defaults are not a version: changes to them can be proposed at any time
+    if (version !== ANY) {
+      const { response: versionResponse } = await getPublishedVersion(version, versionsTable);
+      if (versionResponse) {
+        return versionResponse;
+      }
+    }
+
+    // The changes are checked when proposed, and again when applied
+    const { planned, response } = await planChanges(shortname, version, changes, configurationsTable, schemasTable);
+    if (response) {
+      return response;
+    }
+
+    // Each change keeps the configuration as it was proposed against; proposed secret values are only stored encrypted
+    const storedChanges = [];
+    for (const [index, change] of changes.entries()) {
+      const plan = planned[index];
+      const stored = { ...change, key: plan.key };
+      if (plan.existing) {
+        stored.before = toResponseItem(plan.existing);
+        stored.baseUpdatedAt = plan.existing.updatedAt;
+      }
+      if (plan.action !== 'delete' && plan.attributes.visibility === 'secret' && change.value !== undefined) {
+        stored.secret = true;
+        stored.encryptedValue = await encryptValue(change.value, getKeyProvider());
+        delete stored.value;
+      }
+      storedChanges.push(stored);
+    }
+
+    const changeRequest = {
+      changeRequestId: uuidv4(),
+      shortnameVersion: `${shortname}:${version}`,
+      shortname,
+      version,
+      status: 'pending',
+      comment: data.comment,
+      changes: storedChanges,
+      createdBy: user.userId,
+      createdAt: new Date().toISOString()
+    };
+    if (user.email) {
+      changeRequest.createdByEmail = user.email;
+    }
+
+    await dynamoDB.put({ TableName: changeRequestsTable, Item: changeRequest }).promise();
+
+    return {
+      statusCode: 201,
+      body: JSON.stringify(toChangeRequestResponse(changeRequest))
+    };
+  } catch (error) {
+    console.error(`Error creating change request for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to create change request', error: error.message })
+    };
+  }
+}
+
+/**
+ * Get the change requests of a shortname and version, newest first.
+ * @param {string} shortname - The shortname, or "*" for version defaults.
+ * @param {string} version - The version.
+ * @param {string} [status] - Only list the change requests with this status.
+ * @param {string} changeRequestsTable - The change requests DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getChangeRequests(shortname, version, status, changeRequestsTable) {
+  if (status && !CHANGE_REQUEST_STATUSES.includes(status)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: `Status must be one of: ${CHANGE_REQUEST_STATUSES.join(', ')}` })
+    };
+  }
+
+  try {
+    const items = await queryAll(dynamoDB, {
+      TableName: changeRequestsTable,
+      IndexName: 'ShortnameVersionIndex',
+      KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
+      ExpressionAttributeValues: {
+        ':shortnameVersion': `${shortname}:${version}`,
+        ...(status && { ':status': status })
+      },
+      ...(status && {
+        FilterExpression: '#status = :status',
+        ExpressionAttributeNames: { '#status': 'status' }
+      }),
+      ScanIndexForward: false
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ changeRequests: items.map(toChangeRequestResponse) })
+    };
+  } catch (error) {
+    console.error(`Error fetching change requests for shortname ${shortname} and version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch change requests', error: error.message })
+    };
+  }
+}
+
+/**
+ * Get a change request.
+ * @param {string} changeRequestId - The change request ID.
+ * @param {string} changeRequestsTable - The change requests DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getChangeRequest(changeRequestId, changeRequestsTable) {
+  try {
+    const result = await dynamoDB.get({ TableName: changeRequestsTable, Key: { changeRequestId } }).promise();
+    if (!result.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Change request not found' })
+      };
+    }
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify(toChangeRequestResponse(result.Item))
+    };
+  } catch (error) {
+    console.error(`Error fetching change request ${changeRequestId}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch change request', error: error.message })
+    };
+  }
+}
+
+/**
+ * Approve a change request, applying all of its changes in a single transaction: either every configuration
+ * is written, with its revision, or none is. Changes are checked again against the configurations as they
+ * are now, and fail if a configuration they change was changed since they were proposed.
+ * Revisions are recorded as written by the author of the change request, deletions move the configurations
+ * to the trash.
+ * @param {string} changeRequestId - The change request ID.
+ * @param {string} [reviewComment] - The comment of the reviewer.
+ * @param {Object} user - The decoded token of the reviewer.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} schemasTable - The configuration schemas DynamoDB table name.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @param {string} changeRequestsTable - The change requests DynamoDB table name.
+ * @param {Object} trash - The trash context of the request.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function approveChangeRequest(changeRequestId, reviewComment, user, versionsTable, shortnameVersionsTable, configurationsTable, schemasTable, revisionsTable, changeRequestsTable, trash, audit) {
+  try {
+    const { item: changeRequest, response: reviewResponse } = await getReviewableChangeRequest(changeRequestId, user, changeRequestsTable);
+    if (reviewResponse) {
+      return reviewResponse;
+    }
+
+    const { shortname, version } = changeRequest;
+    if (version !== ANY) {
+      const { item: versionItem, response: versionResponse } = await getPublishedVersion(version, versionsTable);
+      if (versionResponse) {
+        return versionResponse;
+      }
+
+      const lockResponse = checkVersionLock(versionItem, user);
+      if (lockResponse) {
+        return lockResponse;
+      }
+    }
+
+    const changes = [];
+    // Changes are read back as proposed, without the configurations they were proposed against
+    for (const { before, encryptedValue, secret, key, ...change } of changeRequest.changes) {
+      changes.push({
+        ...change,
+        ...(change.action === 'create' && { key }),
+        ...(encryptedValue && { value: await decryptValue(encryptedValue, getKeyProvider()) })
+      });
+    }
+
+    const { planned, response } = await planChanges(shortname, version, changes, configurationsTable, schemasTable);
+    if (response) {
+      return response;
+    }
+
+    // Approving is how delivered versions get changes to the global defaults, but not while one is locked for a release
+    if (version === ANY) {
+      const lockResponse = await checkGlobalDefaultsWritable(
+        planned.map(plan => plan.key),
+        user,
+        { changeRequest: true },
+        versionsTable,
+        shortnameVersionsTable,
+        configurationsTable
+      );
+      if (lockResponse) {
+        return lockResponse;
+      }
+    }
+
+    const timestamp = new Date().toISOString();
+    const userId = changeRequest.createdBy;
+    const transactItems = [];
+    const written = [];
+
+    for (const plan of planned) {
+      const { existing } = plan;
+
+      if (plan.action === 'delete') {
+        const { entry, movedItems } = buildTrashItems(
+          trash,
+          { entity: 'configuration', entityId: plan.configId, shortname, version, key: plan.key },
+          [{ table: 'configurations', key: { configId: plan.configId }, item: existing }],
+          new Date(timestamp)
+        );
+        transactItems.push(
+          {
+            Delete: {
+              TableName: configurationsTable,
+              Key: { configId: plan.configId },
+              ConditionExpression: 'updatedAt = :updatedAt',
+              ExpressionAttributeValues: { ':updatedAt': existing.updatedAt }
+            }
+          },
+          ...movedItems.map(movedItem => ({ Put: { TableName: trash.table, Item: movedItem } })),
+          { Put: { TableName: trash.table, Item: entry } }
+        );
+        written.push({ plan });
+        continue;
+      }
+
+      // Secret values are only stored encrypted; unchanged secret values keep their encryption
+      const { value, ...attributes } = plan.attributes;
+      const secret = attributes.visibility === 'secret';
+      const keepsEncryptedValue = secret && existing && existing.secret && changes[plan.index].value === undefined;
+      const item = {
+        ...(existing || {
+          configId: plan.configId,
+          shortnameVersion: `${shortname}:${version}`,
+          shortname,
+          version,
+          key: plan.key,
+          createdBy: userId,
+          createdAt: timestamp
+        }),
+        ...attributes,
+        value: secret ? undefined : value,
+        secret: secret || undefined,
+        encryptedValue: keepsEncryptedValue
+          ? existing.encryptedValue
+          : secret ? await encryptValue(value, getKeyProvider()) : undefined,
+        updatedAt: timestamp
+      };
+      for (const attribute of Object.keys(item)) {
+        if (item[attribute] === undefined) delete item[attribute];
+      }
+
+      if (!existing) {
+        item.revision = 1;
+        transactItems.push(
+          { Put: { TableName: configurationsTable, Item: item, ConditionExpression: 'attribute_not_exists(configId)' } },
+          putRevision(revisionsTable, toRevision(item, 1, userId, timestamp))
+        );
+        written.push({ plan, item });
+        continue;
+      }
+
+      // The next revision follows the latest stored one, as for any other write
+      const latestResult = await dynamoDB.query({
+        TableName: revisionsTable,
+        KeyConditionExpression: 'configId = :configId',
+        ExpressionAttributeValues: { ':configId': existing.configId },
+        ScanIndexForward: false,
+        Limit: 1
+      }).promise();
+      const [latest] = latestResult.Items || [];
+      item.revision = latest ? latest.revision + 1 : 2;
+
+      transactItems.push(
+        {
+          Put: {
+            TableName: configurationsTable,
+            Item: item,
+            ConditionExpression: 'updatedAt = :updatedAt',
+            ExpressionAttributeValues: { ':updatedAt': existing.updatedAt }
+          }
+        },
+        ...(latest ? [] : [putRevision(revisionsTable, toInitialRevision(existing))]),
+        putRevision(revisionsTable, toRevision(item, item.revision, userId, timestamp))
+      );
+      written.push({ plan, item });
+    }
+
+    // Created configurations get their ID once applied
+    const appliedChanges = changeRequest.changes.map((change, index) => ({ ...change, configId: planned[index].configId }));
+    const reviewUpdate = toReviewUpdate('applied', reviewComment, user);
+    transactItems.push({
+      Update: {
+        TableName: changeRequestsTable,
+        Key: { changeRequestId },
+        ...reviewUpdate,
+        UpdateExpression: `${reviewUpdate.UpdateExpression}, changes = :changes`,
+        ExpressionAttributeValues: { ...reviewUpdate.ExpressionAttributeValues, ':changes': appliedChanges }
+      }
+    });
+
+    await dynamoDB.transactWrite({ TransactItems: transactItems }).promise();
+
+    for (const { plan, item } of written) {
+      await recordAudit(dynamoDB, audit, {
+        entity: 'configuration',
+        action: plan.action,
+        entityId: plan.configId,
+        shortname,
+        version,
+        ...(plan.existing && { before: plan.existing }),
+        ...(item && { after: item })
+      });
+    }
+
+    const updated = await dynamoDB.get({ TableName: changeRequestsTable, Key: { changeRequestId } }).promise();
+    return {
+      statusCode: 200,
+      body: JSON.stringify(toChangeRequestResponse(updated.Item))
+    };
+  } catch (error) {
+    if (error.code === 'TransactionCanceledException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: 'A configuration or the change request was changed by another request, please retry' })
+      };
+    }
+
+    console.error(`Error approving change request ${changeRequestId}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to approve change request', error: error.message })
+    };
+  }
+}
+
+/**
+ * Reject a change request, leaving the configurations as they are.
+ * @param {string} changeRequestId - The change request ID.
+ * @param {string} [reviewComment] - The comment of the reviewer.
+ * @param {Object} user - The decoded token of the reviewer.
+ * @param {string} changeRequestsTable - The change requests DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function rejectChangeRequest(changeRequestId, reviewComment, user, changeRequestsTable) {
+  try {
+    const { response: reviewResponse } = await getReviewableChangeRequest(changeRequestId, user, changeRequestsTable);
+    if (reviewResponse) {
+      return reviewResponse;
+    }
+
+    const result = await dynamoDB.update({
+      TableName: changeRequestsTable,
+      Key: { changeRequestId },
+      ...toReviewUpdate('rejected', reviewComment, user),
+      ReturnValues: 'ALL_NEW'
+    }).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify(toChangeRequestResponse(result.Attributes))
+    };
+  } catch (error) {
+    if (error.code === 'ConditionalCheckFailedException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: 'The change request was reviewed by another request meanwhile' })
+      };
+    }
+
+    console.error(`Error rejecting change request ${changeRequestId}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to reject change request', error: error.message })
     };
   }
 }
 
 module.exports = {
   verifyToken,
+  resolveRolloutVersion,
+  checkVersionWritable,
+  checkGlobalDefaultsWritable,
   getAllConfigurations,
   getConfiguration,
+  getResolvedConfigurations,
+  getDeliveredConfigurations,
+  getVersionConfigurations,
+  getVersionDiff,
   createConfiguration,
   updateConfiguration,
-  deleteConfiguration
+  getConfigurationRevisions,
+  revertConfiguration,
+  deleteConfiguration,
+  revealConfiguration,
+  renameConfiguration,
+  getConfigurationSchema,
+  putConfigurationSchema,
+  deleteConfigurationSchema,
+  getDeprecations,
+  putDeprecation,
+  deleteDeprecation,
+  getDeprecationReport,
+  createChangeRequest,
+  getChangeRequests,
+  getChangeRequest,
+  approveChangeRequest,
+  rejectChangeRequest
 };
@@ -0,0 +1,152 @@
+/**
+ * Interpolation of references between configuration values.
+ *
+ * A string value may reference other keys of the same shortname and version with
+ * ${key}, e.g. "${public.api.baseUrl}/v2/ident". References are resolved across
+ * layers and may be nested; cycles and references to missing or secret keys are errors.
+ */
+
+const REFERENCE_PATTERN = /\$\{([^}]+)\}/g;
+
+class InterpolationError extends Error {}
+
+/**
+ * Find the keys a value references.
+ * @param {any} value - The value; strings nested in JSON values are searched too.
+ * @returns {Array<string>} - The referenced keys.
+ */
+function findReferences(value) {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(REFERENCE_PATTERN), match => match[1].trim());
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(findReferences);
+  }
+
+  return [];
+}
+
+/**
+ * Replace the references of a value.
+ * @param {any} value - The value.
+ * @param {Function} resolveKey - Returns the resolved value of a referenced key.
+ * @returns {any} - The value with its references replaced.
+ */
+function substitute(value, resolveKey) {
+  if (typeof value === 'string') {
+    return value.replace(REFERENCE_PATTERN, (match, reference) => {
+      const resolved = resolveKey(reference.trim());
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => substitute(item, resolveKey));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, substitute(item, resolveKey)]));
+  }
+
+  return value;
+}
+
+/**
+ * Resolve the references of a set of values.
+ * @param {Object} values - The raw values by key.
+ * @param {Set<string>} [secretKeys] - Keys whose values must not be referenced.
+ * @returns {Object} - The resolved values by key, and an error message by key for values that cannot be resolved.
+ */
+function resolveReferences(values, secretKeys = new Set()) {
+  const resolved = {};
+  const errors = {};
+  const resolving = [];
+
+  const resolveKey = (key) => {
+    if (Object.prototype.hasOwnProperty.call(resolved, key)) {
+      return resolved[key];
+    }
+
+    if (resolving.includes(key)) {
+      const cycle = [...resolving.slice(resolving.indexOf(key)), key];
+      throw new InterpolationError(`Circular reference: ${cycle.join(' -> ')}`);
+    }
+
+    if (secretKeys.has(key)) {
+      throw new InterpolationError(`Secret key "${key}" cannot be referenced`);
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(values, key)) {
+      throw new InterpolationError(`Referenced key "${key}" does not exist`);
+    }
+
+    resolving.push(key);
+    try {
+      resolved[key] = substitute(values[key], resolveKey);
+    } finally {
+      resolving.pop();
+    }
+
+    return resolved[key];
+  };
+
+  for (const key of Object.keys(values)) {
+    try {
+      resolveKey(key);
+    } catch (error) {
+      if (!(error instanceof InterpolationError)) throw error;
+      errors[key] = error.message;
+    }
+  }
+
+  return { values: resolved, errors };
+}
+
+/**
+ * Point the references of a value to a renamed key.
+ * @param {any} value - The value; strings nested in JSON values are rewritten too.
+ * @param {string} oldKey - The key before the rename.
+ * @param {string} newKey - The key after the rename.
+ * @returns {any} - The value referencing the new key.
+ */
+function renameReferences(value, oldKey, newKey) {
+  if (typeof value === 'string') {
+    return value.replace(REFERENCE_PATTERN, (match, reference) => (reference.trim() === oldKey ? `\${${newKey}}` : match));
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => renameReferences(item, oldKey, newKey));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, renameReferences(item, oldKey, newKey)]));
+  }
+
+  return value;
+}
+
+/**
+ * Resolve a value as it would be once written under a key.
+ * @param {string} key - The configuration key.
+ * @param {any} value - The new value.
+ * @param {Object} values - The raw values by key of the other configurations in scope.
+ * @param {Set<string>} [secretKeys] - Keys whose values must not be referenced.
+ * @returns {Object} - The resolved value, and an error message, or null if the value resolves.
+ */
+function resolveValue(key, value, values, secretKeys = new Set()) {
+  if (findReferences(value).length === 0) {
+    return { value, error: null };
+  }
+
+  const otherSecretKeys = new Set([...secretKeys].filter(secretKey => secretKey !== key));
+  const resolved = resolveReferences({ ...values, [key]: value }, otherSecretKeys);
+  return { value: resolved.values[key], error: resolved.errors[key] || null };
+}
+
+module.exports = {
+  findReferences,
+  resolveReferences,
+  renameReferences,
+  resolveValue
+};
@@ -0,0 +1,255 @@
+/**
+ * A small JSON Schema validator covering the subset of keywords used to
+ * describe configuration sets: type, enum, const, numeric and string bounds,
+ * pattern, format, items, properties, patternProperties, required and
+ * additionalProperties.
+ *
+ * A configuration schema is an object schema whose property names are full
+ * configuration keys (e.g. "public.theme.colors.primary") and whose property
+ * schemas describe the values stored under those keys.
+ */
+
+const SUPPORTED_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const FORMAT_CHECKS = {
+  uri: (value) => {
+    try {
+      new URL(value);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  },
+  email: (value) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'date-time': (value) => !Number.isNaN(Date.parse(value)),
+  color: (value) => /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(value)
+};
+
+/**
+ * Get the JSON Schema type name of a value.
+ * @param {any} value - The value.
+ * @returns {string} - The type name.
+ */
+function typeOf(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check whether a value matches a JSON Schema type.
+ * @param {any} value - The value.
+ * @param {string} type - The JSON Schema type.
+ * @returns {boolean} - Whether the value matches.
+ */
+function matchesType(value, type) {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeOf(value) === type;
+}
+
+/**
+ * Find the schema that applies to a property of an object schema.
+ * @param {Object} schema - The object schema.
+ * @param {string} name - The property name.
+ * @returns {Object|boolean|undefined} - The property schema, false if the property is not allowed,
+ * or undefined if any value is allowed.
+ */
+function getPropertySchema(schema, name) {
+  if (schema.properties && Object.prototype.hasOwnProperty.call(schema.properties, name)) {
+    return schema.properties[name];
+  }
+
+  for (const [pattern, patternSchema] of Object.entries(schema.patternProperties || {})) {
+    if (new RegExp(pattern).test(name)) {
+      return patternSchema;
+    }
+  }
+
+  if (schema.additionalProperties === false) {
+    return false;
+  }
+
+  return typeof schema.additionalProperties === 'object' ? schema.additionalProperties : undefined;
+}
+
+/**
+ * Validate a value against a schema.
+ * @param {any} value - The value to validate.
+ * @param {Object|boolean} schema - The schema.
+ * @param {string} path - The JSON pointer of the value, used in error messages.
+ * @returns {Array<Object>} - The validation errors, each with a path and a message.
+ */
+function validate(value, schema, path = '') {
+  if (schema === true || schema === undefined) return [];
+  if (schema === false) return [{ path, message: 'No value is allowed here' }];
+
+  const errors = [];
+  const at = path || '/';
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [{ path: at, message: `Expected ${types.join(' or ')} but got ${typeOf(value)}` }];
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push({ path: at, message: `Must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push({ path: at, message: `Must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path: at, message: `Must be greater than or equal to ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path: at, message: `Must be less than or equal to ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push({ path: at, message: `Must be greater than ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      errors.push({ path: at, message: `Must be less than ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path: at, message: `Must be at least ${schema.minLength} characters long` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push({ path: at, message: `Must be at most ${schema.maxLength} characters long` });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path: at, message: `Must match the pattern ${schema.pattern}` });
+    }
+    if (schema.format && FORMAT_CHECKS[schema.format] && !FORMAT_CHECKS[schema.format](value)) {
+      errors.push({ path: at, message: `Must be a valid ${schema.format}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path: at, message: `Must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path: at, message: `Must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validate(item, schema.items, `${path}/${index}`));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        errors.push({ path: `${path}/${name}`, message: 'Is required' });
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertySchema = getPropertySchema(schema, name);
+      if (propertySchema === false) {
+        errors.push({ path: `${path}/${name}`, message: 'Is not allowed by the schema' });
+      } else {
+        errors.push(...validate(propertyValue, propertySchema, `${path}/${name}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Check that a document is usable as a configuration schema.
+ * @param {any} schema - The candidate schema.
+ * @returns {string|null} - An error message, or null if the schema is usable.
+ */
+function validateSchemaDocument(schema) {
+  if (typeOf(schema) !== 'object') {
+    return 'Schema must be a JSON object';
+  }
+
+  if (schema.type !== undefined && schema.type !== 'object') {
+    return 'A configuration schema must describe an object (type "object")';
+  }
+
+  const problems = [];
+  const visit = (node, path) => {
+    if (typeof node === 'boolean' || node === undefined) return;
+    if (typeOf(node) !== 'object') {
+      problems.push(`${path || '/'} must be a schema object`);
+      return;
+    }
+
+    const types = node.type === undefined ? [] : Array.isArray(node.type) ? node.type : [node.type];
+    for (const type of types) {
+      if (!SUPPORTED_TYPES.includes(type)) problems.push(`${path || '/'} has unsupported type "${type}"`);
+    }
+
+    for (const keyword of ['pattern']) {
+      if (node[keyword] !== undefined) {
+        try {
+          new RegExp(node[keyword]);
+        } catch (err) {
+          problems.push(`${path || '/'} has an invalid ${keyword}`);
+        }
+      }
+    }
+
+    Object.entries(node.properties || {}).forEach(([name, child]) => visit(child, `${path}/properties/${name}`));
+    Object.entries(node.patternProperties || {}).forEach(([pattern, child]) => {
+      try {
+        new RegExp(pattern);
+      } catch (err) {
+        problems.push(`${path}/patternProperties has an invalid pattern "${pattern}"`);
+      }
+      visit(child, `${path}/patternProperties/${pattern}`);
+    });
+    if (typeOf(node.additionalProperties) === 'object') visit(node.additionalProperties, `${path}/additionalProperties`);
+    if (node.items !== undefined) visit(node.items, `${path}/items`);
+  };
+
+  visit(schema, '');
+  return problems.length > 0 ? problems.join('; ') : null;
+}
+
+/**
+ * Validate a single configuration against a configuration schema.
+ * @param {Object} schema - The configuration schema.
+ * @param {string} key - The configuration key.
+ * @param {any} value - The configuration value.
+ * @returns {Array<Object>} - Per-field errors, each with a field ("key" or "value"), a path and a message.
+ */
+function validateConfiguration(schema, key, value) {
+  const propertySchema = getPropertySchema(schema, key);
+  if (propertySchema === false) {
+    return [{ field: 'key', path: `/${key}`, message: `Key "${key}" is not allowed by the schema` }];
+  }
+
+  return validate(value, propertySchema, `/${key}`).map(error => ({ field: 'value', ...error }));
+}
+
+/**
+ * Find the keys a schema requires that are missing from a set of configurations.
+ * @param {Object} schema - The configuration schema.
+ * @param {Array<string>} keys - The keys present.
+ * @returns {Array<string>} - The missing required keys.
+ */
+function findMissingRequiredKeys(schema, keys) {
+  const present = new Set(keys);
+  return (schema.required || []).filter(key => !present.has(key));
+}
+
+module.exports = {
+  validate,
+  validateSchemaDocument,
+  validateConfiguration,
+  findMissingRequiredKeys
+};
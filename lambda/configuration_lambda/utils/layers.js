@@ -0,0 +1,105 @@
+/**
+ * Configuration layers, from lowest to highest precedence:
+ * - global: defaults shared by every shortname and version (stored under "*:*");
+ * - version: defaults for every shortname of a version (stored under "*:{version}");
+ * - shortname: overrides for one shortname and version (stored under "{shortname}:{version}").
+ *
+ * A key resolves to the value of the highest layer that defines it.
+ */
+
+const ANY = '*';
+const LAYERS = ['global', 'version', 'shortname'];
+
+/**
+ * Get the shortname and version a layer stores its configurations under.
+ * @param {string} layer - The layer ("global", "version" or "shortname").
+ * @param {string} [shortname] - The shortname, for the shortname layer.
+ * @param {string} [version] - The version, for the version and shortname layers.
+ * @returns {Object} - The shortname and version of the layer.
+ */
+function getLayerScope(layer, shortname, version) {
+  switch (layer) {
+    case 'global':
+      return { shortname: ANY, version: ANY };
+    case 'version':
+      return { shortname: ANY, version };
+    default:
+      return { shortname, version };
+  }
+}
+
+/**
+ * Get the layer a shortname and version scope belongs to.
+ * @param {string} shortname - The shortname, or "*" for defaults.
+ * @param {string} version - The version, or "*" for global defaults.
+ * @returns {string} - The layer.
+ */
+function getLayerOf(shortname, version) {
+  if (shortname !== ANY) return 'shortname';
+  return version === ANY ? 'global' : 'version';
+}
+
+/**
+ * Get the layers that apply to a shortname and version, from lowest to highest precedence.
+ * For a defaults scope, only the layers up to that scope apply.
+ * @param {string} shortname - The shortname, or "*" for defaults.
+ * @param {string} version - The version, or "*" for global defaults.
+ * @returns {Array<Object>} - Each layer with the shortnameVersion its configurations are stored under.
+ */
+function getLayerChain(shortname, version) {
+  const layers = LAYERS.slice(0, LAYERS.indexOf(getLayerOf(shortname, version)) + 1);
+  return layers.map(layer => {
+    const scope = getLayerScope(layer, shortname, version);
+    return { layer, shortnameVersion: `${scope.shortname}:${scope.version}` };
+  });
+}
+
+/**
+ * Resolve the effective configurations from the configurations of each layer.
+ * @param {Array<Object>} layers - The layers from lowest to highest precedence, each with its configurations.
+ * @returns {Array<Object>} - One entry per key with the winning configuration, its source layer and
+ * the chain of layers that define the key.
+ */
+function resolveLayers(layers) {
+  const resolved = new Map();
+
+  for (const { layer, configurations } of layers) {
+    for (const config of configurations) {
+      const entry = resolved.get(config.key) || { chain: [] };
+      entry.chain.push({
+        layer,
+        configId: config.configId,
+        value: config.value,
+        secret: Boolean(config.secret),
+        updatedAt: config.updatedAt
+      });
+      entry.config = config;
+      entry.source = layer;
+      resolved.set(config.key, entry);
+    }
+  }
+
+  return Array.from(resolved.values())
+    .map(({ config, source, chain }) => ({
+      key: config.key,
+      value: config.value,
+      valueType: config.valueType,
+      visibility: config.visibility,
+      secret: Boolean(config.secret),
+      tags: config.tags || [],
+      description: config.description,
+      configId: config.configId,
+      source,
+      chain
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+module.exports = {
+  ANY,
+  LAYERS,
+  getLayerScope,
+  getLayerOf,
+  getLayerChain,
+  resolveLayers
+};
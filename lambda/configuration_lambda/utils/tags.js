@@ -0,0 +1,50 @@
+/**
+ * Free-form tags grouping configurations by feature area (e.g. "ui", "liveness", "legal")
+ * across key prefixes, shortnames and versions.
+ */
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const MAX_TAG_LENGTH = 32;
+const MAX_TAGS = 20;
+
+/**
+ * Normalize tags to trimmed, lowercase and unique values.
+ * @param {Array<string>} tags - The tags.
+ * @returns {Array<string>} - The normalized tags, sorted.
+ */
+function normalizeTags(tags) {
+  return Array.from(new Set(tags.map(tag => String(tag).trim().toLowerCase()).filter(Boolean))).sort();
+}
+
+/**
+ * Validate the tags of a configuration.
+ * @param {Array<string>} tags - The normalized tags.
+ * @returns {string|null} - An error message, or null if the tags are valid.
+ */
+function validateTags(tags) {
+  if (tags.length > MAX_TAGS) {
+    return `A configuration can have at most ${MAX_TAGS} tags`;
+  }
+
+  const invalid = tags.find(tag => tag.length > MAX_TAG_LENGTH || !TAG_PATTERN.test(tag));
+  if (invalid) {
+    return `Invalid tag "${invalid}": tags are up to ${MAX_TAG_LENGTH} lowercase letters, numbers, hyphens and underscores`;
+  }
+
+  return null;
+}
+
+/**
+ * Parse a comma-separated list of tags, as received in a query string.
+ * @param {string} [input] - The comma-separated tags.
+ * @returns {Array<string>} - The normalized tags.
+ */
+function parseTags(input) {
+  return input ? normalizeTags(input.split(',')) : [];
+}
+
+module.exports = {
+  normalizeTags,
+  validateTags,
+  parseTags
+};
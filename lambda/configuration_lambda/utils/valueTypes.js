@@ -0,0 +1,100 @@
+/**
+ * Value types supported by configurations and the checks used to make sure
+ * a stored value matches the type it was declared with.
+ */
+
+const VALUE_TYPES = ['string', 'number', 'boolean', 'json', 'enum', 'url', 'color'];
+const DEFAULT_VALUE_TYPE = 'string';
+
+const COLOR_PATTERN = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/;
+
+/**
+ * Check that a value type is supported.
+ * @param {string} valueType - The value type to check.
+ * @returns {boolean} - Whether the value type is supported.
+ */
+function isValidValueType(valueType) {
+  return VALUE_TYPES.includes(valueType);
+}
+
+/**
+ * Validate the list of allowed options of an enum configuration.
+ * @param {Array<string>} enumOptions - The allowed options.
+ * @returns {string|null} - An error message, or null if the options are valid.
+ */
+function validateEnumOptions(enumOptions) {
+  if (!Array.isArray(enumOptions) || enumOptions.length === 0) {
+    return 'Enum configurations require at least one option';
+  }
+
+  if (enumOptions.some(option => typeof option !== 'string' || option.trim() === '')) {
+    return 'Enum options must be non-empty strings';
+  }
+
+  if (new Set(enumOptions).size !== enumOptions.length) {
+    return 'Enum options must be unique';
+  }
+
+  return null;
+}
+
+/**
+ * Validate a configuration value against its declared type.
+ * @param {any} value - The configuration value.
+ * @param {string} valueType - The declared value type.
+ * @param {Array<string>} enumOptions - The allowed options for enum values.
+ * @returns {string|null} - An error message, or null if the value matches the type.
+ */
+function validateValueType(value, valueType, enumOptions) {
+  if (!isValidValueType(valueType)) {
+    return `Unsupported value type "${valueType}". Expected one of: ${VALUE_TYPES.join(', ')}`;
+  }
+
+  if (value === undefined || value === null) {
+    return 'Configuration value is required';
+  }
+
+  switch (valueType) {
+    case 'string':
+      return typeof value === 'string' ? null : 'Value must be a string';
+
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'Value must be a finite number';
+
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'Value must be a boolean (true or false, not a string)';
+
+    case 'json':
+      return typeof value === 'object' ? null : 'Value must be a JSON object or array';
+
+    case 'enum': {
+      const optionsError = validateEnumOptions(enumOptions);
+      if (optionsError) return optionsError;
+      return enumOptions.includes(value) ? null : `Value must be one of: ${enumOptions.join(', ')}`;
+    }
+
+    case 'url': {
+      if (typeof value !== 'string') return 'Value must be a URL string';
+      try {
+        const url = new URL(value);
+        return ['http:', 'https:'].includes(url.protocol) ? null : 'URL must use http or https';
+      } catch (err) {
+        return 'Value must be a valid absolute URL';
+      }
+    }
+
+    case 'color':
+      return typeof value === 'string' && COLOR_PATTERN.test(value) ? null : 'Value must be a hex color such as #1a2b3c';
+
+    default:
+      return null;
+  }
+}
+
+module.exports = {
+  VALUE_TYPES,
+  DEFAULT_VALUE_TYPE,
+  isValidValueType,
+  validateEnumOptions,
+  validateValueType
+};
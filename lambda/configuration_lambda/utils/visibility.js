@@ -0,0 +1,63 @@
+/**
+ * Visibility tiers of configurations:
+ * - public: delivered to end-user SDKs;
+ * - internal: only delivered to backend services holding the internal API key;
+ * - secret: internal, and also stored encrypted and masked in every listing.
+ *
+ * Configurations created before tiers existed have no visibility and are public,
+ * unless they were stored as secrets.
+ */
+
+const VISIBILITY_TIERS = ['public', 'internal', 'secret'];
+const DEFAULT_VISIBILITY = 'public';
+
+/**
+ * Check that a visibility tier is supported.
+ * @param {string} visibility - The visibility tier to check.
+ * @returns {boolean} - Whether the visibility tier is supported.
+ */
+function isValidVisibility(visibility) {
+  return VISIBILITY_TIERS.includes(visibility);
+}
+
+/**
+ * Get the visibility tier of a configuration item.
+ * @param {Object} item - The configuration item.
+ * @returns {string} - The visibility tier.
+ */
+function getVisibility(item) {
+  if (item.visibility) return item.visibility;
+  return item.secret ? 'secret' : DEFAULT_VISIBILITY;
+}
+
+/**
+ * Get the visibility tier requested for a write. The legacy secret flag is still accepted.
+ * @param {string} [visibility] - The requested visibility tier.
+ * @param {boolean} [secret] - The requested secret flag.
+ * @param {string} fallback - The visibility tier to keep when nothing is requested.
+ * @returns {string} - The visibility tier.
+ */
+function getRequestedVisibility(visibility, secret, fallback) {
+  if (visibility) return visibility;
+  if (secret === true) return 'secret';
+  if (secret === false && fallback === 'secret') return DEFAULT_VISIBILITY;
+  return fallback;
+}
+
+/**
+ * Get the visibility tiers a consumer may read.
+ * @param {boolean} isInternal - Whether the consumer is a backend service holding the internal API key.
+ * @returns {Array<string>} - The readable visibility tiers.
+ */
+function getReadableTiers(isInternal) {
+  return isInternal ? VISIBILITY_TIERS : ['public'];
+}
+
+module.exports = {
+  VISIBILITY_TIERS,
+  DEFAULT_VISIBILITY,
+  isValidVisibility,
+  getVisibility,
+  getRequestedVisibility,
+  getReadableTiers
+};
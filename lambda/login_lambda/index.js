@@ -52,12 +52,13 @@ exports.handler = async (event) => {
       };
     }
 
-    // Generate JWT token
+    // Generate JWT token; the permissions of the user are checked by the other Lambdas
     const token = generateToken(
       {
         userId: user.userId,
         email: user.email,
-        userType: user.userType
+        userType: user.userType,
+        permissions: user.permissions || []
       },
       SECRET_KEY
     );
@@ -70,7 +71,8 @@ exports.handler = async (event) => {
         user: {
           userId: user.userId,
           email: user.email,
-          userType: user.userType
+          userType: user.userType,
+          permissions: user.permissions || []
         }
       })
     };
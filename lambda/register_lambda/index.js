@@ -1,10 +1,11 @@
 /**
  * This Lambda handles user registration.
  * It validates the user's input, creates a new user in DynamoDB, and returns a JWT token.
+ * The creation is recorded in the audit table, as made by the new user, without the password hash.
  */
 
 const AWS = require('aws-sdk');
-const { hashPassword, generateToken, generateId } = require('/opt/nodejs/layer-utils');
+const { hashPassword, generateToken, generateId, createAuditContext, recordAudit } = require('/opt/nodejs/layer-utils');
 
 const dynamoDB = new AWS.DynamoDB.DocumentClient();
 const s3 = new AWS.S3();
@@ -13,6 +14,7 @@ const USERS_TABLE = process.env.USERS_TABLE;
 const SECRET_KEY = process.env.SECRET_KEY;
 const ADMIN_KEY = process.env.ADMIN_KEY;
 const CONFIG_BUCKET = process.env.CONFIG_BUCKET;
+const AUDIT_TABLE = process.env.AUDIT_TABLE;
 
 exports.handler = async (event) => {
   console.log('Register Lambda triggered. Event:', JSON.stringify(event));
@@ -99,6 +101,12 @@ exports.handler = async (event) => {
     };
 
     await dynamoDB.put(putParams).promise();
+    await recordAudit(dynamoDB, createAuditContext(event, user, AUDIT_TABLE), {
+      entity: 'user',
+      action: 'create',
+      entityId: userId,
+      after: user
+    });
 
     // Generate JWT token
     const token = generateToken(
@@ -7,6 +7,12 @@
  * - GET /api/shortnames/{shortname} - Get a specific shortname
  * - PUT /api/shortnames/{shortname} - Update a shortname
  * - DELETE /api/shortnames/{shortname} - Delete a shortname
+ *
+ * Deleting a shortname moves it, its versions and its configurations to the trash, from which they can be
+ * restored for the retention period.
+ *
+ * Every create, update and delete is recorded in the audit table, with the user, the request ID and
+ * the shortname before and after the change.
  */
 
 const { 
@@ -17,11 +23,15 @@ const {
   updateShortname, 
   deleteShortname 
 } = require('./utils/index');
+const { createAuditContext, createTrashContext } = require('/opt/nodejs/layer-utils');
 
 const SECRET_KEY = process.env.SECRET_KEY;
 const SHORTNAMES_TABLE = process.env.SHORTNAMES_TABLE;
 const VERSIONS_TABLE = process.env.VERSIONS_TABLE;
+const SHORTNAME_VERSIONS_TABLE = process.env.SHORTNAME_VERSIONS_TABLE;
 const CONFIGURATIONS_TABLE = process.env.CONFIGURATIONS_TABLE;
+const AUDIT_TABLE = process.env.AUDIT_TABLE;
+const TRASH_TABLE = process.env.TRASH_TABLE;
 
 exports.handler = async (event) => {
   console.log('Shortname Lambda triggered. Event:', JSON.stringify(event));
@@ -49,6 +59,8 @@ exports.handler = async (event) => {
 
     const { userId } = decodedToken;
     console.log('Decoded token:', decodedToken);
+    const audit = createAuditContext(event, decodedToken, AUDIT_TABLE);
+    const trash = createTrashContext(decodedToken, TRASH_TABLE);
 
     // Handle different HTTP methods
     const httpMethod = event.requestContext.http.method;
@@ -77,7 +89,7 @@ exports.handler = async (event) => {
           return badRequestResponse('Shortname is required');
         }
 
-        return await createShortname(createBody.shortname, userId, createBody.description || '', SHORTNAMES_TABLE);
+        return await createShortname(createBody.shortname, userId, createBody.description || '', SHORTNAMES_TABLE, audit);
 
       case 'PUT':
         // Update shortname
@@ -86,7 +98,7 @@ exports.handler = async (event) => {
         }
 
         const updateBody = JSON.parse(event.body || '{}');
-        return await updateShortname(shortname, updateBody.description || '', SHORTNAMES_TABLE);
+        return await updateShortname(shortname, updateBody.description || '', SHORTNAMES_TABLE, audit);
 
       case 'DELETE':
         // Delete shortname
@@ -94,7 +106,16 @@ exports.handler = async (event) => {
           return badRequestResponse('Shortname is required in the URL');
         }
 
-        return await deleteShortname(shortname, SHORTNAMES_TABLE, VERSIONS_TABLE, CONFIGURATIONS_TABLE);
+        return await deleteShortname(
+          shortname,
+          SHORTNAMES_TABLE,
+          VERSIONS_TABLE,
+          SHORTNAME_VERSIONS_TABLE,
+          CONFIGURATIONS_TABLE,
+          decodedToken,
+          trash,
+          audit
+        );
 
       default:
         return {
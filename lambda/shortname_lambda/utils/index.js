@@ -1,6 +1,7 @@
 const AWS = require('aws-sdk');
 const jwt = require('jsonwebtoken');
 const { v4: uuidv4 } = require('uuid');
+const { recordAudit, queryAll, moveToTrash, getVersionStatus, isWritableStatus, checkVersionLock } = require('/opt/nodejs/layer-utils');
 
 const dynamoDB = new AWS.DynamoDB.DocumentClient();
 
@@ -90,9 +91,10 @@ async function getShortname(shortname, shortnamesTable) {
  * @param {string} userId - The user ID creating the shortname.
  * @param {string} description - The shortname description.
  * @param {string} shortnamesTable - The DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function createShortname(shortname, userId, description, shortnamesTable) {
+async function createShortname(shortname, userId, description, shortnamesTable, audit) {
   try {
     // Check if shortname already exists
     const existingParams = {
@@ -124,6 +126,7 @@ async function createShortname(shortname, userId, description, shortnamesTable)
     };
 
     await dynamoDB.put(params).promise();
+    await recordAudit(dynamoDB, audit, { entity: 'shortname', action: 'create', entityId: shortname, shortname, after: shortnameItem });
     return {
       statusCode: 201,
       body: JSON.stringify(shortnameItem)
@@ -142,9 +145,10 @@ async function createShortname(shortname, userId, description, shortnamesTable)
  * @param {string} shortname - The shortname to update.
  * @param {string} description - The updated description.
  * @param {string} shortnamesTable - The DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function updateShortname(shortname, description, shortnamesTable) {
+async function updateShortname(shortname, description, shortnamesTable, audit) {
   try {
     // Check if shortname exists
     const existingParams = {
@@ -174,6 +178,14 @@ async function updateShortname(shortname, description, shortnamesTable) {
     };
 
     const result = await dynamoDB.update(params).promise();
+    await recordAudit(dynamoDB, audit, {
+      entity: 'shortname',
+      action: 'update',
+      entityId: shortname,
+      shortname,
+      before: existingResult.Item,
+      after: result.Attributes
+    });
     return {
       statusCode: 200,
       body: JSON.stringify(result.Attributes)
@@ -188,14 +200,18 @@ async function updateShortname(shortname, description, shortnamesTable) {
 }
 
 /**
- * Delete a shortname and all associated versions and configurations.
+ * Delete a shortname and all associated versions and configurations, moving them to the trash.
  * @param {string} shortname - The shortname to delete.
  * @param {string} shortnamesTable - The shortnames DynamoDB table name.
  * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
  * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {Object} user - The decoded user token.
+ * @param {Object} trash - The trash context of the request.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function deleteShortname(shortname, shortnamesTable, versionsTable, configurationsTable) {
+async function deleteShortname(shortname, shortnamesTable, versionsTable, shortnameVersionsTable, configurationsTable, user, trash, audit) {
   try {
     // Check if shortname exists
     const existingParams = {
@@ -212,58 +228,86 @@ async function deleteShortname(shortname, shortnamesTable, versionsTable, config
     }
 
     // Get all versions for this shortname
-    const versionsParams = {
+    const versions = await queryAll(dynamoDB, {
       TableName: versionsTable,
       IndexName: 'ShortnameIndex',
       KeyConditionExpression: 'shortname = :shortname',
       ExpressionAttributeValues: {
         ':shortname': shortname
       }
-    };
+    });
+
+    // Get all links of this shortname to versions
+    const links = await queryAll(dynamoDB, {
+      TableName: shortnameVersionsTable,
+      IndexName: 'ShortnameIndex',
+      KeyConditionExpression: 'shortname = :shortname',
+      ExpressionAttributeValues: {
+        ':shortname': shortname
+      }
+    });
+
+    const linkedVersions = new Set([...versions, ...links].map(item => item.version));
+
+    // Removing the shortname from a published or deprecated version would change what it delivers, and a locked
+    // version is being validated
+    for (const version of linkedVersions) {
+      const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+      if (!versionResult.Item) continue;
+
+      const status = getVersionStatus(versionResult.Item);
+      if (!isWritableStatus(status)) {
+        return {
+          statusCode: 409,
+          body: JSON.stringify({ message: `Version ${version} is ${status} and can no longer be modified`, status })
+        };
+      }
 
-    const versionsResult = await dynamoDB.query(versionsParams).promise();
-    const versions = versionsResult.Items || [];
+      const lockResponse = checkVersionLock(versionResult.Item, user);
+      if (lockResponse) return lockResponse;
+    }
 
-    // Delete all configurations for each version
-    for (const version of versions) {
-      const shortnameVersion = `${shortname}:${version.version}`;
-      
-      const configurationsParams = {
+    // Get all configurations for each version
+    const configurations = [];
+    for (const version of linkedVersions) {
+      configurations.push(...await queryAll(dynamoDB, {
         TableName: configurationsTable,
         IndexName: 'ShortnameVersionIndex',
         KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
         ExpressionAttributeValues: {
-          ':shortnameVersion': shortnameVersion
+          ':shortnameVersion': `${shortname}:${version}`
         }
-      };
-
-      const configurationsResult = await dynamoDB.query(configurationsParams).promise();
-      const configurations = configurationsResult.Items || [];
+      }));
+    }
 
-      // Delete each configuration
-      for (const config of configurations) {
-        await dynamoDB.delete({
-          TableName: configurationsTable,
-          Key: { configId: config.configId }
-        }).promise();
+    const entry = await moveToTrash(
+      dynamoDB,
+      trash,
+      { entity: 'shortname', entityId: shortname, shortname },
+      [
+        { table: 'shortnames', key: { shortname }, item: existingResult.Item },
+        ...versions.map(item => ({ table: 'versions', key: { versionId: item.versionId }, item })),
+        ...links.map(item => ({ table: 'shortnameVersions', key: { shortnameVersionId: item.shortnameVersionId }, item })),
+        ...configurations.map(item => ({ table: 'configurations', key: { configId: item.configId }, item }))
+      ],
+      {
+        shortnames: shortnamesTable,
+        versions: versionsTable,
+        shortnameVersions: shortnameVersionsTable,
+        configurations: configurationsTable
       }
+    );
 
-      // Delete the version
-      await dynamoDB.delete({
-        TableName: versionsTable,
-        Key: { versionId: version.versionId }
-      }).promise();
-    }
-
-    // Delete the shortname
-    await dynamoDB.delete({
-      TableName: shortnamesTable,
-      Key: { shortname }
-    }).promise();
+    // The deletion of its versions and configurations is audited as part of the deletion of the shortname
+    await recordAudit(dynamoDB, audit, { entity: 'shortname', action: 'delete', entityId: shortname, shortname, before: existingResult.Item });
 
     return {
       statusCode: 200,
-      body: JSON.stringify({ message: 'Shortname and all associated data deleted successfully' })
+      body: JSON.stringify({
+        message: 'Shortname and all associated data moved to the trash',
+        deletionId: entry.deletionId,
+        expiresAt: entry.expiresAt
+      })
     };
   } catch (error) {
     console.error(`Error deleting shortname ${shortname}:`, error);
@@ -0,0 +1,104 @@
+/**
+ * This Lambda manages the trash.
+ * It validates the user's JWT token before performing any operation.
+ * Operations include:
+ * - GET /api/trash?entity= - List the deletions in the trash, newest first
+ * - POST /api/trash/{deletionId}/restore - Restore a deletion
+ * - DELETE /api/trash/{deletionId} - Purge a deletion for good (admins only)
+ *
+ * The shortname, version and configuration Lambdas move what they delete to the trash table: a shortname with
+ * its versions and configurations, a version with its shortnames and configurations, or a configuration.
+ * Deletions stay in the trash for the retention period, after which DynamoDB expires them.
+ *
+ * A deletion is restored as a whole. It cannot be restored while an item it holds has been recreated, or
+ * while its shortname or version no longer exists; restoring into a version follows the same lifecycle and
+ * lock rules as any other write. Restores are recorded in the audit table.
+ */
+
+const { verifyToken, isAdmin, createAuditContext } = require('/opt/nodejs/layer-utils');
+const { getTrashEntries, restoreDeletion, purgeDeletion } = require('./utils/index');
+
+const SECRET_KEY = process.env.SECRET_KEY;
+const SHORTNAMES_TABLE = process.env.SHORTNAMES_TABLE;
+const VERSIONS_TABLE = process.env.VERSIONS_TABLE;
+const SHORTNAME_VERSIONS_TABLE = process.env.SHORTNAME_VERSIONS_TABLE;
+const CONFIGURATIONS_TABLE = process.env.CONFIGURATIONS_TABLE;
+const TRASH_TABLE = process.env.TRASH_TABLE;
+const AUDIT_TABLE = process.env.AUDIT_TABLE;
+
+exports.handler = async (event) => {
+  console.log('Trash Lambda triggered. Event:', JSON.stringify(event));
+
+  try {
+    // Extract authorization token
+    const authHeader = event.headers.Authorization || event.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      console.error('Authorization header is missing or malformed');
+      return unauthorizedResponse('Authorization token is missing or malformed');
+    }
+
+    let decodedToken;
+    try {
+      decodedToken = verifyToken(authHeader.split(' ')[1], SECRET_KEY);
+    } catch (error) {
+      console.error('Error verifying token:', error);
+      return unauthorizedResponse(error.message);
+    }
+
+    const httpMethod = event.requestContext.http.method;
+    const path = event.requestContext.http.path;
+    const deletionId = (event.pathParameters || {}).deletionId;
+
+    if (!deletionId && httpMethod === 'GET') {
+      // GET /api/trash - List the deletions in the trash
+      const queryParams = event.queryStringParameters || {};
+      return await getTrashEntries(queryParams.entity, TRASH_TABLE);
+    }
+
+    if (deletionId && path.endsWith('/restore') && httpMethod === 'POST') {
+      // POST /api/trash/{deletionId}/restore - Restore a deletion
+      return await restoreDeletion(
+        deletionId,
+        decodedToken,
+        {
+          shortnames: SHORTNAMES_TABLE,
+          versions: VERSIONS_TABLE,
+          shortnameVersions: SHORTNAME_VERSIONS_TABLE,
+          configurations: CONFIGURATIONS_TABLE
+        },
+        TRASH_TABLE,
+        createAuditContext(event, decodedToken, AUDIT_TABLE)
+      );
+    }
+
+    if (deletionId && httpMethod === 'DELETE') {
+      // DELETE /api/trash/{deletionId} - Purge a deletion
+      if (!isAdmin(decodedToken)) {
+        return {
+          statusCode: 403,
+          body: JSON.stringify({ message: 'Only admins can purge the trash' })
+        };
+      }
+
+      return await purgeDeletion(deletionId, TRASH_TABLE);
+    }
+
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ message: 'Method not allowed' })
+    };
+  } catch (error) {
+    console.error('Unexpected error in Trash Lambda:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Internal server error', error: error.message })
+    };
+  }
+};
+
+function unauthorizedResponse(message) {
+  return {
+    statusCode: 401,
+    body: JSON.stringify({ message })
+  };
+}
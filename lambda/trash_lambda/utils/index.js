@@ -0,0 +1,299 @@
+const AWS = require('aws-sdk');
+const {
+  TRASH_ENTITIES,
+  TRASH_TABLES,
+  queryAll,
+  batchPut,
+  batchDelete,
+  readTrashItems,
+  getVersionStatus,
+  isWritableStatus,
+  checkVersionLock,
+  recordAudit
+} = require('/opt/nodejs/layer-utils');
+
+const dynamoDB = new AWS.DynamoDB.DocumentClient();
+
+// Defaults are stored under the wildcard shortname and version
+const ANY = '*';
+
+/**
+ * Check whether a deletion has passed its retention period. DynamoDB removes expired items within a few days,
+ * so they are ignored until then.
+ * @param {Object} entry - The entry of the deletion.
+ * @returns {boolean} - Whether the deletion has expired.
+ */
+function isExpired(entry) {
+  return entry.expiresAt * 1000 <= Date.now();
+}
+
+/**
+ * Get the table of the item a deletion was made on.
+ * @param {Object} entry - The entry of the deletion.
+ * @returns {string} - The table, by the name kept in the trash.
+ */
+function getEntryTable(entry) {
+  switch (entry.entity) {
+    case 'shortname':
+      return 'shortnames';
+    case 'version':
+      // The version of a shortname is its link to the version
+      return entry.shortname ? 'shortnameVersions' : 'versions';
+    default:
+      return 'configurations';
+  }
+}
+
+/**
+ * Get the deletions in the trash, newest first.
+ * @param {string} [entity] - The entity deleted: shortname, version or configuration; all by default.
+ * @param {string} trashTable - The trash DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getTrashEntries(entity, trashTable) {
+  if (entity && !TRASH_ENTITIES.includes(entity)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: `Entity must be one of: ${TRASH_ENTITIES.join(', ')}` })
+    };
+  }
+
+  try {
+    const results = await Promise.all((entity ? [entity] : TRASH_ENTITIES).map(partition => queryAll(dynamoDB, {
+      TableName: trashTable,
+      IndexName: 'EntityDeletedAtIndex',
+      KeyConditionExpression: 'entity = :entity',
+      ExpressionAttributeValues: { ':entity': partition },
+      ScanIndexForward: false
+    })));
+
+    const entries = results
+      .flat()
+      .filter(entry => !isExpired(entry))
+      .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ entries })
+    };
+  } catch (error) {
+    console.error('Error fetching trash entries:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch trash entries', error: error.message })
+    };
+  }
+}
+
+/**
+ * Find the moved items that cannot be put back as they are: items recreated since the deletion, and
+ * configurations whose key has been reused in the same scope.
+ * @param {Array<Object>} movedItems - The moved items of the deletion.
+ * @param {Object} tables - The DynamoDB table names, by the name kept in the trash.
+ * @returns {Promise<Array<string>>} - A description of each conflict.
+ */
+async function findConflicts(movedItems, tables) {
+  const conflicts = [];
+
+  for (const moved of movedItems) {
+    const result = await dynamoDB.get({ TableName: tables[moved.table], Key: moved.key }).promise();
+    // An item left by an interrupted restore is identical to the one in the trash
+    if (result.Item && JSON.stringify(result.Item) !== JSON.stringify(moved.item)) {
+      conflicts.push(`${moved.table} ${Object.values(moved.key).join(':')} already exists`);
+    }
+  }
+
+  const configurations = movedItems.filter(moved => moved.table === 'configurations').map(moved => moved.item);
+  const restoredIds = new Set(configurations.map(config => config.configId));
+  for (const shortnameVersion of new Set(configurations.map(config => config.shortnameVersion))) {
+    const existing = await queryAll(dynamoDB, {
+      TableName: tables.configurations,
+      IndexName: 'ShortnameVersionIndex',
+      KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
+      ExpressionAttributeValues: { ':shortnameVersion': shortnameVersion }
+    });
+    const existingKeys = new Set(existing.filter(config => !restoredIds.has(config.configId)).map(config => config.key));
+
+    for (const config of configurations) {
+      if (config.shortnameVersion === shortnameVersion && existingKeys.has(config.key)) {
+        conflicts.push(`Key "${config.key}" already exists in ${shortnameVersion}`);
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Check that the parents of the moved items exist, in the table or among the moved items, and that the versions
+ * they are restored into can be written to by the user.
+ * @param {Array<Object>} movedItems - The moved items of the deletion.
+ * @param {Object} user - The decoded user token.
+ * @param {Object} tables - The DynamoDB table names, by the name kept in the trash.
+ * @returns {Promise<Object|null>} - A 409 or 423 response if the items cannot be restored, or null.
+ */
+async function checkParents(movedItems, user, tables) {
+  const restored = (table) => movedItems.filter(moved => moved.table === table).map(moved => moved.item);
+  const restoredShortnames = new Set(restored('shortnames').map(item => item.shortname));
+  const restoredVersions = new Set(restored('versions').map(item => item.version));
+  const restoredLinks = new Set(restored('shortnameVersions').map(item => item.shortnameVersionId));
+
+  const shortnames = new Set();
+  const versions = new Set();
+  const links = new Set();
+  for (const link of restored('shortnameVersions')) {
+    shortnames.add(link.shortname);
+    versions.add(link.version);
+  }
+  for (const config of restored('configurations')) {
+    if (config.version !== ANY) versions.add(config.version);
+    if (config.shortname !== ANY && config.version !== ANY) links.add(config.shortnameVersion);
+  }
+
+  const missing = [];
+  for (const shortname of shortnames) {
+    if (restoredShortnames.has(shortname)) continue;
+    const result = await dynamoDB.get({ TableName: tables.shortnames, Key: { shortname } }).promise();
+    if (!result.Item) missing.push(`shortname ${shortname}`);
+  }
+
+  for (const version of versions) {
+    if (restoredVersions.has(version)) continue;
+    const result = await dynamoDB.get({ TableName: tables.versions, Key: { version } }).promise();
+    if (!result.Item) {
+      missing.push(`version ${version}`);
+      continue;
+    }
+
+    // Items are restored into the version as any other write would be
+    const status = getVersionStatus(result.Item);
+    if (!isWritableStatus(status)) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Version ${version} is ${status} and can no longer be modified`, status })
+      };
+    }
+
+    const lockResponse = checkVersionLock(result.Item, user);
+    if (lockResponse) return lockResponse;
+  }
+
+  for (const shortnameVersionId of links) {
+    if (restoredLinks.has(shortnameVersionId)) continue;
+    const result = await dynamoDB.get({ TableName: tables.shortnameVersions, Key: { shortnameVersionId } }).promise();
+    if (!result.Item) missing.push(`version ${shortnameVersionId.split(':')[1]} of shortname ${shortnameVersionId.split(':')[0]}`);
+  }
+
+  if (missing.length > 0) {
+    return {
+      statusCode: 409,
+      body: JSON.stringify({ message: `Restore or recreate ${missing.join(', ')} first`, missing })
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Restore a deletion: put the deleted item and its children back in their tables, then remove them from the trash.
+ * @param {string} deletionId - The deletion ID.
+ * @param {Object} user - The decoded user token.
+ * @param {Object} tables - The shortnames, versions, shortnameVersions and configurations DynamoDB table names.
+ * @param {string} trashTable - The trash DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function restoreDeletion(deletionId, user, tables, trashTable, audit) {
+  try {
+    const { entry, movedItems } = await readTrashItems(dynamoDB, deletionId, trashTable);
+    if (!entry || isExpired(entry)) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Deletion not found in the trash' })
+      };
+    }
+
+    const conflicts = await findConflicts(movedItems, tables);
+    if (conflicts.length > 0) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Cannot restore: ${conflicts.join('; ')}`, conflicts })
+      };
+    }
+
+    const parentsResponse = await checkParents(movedItems, user, tables);
+    if (parentsResponse) return parentsResponse;
+
+    // Parents first, so that children are never restored without them
+    for (const table of TRASH_TABLES) {
+      const items = movedItems.filter(moved => moved.table === table).map(moved => moved.item);
+      if (items.length > 0) {
+        await batchPut(dynamoDB, tables[table], items);
+      }
+    }
+
+    await batchDelete(dynamoDB, trashTable, [...movedItems, entry].map(item => ({ deletionId, itemKey: item.itemKey })));
+
+    // The restore of its children is audited as part of the restore of the item
+    const entryTable = getEntryTable(entry);
+    const restored = movedItems.find(moved => moved.table === entryTable && Object.values(moved.key).join(':') === entry.entityId);
+    await recordAudit(dynamoDB, audit, {
+      // The version of a shortname is audited as a shortname, as when it is written
+      entity: entryTable === 'shortnameVersions' ? 'shortname' : entry.entity,
+      action: 'create',
+      entityId: entry.entityId,
+      shortname: entry.shortname,
+      version: entry.version,
+      after: restored && restored.item
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: 'Deletion restored successfully', entry })
+    };
+  } catch (error) {
+    console.error(`Error restoring deletion ${deletionId}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to restore deletion', error: error.message })
+    };
+  }
+}
+
+/**
+ * Purge a deletion: remove it from the trash for good.
+ * @param {string} deletionId - The deletion ID.
+ * @param {string} trashTable - The trash DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function purgeDeletion(deletionId, trashTable) {
+  try {
+    const { entry, movedItems } = await readTrashItems(dynamoDB, deletionId, trashTable);
+    if (!entry) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Deletion not found in the trash' })
+      };
+    }
+
+    // The entry first, so that a deletion is no longer listed once its purge has started
+    await batchDelete(dynamoDB, trashTable, [entry, ...movedItems].map(item => ({ deletionId, itemKey: item.itemKey })));
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: 'Deletion purged successfully' })
+    };
+  } catch (error) {
+    console.error(`Error purging deletion ${deletionId}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to purge deletion', error: error.message })
+    };
+  }
+}
+
+module.exports = {
+  getTrashEntries,
+  restoreDeletion,
+  purgeDeletion
+};
@@ -6,11 +6,20 @@
  * Version-first approach:
  * - GET /api/versions - List all versions
  * - POST /api/versions - Create a new version
+ * - POST /api/versions/{version}:duplicate - Copy a version, its shortnames and configurations into a new version
  * - GET /api/versions/{version} - Get a specific version
  * - PUT /api/versions/{version} - Update a version
  * - DELETE /api/versions/{version} - Delete a version
+ * - PUT /api/versions/{version}/status - Move a version through its lifecycle (draft, in_review, published, deprecated, archived)
+ * - GET /api/versions/{version}/release-notes - Download the release notes of a version as Markdown
+ * - POST /api/versions/{version}/release-notes - Generate release notes from the changes since the previous version
+ * - PUT /api/versions/{version}/lock - Lock a version for a release, with a reason and an owner
+ * - DELETE /api/versions/{version}/lock - Unlock a version
  * - GET /api/versions/{version}/shortnames - Get all shortnames for a version
  * - POST /api/versions/{version}/shortnames - Add a shortname to a version
+ * - GET /api/versions/{version}/snapshots - List the snapshots of a version
+ * - POST /api/versions/{version}/snapshots - Take a snapshot of a version
+ * - POST /api/versions/{version}/snapshots/{snapshotId}/restore - Restore a version to a snapshot, or preview it with dryRun
  * 
  * Shortname-first approach (legacy):
  * - GET /api/shortnames/{shortname}/versions - List all versions for a shortname
@@ -18,6 +27,40 @@
  * - GET /api/shortnames/{shortname}/versions/{version} - Get a specific version
  * - PUT /api/shortnames/{shortname}/versions/{version} - Update a version
  * - DELETE /api/shortnames/{shortname}/versions/{version} - Delete a version
+ *
+ * Scheduled status changes publish or deprecate a version at a future time; scheduler.js applies them:
+ * - GET /api/schedules?status=pending - List the schedules with a status (pending by default), by run time
+ * - POST /api/versions/{version}/schedules - Schedule a version to be published or deprecated
+ * - DELETE /api/schedules/{scheduleId} - Cancel a pending schedule
+ *
+ * A percentage rollout splits the consumers of a shortname between two versions, by client identifier:
+ * - GET /api/shortnames/{shortname}/rollout?clientId=... - Get the rollout, and the version a client gets
+ * - PUT /api/shortnames/{shortname}/rollout - Start or ramp a rollout from a base version to a target version
+ * - DELETE /api/shortnames/{shortname}/rollout - End a rollout
+ *
+ * Channels are named pointers to a version, moved atomically with a history of moves:
+ * - GET /api/channels - List all channels
+ * - PUT /api/channels/{channel} - Create a channel or move it to another version
+ * - DELETE /api/channels/{channel} - Delete a channel
+ * - GET /api/channels/{channel}/history - Get the history of the moves of a channel
+ *
+ * While a version is locked, writes to its shortnames and configurations (including deleting or restoring it)
+ * return a 423, unless the user can override version locks.
+ *
+ * Deleting a version, or a version of a shortname, moves it with its shortnames and configurations to the trash,
+ * from which it can be restored for the retention period.
+ *
+ * Every create, update and delete of a version or of a shortname of a version is recorded in the audit table,
+ * with the user, the request ID and the item before and after the change.
+ *
+ * Release notes are stored with the version and edited with PUT /api/versions/{version}; they are generated
+ * when a version without notes is published.
+ *
+ * Snapshots hold the shortname links and configurations of a version at a point in time. They are taken on
+ * demand, before a restore and before bulk operations such as renaming a key across versions.
+ *
+ * Versions are semantic versions, listed from the highest to the lowest. On reads, {version} can also be
+ * a channel name, "latest", "latest-stable" or a range such as "2.x", resolved to the highest matching published version.
  */
 
 const { 
@@ -25,22 +68,55 @@ const {
   getAllVersions,
   getVersion,
   createVersion,
+  duplicateVersion,
   updateVersion,
   deleteVersion,
+  transitionVersion,
+  generateVersionReleaseNotes,
+  getReleaseNotes,
+  lockVersion,
+  unlockVersion,
+  checkVersionUnlocked,
   getVersionShortnames,
   addShortnameToVersion,
   getAllVersionsForShortname,
   getVersionForShortname,
   createVersionForShortname,
   updateVersionForShortname,
-  deleteVersionForShortname
+  deleteVersionForShortname,
+  getSnapshots,
+  takeSnapshot,
+  restoreSnapshot,
+  getSchedules,
+  createSchedule,
+  cancelSchedule,
+  getChannels,
+  moveChannel,
+  deleteChannel,
+  getChannelHistory,
+  getRollout,
+  putRollout,
+  deleteRollout
 } = require('./utils/index');
+const { isValidVersion, isVersionAlias, resolveVersion, createAuditContext, createTrashContext } = require('/opt/nodejs/layer-utils');
 
 const SECRET_KEY = process.env.SECRET_KEY;
 const SHORTNAMES_TABLE = process.env.SHORTNAMES_TABLE;
 const VERSIONS_TABLE = process.env.VERSIONS_TABLE;
 const SHORTNAME_VERSIONS_TABLE = process.env.SHORTNAME_VERSIONS_TABLE;
 const CONFIGURATIONS_TABLE = process.env.CONFIGURATIONS_TABLE;
+const REVISIONS_TABLE = process.env.REVISIONS_TABLE;
+const CHANNELS_TABLE = process.env.CHANNELS_TABLE;
+const CHANNEL_HISTORY_TABLE = process.env.CHANNEL_HISTORY_TABLE;
+const SNAPSHOTS_TABLE = process.env.SNAPSHOTS_TABLE;
+const CONFIG_BUCKET = process.env.CONFIG_BUCKET;
+const SCHEDULES_TABLE = process.env.SCHEDULES_TABLE;
+const ROLLOUTS_TABLE = process.env.ROLLOUTS_TABLE;
+const AUDIT_TABLE = process.env.AUDIT_TABLE;
+const TRASH_TABLE = process.env.TRASH_TABLE;
+
+// Custom method suffix of the duplicate route; API Gateway passes it as part of the {version} path parameter
+const DUPLICATE_SUFFIX = ':duplicate';
 
 exports.handler = async (event) => {
   console.log('Version Lambda triggered. Event:', JSON.stringify(event));
@@ -69,14 +145,169 @@ exports.handler = async (event) => {
     const { userId } = decodedToken;
     console.log('Decoded token:', decodedToken);
 
+    // Writes to versions and shortnames are recorded in the audit table
+    const audit = createAuditContext(event, decodedToken, AUDIT_TABLE);
+    // Deleted versions and shortnames are moved to the trash
+    const trash = createTrashContext(decodedToken, TRASH_TABLE);
+
     // Handle different HTTP methods
     const httpMethod = event.requestContext.http.method;
     const pathParams = event.pathParameters || {};
     const path = event.requestContext.http.path;
     
+    // Handle channel routes
+    if (path.startsWith('/api/channels')) {
+      const channel = pathParams.channel;
+
+      if (!channel && httpMethod === 'GET') {
+        // GET /api/channels - List all channels
+        return await getChannels(CHANNELS_TABLE);
+      }
+
+      if (channel && httpMethod === 'GET' && path.endsWith('/history')) {
+        // GET /api/channels/{channel}/history - Get the history of the moves of a channel
+        return await getChannelHistory(channel, CHANNEL_HISTORY_TABLE);
+      }
+
+      if (channel && httpMethod === 'PUT') {
+        // PUT /api/channels/{channel} - Create a channel or move it to another version
+        const body = JSON.parse(event.body || '{}');
+        if (!body.version) {
+          return badRequestResponse('Version is required');
+        }
+
+        return await moveChannel(
+          channel,
+          {
+            version: body.version,
+            expectedVersion: body.expectedVersion,
+            description: body.description
+          },
+          userId,
+          CHANNELS_TABLE,
+          CHANNEL_HISTORY_TABLE,
+          VERSIONS_TABLE
+        );
+      }
+
+      if (channel && httpMethod === 'DELETE') {
+        // DELETE /api/channels/{channel} - Delete a channel
+        return await deleteChannel(channel, userId, CHANNELS_TABLE, CHANNEL_HISTORY_TABLE);
+      }
+
+      return {
+        statusCode: 405,
+        body: JSON.stringify({ message: 'Method not allowed' })
+      };
+    }
+
+    // Handle schedule routes
+    if (path.startsWith('/api/schedules')) {
+      const scheduleId = pathParams.scheduleId;
+
+      if (!scheduleId && httpMethod === 'GET') {
+        // GET /api/schedules?status=pending - List the schedules with a status
+        const queryParams = event.queryStringParameters || {};
+        return await getSchedules(queryParams.status || 'pending', SCHEDULES_TABLE);
+      }
+
+      if (scheduleId && httpMethod === 'DELETE') {
+        // DELETE /api/schedules/{scheduleId} - Cancel a pending schedule
+        return await cancelSchedule(scheduleId, userId, SCHEDULES_TABLE);
+      }
+
+      return {
+        statusCode: 405,
+        body: JSON.stringify({ message: 'Method not allowed' })
+      };
+    }
+
+    // Handle rollout routes
+    if (path.startsWith('/api/shortnames/') && path.endsWith('/rollout')) {
+      const shortname = pathParams.shortname;
+
+      if (httpMethod === 'GET') {
+        // GET /api/shortnames/{shortname}/rollout?clientId=... - Get the rollout, and the version a client gets
+        const queryParams = event.queryStringParameters || {};
+        return await getRollout(shortname, queryParams.clientId, ROLLOUTS_TABLE);
+      }
+
+      if (httpMethod === 'PUT') {
+        // PUT /api/shortnames/{shortname}/rollout - Start or ramp a rollout
+        const body = JSON.parse(event.body || '{}');
+        if (!body.baseVersion || !body.targetVersion || body.percentage === undefined) {
+          return badRequestResponse('Base version, target version and percentage are required');
+        }
+
+        return await putRollout(
+          shortname,
+          { baseVersion: body.baseVersion, targetVersion: body.targetVersion, percentage: body.percentage },
+          userId,
+          ROLLOUTS_TABLE,
+          SHORTNAME_VERSIONS_TABLE,
+          VERSIONS_TABLE
+        );
+      }
+
+      if (httpMethod === 'DELETE') {
+        // DELETE /api/shortnames/{shortname}/rollout - End a rollout
+        return await deleteRollout(shortname, ROLLOUTS_TABLE);
+      }
+
+      return {
+        statusCode: 405,
+        body: JSON.stringify({ message: 'Method not allowed' })
+      };
+    }
+
+    if (httpMethod === 'POST' && path.startsWith('/api/versions/') && path.endsWith(DUPLICATE_SUFFIX)) {
+      // POST /api/versions/{version}:duplicate - Copy a version into a new version
+      const sourceVersion = pathParams.version.slice(0, -DUPLICATE_SUFFIX.length);
+      const body = JSON.parse(event.body || '{}');
+      if (!body.version) {
+        return badRequestResponse('Version is required');
+      }
+
+      return await duplicateVersion(
+        sourceVersion,
+        body.version,
+        userId,
+        body.description,
+        VERSIONS_TABLE,
+        SHORTNAME_VERSIONS_TABLE,
+        CONFIGURATIONS_TABLE,
+        audit
+      );
+    }
+
+    // Channels such as "stable" and aliases such as "latest" or "2.x" resolve to a version on reads
+    let version = pathParams.version;
+    if (version && isVersionAlias(version) && httpMethod !== 'GET') {
+      return badRequestResponse(`Version alias "${version}" can only be used to read versions`);
+    }
+
+    if (version && httpMethod === 'GET' && !isValidVersion(version)) {
+      const resolved = await resolveVersion(version, VERSIONS_TABLE, CHANNELS_TABLE, pathParams.shortname, SHORTNAME_VERSIONS_TABLE);
+      if (resolved.response) {
+        return resolved.response;
+      }
+      version = resolved.version;
+    }
+
     // Handle version-first approach
     if (path.startsWith('/api/versions')) {
-      const version = pathParams.version;
+      // Versions locked for a release reject writes to their shortnames and configurations
+      const isShortnamesWrite = version && (
+        (httpMethod === 'POST' && path.endsWith('/shortnames')) ||
+        (httpMethod === 'POST' && path.endsWith('/restore') && !JSON.parse(event.body || '{}').dryRun) ||
+        (httpMethod === 'DELETE' && !path.endsWith('/lock'))
+      );
+      if (isShortnamesWrite) {
+        const lockResponse = await checkVersionUnlocked(version, decodedToken, VERSIONS_TABLE);
+        if (lockResponse) {
+          return lockResponse;
+        }
+      }
       
       if (!version && httpMethod === 'GET') {
         // GET /api/versions - List all versions
@@ -94,24 +325,136 @@ exports.handler = async (event) => {
           body.version, 
           userId, 
           body.description || '', 
-          body.isActive || false,
-          VERSIONS_TABLE
+          VERSIONS_TABLE,
+          audit
         );
       }
       
+      if (version && path.includes('/snapshots')) {
+        const snapshotId = pathParams.snapshotId;
+
+        if (!snapshotId && httpMethod === 'GET') {
+          // GET /api/versions/{version}/snapshots - List the snapshots of a version
+          return await getSnapshots(version, SNAPSHOTS_TABLE);
+        }
+
+        if (!snapshotId && httpMethod === 'POST') {
+          // POST /api/versions/{version}/snapshots - Take a snapshot of a version
+          const body = JSON.parse(event.body || '{}');
+          return await takeSnapshot(
+            version,
+            body.description,
+            userId,
+            VERSIONS_TABLE,
+            SNAPSHOTS_TABLE,
+            SHORTNAME_VERSIONS_TABLE,
+            CONFIGURATIONS_TABLE,
+            CONFIG_BUCKET
+          );
+        }
+
+        if (snapshotId && httpMethod === 'POST' && path.endsWith('/restore')) {
+          // POST /api/versions/{version}/snapshots/{snapshotId}/restore - Restore a version to a snapshot
+          const body = JSON.parse(event.body || '{}');
+          return await restoreSnapshot(
+            version,
+            snapshotId,
+            Boolean(body.dryRun),
+            userId,
+            VERSIONS_TABLE,
+            SNAPSHOTS_TABLE,
+            SHORTNAME_VERSIONS_TABLE,
+            CONFIGURATIONS_TABLE,
+            REVISIONS_TABLE,
+            CONFIG_BUCKET,
+            audit
+          );
+        }
+
+        return {
+          statusCode: 405,
+          body: JSON.stringify({ message: 'Method not allowed' })
+        };
+      }
+
+      if (version && httpMethod === 'POST' && path.endsWith('/schedules')) {
+        // POST /api/versions/{version}/schedules - Schedule a version to be published or deprecated
+        const body = JSON.parse(event.body || '{}');
+        if (!body.targetStatus || !body.runAt) {
+          return badRequestResponse('Target status and run time are required');
+        }
+
+        return await createSchedule(
+          version,
+          { targetStatus: body.targetStatus, runAt: body.runAt },
+          userId,
+          VERSIONS_TABLE,
+          SCHEDULES_TABLE
+        );
+      }
+
+      if (version && path.endsWith('/release-notes')) {
+        if (httpMethod === 'GET') {
+          // GET /api/versions/{version}/release-notes - Download the release notes of a version
+          return await getReleaseNotes(version, VERSIONS_TABLE);
+        }
+
+        if (httpMethod === 'POST') {
+          // POST /api/versions/{version}/release-notes - Generate release notes, without storing them
+          const body = JSON.parse(event.body || '{}');
+          return await generateVersionReleaseNotes(
+            version,
+            body.from || undefined,
+            VERSIONS_TABLE,
+            SHORTNAME_VERSIONS_TABLE,
+            CONFIGURATIONS_TABLE
+          );
+        }
+      }
+
       if (version && httpMethod === 'GET' && !path.includes('/shortnames')) {
         // GET /api/versions/{version} - Get a specific version
         return await getVersion(version, VERSIONS_TABLE);
       }
       
+      if (version && httpMethod === 'PUT' && path.endsWith('/status')) {
+        // PUT /api/versions/{version}/status - Move a version through its lifecycle
+        const body = JSON.parse(event.body || '{}');
+        if (!body.status) {
+          return badRequestResponse('Status is required');
+        }
+
+        return await transitionVersion(version, body.status, userId, VERSIONS_TABLE, SHORTNAME_VERSIONS_TABLE, CONFIGURATIONS_TABLE, audit);
+      }
+      
+      if (version && httpMethod === 'PUT' && path.endsWith('/lock')) {
+        // PUT /api/versions/{version}/lock - Lock a version for a release
+        const body = JSON.parse(event.body || '{}');
+        if (!body.reason) {
+          return badRequestResponse('Reason is required');
+        }
+
+        return await lockVersion(version, { reason: body.reason, owner: body.owner }, decodedToken, VERSIONS_TABLE, audit);
+      }
+
+      if (version && httpMethod === 'DELETE' && path.endsWith('/lock')) {
+        // DELETE /api/versions/{version}/lock - Unlock a version
+        return await unlockVersion(version, decodedToken, VERSIONS_TABLE, audit);
+      }
+      
       if (version && httpMethod === 'PUT') {
         // PUT /api/versions/{version} - Update a version
         const body = JSON.parse(event.body || '{}');
+        if (body.status !== undefined) {
+          return badRequestResponse('Use PUT /api/versions/{version}/status to change the status of a version');
+        }
+
         return await updateVersion(
           version, 
-          body.description, 
-          body.isActive,
-          VERSIONS_TABLE
+          { description: body.description, releaseNotes: body.releaseNotes },
+          userId,
+          VERSIONS_TABLE,
+          audit
         );
       }
       
@@ -121,7 +464,10 @@ exports.handler = async (event) => {
           version, 
           VERSIONS_TABLE, 
           SHORTNAME_VERSIONS_TABLE, 
-          CONFIGURATIONS_TABLE
+          CONFIGURATIONS_TABLE,
+          CHANNELS_TABLE,
+          trash,
+          audit
         );
       }
       
@@ -145,7 +491,8 @@ exports.handler = async (event) => {
             userId, 
             SHORTNAMES_TABLE, 
             VERSIONS_TABLE,
-            SHORTNAME_VERSIONS_TABLE
+            SHORTNAME_VERSIONS_TABLE,
+            audit
           );
         }
       }
@@ -158,20 +505,28 @@ exports.handler = async (event) => {
     
     // Handle shortname-first approach (legacy)
     const shortname = pathParams.shortname;
-    const version = pathParams.version;
 
     if (!shortname) {
       return badRequestResponse('Shortname is required in the URL');
     }
 
+    // Adding, updating or removing a shortname of a version locked for a release is rejected too
+    const lockedVersion = httpMethod === 'POST' ? JSON.parse(event.body || '{}').version : version;
+    if (httpMethod !== 'GET' && lockedVersion) {
+      const lockResponse = await checkVersionUnlocked(lockedVersion, decodedToken, VERSIONS_TABLE);
+      if (lockResponse) {
+        return lockResponse;
+      }
+    }
+
     switch (httpMethod) {
       case 'GET':
         if (version) {
           // Get specific version for a shortname
-          return await getVersionForShortname(shortname, version, SHORTNAME_VERSIONS_TABLE);
+          return await getVersionForShortname(shortname, version, SHORTNAME_VERSIONS_TABLE, VERSIONS_TABLE);
         } else {
           // List all versions for a shortname
-          return await getAllVersionsForShortname(shortname, SHORTNAME_VERSIONS_TABLE);
+          return await getAllVersionsForShortname(shortname, SHORTNAME_VERSIONS_TABLE, VERSIONS_TABLE);
         }
 
       case 'POST':
@@ -190,10 +545,10 @@ exports.handler = async (event) => {
           createBody.version, 
           userId, 
           createBody.description || '', 
-          createBody.isActive || false,
           SHORTNAMES_TABLE,
           VERSIONS_TABLE,
-          SHORTNAME_VERSIONS_TABLE
+          SHORTNAME_VERSIONS_TABLE,
+          audit
         );
 
       case 'PUT':
@@ -207,8 +562,8 @@ exports.handler = async (event) => {
           shortname, 
           version, 
           updateBody.description, 
-          updateBody.isActive,
-          SHORTNAME_VERSIONS_TABLE
+          SHORTNAME_VERSIONS_TABLE,
+          audit
         );
 
       case 'DELETE':
@@ -221,7 +576,10 @@ exports.handler = async (event) => {
           shortname, 
           version, 
           SHORTNAME_VERSIONS_TABLE, 
-          CONFIGURATIONS_TABLE
+          CONFIGURATIONS_TABLE,
+          VERSIONS_TABLE,
+          trash,
+          audit
         );
 
       default:
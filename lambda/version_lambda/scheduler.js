@@ -0,0 +1,181 @@
+/**
+ * This Lambda applies the scheduled status changes of versions. It is triggered every minute by an
+ * EventBridge rule, without a user token.
+ *
+ * Every pending schedule whose run time has passed is claimed (pending -> running), so that overlapping
+ * runs apply it once, then the version is moved to the target status through the same checks as
+ * PUT /api/versions/{version}/status. The schedule ends up applied, or failed with the reason, e.g. when
+ * the version was moved to another status meanwhile or the transition threw.
+ *
+ * A run lasts at most the Lambda timeout. A schedule still running after that was left behind by a run that
+ * stopped, and is reclaimed by the next run: applied if the version already has the target status, tried again
+ * otherwise.
+ *
+ * Status changes are audited as made by the user who scheduled them, with the request ID of the run.
+ *
+ * applyDueSchedules takes the current time, so it can be run locally against a given clock.
+ */
+
+const AWS = require('aws-sdk');
+const { queryAll } = require('/opt/nodejs/layer-utils');
+const { transitionVersion } = require('./utils/index');
+
+const dynamoDB = new AWS.DynamoDB.DocumentClient();
+
+const VERSIONS_TABLE = process.env.VERSIONS_TABLE;
+const SCHEDULES_TABLE = process.env.SCHEDULES_TABLE;
+const SHORTNAME_VERSIONS_TABLE = process.env.SHORTNAME_VERSIONS_TABLE;
+const CONFIGURATIONS_TABLE = process.env.CONFIGURATIONS_TABLE;
+const AUDIT_TABLE = process.env.AUDIT_TABLE;
+
+// The Lambda timeout, also the interval between runs
+const RUN_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Move a schedule from a status to another, recording when and the outcome. A running schedule is only moved
+ * on by the run that claimed it, not by a run that reclaimed it since.
+ * @param {Object} schedule - The schedule, as last read or claimed.
+ * @param {string} from - The expected current status of the schedule.
+ * @param {string} to - The new status of the schedule.
+ * @param {Object} fields - Other attributes to set.
+ * @param {string} schedulesTable - The schedules DynamoDB table name.
+ * @returns {Promise<void>}
+ */
+async function setScheduleStatus(schedule, from, to, fields, schedulesTable) {
+  const names = { '#status': 'status' };
+  const values = { ':from': from, ':to': to };
+  const assignments = ['#status = :to'];
+  for (const [name, value] of Object.entries(fields)) {
+    names[`#${name}`] = name;
+    values[`:${name}`] = value;
+    assignments.push(`#${name} = :${name}`);
+  }
+
+  const conditions = ['#status = :from'];
+  if (from === 'running') {
+    names['#startedAt'] = 'startedAt';
+    values[':claimedAt'] = schedule.startedAt;
+    conditions.push('#startedAt = :claimedAt');
+  }
+
+  await dynamoDB.update({
+    TableName: schedulesTable,
+    Key: { scheduleId: schedule.scheduleId },
+    UpdateExpression: `SET ${assignments.join(', ')}`,
+    ConditionExpression: conditions.join(' AND '),
+    ExpressionAttributeNames: names,
+    ExpressionAttributeValues: values
+  }).promise();
+}
+
+/**
+ * Apply a claimed schedule: move its version to the target status, then record the outcome on the schedule.
+ * @param {Object} schedule - The schedule, as claimed.
+ * @param {boolean} reclaimed - Whether the schedule was left running by an earlier run.
+ * @param {Date} now - The current time.
+ * @param {string} schedulesTable - The schedules DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} [requestId] - The request ID of the run, recorded in the audit table.
+ * @returns {Promise<string|null>} - null once applied, or the reason the schedule failed.
+ */
+async function applySchedule(schedule, reclaimed, now, schedulesTable, versionsTable, requestId) {
+  const response = await transitionVersion(
+    schedule.version,
+    schedule.targetStatus,
+    schedule.createdBy,
+    versionsTable,
+    SHORTNAME_VERSIONS_TABLE,
+    CONFIGURATIONS_TABLE,
+    { table: AUDIT_TABLE, actor: schedule.createdBy, requestId: requestId || null }
+  );
+
+  const { message, status } = response.statusCode === 200 ? {} : JSON.parse(response.body);
+  // The run that left the schedule behind may have made the transition before it stopped
+  if (response.statusCode === 200 || (reclaimed && status === schedule.targetStatus)) {
+    await setScheduleStatus(schedule, 'running', 'applied', { appliedAt: now.toISOString() }, schedulesTable);
+    return null;
+  }
+
+  await setScheduleStatus(schedule, 'running', 'failed', { failedAt: now.toISOString(), error: message }, schedulesTable);
+  return message;
+}
+
+/**
+ * Apply every pending schedule due at a given time, oldest first, and reclaim the schedules left running by a run
+ * that stopped.
+ * @param {Date} now - The current time.
+ * @param {string} schedulesTable - The schedules DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} [requestId] - The request ID of the run, recorded in the audit table.
+ * @returns {Promise<Object>} - The IDs of the applied, failed and skipped schedules.
+ */
+async function applyDueSchedules(now, schedulesTable, versionsTable, requestId) {
+  const due = await queryAll(dynamoDB, {
+    TableName: schedulesTable,
+    IndexName: 'StatusRunAtIndex',
+    KeyConditionExpression: '#status = :pending AND runAt <= :now',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: { ':pending': 'pending', ':now': now.toISOString() }
+  });
+
+  const stale = await queryAll(dynamoDB, {
+    TableName: schedulesTable,
+    IndexName: 'StatusRunAtIndex',
+    KeyConditionExpression: '#status = :running AND runAt <= :now',
+    FilterExpression: 'startedAt < :staleBefore',
+    ExpressionAttributeNames: { '#status': 'status' },
+    ExpressionAttributeValues: {
+      ':running': 'running',
+      ':now': now.toISOString(),
+      ':staleBefore': new Date(now.getTime() - RUN_TIMEOUT_MS).toISOString()
+    }
+  });
+
+  const result = { applied: [], failed: [], skipped: [] };
+  const schedules = [...due, ...stale].sort((a, b) => a.runAt.localeCompare(b.runAt));
+  for (const schedule of schedules) {
+    const reclaimed = schedule.status === 'running';
+    const claimed = { ...schedule, status: 'running', startedAt: now.toISOString() };
+    try {
+      await setScheduleStatus(schedule, schedule.status, 'running', { startedAt: claimed.startedAt }, schedulesTable);
+    } catch (error) {
+      // Cancelled or claimed by another run since it was read
+      if (error.code === 'ConditionalCheckFailedException') {
+        result.skipped.push(schedule.scheduleId);
+        continue;
+      }
+      throw error;
+    }
+
+    let reason;
+    try {
+      reason = await applySchedule(claimed, reclaimed, now, schedulesTable, versionsTable, requestId);
+    } catch (error) {
+      // The schedule is not left running: it fails with the error, or is reclaimed by a later run if even that
+      // cannot be written
+      reason = error.message;
+      try {
+        await setScheduleStatus(claimed, 'running', 'failed', { failedAt: now.toISOString(), error: reason }, schedulesTable);
+      } catch (statusError) {
+        console.error(`Could not mark schedule ${schedule.scheduleId} as failed:`, statusError);
+      }
+    }
+
+    if (reason === null) {
+      result.applied.push(schedule.scheduleId);
+      console.log(`Applied schedule ${schedule.scheduleId}: version ${schedule.version} is now ${schedule.targetStatus}`);
+    } else {
+      result.failed.push(schedule.scheduleId);
+      console.error(`Schedule ${schedule.scheduleId} failed: ${reason}`);
+    }
+  }
+
+  return result;
+}
+
+exports.handler = async (event, context) => {
+  console.log('Version scheduler triggered. Event:', JSON.stringify(event));
+  return applyDueSchedules(new Date(), SCHEDULES_TABLE, VERSIONS_TABLE, context && context.awsRequestId);
+};
+
+exports.applyDueSchedules = applyDueSchedules;
@@ -0,0 +1,29 @@
+/**
+ * Named channels (e.g. "stable", "beta", "canary") pointing to a version. Channel names start with a letter,
+ * so they never collide with semantic versions, and cannot take the name of a version alias.
+ */
+
+const CHANNEL_PATTERN = /^[a-z][a-z0-9-]*$/;
+const MAX_CHANNEL_LENGTH = 32;
+const RESERVED_CHANNELS = ['latest', 'latest-stable'];
+
+/**
+ * Validate a channel name.
+ * @param {string} channel - The channel name.
+ * @returns {string|null} - An error message, or null if the name is valid.
+ */
+function validateChannelName(channel) {
+  if (channel.length > MAX_CHANNEL_LENGTH || !CHANNEL_PATTERN.test(channel)) {
+    return `Invalid channel "${channel}": channels are up to ${MAX_CHANNEL_LENGTH} lowercase letters, numbers and hyphens, starting with a letter`;
+  }
+
+  if (RESERVED_CHANNELS.includes(channel)) {
+    return `Channel "${channel}" is reserved for a version alias`;
+  }
+
+  return null;
+}
+
+module.exports = {
+  validateChannelName
+};
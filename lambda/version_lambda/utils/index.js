@@ -1,9 +1,87 @@
 const AWS = require('aws-sdk');
 const jwt = require('jsonwebtoken');
 const { v4: uuidv4 } = require('uuid');
+const {
+  isValidVersion,
+  compareVersions,
+  DEFAULT_VERSION_STATUS,
+  getVersionStatus,
+  isValidVersionStatus,
+  canTransition,
+  getAllowedTransitions,
+  isWritableStatus,
+  isDeliverableStatus,
+  queryAll,
+  batchPut,
+  batchDelete,
+  diffVersions,
+  readVersionItems,
+  groupByShortname,
+  createSnapshot,
+  readSnapshot,
+  getVersionLock,
+  canOverrideVersionLock,
+  checkVersionLock,
+  validateRolloutPercentage,
+  selectRolloutVersion,
+  recordAudit,
+  moveToTrash,
+  toRevision,
+  toInitialRevision,
+  putRevision
+} = require('/opt/nodejs/layer-utils');
+const { validateChannelName } = require('./channels');
+const { SCHEDULE_STATUSES, validateSchedule } = require('./schedules');
+const { findPreviousVersion, generateReleaseNotes } = require('./releaseNotes');
 
 const dynamoDB = new AWS.DynamoDB.DocumentClient();
 
+/**
+ * Build the 400 response of a version that is not a semantic version.
+ * @param {string} version - The invalid version.
+ * @returns {Object} - The response object.
+ */
+function invalidVersionResponse(version) {
+  return {
+    statusCode: 400,
+    body: JSON.stringify({
+      message: `Invalid version "${version}": expected a semantic version such as 2.1.0 or 2.1.0-beta.1`
+    })
+  };
+}
+
+/**
+ * Sort items holding a version from the highest to the lowest version.
+ * @param {Array<Object>} items - The items.
+ * @returns {Array<Object>} - The sorted items.
+ */
+function sortByVersionDescending(items) {
+  return items.sort((a, b) => compareVersions(b.version, a.version));
+}
+
+/**
+ * Prepare a version item for a response, with its lifecycle status in place of the legacy isActive flag.
+ * @param {Object} item - The version item.
+ * @returns {Object} - The version as returned by the API.
+ */
+function toVersionItem(item) {
+  const { isActive, ...rest } = item;
+  return { ...rest, status: getVersionStatus(item) };
+}
+
+/**
+ * Build the 409 response of a write to a version whose configurations are immutable.
+ * @param {string} version - The version.
+ * @param {string} status - The status of the version.
+ * @returns {Object} - The response object.
+ */
+function versionLockedResponse(version, status) {
+  return {
+    statusCode: 409,
+    body: JSON.stringify({ message: `Version ${version} is ${status} and can no longer be modified`, status })
+  };
+}
+
 /**
  * Verify a JWT token.
  * @param {string} token - The JWT token.
@@ -38,7 +116,7 @@ async function getAllVersions(versionsTable) {
     return {
       statusCode: 200,
       body: JSON.stringify({
-        versions: result.Items || []
+        versions: sortByVersionDescending((result.Items || []).map(toVersionItem))
       })
     };
   } catch (error) {
@@ -73,7 +151,10 @@ async function getVersion(version, versionsTable) {
 
     return {
       statusCode: 200,
-      body: JSON.stringify(result.Item)
+      body: JSON.stringify({
+        ...toVersionItem(result.Item),
+        allowedTransitions: getAllowedTransitions(getVersionStatus(result.Item))
+      })
     };
   } catch (error) {
     console.error(`Error fetching version ${version}:`, error);
@@ -89,12 +170,16 @@ async function getVersion(version, versionsTable) {
  * @param {string} version - The version to create.
  * @param {string} userId - The user ID creating the version.
  * @param {string} description - The version description.
- * @param {boolean} isActive - Whether the version is active.
  * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function createVersion(version, userId, description, isActive, versionsTable) {
+async function createVersion(version, userId, description, versionsTable, audit) {
   try {
+    if (!isValidVersion(version)) {
+      return invalidVersionResponse(version);
+    }
+
     // Check if version already exists
     const existingParams = {
       TableName: versionsTable,
@@ -109,12 +194,14 @@ async function createVersion(version, userId, description, isActive, versionsTab
       };
     }
 
-    // Create new version
+    // Create new version, as a draft
     const timestamp = new Date().toISOString();
     const versionItem = {
       version,
       description: description || '',
-      isActive: isActive || false,
+      status: DEFAULT_VERSION_STATUS,
+      statusChangedBy: userId,
+      statusChangedAt: timestamp,
       createdBy: userId,
       createdAt: timestamp,
       updatedAt: timestamp
@@ -126,6 +213,7 @@ async function createVersion(version, userId, description, isActive, versionsTab
     };
 
     await dynamoDB.put(params).promise();
+    await recordAudit(dynamoDB, audit, { entity: 'version', action: 'create', entityId: version, version, after: versionItem });
     return {
       statusCode: 201,
       body: JSON.stringify(versionItem)
@@ -140,14 +228,188 @@ async function createVersion(version, userId, description, isActive, versionsTab
 }
 
 /**
- * Update a version in DynamoDB.
+ * Duplicate a version server-side: create the new version as a draft, then copy the shortname links and the
+ * configurations of the source version, version defaults included, in batches. Secret values are copied
+ * encrypted. If the copy fails, everything written is rolled back; if the rollback fails too, the new version
+ * is left with its duplication marked as incomplete so that it is not mistaken for a full copy.
+ * @param {string} sourceVersion - The version to copy.
+ * @param {string} version - The new version.
+ * @param {string} userId - The user ID duplicating the version.
+ * @param {string} description - The description of the new version.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object, with what was copied.
+ */
+async function duplicateVersion(sourceVersion, version, userId, description, versionsTable, shortnameVersionsTable, configurationsTable, audit) {
+  if (!isValidVersion(version)) {
+    return invalidVersionResponse(version);
+  }
+
+  let versionItem;
+  try {
+    const sourceResult = await dynamoDB.get({ TableName: versionsTable, Key: { version: sourceVersion } }).promise();
+    if (!sourceResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `Version ${sourceVersion} not found` })
+      };
+    }
+
+    // The new version is marked as being copied until every item is written
+    const timestamp = new Date().toISOString();
+    versionItem = {
+      version,
+      description: description || sourceResult.Item.description || '',
+      status: DEFAULT_VERSION_STATUS,
+      statusChangedBy: userId,
+      statusChangedAt: timestamp,
+      duplication: { sourceVersion, status: 'in_progress', startedAt: timestamp },
+      createdBy: userId,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    await dynamoDB.put({
+      TableName: versionsTable,
+      Item: versionItem,
+      ConditionExpression: 'attribute_not_exists(#version)',
+      ExpressionAttributeNames: { '#version': 'version' }
+    }).promise();
+  } catch (error) {
+    if (error.code === 'ConditionalCheckFailedException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: 'Version already exists' })
+      };
+    }
+
+    console.error(`Error duplicating version ${sourceVersion} to ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to duplicate version', error: error.message })
+    };
+  }
+
+  const links = [];
+  const configurations = [];
+  try {
+    const sourceLinks = await queryAll(dynamoDB, {
+      TableName: shortnameVersionsTable,
+      IndexName: 'VersionIndex',
+      KeyConditionExpression: 'version = :version',
+      ExpressionAttributeValues: { ':version': sourceVersion }
+    });
+
+    // Shortname overrides and the version defaults, stored under the "*" shortname
+    const timestamp = new Date().toISOString();
+    for (const shortname of [...sourceLinks.map(link => link.shortname), '*']) {
+      const sourceConfigurations = await queryAll(dynamoDB, {
+        TableName: configurationsTable,
+        IndexName: 'ShortnameVersionIndex',
+        KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
+        ExpressionAttributeValues: { ':shortnameVersion': `${shortname}:${sourceVersion}` }
+      });
+
+      // Copies start their own revision history
+      configurations.push(...sourceConfigurations.map(({ revision, ...config }) => ({
+        ...config,
+        configId: uuidv4(),
+        version,
+        shortnameVersion: `${shortname}:${version}`,
+        createdBy: userId,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      })));
+    }
+
+    links.push(...sourceLinks.map(link => ({
+      ...link,
+      shortnameVersionId: `${link.shortname}:${version}`,
+      version,
+      createdBy: userId,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    })));
+
+    await batchPut(dynamoDB, shortnameVersionsTable, links);
+    await batchPut(dynamoDB, configurationsTable, configurations);
+
+    const copied = {
+      shortnames: links.map(link => link.shortname).sort(),
+      configurations: configurations.filter(config => config.shortname !== '*').length,
+      versionDefaults: configurations.filter(config => config.shortname === '*').length
+    };
+    const completedAt = new Date().toISOString();
+    const result = await dynamoDB.update({
+      TableName: versionsTable,
+      Key: { version },
+      UpdateExpression: 'SET duplication = :duplication',
+      ExpressionAttributeValues: {
+        ':duplication': { sourceVersion, status: 'complete', startedAt: versionItem.createdAt, completedAt, copied }
+      },
+      ReturnValues: 'ALL_NEW'
+    }).promise();
+
+    // The copy is audited as the creation of the version, with what was copied
+    await recordAudit(dynamoDB, audit, { entity: 'version', action: 'create', entityId: version, version, after: result.Attributes });
+    return {
+      statusCode: 201,
+      body: JSON.stringify({ ...toVersionItem(result.Attributes), copied })
+    };
+  } catch (error) {
+    console.error(`Error duplicating version ${sourceVersion} to ${version}, rolling back:`, error);
+
+    try {
+      await batchDelete(dynamoDB, configurationsTable, configurations.map(config => ({ configId: config.configId })));
+      await batchDelete(dynamoDB, shortnameVersionsTable, links.map(link => ({ shortnameVersionId: link.shortnameVersionId })));
+      await dynamoDB.delete({ TableName: versionsTable, Key: { version } }).promise();
+
+      return {
+        statusCode: 500,
+        body: JSON.stringify({
+          message: `Failed to duplicate version ${sourceVersion}; the copy was rolled back`,
+          rolledBack: true,
+          error: error.message
+        })
+      };
+    } catch (rollbackError) {
+      console.error(`Error rolling back the duplication of version ${sourceVersion} to ${version}:`, rollbackError);
+
+      // Leave the version in place, clearly marked, rather than passing it off as a full copy
+      await dynamoDB.update({
+        TableName: versionsTable,
+        Key: { version },
+        UpdateExpression: 'SET duplication.#status = :status, duplication.#error = :error',
+        ExpressionAttributeNames: { '#status': 'status', '#error': 'error' },
+        ExpressionAttributeValues: { ':status': 'incomplete', ':error': error.message }
+      }).promise().catch(markError => console.error(`Error marking version ${version} as incomplete:`, markError));
+
+      return {
+        statusCode: 500,
+        body: JSON.stringify({
+          message: `Failed to duplicate version ${sourceVersion}; version ${version} is incomplete and should be deleted`,
+          rolledBack: false,
+          error: error.message
+        })
+      };
+    }
+  }
+}
+
+/**
+ * Update a version in DynamoDB. Release notes can be edited whatever the status of the version.
  * @param {string} version - The version to update.
- * @param {string} description - The updated description.
- * @param {boolean} isActive - Whether the version is active.
+ * @param {Object} updates - The updates.
+ * @param {string} [updates.description] - The updated description.
+ * @param {string} [updates.releaseNotes] - The updated release notes, in Markdown.
+ * @param {string} userId - The user ID updating the version.
  * @param {string} versionsTable - The DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function updateVersion(version, description, isActive, versionsTable) {
+async function updateVersion(version, { description, releaseNotes }, userId, versionsTable, audit) {
   try {
     // Check if version exists
     const existingParams = {
@@ -175,9 +437,10 @@ async function updateVersion(version, description, isActive, versionsTable) {
       expressionAttributeValues[':description'] = description;
     }
 
-    if (isActive !== undefined) {
-      updateExpression += ', isActive = :isActive';
-      expressionAttributeValues[':isActive'] = isActive;
+    if (releaseNotes !== undefined) {
+      updateExpression += ', releaseNotes = :releaseNotes, releaseNotesUpdatedBy = :userId, releaseNotesUpdatedAt = :updatedAt';
+      expressionAttributeValues[':releaseNotes'] = releaseNotes;
+      expressionAttributeValues[':userId'] = userId;
     }
 
     // Update version
@@ -190,9 +453,17 @@ async function updateVersion(version, description, isActive, versionsTable) {
     };
 
     const result = await dynamoDB.update(params).promise();
+    await recordAudit(dynamoDB, audit, {
+      entity: 'version',
+      action: 'update',
+      entityId: version,
+      version,
+      before: existingResult.Item,
+      after: result.Attributes
+    });
     return {
       statusCode: 200,
-      body: JSON.stringify(result.Attributes)
+      body: JSON.stringify(toVersionItem(result.Attributes))
     };
   } catch (error) {
     console.error(`Error updating version ${version}:`, error);
@@ -204,22 +475,29 @@ async function updateVersion(version, description, isActive, versionsTable) {
 }
 
 /**
- * Delete a version and all associated shortname-versions and configurations.
- * @param {string} version - The version to delete.
+ * Move a version to another lifecycle status, if the transition is allowed:
+ * draft -> in_review -> published -> deprecated -> archived, back from in_review to draft,
+ * from deprecated to published, and from draft to archived.
+ * A version published without release notes gets notes generated from its changes since the previous version.
+ * @param {string} version - The version.
+ * @param {string} status - The requested status.
+ * @param {string} userId - The user ID changing the status.
  * @param {string} versionsTable - The versions DynamoDB table name.
  * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
  * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function deleteVersion(version, versionsTable, shortnameVersionsTable, configurationsTable) {
+async function transitionVersion(version, status, userId, versionsTable, shortnameVersionsTable, configurationsTable, audit) {
   try {
-    // Check if version exists
-    const existingParams = {
-      TableName: versionsTable,
-      Key: { version }
-    };
+    if (!isValidVersionStatus(status)) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: `Invalid status "${status}"` })
+      };
+    }
 
-    const existingResult = await dynamoDB.get(existingParams).promise();
+    const existingResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
     if (!existingResult.Item) {
       return {
         statusCode: 404,
@@ -227,149 +505,576 @@ async function deleteVersion(version, versionsTable, shortnameVersionsTable, con
       };
     }
 
-    // Get all shortname-versions for this version
-    const shortnameVersionsParams = {
-      TableName: shortnameVersionsTable,
-      IndexName: 'VersionIndex',
-      KeyConditionExpression: 'version = :version',
-      ExpressionAttributeValues: {
-        ':version': version
-      }
-    };
-
-    const shortnameVersionsResult = await dynamoDB.query(shortnameVersionsParams).promise();
-    const shortnameVersions = shortnameVersionsResult.Items || [];
+    // A version whose copy did not finish is not a complete version
+    const { duplication } = existingResult.Item;
+    if (duplication && duplication.status !== 'complete') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          message: `Version ${version} is an incomplete copy of version ${duplication.sourceVersion} and cannot change status`,
+          duplication
+        })
+      };
+    }
 
-    // Delete all configurations for this version
-    for (const shortnameVersion of shortnameVersions) {
-      const shortnameVersionId = `${shortnameVersion.shortname}:${version}`;
-      
-      const configurationsParams = {
-        TableName: configurationsTable,
-        IndexName: 'ShortnameVersionIndex',
-        KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
-        ExpressionAttributeValues: {
-          ':shortnameVersion': shortnameVersionId
-        }
+    const currentStatus = getVersionStatus(existingResult.Item);
+    if (!canTransition(currentStatus, status)) {
+      const allowed = getAllowedTransitions(currentStatus);
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          message: `Version ${version} cannot move from ${currentStatus} to ${status}`,
+          status: currentStatus,
+          allowedTransitions: allowed
+        })
       };
-      
-      const configurationsResult = await dynamoDB.query(configurationsParams).promise();
-      const configurations = configurationsResult.Items || [];
-      
-      // Delete each configuration
-      for (const config of configurations) {
-        await dynamoDB.delete({
-          TableName: configurationsTable,
-          Key: { configId: config.configId }
-        }).promise();
-      }
-      
-      // Delete the shortname-version entry
-      await dynamoDB.delete({
-        TableName: shortnameVersionsTable,
-        Key: { shortnameVersionId: shortnameVersion.shortnameVersionId }
-      }).promise();
     }
 
-    // Delete the version
-    await dynamoDB.delete({
+    // The condition rejects the transition if the status changed since it was read
+    const timestamp = new Date().toISOString();
+    const params = {
       TableName: versionsTable,
-      Key: { version }
-    }).promise();
+      Key: { version },
+      UpdateExpression: 'SET #status = :status, statusChangedBy = :userId, statusChangedAt = :timestamp, updatedAt = :timestamp REMOVE isActive',
+      ConditionExpression: existingResult.Item.status ? '#status = :currentStatus' : 'attribute_not_exists(#status)',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':status': status,
+        ':userId': userId,
+        ':timestamp': timestamp,
+        ...(existingResult.Item.status ? { ':currentStatus': currentStatus } : {})
+      },
+      ReturnValues: 'ALL_NEW'
+    };
+
+    let updated = (await dynamoDB.update(params).promise()).Attributes;
+    if (status === 'published' && !updated.releaseNotes) {
+      updated = await saveGeneratedReleaseNotes(updated, versionsTable, shortnameVersionsTable, configurationsTable);
+    }
 
+    await recordAudit(dynamoDB, audit, {
+      entity: 'version',
+      action: 'update',
+      entityId: version,
+      version,
+      before: existingResult.Item,
+      after: updated
+    });
     return {
       statusCode: 200,
-      body: JSON.stringify({ message: 'Version and all associated configurations deleted successfully' })
+      body: JSON.stringify({
+        ...toVersionItem(updated),
+        allowedTransitions: getAllowedTransitions(status)
+      })
     };
   } catch (error) {
-    console.error(`Error deleting version ${version}:`, error);
+    if (error.code === 'ConditionalCheckFailedException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `The status of version ${version} changed meanwhile, please retry` })
+      };
+    }
+
+    console.error(`Error changing the status of version ${version}:`, error);
     return {
       statusCode: 500,
-      body: JSON.stringify({ message: 'Failed to delete version', error: error.message })
+      body: JSON.stringify({ message: 'Failed to change version status', error: error.message })
     };
   }
 }
 
 /**
- * Get all shortnames for a version from DynamoDB.
- * @param {string} version - The version to get shortnames for.
+ * Generate the release notes of a version from its configuration changes since another version.
+ * @param {Object} versionItem - The version item.
+ * @param {string|undefined} from - The version to compare with; defaults to the previous version delivered to consumers.
+ * @param {string} versionsTable - The versions DynamoDB table name.
  * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
- * @returns {Promise<Object>} - The response object.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Object>} - The version compared with and the release notes in Markdown.
  */
-async function getVersionShortnames(version, shortnameVersionsTable) {
+async function buildReleaseNotes(versionItem, from, versionsTable, shortnameVersionsTable, configurationsTable) {
+  const { version } = versionItem;
+  let previousVersion = from;
+  if (previousVersion === undefined) {
+    const versionsResult = await dynamoDB.scan({ TableName: versionsTable }).promise();
+    previousVersion = findPreviousVersion(version, versionsResult.Items || []);
+  }
+
+  const [fromShortnames, toShortnames] = await Promise.all([
+    // A first release is compared with an empty version, version defaults included
+    previousVersion
+      ? readVersionItems(previousVersion, shortnameVersionsTable, configurationsTable).then(groupByShortname)
+      : groupByShortname({ shortnames: [], configurations: [] }),
+    readVersionItems(version, shortnameVersionsTable, configurationsTable).then(groupByShortname)
+  ]);
+
+  const releaseNotes = generateReleaseNotes({
+    version,
+    description: versionItem.description,
+    previousVersion,
+    diff: diffVersions(fromShortnames, toShortnames),
+    fromShortnames,
+    toShortnames,
+    generatedAt: new Date()
+  });
+
+  return { previousVersion, releaseNotes };
+}
+
+/**
+ * Generate and store the release notes of a version that was just published. A failure is logged and
+ * leaves the version without notes, since the status change already happened.
+ * @param {Object} versionItem - The version item.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Object>} - The version item, with its release notes if they were stored.
+ */
+async function saveGeneratedReleaseNotes(versionItem, versionsTable, shortnameVersionsTable, configurationsTable) {
   try {
-    const params = {
-      TableName: shortnameVersionsTable,
-      IndexName: 'VersionIndex',
-      KeyConditionExpression: 'version = :version',
+    const { releaseNotes } = await buildReleaseNotes(versionItem, undefined, versionsTable, shortnameVersionsTable, configurationsTable);
+    const timestamp = new Date().toISOString();
+    const result = await dynamoDB.update({
+      TableName: versionsTable,
+      Key: { version: versionItem.version },
+      UpdateExpression: 'SET releaseNotes = :releaseNotes, releaseNotesUpdatedBy = :generator, releaseNotesUpdatedAt = :timestamp',
+      // Notes written meanwhile are kept
+      ConditionExpression: 'attribute_not_exists(releaseNotes)',
       ExpressionAttributeValues: {
-        ':version': version
+        ':releaseNotes': releaseNotes,
+        ':generator': 'release-notes-generator',
+        ':timestamp': timestamp
+      },
+      ReturnValues: 'ALL_NEW'
+    }).promise();
+    return result.Attributes;
+  } catch (error) {
+    console.error(`Error generating the release notes of version ${versionItem.version}:`, error);
+    return versionItem;
+  }
+}
+
+/**
+ * Generate the release notes of a version on demand, without storing them.
+ * @param {string} version - The version.
+ * @param {string} [from] - The version to compare with; defaults to the previous version delivered to consumers.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function generateVersionReleaseNotes(version, from, versionsTable, shortnameVersionsTable, configurationsTable) {
+  if (from !== undefined && !isValidVersion(from)) {
+    return invalidVersionResponse(from);
+  }
+
+  try {
+    const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (!versionResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Version not found' })
+      };
+    }
+
+    if (from !== undefined) {
+      const fromResult = await dynamoDB.get({ TableName: versionsTable, Key: { version: from } }).promise();
+      if (!fromResult.Item) {
+        return {
+          statusCode: 404,
+          body: JSON.stringify({ message: `Version ${from} not found` })
+        };
       }
-    };
-    
-    const result = await dynamoDB.query(params).promise();
-    
-    const shortnames = result.Items.map(item => ({
-      shortname: item.shortname,
-      description: item.description
-    }));
-    
+    }
+
+    const { previousVersion, releaseNotes } = await buildReleaseNotes(
+      versionResult.Item,
+      from,
+      versionsTable,
+      shortnameVersionsTable,
+      configurationsTable
+    );
+
     return {
       statusCode: 200,
-      body: JSON.stringify({
-        shortnames
-      })
+      body: JSON.stringify({ version, previousVersion, releaseNotes })
     };
   } catch (error) {
-    console.error(`Error fetching shortnames for version ${version}:`, error);
+    console.error(`Error generating the release notes of version ${version}:`, error);
     return {
       statusCode: 500,
-      body: JSON.stringify({ message: 'Failed to fetch shortnames', error: error.message })
+      body: JSON.stringify({ message: 'Failed to generate release notes', error: error.message })
     };
   }
 }
 
 /**
- * Add a shortname to a version in DynamoDB.
+ * Get the stored release notes of a version as a Markdown file.
  * @param {string} version - The version.
- * @param {string} shortname - The shortname to add.
- * @param {string} description - The shortname description.
- * @param {string} userId - The user ID creating the shortname.
- * @param {string} shortnamesTable - The shortnames DynamoDB table name.
  * @param {string} versionsTable - The versions DynamoDB table name.
- * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
  * @returns {Promise<Object>} - The response object.
  */
-async function addShortnameToVersion(version, shortname, description, userId, shortnamesTable, versionsTable, shortnameVersionsTable) {
+async function getReleaseNotes(version, versionsTable) {
   try {
-    // Check if version exists
-    const versionParams = {
-      TableName: versionsTable,
-      Key: { version }
-    };
-
-    const versionResult = await dynamoDB.get(versionParams).promise();
-    if (!versionResult.Item) {
+    const result = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (!result.Item || !result.Item.releaseNotes) {
       return {
         statusCode: 404,
-        body: JSON.stringify({ message: 'Version not found' })
+        body: JSON.stringify({ message: result.Item ? `Version ${version} has no release notes` : 'Version not found' })
       };
     }
 
-    // Check if shortname exists, create if not
-    const shortnameParams = {
-      TableName: shortnamesTable,
-      Key: { shortname }
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="release-notes-${version}.md"`
+      },
+      body: result.Item.releaseNotes
     };
-    
-    const shortnameResult = await dynamoDB.get(shortnameParams).promise();
-    if (!shortnameResult.Item) {
-      // Create the shortname
-      const timestamp = new Date().toISOString();
-      const shortnameItem = {
-        shortname,
-        description: description || '',
-        createdBy: userId,
+  } catch (error) {
+    console.error(`Error fetching the release notes of version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch release notes', error: error.message })
+    };
+  }
+}
+
+/**
+ * Lock a version for a release: writes to its shortnames and configurations are rejected until it is
+ * unlocked, except for users who can override version locks.
+ * @param {string} version - The version.
+ * @param {Object} lockData - The lock.
+ * @param {string} lockData.reason - Why the version is locked, e.g. the release being validated.
+ * @param {string} [lockData.owner] - Who owns the lock; defaults to the email of the user locking the version.
+ * @param {Object} user - The decoded token of the user locking the version.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function lockVersion(version, { reason, owner }, user, versionsTable, audit) {
+  try {
+    const existingResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (!existingResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Version not found' })
+      };
+    }
+
+    const currentLock = getVersionLock(existingResult.Item);
+    if (currentLock) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Version ${version} is already locked by ${currentLock.owner}`, lock: currentLock })
+      };
+    }
+
+    // The condition rejects the lock if someone else locked the version since it was read
+    const timestamp = new Date().toISOString();
+    const lock = {
+      reason,
+      owner: owner || user.email || user.userId,
+      lockedBy: user.userId,
+      lockedAt: timestamp
+    };
+    const result = await dynamoDB.update({
+      TableName: versionsTable,
+      Key: { version },
+      UpdateExpression: 'SET #lock = :lock, updatedAt = :timestamp',
+      ConditionExpression: 'attribute_exists(#version) AND attribute_not_exists(#lock)',
+      ExpressionAttributeNames: { '#lock': 'lock', '#version': 'version' },
+      ExpressionAttributeValues: { ':lock': lock, ':timestamp': timestamp },
+      ReturnValues: 'ALL_NEW'
+    }).promise();
+
+    await recordAudit(dynamoDB, audit, {
+      entity: 'version',
+      action: 'update',
+      entityId: version,
+      version,
+      before: existingResult.Item,
+      after: result.Attributes
+    });
+    return {
+      statusCode: 200,
+      body: JSON.stringify(toVersionItem(result.Attributes))
+    };
+  } catch (error) {
+    if (error.code === 'ConditionalCheckFailedException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Version ${version} was locked or deleted meanwhile, please retry` })
+      };
+    }
+
+    console.error(`Error locking version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to lock version', error: error.message })
+    };
+  }
+}
+
+/**
+ * Unlock a version locked for a release. Only the user who locked it and users who can override
+ * version locks can unlock it.
+ * @param {string} version - The version.
+ * @param {Object} user - The decoded token of the user unlocking the version.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function unlockVersion(version, user, versionsTable, audit) {
+  try {
+    const existingResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (!existingResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Version not found' })
+      };
+    }
+
+    const lock = getVersionLock(existingResult.Item);
+    if (!lock) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Version ${version} is not locked` })
+      };
+    }
+
+    if (lock.lockedBy !== user.userId && !canOverrideVersionLock(user)) {
+      return {
+        statusCode: 403,
+        body: JSON.stringify({ message: `Version ${version} can only be unlocked by ${lock.owner} or a user who can override version locks`, lock })
+      };
+    }
+
+    // The condition rejects the unlock if the version was unlocked and locked again since it was read
+    const result = await dynamoDB.update({
+      TableName: versionsTable,
+      Key: { version },
+      UpdateExpression: 'SET updatedAt = :timestamp REMOVE #lock',
+      ConditionExpression: '#lock.lockedAt = :lockedAt',
+      ExpressionAttributeNames: { '#lock': 'lock' },
+      ExpressionAttributeValues: { ':timestamp': new Date().toISOString(), ':lockedAt': lock.lockedAt },
+      ReturnValues: 'ALL_NEW'
+    }).promise();
+
+    await recordAudit(dynamoDB, audit, {
+      entity: 'version',
+      action: 'update',
+      entityId: version,
+      version,
+      before: existingResult.Item,
+      after: result.Attributes
+    });
+    return {
+      statusCode: 200,
+      body: JSON.stringify(toVersionItem(result.Attributes))
+    };
+  } catch (error) {
+    if (error.code === 'ConditionalCheckFailedException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `The lock of version ${version} changed meanwhile, please retry` })
+      };
+    }
+
+    console.error(`Error unlocking version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to unlock version', error: error.message })
+    };
+  }
+}
+
+/**
+ * Check that a user can write to the shortnames and configurations of a version.
+ * @param {string} version - The version.
+ * @param {Object} user - The decoded user token.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @returns {Promise<Object|null>} - A 423 response if the version is locked for the user, or null.
+ */
+async function checkVersionUnlocked(version, user, versionsTable) {
+  const result = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+  return checkVersionLock(result.Item, user);
+}
+
+/**
+ * Delete a version and all associated shortname-versions and configurations, moving them to the trash.
+ * @param {string} version - The version to delete.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} channelsTable - The channels DynamoDB table name.
+ * @param {Object} trash - The trash context of the request.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function deleteVersion(version, versionsTable, shortnameVersionsTable, configurationsTable, channelsTable, trash, audit) {
+  try {
+    // Check if version exists
+    const existingParams = {
+      TableName: versionsTable,
+      Key: { version }
+    };
+
+    const existingResult = await dynamoDB.get(existingParams).promise();
+    if (!existingResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Version not found' })
+      };
+    }
+
+    // Consumers may still read published and deprecated versions
+    const status = getVersionStatus(existingResult.Item);
+    if (isDeliverableStatus(status)) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Version ${version} is ${status}; archive it before deleting it`, status })
+      };
+    }
+
+    // A channel must be moved before the version it points to is deleted
+    const channelsResult = await dynamoDB.scan({
+      TableName: channelsTable,
+      FilterExpression: '#version = :version',
+      ExpressionAttributeNames: { '#version': 'version' },
+      ExpressionAttributeValues: { ':version': version }
+    }).promise();
+    const channels = (channelsResult.Items || []).map(item => item.channel);
+    if (channels.length > 0) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          message: `Version ${version} is the target of channel(s) ${channels.join(', ')}; move them first`,
+          channels
+        })
+      };
+    }
+
+    // Move the version, its shortnames and their configurations, version defaults included, to the trash
+    const { shortnames, configurations } = await readVersionItems(version, shortnameVersionsTable, configurationsTable);
+    const entry = await moveToTrash(
+      dynamoDB,
+      trash,
+      { entity: 'version', entityId: version, version },
+      [
+        { table: 'versions', key: { version }, item: existingResult.Item },
+        ...shortnames.map(item => ({ table: 'shortnameVersions', key: { shortnameVersionId: item.shortnameVersionId }, item })),
+        ...configurations.map(item => ({ table: 'configurations', key: { configId: item.configId }, item }))
+      ],
+      { versions: versionsTable, shortnameVersions: shortnameVersionsTable, configurations: configurationsTable }
+    );
+
+    // The deletion of its shortnames and configurations is audited as part of the deletion of the version
+    await recordAudit(dynamoDB, audit, { entity: 'version', action: 'delete', entityId: version, version, before: existingResult.Item });
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        message: 'Version and all associated configurations moved to the trash',
+        deletionId: entry.deletionId,
+        expiresAt: entry.expiresAt
+      })
+    };
+  } catch (error) {
+    console.error(`Error deleting version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to delete version', error: error.message })
+    };
+  }
+}
+
+/**
+ * Get all shortnames for a version from DynamoDB.
+ * @param {string} version - The version to get shortnames for.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getVersionShortnames(version, shortnameVersionsTable) {
+  try {
+    const params = {
+      TableName: shortnameVersionsTable,
+      IndexName: 'VersionIndex',
+      KeyConditionExpression: 'version = :version',
+      ExpressionAttributeValues: {
+        ':version': version
+      }
+    };
+    
+    const result = await dynamoDB.query(params).promise();
+    
+    const shortnames = result.Items.map(item => ({
+      shortname: item.shortname,
+      description: item.description
+    }));
+    
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        shortnames
+      })
+    };
+  } catch (error) {
+    console.error(`Error fetching shortnames for version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch shortnames', error: error.message })
+    };
+  }
+}
+
+/**
+ * Add a shortname to a version in DynamoDB.
+ * @param {string} version - The version.
+ * @param {string} shortname - The shortname to add.
+ * @param {string} description - The shortname description.
+ * @param {string} userId - The user ID creating the shortname.
+ * @param {string} shortnamesTable - The shortnames DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function addShortnameToVersion(version, shortname, description, userId, shortnamesTable, versionsTable, shortnameVersionsTable, audit) {
+  try {
+    // Check if version exists
+    const versionParams = {
+      TableName: versionsTable,
+      Key: { version }
+    };
+
+    const versionResult = await dynamoDB.get(versionParams).promise();
+    if (!versionResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Version not found' })
+      };
+    }
+
+    const status = getVersionStatus(versionResult.Item);
+    if (!isWritableStatus(status)) {
+      return versionLockedResponse(version, status);
+    }
+
+    // Check if shortname exists, create if not
+    const shortnameParams = {
+      TableName: shortnamesTable,
+      Key: { shortname }
+    };
+    
+    const shortnameResult = await dynamoDB.get(shortnameParams).promise();
+    if (!shortnameResult.Item) {
+      // Create the shortname
+      const timestamp = new Date().toISOString();
+      const shortnameItem = {
+        shortname,
+        description: description || '',
+        createdBy: userId,
         createdAt: timestamp,
         updatedAt: timestamp
       };
@@ -378,6 +1083,7 @@ async function addShortnameToVersion(version, shortname, description, userId, sh
         TableName: shortnamesTable,
         Item: shortnameItem
       }).promise();
+      await recordAudit(dynamoDB, audit, { entity: 'shortname', action: 'create', entityId: shortname, shortname, after: shortnameItem });
     }
     
     // Generate the shortnameVersionId
@@ -404,7 +1110,6 @@ async function addShortnameToVersion(version, shortname, description, userId, sh
       shortname,
       version,
       description: description || `Version ${version} for ${shortname}`,
-      isActive: true,
       createdBy: userId,
       createdAt: timestamp,
       updatedAt: timestamp
@@ -414,6 +1119,14 @@ async function addShortnameToVersion(version, shortname, description, userId, sh
       TableName: shortnameVersionsTable,
       Item: shortnameVersionItem
     }).promise();
+    await recordAudit(dynamoDB, audit, {
+      entity: 'shortname',
+      action: 'create',
+      entityId: shortnameVersionId,
+      shortname,
+      version,
+      after: shortnameVersionItem
+    });
     
     return {
       statusCode: 201,
@@ -436,9 +1149,10 @@ async function addShortnameToVersion(version, shortname, description, userId, sh
  * Get all versions for a shortname from DynamoDB.
  * @param {string} shortname - The shortname to get versions for.
  * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name, holding the status of each version.
  * @returns {Promise<Object>} - The response object.
  */
-async function getAllVersionsForShortname(shortname, shortnameVersionsTable) {
+async function getAllVersionsForShortname(shortname, shortnameVersionsTable, versionsTable) {
   try {
     const params = {
       TableName: shortnameVersionsTable,
@@ -450,10 +1164,16 @@ async function getAllVersionsForShortname(shortname, shortnameVersionsTable) {
     };
 
     const result = await dynamoDB.query(params).promise();
+    const versionsResult = await dynamoDB.scan({ TableName: versionsTable }).promise();
+    const statuses = new Map((versionsResult.Items || []).map(item => [item.version, getVersionStatus(item)]));
+
     return {
       statusCode: 200,
       body: JSON.stringify({
-        versions: result.Items || []
+        versions: sortByVersionDescending((result.Items || []).map(item => {
+          const { isActive, ...rest } = item;
+          return { ...rest, status: statuses.get(item.version) || DEFAULT_VERSION_STATUS };
+        }))
       })
     };
   } catch (error) {
@@ -470,9 +1190,10 @@ async function getAllVersionsForShortname(shortname, shortnameVersionsTable) {
  * @param {string} shortname - The shortname.
  * @param {string} version - The version to get.
  * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name, holding the status of the version.
  * @returns {Promise<Object>} - The response object.
  */
-async function getVersionForShortname(shortname, version, shortnameVersionsTable) {
+async function getVersionForShortname(shortname, version, shortnameVersionsTable, versionsTable) {
   try {
     // Generate the shortnameVersionId
     const shortnameVersionId = `${shortname}:${version}`;
@@ -490,9 +1211,14 @@ async function getVersionForShortname(shortname, version, shortnameVersionsTable
       };
     }
 
+    const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    const { isActive, ...item } = result.Item;
     return {
       statusCode: 200,
-      body: JSON.stringify(result.Item)
+      body: JSON.stringify({
+        ...item,
+        status: versionResult.Item ? getVersionStatus(versionResult.Item) : DEFAULT_VERSION_STATUS
+      })
     };
   } catch (error) {
     console.error(`Error fetching version ${version} for shortname ${shortname}:`, error);
@@ -509,14 +1235,18 @@ async function getVersionForShortname(shortname, version, shortnameVersionsTable
  * @param {string} version - The version to create.
  * @param {string} userId - The user ID creating the version.
  * @param {string} description - The version description.
- * @param {boolean} isActive - Whether the version is active.
  * @param {string} shortnamesTable - The shortnames DynamoDB table name.
  * @param {string} versionsTable - The versions DynamoDB table name.
  * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function createVersionForShortname(shortname, version, userId, description, isActive, shortnamesTable, versionsTable, shortnameVersionsTable) {
+async function createVersionForShortname(shortname, version, userId, description, shortnamesTable, versionsTable, shortnameVersionsTable, audit) {
   try {
+    if (!isValidVersion(version)) {
+      return invalidVersionResponse(version);
+    }
+
     // Check if shortname exists
     const shortnameParams = {
       TableName: shortnamesTable,
@@ -539,12 +1269,14 @@ async function createVersionForShortname(shortname, version, userId, description
 
     const versionResult = await dynamoDB.get(versionParams).promise();
     if (!versionResult.Item) {
-      // Create the version
+      // Create the version, as a draft
       const timestamp = new Date().toISOString();
       const versionItem = {
         version,
         description: description || '',
-        isActive: isActive || false,
+        status: DEFAULT_VERSION_STATUS,
+        statusChangedBy: userId,
+        statusChangedAt: timestamp,
         createdBy: userId,
         createdAt: timestamp,
         updatedAt: timestamp
@@ -554,6 +1286,9 @@ async function createVersionForShortname(shortname, version, userId, description
         TableName: versionsTable,
         Item: versionItem
       }).promise();
+      await recordAudit(dynamoDB, audit, { entity: 'version', action: 'create', entityId: version, version, after: versionItem });
+    } else if (!isWritableStatus(getVersionStatus(versionResult.Item))) {
+      return versionLockedResponse(version, getVersionStatus(versionResult.Item));
     }
 
     // Generate the shortnameVersionId
@@ -580,7 +1315,6 @@ async function createVersionForShortname(shortname, version, userId, description
       shortname,
       version,
       description: description || '',
-      isActive: isActive || false,
       createdBy: userId,
       createdAt: timestamp,
       updatedAt: timestamp
@@ -592,9 +1326,20 @@ async function createVersionForShortname(shortname, version, userId, description
     };
 
     await dynamoDB.put(params).promise();
+    await recordAudit(dynamoDB, audit, {
+      entity: 'shortname',
+      action: 'create',
+      entityId: shortnameVersionId,
+      shortname,
+      version,
+      after: shortnameVersionItem
+    });
     return {
       statusCode: 201,
-      body: JSON.stringify(shortnameVersionItem)
+      body: JSON.stringify({
+        ...shortnameVersionItem,
+        status: versionResult.Item ? getVersionStatus(versionResult.Item) : DEFAULT_VERSION_STATUS
+      })
     };
   } catch (error) {
     console.error(`Error creating version ${version} for shortname ${shortname}:`, error);
@@ -610,11 +1355,11 @@ async function createVersionForShortname(shortname, version, userId, description
  * @param {string} shortname - The shortname.
  * @param {string} version - The version to update.
  * @param {string} description - The updated description.
- * @param {boolean} isActive - Whether the version is active.
  * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function updateVersionForShortname(shortname, version, description, isActive, shortnameVersionsTable) {
+async function updateVersionForShortname(shortname, version, description, shortnameVersionsTable, audit) {
   try {
     // Generate the shortnameVersionId
     const shortnameVersionId = `${shortname}:${version}`;
@@ -645,11 +1390,6 @@ async function updateVersionForShortname(shortname, version, description, isActi
       expressionAttributeValues[':description'] = description;
     }
 
-    if (isActive !== undefined) {
-      updateExpression += ', isActive = :isActive';
-      expressionAttributeValues[':isActive'] = isActive;
-    }
-
     // Update shortname-version
     const params = {
       TableName: shortnameVersionsTable,
@@ -660,6 +1400,15 @@ async function updateVersionForShortname(shortname, version, description, isActi
     };
 
     const result = await dynamoDB.update(params).promise();
+    await recordAudit(dynamoDB, audit, {
+      entity: 'shortname',
+      action: 'update',
+      entityId: shortnameVersionId,
+      shortname,
+      version,
+      before: existingResult.Item,
+      after: result.Attributes
+    });
     return {
       statusCode: 200,
       body: JSON.stringify(result.Attributes)
@@ -674,14 +1423,17 @@ async function updateVersionForShortname(shortname, version, description, isActi
 }
 
 /**
- * Delete a version for a shortname and all associated configurations.
+ * Delete a version for a shortname and all associated configurations, moving them to the trash.
  * @param {string} shortname - The shortname.
  * @param {string} version - The version to delete.
  * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
  * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name, holding the status of the version.
+ * @param {Object} trash - The trash context of the request.
+ * @param {Object} [audit] - The audit context of the request.
  * @returns {Promise<Object>} - The response object.
  */
-async function deleteVersionForShortname(shortname, version, shortnameVersionsTable, configurationsTable) {
+async function deleteVersionForShortname(shortname, version, shortnameVersionsTable, configurationsTable, versionsTable, trash, audit) {
   try {
     // Generate the shortnameVersionId
     const shortnameVersionId = `${shortname}:${version}`;
@@ -700,37 +1452,48 @@ async function deleteVersionForShortname(shortname, version, shortnameVersionsTa
       };
     }
 
-    // Delete all configurations for this shortname-version
-    const configurationsParams = {
+    const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (versionResult.Item && !isWritableStatus(getVersionStatus(versionResult.Item))) {
+      return versionLockedResponse(version, getVersionStatus(versionResult.Item));
+    }
+
+    // Move the shortname-version and its configurations to the trash
+    const configurations = await queryAll(dynamoDB, {
       TableName: configurationsTable,
       IndexName: 'ShortnameVersionIndex',
       KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
       ExpressionAttributeValues: {
         ':shortnameVersion': shortnameVersionId
       }
-    };
-
-    const configurationsResult = await dynamoDB.query(configurationsParams).promise();
-    const configurations = configurationsResult.Items || [];
-
-    // Delete each configuration
-    for (const config of configurations) {
-      await dynamoDB.delete({
-        TableName: configurationsTable,
-        Key: { configId: config.configId }
-      }).promise();
-    }
+    });
 
-    // Delete the shortname-version
-    await dynamoDB.delete({
-      TableName: shortnameVersionsTable,
-      Key: { shortnameVersionId }
-    }).promise();
+    const entry = await moveToTrash(
+      dynamoDB,
+      trash,
+      { entity: 'version', entityId: shortnameVersionId, shortname, version },
+      [
+        { table: 'shortnameVersions', key: { shortnameVersionId }, item: existingResult.Item },
+        ...configurations.map(item => ({ table: 'configurations', key: { configId: item.configId }, item }))
+      ],
+      { shortnameVersions: shortnameVersionsTable, configurations: configurationsTable }
+    );
+    await recordAudit(dynamoDB, audit, {
+      entity: 'shortname',
+      action: 'delete',
+      entityId: shortnameVersionId,
+      shortname,
+      version,
+      before: existingResult.Item
+    });
 
     return {
       statusCode: 200,
-      body: JSON.stringify({ message: 'Version and all associated configurations deleted successfully' })
-    };
+      body: JSON.stringify({
+        message: 'Version and all associated configurations moved to the trash',
+        deletionId: entry.deletionId,
+        expiresAt: entry.expiresAt
+      })
+    };
   } catch (error) {
     console.error(`Error deleting version ${version} for shortname ${shortname}:`, error);
     return {
@@ -740,18 +1503,810 @@ async function deleteVersionForShortname(shortname, version, shortnameVersionsTa
   }
 }
 
+/**
+ * Get the snapshots of a version, from the newest to the oldest.
+ * @param {string} version - The version.
+ * @param {string} snapshotsTable - The snapshots DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getSnapshots(version, snapshotsTable) {
+  try {
+    const snapshots = await queryAll(dynamoDB, {
+      TableName: snapshotsTable,
+      KeyConditionExpression: 'version = :version',
+      ExpressionAttributeValues: { ':version': version }
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        version,
+        snapshots: snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      })
+    };
+  } catch (error) {
+    console.error(`Error fetching snapshots of version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch snapshots', error: error.message })
+    };
+  }
+}
+
+/**
+ * Take a snapshot of a version on demand.
+ * @param {string} version - The version.
+ * @param {string} description - The description of the snapshot.
+ * @param {string} userId - The user ID taking the snapshot.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} snapshotsTable - The snapshots DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} bucket - The S3 bucket holding the snapshot bodies.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function takeSnapshot(version, description, userId, versionsTable, snapshotsTable, shortnameVersionsTable, configurationsTable, bucket) {
+  try {
+    const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (!versionResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `Version ${version} not found` })
+      };
+    }
+
+    const snapshot = await createSnapshot(
+      version,
+      { trigger: 'manual', description, userId },
+      { snapshotsTable, shortnameVersionsTable, configurationsTable },
+      bucket
+    );
+
+    return {
+      statusCode: 201,
+      body: JSON.stringify(snapshot)
+    };
+  } catch (error) {
+    console.error(`Error taking a snapshot of version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to take snapshot', error: error.message })
+    };
+  }
+}
+
+/**
+ * Write a configuration back as it was in a snapshot, along with its next revision, so its history shows the
+ * restore. Configurations written before revisions were stored get their current state stored as revision 1 first.
+ * @param {Object} config - The configuration item in the snapshot.
+ * @param {Object} [existing] - The current configuration item, if it still exists.
+ * @param {string} userId - The user ID restoring the version.
+ * @param {string} timestamp - When the restore was made.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @returns {Promise<Object>} - The configuration item as written.
+ */
+async function writeRestoredConfiguration(config, existing, userId, timestamp, configurationsTable, revisionsTable) {
+  const latestResult = await dynamoDB.query({
+    TableName: revisionsTable,
+    KeyConditionExpression: 'configId = :configId',
+    ExpressionAttributeValues: { ':configId': config.configId },
+    ScanIndexForward: false,
+    Limit: 1
+  }).promise();
+  const [latest] = latestResult.Items || [];
+  const revision = latest ? latest.revision + 1 : existing ? 2 : 1;
+  const item = { ...config, revision, updatedAt: timestamp };
+
+  await dynamoDB.transactWrite({
+    TransactItems: [
+      { Put: { TableName: configurationsTable, Item: item } },
+      ...(latest || !existing ? [] : [putRevision(revisionsTable, toInitialRevision(existing))]),
+      putRevision(revisionsTable, toRevision(item, revision, userId, timestamp))
+    ]
+  }).promise();
+  return item;
+}
+
+/**
+ * Restore the shortname links and configurations of a version to a snapshot. Items missing from the snapshot
+ * are deleted and every item of the snapshot written since is written back as it was, configId included, with
+ * a new revision. The version is snapshotted first, so the restore itself can be undone. With dryRun, only the
+ * changes are returned.
+ * @param {string} version - The version.
+ * @param {string} snapshotId - The snapshot ID.
+ * @param {boolean} dryRun - Whether to only preview the changes.
+ * @param {string} userId - The user ID restoring the version.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} snapshotsTable - The snapshots DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @param {string} bucket - The S3 bucket holding the snapshot bodies.
+ * @param {Object} [audit] - The audit context of the request.
+ * @returns {Promise<Object>} - The response object, with the changes from the current state to the snapshot.
+ */
+async function restoreSnapshot(version, snapshotId, dryRun, userId, versionsTable, snapshotsTable, shortnameVersionsTable, configurationsTable, revisionsTable, bucket, audit) {
+  let preRestoreSnapshot = null;
+  try {
+    const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (!versionResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `Version ${version} not found` })
+      };
+    }
+
+    const snapshotResult = await dynamoDB.get({ TableName: snapshotsTable, Key: { version, snapshotId } }).promise();
+    if (!snapshotResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `Snapshot ${snapshotId} of version ${version} not found` })
+      };
+    }
+
+    const status = getVersionStatus(versionResult.Item);
+    if (!dryRun && !isWritableStatus(status)) {
+      return versionLockedResponse(version, status);
+    }
+
+    const current = await readVersionItems(version, shortnameVersionsTable, configurationsTable);
+    const target = await readSnapshot(snapshotResult.Item, bucket);
+    const diff = diffVersions(groupByShortname(current), groupByShortname(target));
+    const preview = { version, snapshot: snapshotResult.Item, ...diff };
+
+    if (dryRun) {
+      return {
+        statusCode: 200,
+        body: JSON.stringify({ dryRun: true, ...preview })
+      };
+    }
+
+    preRestoreSnapshot = await createSnapshot(
+      version,
+      { trigger: 'restore', description: `Before restoring snapshot ${snapshotId}`, userId },
+      { snapshotsTable, shortnameVersionsTable, configurationsTable },
+      bucket
+    );
+
+    const currentConfigs = new Map(current.configurations.map(config => [config.configId, config]));
+    const targetConfigIds = new Set(target.configurations.map(config => config.configId));
+    const targetLinkIds = new Set(target.shortnames.map(link => link.shortnameVersionId));
+    const removedConfigs = current.configurations.filter(config => !targetConfigIds.has(config.configId));
+    // Every write of a configuration sets its updatedAt, so the ones not written since the snapshot are left as they are
+    const restoredConfigs = target.configurations.filter(config => {
+      const existing = currentConfigs.get(config.configId);
+      return !existing || existing.updatedAt !== config.updatedAt;
+    });
+
+    await batchDelete(dynamoDB, configurationsTable, removedConfigs.map(config => ({ configId: config.configId })));
+    await batchDelete(dynamoDB, shortnameVersionsTable, current.shortnames
+      .filter(link => !targetLinkIds.has(link.shortnameVersionId))
+      .map(link => ({ shortnameVersionId: link.shortnameVersionId })));
+    await batchPut(dynamoDB, shortnameVersionsTable, target.shortnames);
+
+    const timestamp = new Date().toISOString();
+    const written = [];
+    for (const config of restoredConfigs) {
+      const existing = currentConfigs.get(config.configId);
+      const item = await writeRestoredConfiguration(config, existing, userId, timestamp, configurationsTable, revisionsTable);
+      written.push({ existing, item });
+    }
+
+    for (const config of removedConfigs) {
+      await recordAudit(dynamoDB, audit, {
+        entity: 'configuration',
+        action: 'delete',
+        entityId: config.configId,
+        shortname: config.shortname,
+        version,
+        before: config
+      });
+    }
+    for (const { existing, item } of written) {
+      await recordAudit(dynamoDB, audit, {
+        entity: 'configuration',
+        action: existing ? 'update' : 'create',
+        entityId: item.configId,
+        shortname: item.shortname,
+        version,
+        ...(existing && { before: existing }),
+        after: item
+      });
+    }
+    // The snapshots taken before the restore and restored hold the whole version before and after it
+    await recordAudit(dynamoDB, audit, {
+      entity: 'version',
+      action: 'update',
+      entityId: version,
+      version,
+      before: { version, snapshotId: preRestoreSnapshot.snapshotId },
+      after: { version, snapshotId }
+    });
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: 'Version restored successfully', ...preview, preRestoreSnapshotId: preRestoreSnapshot.snapshotId })
+    };
+  } catch (error) {
+    console.error(`Error restoring version ${version} to snapshot ${snapshotId}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        message: preRestoreSnapshot
+          ? `Failed to restore snapshot; restore snapshot ${preRestoreSnapshot.snapshotId} to undo the partial restore`
+          : 'Failed to restore snapshot',
+        preRestoreSnapshotId: preRestoreSnapshot ? preRestoreSnapshot.snapshotId : null,
+        error: error.message
+      })
+    };
+  }
+}
+
+/**
+ * Get the scheduled status changes with a status, sorted by run time.
+ * @param {string} status - The status of the schedules, e.g. "pending".
+ * @param {string} schedulesTable - The schedules DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getSchedules(status, schedulesTable) {
+  if (!SCHEDULE_STATUSES.includes(status)) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: `Status must be one of: ${SCHEDULE_STATUSES.join(', ')}` })
+    };
+  }
+
+  try {
+    const schedules = await queryAll(dynamoDB, {
+      TableName: schedulesTable,
+      IndexName: 'StatusRunAtIndex',
+      KeyConditionExpression: '#status = :status',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': status }
+    });
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ schedules })
+    };
+  } catch (error) {
+    console.error(`Error fetching ${status} schedules:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch schedules', error: error.message })
+    };
+  }
+}
+
+/**
+ * Schedule a version to be published or deprecated at a future time. The transition must be allowed
+ * from the current status of the version; it is checked again when the schedule is applied.
+ * @param {string} version - The version.
+ * @param {Object} schedule - The schedule.
+ * @param {string} schedule.targetStatus - The status the version should move to: "published" or "deprecated".
+ * @param {string} schedule.runAt - When to move the version, as an ISO 8601 timestamp.
+ * @param {string} userId - The user ID scheduling the change.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} schedulesTable - The schedules DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function createSchedule(version, { targetStatus, runAt }, userId, versionsTable, schedulesTable) {
+  const now = new Date();
+  const validationError = validateSchedule(targetStatus, runAt, now);
+  if (validationError) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: validationError })
+    };
+  }
+
+  try {
+    const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (!versionResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Version not found' })
+      };
+    }
+
+    const currentStatus = getVersionStatus(versionResult.Item);
+    if (!canTransition(currentStatus, targetStatus)) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          message: `Version ${version} cannot move from ${currentStatus} to ${targetStatus}`,
+          status: currentStatus,
+          allowedTransitions: getAllowedTransitions(currentStatus)
+        })
+      };
+    }
+
+    // Run times are stored in UTC so that they sort as strings
+    const schedule = {
+      scheduleId: uuidv4(),
+      version,
+      targetStatus,
+      runAt: new Date(runAt).toISOString(),
+      status: 'pending',
+      createdBy: userId,
+      createdAt: now.toISOString()
+    };
+
+    await dynamoDB.put({
+      TableName: schedulesTable,
+      Item: schedule
+    }).promise();
+
+    return {
+      statusCode: 201,
+      body: JSON.stringify(schedule)
+    };
+  } catch (error) {
+    console.error(`Error scheduling version ${version}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to schedule version', error: error.message })
+    };
+  }
+}
+
+/**
+ * Cancel a pending scheduled status change.
+ * @param {string} scheduleId - The schedule ID.
+ * @param {string} userId - The user ID cancelling the schedule.
+ * @param {string} schedulesTable - The schedules DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function cancelSchedule(scheduleId, userId, schedulesTable) {
+  try {
+    const result = await dynamoDB.update({
+      TableName: schedulesTable,
+      Key: { scheduleId },
+      UpdateExpression: 'SET #status = :cancelled, cancelledBy = :userId, cancelledAt = :timestamp',
+      ConditionExpression: '#status = :pending',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':cancelled': 'cancelled',
+        ':pending': 'pending',
+        ':userId': userId,
+        ':timestamp': new Date().toISOString()
+      },
+      ReturnValues: 'ALL_NEW'
+    }).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify(result.Attributes)
+    };
+  } catch (error) {
+    if (error.code === 'ConditionalCheckFailedException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Schedule ${scheduleId} does not exist or is no longer pending` })
+      };
+    }
+
+    console.error(`Error cancelling schedule ${scheduleId}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to cancel schedule', error: error.message })
+    };
+  }
+}
+
+/**
+ * Get all channels and the version each points to.
+ * @param {string} channelsTable - The channels DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getChannels(channelsTable) {
+  try {
+    const result = await dynamoDB.scan({ TableName: channelsTable }).promise();
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        channels: (result.Items || []).sort((a, b) => a.channel.localeCompare(b.channel))
+      })
+    };
+  } catch (error) {
+    console.error('Error fetching channels:', error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch channels', error: error.message })
+    };
+  }
+}
+
+/**
+ * Point a channel to a version, creating the channel if needed. The channel and its history entry are
+ * written in one transaction, which fails if the channel was moved concurrently or the version deleted.
+ * @param {string} channel - The channel name.
+ * @param {Object} move - The move.
+ * @param {string} move.version - The version the channel should point to.
+ * @param {string|null} [move.expectedVersion] - The version the caller expects the channel to point to,
+ *   or null for a new channel; the move is rejected with a 409 otherwise.
+ * @param {string} [move.description] - The description of the channel.
+ * @param {string} userId - The user ID moving the channel.
+ * @param {string} channelsTable - The channels DynamoDB table name.
+ * @param {string} channelHistoryTable - The channel history DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function moveChannel(channel, { version, expectedVersion, description }, userId, channelsTable, channelHistoryTable, versionsTable) {
+  try {
+    const channelError = validateChannelName(channel);
+    if (channelError) {
+      return {
+        statusCode: 400,
+        body: JSON.stringify({ message: channelError })
+      };
+    }
+
+    const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+    if (!versionResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `Version ${version} not found` })
+      };
+    }
+
+    const existingResult = await dynamoDB.get({ TableName: channelsTable, Key: { channel } }).promise();
+    const existing = existingResult.Item;
+    const fromVersion = existing ? existing.version : null;
+    if (expectedVersion !== undefined && expectedVersion !== fromVersion) {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({
+          message: `Channel ${channel} points to ${fromVersion || 'no version'}, not ${expectedVersion || 'no version'}`,
+          version: fromVersion
+        })
+      };
+    }
+
+    if (fromVersion === version) {
+      return {
+        statusCode: 200,
+        body: JSON.stringify(existing)
+      };
+    }
+
+    const timestamp = new Date().toISOString();
+    const channelItem = {
+      channel,
+      version,
+      description: description !== undefined ? description : (existing && existing.description) || '',
+      createdAt: existing ? existing.createdAt : timestamp,
+      updatedBy: userId,
+      updatedAt: timestamp
+    };
+
+    await dynamoDB.transactWrite({
+      TransactItems: [
+        {
+          ConditionCheck: {
+            TableName: versionsTable,
+            Key: { version },
+            ConditionExpression: 'attribute_exists(#version)',
+            ExpressionAttributeNames: { '#version': 'version' }
+          }
+        },
+        {
+          Put: {
+            TableName: channelsTable,
+            Item: channelItem,
+            ...(existing
+              ? {
+                ConditionExpression: '#version = :fromVersion',
+                ExpressionAttributeNames: { '#version': 'version' },
+                ExpressionAttributeValues: { ':fromVersion': fromVersion }
+              }
+              : { ConditionExpression: 'attribute_not_exists(channel)' })
+          }
+        },
+        {
+          Put: {
+            TableName: channelHistoryTable,
+            Item: { channel, movedAt: timestamp, fromVersion, toVersion: version, movedBy: userId }
+          }
+        }
+      ]
+    }).promise();
+
+    return {
+      statusCode: existing ? 200 : 201,
+      body: JSON.stringify(channelItem)
+    };
+  } catch (error) {
+    if (error.code === 'TransactionCanceledException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Channel ${channel} or version ${version} changed during the move, please retry` })
+      };
+    }
+
+    console.error(`Error moving channel ${channel}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to move channel', error: error.message })
+    };
+  }
+}
+
+/**
+ * Delete a channel, recording the removal in its history.
+ * @param {string} channel - The channel name.
+ * @param {string} userId - The user ID deleting the channel.
+ * @param {string} channelsTable - The channels DynamoDB table name.
+ * @param {string} channelHistoryTable - The channel history DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function deleteChannel(channel, userId, channelsTable, channelHistoryTable) {
+  try {
+    const existingResult = await dynamoDB.get({ TableName: channelsTable, Key: { channel } }).promise();
+    if (!existingResult.Item) {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: 'Channel not found' })
+      };
+    }
+
+    const fromVersion = existingResult.Item.version;
+    await dynamoDB.transactWrite({
+      TransactItems: [
+        {
+          Delete: {
+            TableName: channelsTable,
+            Key: { channel },
+            ConditionExpression: '#version = :fromVersion',
+            ExpressionAttributeNames: { '#version': 'version' },
+            ExpressionAttributeValues: { ':fromVersion': fromVersion }
+          }
+        },
+        {
+          Put: {
+            TableName: channelHistoryTable,
+            Item: { channel, movedAt: new Date().toISOString(), fromVersion, toVersion: null, movedBy: userId }
+          }
+        }
+      ]
+    }).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: 'Channel deleted successfully' })
+    };
+  } catch (error) {
+    if (error.code === 'TransactionCanceledException') {
+      return {
+        statusCode: 409,
+        body: JSON.stringify({ message: `Channel ${channel} was moved during the deletion, please retry` })
+      };
+    }
+
+    console.error(`Error deleting channel ${channel}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to delete channel', error: error.message })
+    };
+  }
+}
+
+/**
+ * Get the history of the moves of a channel, newest first.
+ * @param {string} channel - The channel name.
+ * @param {string} channelHistoryTable - The channel history DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getChannelHistory(channel, channelHistoryTable) {
+  try {
+    const result = await dynamoDB.query({
+      TableName: channelHistoryTable,
+      KeyConditionExpression: 'channel = :channel',
+      ExpressionAttributeValues: { ':channel': channel },
+      ScanIndexForward: false
+    }).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        channel,
+        moves: result.Items || []
+      })
+    };
+  } catch (error) {
+    console.error(`Error fetching history of channel ${channel}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch channel history', error: error.message })
+    };
+  }
+}
+
+/**
+ * Get the percentage rollout of a shortname, if any, and for a client identifier the version the client gets.
+ * @param {string} shortname - The shortname.
+ * @param {string} [clientId] - A client identifier to look up.
+ * @param {string} rolloutsTable - The rollouts DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function getRollout(shortname, clientId, rolloutsTable) {
+  try {
+    const result = await dynamoDB.get({ TableName: rolloutsTable, Key: { shortname } }).promise();
+    const rollout = result.Item || null;
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({
+        shortname,
+        rollout,
+        ...(rollout && clientId && { assignment: { clientId, ...selectRolloutVersion(rollout, clientId) } })
+      })
+    };
+  } catch (error) {
+    console.error(`Error fetching rollout of shortname ${shortname}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to fetch rollout', error: error.message })
+    };
+  }
+}
+
+/**
+ * Start or ramp the percentage rollout of a shortname from a base version to a target version.
+ * Both versions must be linked to the shortname and delivered to consumers.
+ * @param {string} shortname - The shortname.
+ * @param {Object} rollout - The rollout.
+ * @param {string} rollout.baseVersion - The version the other clients get.
+ * @param {string} rollout.targetVersion - The version rolled out.
+ * @param {number} rollout.percentage - The share of clients getting the target version, from 0 to 100.
+ * @param {string} userId - The user ID changing the rollout.
+ * @param {string} rolloutsTable - The rollouts DynamoDB table name.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function putRollout(shortname, { baseVersion, targetVersion, percentage }, userId, rolloutsTable, shortnameVersionsTable, versionsTable) {
+  for (const version of [baseVersion, targetVersion]) {
+    if (!isValidVersion(version)) {
+      return invalidVersionResponse(version);
+    }
+  }
+
+  if (baseVersion === targetVersion) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: 'Base and target versions must be different' })
+    };
+  }
+
+  const percentageError = validateRolloutPercentage(percentage);
+  if (percentageError) {
+    return {
+      statusCode: 400,
+      body: JSON.stringify({ message: percentageError })
+    };
+  }
+
+  try {
+    for (const version of [baseVersion, targetVersion]) {
+      const linkResult = await dynamoDB.get({
+        TableName: shortnameVersionsTable,
+        Key: { shortnameVersionId: `${shortname}:${version}` }
+      }).promise();
+      if (!linkResult.Item) {
+        return {
+          statusCode: 404,
+          body: JSON.stringify({ message: `Version ${version} not found for shortname ${shortname}` })
+        };
+      }
+
+      const versionResult = await dynamoDB.get({ TableName: versionsTable, Key: { version } }).promise();
+      const status = versionResult.Item ? getVersionStatus(versionResult.Item) : DEFAULT_VERSION_STATUS;
+      if (!isDeliverableStatus(status)) {
+        return {
+          statusCode: 409,
+          body: JSON.stringify({ message: `Version ${version} is ${status}: only published and deprecated versions can be rolled out`, status })
+        };
+      }
+    }
+
+    const existingResult = await dynamoDB.get({ TableName: rolloutsTable, Key: { shortname } }).promise();
+    const existing = existingResult.Item;
+    // Ramping keeps the start of the rollout; other versions start a new one
+    const isRamp = existing && existing.baseVersion === baseVersion && existing.targetVersion === targetVersion;
+    const timestamp = new Date().toISOString();
+    const rollout = {
+      shortname,
+      baseVersion,
+      targetVersion,
+      percentage,
+      createdBy: isRamp ? existing.createdBy : userId,
+      createdAt: isRamp ? existing.createdAt : timestamp,
+      updatedBy: userId,
+      updatedAt: timestamp
+    };
+
+    await dynamoDB.put({ TableName: rolloutsTable, Item: rollout }).promise();
+
+    return {
+      statusCode: existing ? 200 : 201,
+      body: JSON.stringify(rollout)
+    };
+  } catch (error) {
+    console.error(`Error updating rollout of shortname ${shortname}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to update rollout', error: error.message })
+    };
+  }
+}
+
+/**
+ * End the percentage rollout of a shortname.
+ * @param {string} shortname - The shortname.
+ * @param {string} rolloutsTable - The rollouts DynamoDB table name.
+ * @returns {Promise<Object>} - The response object.
+ */
+async function deleteRollout(shortname, rolloutsTable) {
+  try {
+    await dynamoDB.delete({
+      TableName: rolloutsTable,
+      Key: { shortname },
+      ConditionExpression: 'attribute_exists(shortname)'
+    }).promise();
+
+    return {
+      statusCode: 200,
+      body: JSON.stringify({ message: `Rollout of shortname ${shortname} ended` })
+    };
+  } catch (error) {
+    if (error.code === 'ConditionalCheckFailedException') {
+      return {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No rollout configured for shortname ${shortname}` })
+      };
+    }
+
+    console.error(`Error deleting rollout of shortname ${shortname}:`, error);
+    return {
+      statusCode: 500,
+      body: JSON.stringify({ message: 'Failed to end rollout', error: error.message })
+    };
+  }
+}
+
 module.exports = {
   verifyToken,
   getAllVersions,
   getVersion,
   createVersion,
+  duplicateVersion,
   updateVersion,
   deleteVersion,
+  transitionVersion,
+  generateVersionReleaseNotes,
+  getReleaseNotes,
+  lockVersion,
+  unlockVersion,
+  checkVersionUnlocked,
   getVersionShortnames,
   addShortnameToVersion,
   getAllVersionsForShortname,
   getVersionForShortname,
   createVersionForShortname,
   updateVersionForShortname,
-  deleteVersionForShortname
+  deleteVersionForShortname,
+  getSnapshots,
+  takeSnapshot,
+  restoreSnapshot,
+  getSchedules,
+  createSchedule,
+  cancelSchedule,
+  getChannels,
+  moveChannel,
+  deleteChannel,
+  getChannelHistory,
+  getRollout,
+  putRollout,
+  deleteRollout
 };
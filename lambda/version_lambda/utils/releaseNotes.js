@@ -0,0 +1,163 @@
+/**
+ * Release notes of a version, generated as Markdown from the configuration changes since the previous
+ * version. Changes are grouped by shortname, then by key prefix (the first dot segment of the key, after
+ * the "public." prefix), and list the description of each configuration. Secret values are never shown.
+ */
+
+const { compareVersions, isPrerelease, isDeliverableStatus, getVersionStatus } = require('/opt/nodejs/layer-utils');
+
+// Version defaults are stored under the wildcard shortname
+const VERSION_DEFAULTS = '*';
+const SECRET_MASK = '••••••••';
+const MAX_VALUE_LENGTH = 80;
+const NO_PREFIX = 'General';
+
+/**
+ * Find the version a version's release notes compare with: the highest lower version delivered to consumers.
+ * Pre-releases are skipped for releases, so 2.4.0 is compared with 2.3.0 rather than 2.4.0-rc.1.
+ * @param {string} version - The version.
+ * @param {Array<Object>} versionItems - The version items.
+ * @returns {string|null} - The previous version, or null for the first release.
+ */
+function findPreviousVersion(version, versionItems) {
+  const candidates = versionItems
+    .filter(item => compareVersions(item.version, version) < 0)
+    .filter(item => isDeliverableStatus(getVersionStatus(item)))
+    .filter(item => isPrerelease(version) || !isPrerelease(item.version))
+    .map(item => item.version)
+    .sort(compareVersions);
+
+  return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+}
+
+/**
+ * Get the prefix a key is grouped under.
+ * @param {string} key - The configuration key.
+ * @returns {string} - The first dot segment of the key.
+ */
+function getKeyPrefix(key) {
+  const displayKey = key.startsWith('public.') ? key.slice('public.'.length) : key;
+  const dot = displayKey.indexOf('.');
+  return dot > 0 ? displayKey.slice(0, dot) : NO_PREFIX;
+}
+
+/**
+ * Format a value for a Markdown line.
+ * @param {any} value - The value.
+ * @param {boolean} secret - Whether the value is secret.
+ * @returns {string} - The value as inline code.
+ */
+function formatValue(value, secret) {
+  if (secret) return `\`${SECRET_MASK}\``;
+
+  const text = JSON.stringify(value === undefined ? null : value);
+  return `\`${text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text}\``;
+}
+
+/**
+ * Format the description of a configuration, if any, to end a Markdown line.
+ * @param {Object} [item] - The configuration item.
+ * @returns {string} - The description after a dash, or an empty string.
+ */
+function formatDescription(item) {
+  return item && item.description ? ` — ${item.description}` : '';
+}
+
+/**
+ * Build the Markdown lines of the changes of one shortname, grouped by key prefix.
+ * @param {Object} shortnameDiff - The changes of the shortname.
+ * @param {Map<string, Object>} fromItems - The configuration items by key in the previous version.
+ * @param {Map<string, Object>} toItems - The configuration items by key in the version.
+ * @returns {Array<string>} - The Markdown lines.
+ */
+function formatShortnameChanges(shortnameDiff, fromItems, toItems) {
+  const entries = [
+    ...shortnameDiff.added.map(entry => ({
+      key: entry.key,
+      line: `- Added \`${entry.key}\`: ${formatValue(entry.value, entry.secret)}${formatDescription(toItems.get(entry.key))}`
+    })),
+    ...shortnameDiff.changed.map(entry => ({
+      key: entry.key,
+      line: entry.secret
+        ? `- Changed the secret value of \`${entry.key}\`${formatDescription(toItems.get(entry.key))}`
+        : `- Changed \`${entry.key}\`: ${formatValue(entry.from, false)} → ${formatValue(entry.to, false)}${formatDescription(toItems.get(entry.key))}`
+    })),
+    ...shortnameDiff.removed.map(entry => ({
+      key: entry.key,
+      line: `- Removed \`${entry.key}\`${formatDescription(fromItems.get(entry.key))}`
+    }))
+  ];
+
+  const byPrefix = new Map();
+  for (const entry of entries.sort((a, b) => a.key.localeCompare(b.key))) {
+    const prefix = getKeyPrefix(entry.key);
+    if (!byPrefix.has(prefix)) byPrefix.set(prefix, []);
+    byPrefix.get(prefix).push(entry.line);
+  }
+
+  const lines = [];
+  const prefixes = Array.from(byPrefix.keys()).sort((a, b) => (a === NO_PREFIX) - (b === NO_PREFIX) || a.localeCompare(b));
+  for (const prefix of prefixes) {
+    lines.push(`### ${prefix}`, '', ...byPrefix.get(prefix), '');
+  }
+  return lines;
+}
+
+/**
+ * Generate the release notes of a version.
+ * @param {Object} release - The release.
+ * @param {string} release.version - The version.
+ * @param {string} [release.description] - The description of the version.
+ * @param {string|null} release.previousVersion - The version compared with, or null for the first release.
+ * @param {Object} release.diff - The changes from the previous version, as returned by diffVersions.
+ * @param {Map<string, Map<string, Object>>} release.fromShortnames - The items by key of each shortname in the previous version.
+ * @param {Map<string, Map<string, Object>>} release.toShortnames - The items by key of each shortname in the version.
+ * @param {Date} release.generatedAt - When the notes are generated.
+ * @returns {string} - The release notes, in Markdown.
+ */
+function generateReleaseNotes({ version, description, previousVersion, diff, fromShortnames, toShortnames, generatedAt }) {
+  const lines = [`# Release notes: version ${version}`, ''];
+  if (description) {
+    lines.push(description, '');
+  }
+
+  lines.push(
+    previousVersion
+      ? `Configuration changes since version ${previousVersion}, generated on ${generatedAt.toISOString().slice(0, 10)}.`
+      : `First release: every configuration is listed as added. Generated on ${generatedAt.toISOString().slice(0, 10)}.`,
+    ''
+  );
+
+  const { summary } = diff;
+  if (diff.shortnames.length === 0) {
+    lines.push('No configuration changes.', '');
+    return lines.join('\n');
+  }
+
+  lines.push(
+    `- ${summary.shortnamesAdded} shortname(s) added, ${summary.shortnamesRemoved} shortname(s) removed`,
+    `- ${summary.keysAdded} key(s) added, ${summary.keysRemoved} key(s) removed, ${summary.valuesChanged} value(s) changed`,
+    ''
+  );
+
+  // Version defaults first, then shortnames in alphabetical order
+  const shortnameDiffs = [...diff.shortnames].sort((a, b) =>
+    (b.shortname === VERSION_DEFAULTS) - (a.shortname === VERSION_DEFAULTS) || a.shortname.localeCompare(b.shortname));
+
+  for (const shortnameDiff of shortnameDiffs) {
+    const title = shortnameDiff.shortname === VERSION_DEFAULTS ? 'Version defaults' : shortnameDiff.shortname;
+    lines.push(`## ${title}${shortnameDiff.status === 'changed' ? '' : ` (${shortnameDiff.status})`}`, '');
+    lines.push(...formatShortnameChanges(
+      shortnameDiff,
+      fromShortnames.get(shortnameDiff.shortname) || new Map(),
+      toShortnames.get(shortnameDiff.shortname) || new Map()
+    ));
+  }
+
+  return lines.join('\n');
+}
+
+module.exports = {
+  findPreviousVersion,
+  generateReleaseNotes
+};
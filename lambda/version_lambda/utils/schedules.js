@@ -0,0 +1,38 @@
+/**
+ * Scheduled status changes of a version: publishing it or deprecating it at a future time. A schedule is
+ * pending until the scheduler applies it, then applied or failed; pending schedules can be cancelled.
+ */
+
+// Statuses a version can be scheduled to move to: its activation and its deactivation
+const SCHEDULABLE_STATUSES = ['published', 'deprecated'];
+const SCHEDULE_STATUSES = ['pending', 'running', 'applied', 'failed', 'cancelled'];
+
+/**
+ * Validate a scheduled status change.
+ * @param {string} targetStatus - The status the version should move to.
+ * @param {string} runAt - When to move the version, as an ISO 8601 timestamp.
+ * @param {Date} now - The current time.
+ * @returns {string|null} - An error message, or null if the schedule is valid.
+ */
+function validateSchedule(targetStatus, runAt, now) {
+  if (!SCHEDULABLE_STATUSES.includes(targetStatus)) {
+    return `Target status must be one of: ${SCHEDULABLE_STATUSES.join(', ')}`;
+  }
+
+  const runAtTime = Date.parse(runAt);
+  if (typeof runAt !== 'string' || Number.isNaN(runAtTime)) {
+    return `Invalid run time "${runAt}": expected an ISO 8601 timestamp such as 2025-06-01T08:00:00Z`;
+  }
+
+  if (runAtTime <= now.getTime()) {
+    return 'Run time must be in the future';
+  }
+
+  return null;
+}
+
+module.exports = {
+  SCHEDULABLE_STATUSES,
+  SCHEDULE_STATUSES,
+  validateSchedule
+};
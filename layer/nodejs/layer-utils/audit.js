@@ -0,0 +1,111 @@
+/**
+ * Audit trail shared by all Lambdas.
+ * Every create, update and delete of a shortname, version, configuration or user is written to the audit
+ * table as an entry that is never modified afterwards: who made the change (the userId of the token), when,
+ * in which request, and the item before and after the change. Reveals of secret values are written too, with
+ * the key revealed. Secret values and password hashes are never written to the audit table.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+
+const AUDIT_ENTITIES = ['shortname', 'version', 'configuration', 'user'];
+const AUDIT_ACTIONS = ['create', 'update', 'delete', 'reveal'];
+
+/**
+ * Build the audit context of a request, passed to the functions that write.
+ * @param {Object} event - The Lambda event.
+ * @param {Object} user - The decoded token of the user making the request.
+ * @param {string} auditTable - The audit DynamoDB table name.
+ * @returns {Object} - The audit context.
+ */
+function createAuditContext(event, user, auditTable) {
+  return {
+    table: auditTable,
+    actor: user.userId,
+    actorEmail: user.email,
+    requestId: (event.requestContext && event.requestContext.requestId) || null
+  };
+}
+
+/**
+ * Prepare an item to be written to the audit table: secret values and password hashes are left out.
+ * @param {Object} [item] - The item.
+ * @returns {Object|null} - The item as audited, or null if there is none.
+ */
+function toAuditValue(item) {
+  if (!item) return null;
+
+  const { password, encryptedValue, ...rest } = item;
+  return item.secret ? { ...rest, value: null } : rest;
+}
+
+/**
+ * Build an audit entry.
+ * @param {Object} audit - The audit context of the request.
+ * @param {Object} change - The change.
+ * @param {string} change.entity - The entity changed: shortname, version, configuration or user.
+ * @param {string} change.action - The action: create, update, delete or reveal.
+ * @param {string} change.entityId - The ID of the item changed.
+ * @param {string} [change.shortname] - The shortname the item belongs to, if any.
+ * @param {string} [change.version] - The version the item belongs to, if any.
+ * @param {Object} [change.before] - The item before the change.
+ * @param {Object} [change.after] - The item after the change.
+ * @param {Date} timestamp - When the change was made.
+ * @returns {Object} - The audit entry.
+ */
+function buildAuditEntry(audit, { entity, action, entityId, shortname, version, before, after }, timestamp) {
+  if (!AUDIT_ENTITIES.includes(entity)) throw new Error(`Unknown audit entity: ${entity}`);
+  if (!AUDIT_ACTIONS.includes(action)) throw new Error(`Unknown audit action: ${action}`);
+
+  const entry = {
+    auditId: uuidv4(),
+    timestamp: timestamp.toISOString(),
+    entity,
+    action,
+    entityId,
+    actor: audit.actor,
+    requestId: audit.requestId,
+    before: toAuditValue(before),
+    after: toAuditValue(after)
+  };
+  // Index keys cannot be null, so optional attributes are only set when known
+  if (audit.actorEmail) entry.actorEmail = audit.actorEmail;
+  if (shortname) entry.shortname = shortname;
+  if (version) entry.version = version;
+  return entry;
+}
+
+/**
+ * Write an audit entry. A change that was made is never undone because its entry could not be written,
+ * so failures are logged rather than thrown.
+ * @param {Object} dynamoDB - The DynamoDB DocumentClient.
+ * @param {Object} [audit] - The audit context of the request; nothing is written without one.
+ * @param {Object} change - The change, as taken by buildAuditEntry.
+ * @returns {Promise<Object|null>} - The audit entry written, or null.
+ */
+async function recordAudit(dynamoDB, audit, change) {
+  if (!audit || !audit.table) return null;
+
+  try {
+    const entry = buildAuditEntry(audit, change, new Date());
+    await dynamoDB.put({
+      TableName: audit.table,
+      Item: entry,
+      // Entries are append-only
+      ConditionExpression: 'attribute_not_exists(auditId)'
+    }).promise();
+    return entry;
+  } catch (error) {
+    console.error(`Error writing audit entry for ${change.action} of ${change.entity} ${change.entityId}:`, error);
+    return null;
+  }
+}
+
+module.exports = {
+  AUDIT_ENTITIES,
+  AUDIT_ACTIONS,
+  createAuditContext,
+  toAuditValue,
+  buildAuditEntry,
+  recordAudit
+};
@@ -0,0 +1,84 @@
+/**
+ * Batched DynamoDB reads and writes used to copy and roll back many items at once. BatchWriteItem takes up
+ * to 25 requests; unprocessed requests are retried with an exponential backoff, and requests still
+ * unprocessed after the last attempt fail the write.
+ */
+
+const MAX_BATCH_SIZE = 25;
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 50;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Query every page of a DynamoDB query.
+ * @param {Object} dynamoDB - The DynamoDB DocumentClient.
+ * @param {Object} params - The query parameters.
+ * @returns {Promise<Array<Object>>} - The items of every page.
+ */
+async function queryAll(dynamoDB, params) {
+  const items = [];
+  let lastEvaluatedKey;
+
+  do {
+    const result = await dynamoDB.query({ ...params, ExclusiveStartKey: lastEvaluatedKey }).promise();
+    items.push(...(result.Items || []));
+    lastEvaluatedKey = result.LastEvaluatedKey;
+  } while (lastEvaluatedKey);
+
+  return items;
+}
+
+/**
+ * Send write requests to a table in batches.
+ * @param {Object} dynamoDB - The DynamoDB DocumentClient.
+ * @param {string} tableName - The DynamoDB table name.
+ * @param {Array<Object>} requests - The PutRequest or DeleteRequest write requests.
+ * @returns {Promise<void>}
+ */
+async function batchWrite(dynamoDB, tableName, requests) {
+  for (let start = 0; start < requests.length; start += MAX_BATCH_SIZE) {
+    let pending = requests.slice(start, start + MAX_BATCH_SIZE);
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      if (attempt === MAX_ATTEMPTS) {
+        throw new Error(`${pending.length} write(s) to ${tableName} were still unprocessed after ${MAX_ATTEMPTS} attempts`);
+      }
+
+      if (attempt > 0) {
+        await sleep(BASE_DELAY_MS * 2 ** attempt);
+      }
+
+      const result = await dynamoDB.batchWrite({ RequestItems: { [tableName]: pending } }).promise();
+      pending = (result.UnprocessedItems && result.UnprocessedItems[tableName]) || [];
+    }
+  }
+}
+
+/**
+ * Put items in a table in batches.
+ * @param {Object} dynamoDB - The DynamoDB DocumentClient.
+ * @param {string} tableName - The DynamoDB table name.
+ * @param {Array<Object>} items - The items.
+ * @returns {Promise<void>}
+ */
+async function batchPut(dynamoDB, tableName, items) {
+  return batchWrite(dynamoDB, tableName, items.map(item => ({ PutRequest: { Item: item } })));
+}
+
+/**
+ * Delete items from a table in batches. Deleting an item that does not exist is not an error.
+ * @param {Object} dynamoDB - The DynamoDB DocumentClient.
+ * @param {string} tableName - The DynamoDB table name.
+ * @param {Array<Object>} keys - The keys of the items.
+ * @returns {Promise<void>}
+ */
+async function batchDelete(dynamoDB, tableName, keys) {
+  return batchWrite(dynamoDB, tableName, keys.map(key => ({ DeleteRequest: { Key: key } })));
+}
+
+module.exports = {
+  queryAll,
+  batchPut,
+  batchDelete
+};
@@ -6,6 +6,18 @@ const AWS = require('aws-sdk');
 const jwt = require('jsonwebtoken');
 const bcrypt = require('bcryptjs');
 const { v4: uuidv4 } = require('uuid');
+const semver = require('./semver');
+const versionResolver = require('./versionResolver');
+const versionStatus = require('./versionStatus');
+const batch = require('./batch');
+const versionDiff = require('./versionDiff');
+const snapshots = require('./snapshots');
+const permissions = require('./permissions');
+const versionLock = require('./versionLock');
+const rollouts = require('./rollouts');
+const audit = require('./audit');
+const trash = require('./trash');
+const revisions = require('./revisions');
 
 /**
  * Verify a JWT token.
@@ -113,5 +125,17 @@ module.exports = {
   generateId,
   createResponse,
   createSuccessResponse,
-  createErrorResponse
+  createErrorResponse,
+  ...semver,
+  ...versionResolver,
+  ...versionStatus,
+  ...batch,
+  ...versionDiff,
+  ...snapshots,
+  ...permissions,
+  ...versionLock,
+  ...rollouts,
+  ...audit,
+  ...trash,
+  ...revisions
 };
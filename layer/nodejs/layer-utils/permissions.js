@@ -0,0 +1,40 @@
+/**
+ * Permissions carried by the user token. Admins hold every permission; other users hold the
+ * permissions listed on their user item, copied into the token at login.
+ */
+
+const PERMISSIONS = {
+  // Write to the shortnames and configurations of a version locked for release
+  VERSION_LOCK_OVERRIDE: 'version-lock:override',
+  // Approve or reject the change requests proposed to the configurations of published versions
+  CHANGE_REQUEST_APPROVE: 'change-request:approve',
+  // Read the audit log
+  AUDIT_READ: 'audit:read'
+};
+
+/**
+ * Check whether a user is an admin. Some operations, such as purging the trash, are reserved to admins.
+ * @param {Object} user - The decoded user token.
+ * @returns {boolean} - Whether the user is an admin.
+ */
+function isAdmin(user) {
+  return Boolean(user) && user.userType === 'admin';
+}
+
+/**
+ * Check whether a user holds a permission.
+ * @param {Object} user - The decoded user token.
+ * @param {string} permission - The permission.
+ * @returns {boolean} - Whether the user holds the permission.
+ */
+function hasPermission(user, permission) {
+  if (!user) return false;
+  if (isAdmin(user)) return true;
+  return Array.isArray(user.permissions) && user.permissions.includes(permission);
+}
+
+module.exports = {
+  PERMISSIONS,
+  isAdmin,
+  hasPermission
+};
@@ -0,0 +1,82 @@
+/**
+ * Numbered revisions of a configuration, shared by the configuration and version Lambdas. Every write of a
+ * configuration stores the attributes it leaves, so the history of a configuration can be listed, compared and
+ * reverted to. Secret values are stored encrypted, as in the configuration itself.
+ */
+
+// Attributes of a configuration kept in each revision
+const REVISION_ATTRIBUTES = ['key', 'value', 'secret', 'encryptedValue', 'valueType', 'enumOptions', 'visibility', 'description', 'tags'];
+
+/**
+ * Build a revision of a configuration.
+ * @param {Object} item - The configuration item, as written.
+ * @param {number} revision - The revision number, starting at 1.
+ * @param {string} createdBy - The user ID who made the write.
+ * @param {string} createdAt - When the write was made.
+ * @param {number} [revertedFrom] - The revision the write reverted to, if any.
+ * @returns {Object} - The revision item.
+ */
+function toRevision(item, revision, createdBy, createdAt, revertedFrom) {
+  const revisionItem = {
+    configId: item.configId,
+    revision,
+    shortname: item.shortname,
+    version: item.version,
+    createdBy,
+    createdAt
+  };
+
+  for (const attribute of REVISION_ATTRIBUTES) {
+    if (item[attribute] !== undefined) {
+      revisionItem[attribute] = item[attribute];
+    }
+  }
+
+  if (revertedFrom !== undefined) {
+    revisionItem.revertedFrom = revertedFrom;
+  }
+
+  return revisionItem;
+}
+
+/**
+ * Build the revision standing for a configuration written before revisions were stored.
+ * @param {Object} item - The configuration item.
+ * @returns {Object} - The revision item, numbered 1.
+ */
+function toInitialRevision(item) {
+  return toRevision(item, 1, item.createdBy, item.updatedAt || item.createdAt);
+}
+
+/**
+ * Build the transaction item storing a revision of a configuration; revisions are never overwritten.
+ * @param {string} revisionsTable - The configuration revisions DynamoDB table name.
+ * @param {Object} revisionItem - The revision item.
+ * @returns {Object} - The transaction item.
+ */
+function putRevision(revisionsTable, revisionItem) {
+  return {
+    Put: {
+      TableName: revisionsTable,
+      Item: revisionItem,
+      ConditionExpression: 'attribute_not_exists(revision)'
+    }
+  };
+}
+
+/**
+ * Read a revision number from a URL.
+ * @param {string} value - The revision number.
+ * @returns {number|null} - The revision number, or null if it is not a positive whole number.
+ */
+function parseRevision(value) {
+  const revision = Number(value);
+  return Number.isInteger(revision) && revision > 0 ? revision : null;
+}
+
+module.exports = {
+  toRevision,
+  toInitialRevision,
+  putRevision,
+  parseRevision
+};
@@ -0,0 +1,57 @@
+/**
+ * Percentage rollouts shared by the version and configuration Lambdas.
+ * A rollout splits the consumers of a shortname between a base version and a target version. Each client
+ * identifier hashes to one of 100 buckets; clients whose bucket is below the rollout percentage get the
+ * target version. The assignment is sticky: a client keeps its version while the percentage does not
+ * change, and ramping the percentage up only moves clients from the base version to the target version.
+ */
+
+const crypto = require('crypto');
+
+const ROLLOUT_BUCKETS = 100;
+
+/**
+ * Validate a rollout percentage.
+ * @param {*} percentage - The share of clients getting the target version.
+ * @returns {string|null} - An error message, or null if the percentage is valid.
+ */
+function validateRolloutPercentage(percentage) {
+  if (!Number.isInteger(percentage) || percentage < 0 || percentage > 100) {
+    return 'Percentage must be a whole number between 0 and 100';
+  }
+
+  return null;
+}
+
+/**
+ * Get the rollout bucket of a client. The shortname is part of the hash, so a client does not land in
+ * the same share of every rollout.
+ * @param {string} shortname - The shortname.
+ * @param {string} clientId - The client identifier.
+ * @returns {number} - The bucket, from 0 to 99.
+ */
+function getRolloutBucket(shortname, clientId) {
+  const hash = crypto.createHash('sha256').update(`${shortname}:${clientId}`).digest();
+  return hash.readUInt32BE(0) % ROLLOUT_BUCKETS;
+}
+
+/**
+ * Pick the version a client gets from a rollout.
+ * @param {Object} rollout - The rollout of the shortname.
+ * @param {string} clientId - The client identifier.
+ * @returns {Object} - The version of the client and its bucket.
+ */
+function selectRolloutVersion(rollout, clientId) {
+  const bucket = getRolloutBucket(rollout.shortname, clientId);
+  return {
+    version: bucket < rollout.percentage ? rollout.targetVersion : rollout.baseVersion,
+    bucket
+  };
+}
+
+module.exports = {
+  ROLLOUT_BUCKETS,
+  validateRolloutPercentage,
+  getRolloutBucket,
+  selectRolloutVersion
+};
@@ -0,0 +1,138 @@
+/**
+ * Semantic version parsing, ordering and alias resolution shared by the version and configuration Lambdas.
+ * Versions follow SemVer 2.0 (MAJOR.MINOR.PATCH with an optional pre-release tag). Build metadata ("+...")
+ * is not accepted since versions are used in URL paths.
+ */
+
+const IDENTIFIER = '(?:0|[1-9]\\d*|\\d*[a-zA-Z-][0-9a-zA-Z-]*)';
+const VERSION_PATTERN = new RegExp(
+  `^(0|[1-9]\\d*)\\.(0|[1-9]\\d*)\\.(0|[1-9]\\d*)(?:-(${IDENTIFIER}(?:\\.${IDENTIFIER})*))?$`
+);
+const RANGE_PATTERN = /^(0|[1-9]\d*)(?:\.(0|[1-9]\d*))?\.x$/;
+
+const LATEST = 'latest';
+const LATEST_STABLE = 'latest-stable';
+
+/**
+ * Parse a semantic version.
+ * @param {string} version - The version, e.g. "2.1.0" or "2.1.0-beta.1".
+ * @returns {Object|null} - The major, minor and patch numbers and the pre-release identifiers, or null if invalid.
+ */
+function parseVersion(version) {
+  const match = VERSION_PATTERN.exec(String(version));
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+}
+
+/**
+ * Check whether a string is a valid semantic version.
+ * @param {string} version - The version.
+ * @returns {boolean} - Whether the version is valid.
+ */
+function isValidVersion(version) {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Check whether a version has a pre-release tag.
+ * @param {string} version - The version.
+ * @returns {boolean} - Whether the version is a pre-release.
+ */
+function isPrerelease(version) {
+  const parsed = parseVersion(version);
+  return Boolean(parsed && parsed.prerelease.length > 0);
+}
+
+/**
+ * Compare two pre-release identifiers: numeric identifiers are lower than alphanumeric ones.
+ * @param {string} a - The first identifier.
+ * @param {string} b - The second identifier.
+ * @returns {number} - A negative number, zero or a positive number.
+ */
+function compareIdentifiers(a, b) {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) return Number(a) - Number(b);
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Compare two versions by SemVer precedence, e.g. 1.0.0-alpha < 1.0.0-alpha.1 < 1.0.0-beta < 1.0.0 < 1.10.0.
+ * Versions that are not semantic versions are ordered after the valid ones, alphabetically.
+ * @param {string} a - The first version.
+ * @param {string} b - The second version.
+ * @returns {number} - A negative number if a is lower than b, zero if they are equal, a positive number otherwise.
+ */
+function compareVersions(a, b) {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA || !parsedB) {
+    if (parsedA) return -1;
+    if (parsedB) return 1;
+    return String(a).localeCompare(String(b));
+  }
+
+  const difference = parsedA.major - parsedB.major || parsedA.minor - parsedB.minor || parsedA.patch - parsedB.patch;
+  if (difference !== 0) return difference;
+
+  // A pre-release is lower than the release it precedes
+  if (parsedA.prerelease.length === 0 || parsedB.prerelease.length === 0) {
+    return parsedB.prerelease.length - parsedA.prerelease.length;
+  }
+
+  const length = Math.min(parsedA.prerelease.length, parsedB.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const identifierDifference = compareIdentifiers(parsedA.prerelease[i], parsedB.prerelease[i]);
+    if (identifierDifference !== 0) return identifierDifference;
+  }
+
+  return parsedA.prerelease.length - parsedB.prerelease.length;
+}
+
+/**
+ * Check whether a version path parameter is an alias rather than a version:
+ * "latest", "latest-stable" or a range such as "2.x" or "2.1.x".
+ * @param {string} version - The version path parameter.
+ * @returns {boolean} - Whether it is an alias.
+ */
+function isVersionAlias(version) {
+  return version === LATEST || version === LATEST_STABLE || RANGE_PATTERN.test(version);
+}
+
+/**
+ * Resolve a version alias to the highest matching version. "latest" includes pre-releases;
+ * "latest-stable" and ranges such as "2.x" only match releases.
+ * @param {string} alias - The alias.
+ * @param {Array<string>} versions - The candidate versions.
+ * @returns {string|null} - The highest matching version, or null if none matches.
+ */
+function resolveVersionAlias(alias, versions) {
+  const range = RANGE_PATTERN.exec(alias);
+  const matches = versions.filter(version => {
+    const parsed = parseVersion(version);
+    if (!parsed) return false;
+    if (alias === LATEST) return true;
+    if (parsed.prerelease.length > 0) return false;
+    if (!range) return alias === LATEST_STABLE;
+    return parsed.major === Number(range[1]) && (range[2] === undefined || parsed.minor === Number(range[2]));
+  });
+
+  return matches.sort(compareVersions).pop() || null;
+}
+
+module.exports = {
+  parseVersion,
+  isValidVersion,
+  isPrerelease,
+  compareVersions,
+  isVersionAlias,
+  resolveVersionAlias
+};
@@ -0,0 +1,129 @@
+/**
+ * Immutable snapshots of a version: its shortname links and configurations, version defaults included, at a
+ * point in time. The snapshot body is written once to S3 and never modified; a metadata item in the snapshots
+ * table lists it. Snapshots are taken manually or automatically before bulk operations, so a version can be
+ * restored to one of them. Secret values are kept encrypted.
+ */
+
+const AWS = require('aws-sdk');
+const { v4: uuidv4 } = require('uuid');
+const { queryAll } = require('./batch');
+
+const dynamoDB = new AWS.DynamoDB.DocumentClient();
+const s3 = new AWS.S3();
+
+// Version defaults are stored under the wildcard shortname
+const VERSION_DEFAULTS = '*';
+
+/**
+ * Read the shortname links and configurations of a version, version defaults included.
+ * @param {string} version - The version.
+ * @param {string} shortnameVersionsTable - The shortname-versions DynamoDB table name.
+ * @param {string} configurationsTable - The configurations DynamoDB table name.
+ * @returns {Promise<Object>} - The shortname link items and the configuration items.
+ */
+async function readVersionItems(version, shortnameVersionsTable, configurationsTable) {
+  const shortnames = await queryAll(dynamoDB, {
+    TableName: shortnameVersionsTable,
+    IndexName: 'VersionIndex',
+    KeyConditionExpression: 'version = :version',
+    ExpressionAttributeValues: { ':version': version }
+  });
+
+  const configurations = [];
+  for (const shortname of [...shortnames.map(link => link.shortname), VERSION_DEFAULTS]) {
+    configurations.push(...await queryAll(dynamoDB, {
+      TableName: configurationsTable,
+      IndexName: 'ShortnameVersionIndex',
+      KeyConditionExpression: 'shortnameVersion = :shortnameVersion',
+      ExpressionAttributeValues: { ':shortnameVersion': `${shortname}:${version}` }
+    }));
+  }
+
+  return { shortnames, configurations };
+}
+
+/**
+ * Group the items of a version by shortname, then by key, to compare them. Version defaults are always
+ * present, under the wildcard shortname.
+ * @param {Object} items - The shortname link items and the configuration items.
+ * @returns {Map<string, Map<string, Object>>} - The configuration items by key of each shortname.
+ */
+function groupByShortname({ shortnames, configurations }) {
+  const grouped = new Map([[VERSION_DEFAULTS, new Map()]]);
+  for (const link of shortnames) {
+    grouped.set(link.shortname, new Map());
+  }
+
+  for (const config of configurations) {
+    if (!grouped.has(config.shortname)) grouped.set(config.shortname, new Map());
+    grouped.get(config.shortname).set(config.key, config);
+  }
+
+  return grouped;
+}
+
+/**
+ * Take a snapshot of a version.
+ * @param {string} version - The version.
+ * @param {Object} options - The snapshot options.
+ * @param {string} options.trigger - What took the snapshot: "manual" or the bulk operation it precedes.
+ * @param {string} [options.description] - A description of the snapshot.
+ * @param {string} options.userId - The user ID taking the snapshot.
+ * @param {Object} tables - The snapshotsTable, shortnameVersionsTable and configurationsTable DynamoDB table names.
+ * @param {string} bucket - The S3 bucket holding the snapshot bodies.
+ * @returns {Promise<Object>} - The snapshot metadata.
+ */
+async function createSnapshot(version, { trigger, description, userId }, tables, bucket) {
+  const items = await readVersionItems(version, tables.shortnameVersionsTable, tables.configurationsTable);
+  const snapshotId = uuidv4();
+  const createdAt = new Date().toISOString();
+  const s3Key = `snapshots/${version}/${snapshotId}.json`;
+
+  await s3.putObject({
+    Bucket: bucket,
+    Key: s3Key,
+    Body: JSON.stringify({ version, snapshotId, createdAt, ...items }),
+    ContentType: 'application/json'
+  }).promise();
+
+  const snapshot = {
+    version,
+    snapshotId,
+    trigger,
+    description: description || '',
+    shortnames: items.shortnames.length,
+    configurations: items.configurations.length,
+    s3Key,
+    createdBy: userId,
+    createdAt
+  };
+
+  await dynamoDB.put({
+    TableName: tables.snapshotsTable,
+    Item: snapshot,
+    ConditionExpression: 'attribute_not_exists(snapshotId)'
+  }).promise();
+
+  return snapshot;
+}
+
+/**
+ * Read the body of a snapshot.
+ * @param {Object} snapshot - The snapshot metadata.
+ * @param {string} bucket - The S3 bucket holding the snapshot bodies.
+ * @returns {Promise<Object>} - The shortname link items and the configuration items of the snapshot.
+ */
+async function readSnapshot(snapshot, bucket) {
+  const result = await s3.getObject({ Bucket: bucket, Key: snapshot.s3Key }).promise();
+  const { shortnames, configurations } = JSON.parse(result.Body.toString('utf-8'));
+  return { shortnames, configurations };
+}
+
+module.exports = {
+  VERSION_DEFAULTS,
+  readVersionItems,
+  groupByShortname,
+  createSnapshot,
+  readSnapshot
+};
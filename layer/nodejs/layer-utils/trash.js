@@ -0,0 +1,147 @@
+/**
+ * Recycle bin shared by the Lambdas that delete.
+ * Deleting a shortname, a version, the version of a shortname or a configuration moves the item and its
+ * children to the trash table instead of dropping them: one entry item describes the deletion, and one item
+ * per moved item keeps it as it was, with the table it came from and its key. Deletions stay restorable for
+ * the retention period, after which DynamoDB expires their items.
+ */
+
+const { v4: uuidv4 } = require('uuid');
+const { queryAll, batchPut, batchDelete } = require('./batch');
+
+const TRASH_ENTITIES = ['shortname', 'version', 'configuration'];
+// Tables items are moved from, by the name kept in the trash
+const TRASH_TABLES = ['shortnames', 'versions', 'shortnameVersions', 'configurations'];
+const TRASH_RETENTION_DAYS = 30;
+// Sort key of the item describing a deletion
+const TRASH_ENTRY_KEY = 'entry';
+
+/**
+ * Build the trash context of a request, passed to the functions that delete.
+ * @param {Object} user - The decoded token of the user making the request.
+ * @param {string} trashTable - The trash DynamoDB table name.
+ * @returns {Object} - The trash context.
+ */
+function createTrashContext(user, trashTable) {
+  return {
+    table: trashTable,
+    deletedBy: user.userId,
+    deletedByEmail: user.email
+  };
+}
+
+/**
+ * Build the items written to the trash table for a deletion.
+ * @param {Object} trash - The trash context of the request.
+ * @param {Object} deletion - The deletion.
+ * @param {string} deletion.entity - The entity deleted: shortname, version or configuration.
+ * @param {string} deletion.entityId - The ID of the item deleted.
+ * @param {string} [deletion.shortname] - The shortname the item belongs to, if any.
+ * @param {string} [deletion.version] - The version the item belongs to, if any.
+ * @param {string} [deletion.key] - The key of a deleted configuration.
+ * @param {Array<Object>} items - The moved items: the table they come from, their key and the item itself.
+ * @param {Date} deletedAt - When the deletion was made.
+ * @returns {Object} - The entry item and the moved items.
+ */
+function buildTrashItems(trash, { entity, entityId, shortname, version, key }, items, deletedAt) {
+  if (!TRASH_ENTITIES.includes(entity)) throw new Error(`Unknown trash entity: ${entity}`);
+
+  const deletionId = uuidv4();
+  // DynamoDB expires items on an epoch time in seconds
+  const expiresAt = Math.floor(deletedAt.getTime() / 1000) + TRASH_RETENTION_DAYS * 24 * 60 * 60;
+
+  const counts = {};
+  for (const table of TRASH_TABLES) {
+    counts[table] = items.filter(moved => moved.table === table).length;
+  }
+
+  const entry = {
+    deletionId,
+    itemKey: TRASH_ENTRY_KEY,
+    entity,
+    entityId,
+    deletedBy: trash.deletedBy,
+    deletedAt: deletedAt.toISOString(),
+    expiresAt,
+    counts
+  };
+  if (trash.deletedByEmail) entry.deletedByEmail = trash.deletedByEmail;
+  if (shortname) entry.shortname = shortname;
+  if (version) entry.version = version;
+  if (key) entry.key = key;
+
+  const movedItems = items.map(({ table, key: itemKey, item }) => {
+    if (!TRASH_TABLES.includes(table)) throw new Error(`Unknown trash table: ${table}`);
+    return {
+      deletionId,
+      itemKey: `${table}#${Object.values(itemKey).join('#')}`,
+      table,
+      key: itemKey,
+      item,
+      expiresAt
+    };
+  });
+
+  return { entry, movedItems };
+}
+
+/**
+ * Move items to the trash: the items are written to the trash table, the entry last so that a deletion is
+ * only listed once complete, then deleted from their tables, children first.
+ * @param {Object} dynamoDB - The DynamoDB DocumentClient.
+ * @param {Object} trash - The trash context of the request.
+ * @param {Object} deletion - The deletion, as taken by buildTrashItems.
+ * @param {Array<Object>} items - The moved items, parents first: { table, key, item }.
+ * @param {Object} tables - The DynamoDB table names, by the name kept in the trash.
+ * @returns {Promise<Object>} - The entry of the deletion.
+ */
+async function moveToTrash(dynamoDB, trash, deletion, items, tables) {
+  const { entry, movedItems } = buildTrashItems(trash, deletion, items, new Date());
+
+  await batchPut(dynamoDB, trash.table, movedItems);
+  await dynamoDB.put({
+    TableName: trash.table,
+    Item: entry,
+    ConditionExpression: 'attribute_not_exists(deletionId)'
+  }).promise();
+
+  for (const table of [...TRASH_TABLES].reverse()) {
+    const keys = items.filter(moved => moved.table === table).map(moved => moved.key);
+    if (keys.length > 0) {
+      await batchDelete(dynamoDB, tables[table], keys);
+    }
+  }
+
+  return entry;
+}
+
+/**
+ * Read the entry and the moved items of a deletion.
+ * @param {Object} dynamoDB - The DynamoDB DocumentClient.
+ * @param {string} deletionId - The deletion ID.
+ * @param {string} trashTable - The trash DynamoDB table name.
+ * @returns {Promise<Object>} - The entry, or null if there is none, and the moved items.
+ */
+async function readTrashItems(dynamoDB, deletionId, trashTable) {
+  const items = await queryAll(dynamoDB, {
+    TableName: trashTable,
+    KeyConditionExpression: 'deletionId = :deletionId',
+    ExpressionAttributeValues: { ':deletionId': deletionId }
+  });
+
+  return {
+    entry: items.find(item => item.itemKey === TRASH_ENTRY_KEY) || null,
+    movedItems: items.filter(item => item.itemKey !== TRASH_ENTRY_KEY)
+  };
+}
+
+module.exports = {
+  TRASH_ENTITIES,
+  TRASH_TABLES,
+  TRASH_RETENTION_DAYS,
+  TRASH_ENTRY_KEY,
+  createTrashContext,
+  buildTrashItems,
+  moveToTrash,
+  readTrashItems
+};
@@ -0,0 +1,112 @@
+/**
+ * Comparison of configurations across every shortname, shared by the version and configuration Lambdas:
+ * between two versions, on the effective values each shortname receives, and between a version and one of
+ * its snapshots, on the stored items. Secret values are never decrypted: they are compared on their
+ * encrypted value and returned masked.
+ */
+
+const { isDeepStrictEqual } = require('util');
+
+/**
+ * Get the effective configuration items of a shortname from the items of each of its layers.
+ * @param {Array<Object>} layers - The layers from lowest to highest precedence, each with its raw configuration items.
+ * @returns {Map<string, Object>} - The winning configuration item of each key.
+ */
+function getEffectiveItems(layers) {
+  const items = new Map();
+  for (const { configurations } of layers) {
+    for (const item of configurations) {
+      items.set(item.key, item);
+    }
+  }
+  return items;
+}
+
+/**
+ * Get the value of a configuration item as shown in a diff.
+ * @param {Object} item - The configuration item.
+ * @returns {any} - The value, or null for a secret.
+ */
+function toDiffValue(item) {
+  return item.secret ? null : item.value;
+}
+
+/**
+ * Check whether two configuration items hold the same value.
+ * @param {Object} a - The first configuration item.
+ * @param {Object} b - The second configuration item.
+ * @returns {boolean} - Whether the values are equal.
+ */
+function hasSameValue(a, b) {
+  if (Boolean(a.secret) !== Boolean(b.secret)) return false;
+  return a.secret ? isDeepStrictEqual(a.encryptedValue, b.encryptedValue) : isDeepStrictEqual(a.value, b.value);
+}
+
+/**
+ * Compare the effective configuration items of a shortname in two versions.
+ * @param {Map<string, Object>} fromItems - The items in the version compared from.
+ * @param {Map<string, Object>} toItems - The items in the version compared to.
+ * @returns {Object} - The keys added, removed and whose value changed, sorted by key.
+ */
+function diffItems(fromItems, toItems) {
+  const added = [];
+  const removed = [];
+  const changed = [];
+
+  for (const [key, item] of toItems) {
+    if (!fromItems.has(key)) {
+      added.push({ key, value: toDiffValue(item), secret: Boolean(item.secret) });
+    }
+  }
+
+  for (const [key, item] of fromItems) {
+    const other = toItems.get(key);
+    if (!other) {
+      removed.push({ key, value: toDiffValue(item), secret: Boolean(item.secret) });
+    } else if (!hasSameValue(item, other)) {
+      changed.push({
+        key,
+        from: toDiffValue(item),
+        to: toDiffValue(other),
+        secret: Boolean(item.secret || other.secret)
+      });
+    }
+  }
+
+  const byKey = (a, b) => a.key.localeCompare(b.key);
+  return { added: added.sort(byKey), removed: removed.sort(byKey), changed: changed.sort(byKey) };
+}
+
+/**
+ * Compare two sets of shortnames, such as two versions.
+ * @param {Map<string, Map<string, Object>>} fromShortnames - The items by key of each shortname compared from.
+ * @param {Map<string, Map<string, Object>>} toShortnames - The items by key of each shortname compared to.
+ * @returns {Object} - The shortnames added and removed, the changes of each shortname and their totals.
+ */
+function diffVersions(fromShortnames, toShortnames) {
+  const names = Array.from(new Set([...fromShortnames.keys(), ...toShortnames.keys()])).sort();
+  const shortnames = [];
+  const summary = { shortnamesAdded: 0, shortnamesRemoved: 0, keysAdded: 0, keysRemoved: 0, valuesChanged: 0 };
+
+  for (const shortname of names) {
+    const status = !fromShortnames.has(shortname) ? 'added' : !toShortnames.has(shortname) ? 'removed' : 'changed';
+    const changes = diffItems(fromShortnames.get(shortname) || new Map(), toShortnames.get(shortname) || new Map());
+    if (status === 'changed' && changes.added.length + changes.removed.length + changes.changed.length === 0) {
+      continue;
+    }
+
+    if (status === 'added') summary.shortnamesAdded++;
+    if (status === 'removed') summary.shortnamesRemoved++;
+    summary.keysAdded += changes.added.length;
+    summary.keysRemoved += changes.removed.length;
+    summary.valuesChanged += changes.changed.length;
+    shortnames.push({ shortname, status, ...changes });
+  }
+
+  return { summary, shortnames };
+}
+
+module.exports = {
+  getEffectiveItems,
+  diffVersions
+};
@@ -0,0 +1,64 @@
+/**
+ * Release locks shared by the version and configuration Lambdas.
+ * A version can be locked for a release window, with a reason and an owner. While it is locked, writes
+ * to its shortnames and configurations are rejected with a 423, except for users holding the
+ * version lock override permission. The lock is independent of the version lifecycle.
+ */
+
+const { PERMISSIONS, hasPermission } = require('./permissions');
+
+/**
+ * Get the release lock of a version item.
+ * @param {Object} item - The version item.
+ * @returns {Object|null} - The lock, or null if the version is not locked.
+ */
+function getVersionLock(item) {
+  return (item && item.lock) || null;
+}
+
+/**
+ * Check whether a user can write to a locked version.
+ * @param {Object} user - The decoded user token.
+ * @returns {boolean} - Whether the user can override version locks.
+ */
+function canOverrideVersionLock(user) {
+  return hasPermission(user, PERMISSIONS.VERSION_LOCK_OVERRIDE);
+}
+
+/**
+ * Build the 423 response of a write to a locked version.
+ * @param {string} version - The version.
+ * @param {Object} lock - The lock of the version.
+ * @returns {Object} - The response object.
+ */
+function versionLockResponse(version, lock) {
+  return {
+    statusCode: 423,
+    body: JSON.stringify({
+      message: `Version ${version} is locked by ${lock.owner}: ${lock.reason}. Ask ${lock.owner} to unlock it before changing its shortnames or configurations`,
+      lock
+    })
+  };
+}
+
+/**
+ * Check that a user can write to the shortnames and configurations of a version item.
+ * @param {Object} item - The version item, if any.
+ * @param {Object} user - The decoded user token.
+ * @returns {Object|null} - A 423 response if the version is locked for the user, or null.
+ */
+function checkVersionLock(item, user) {
+  const lock = getVersionLock(item);
+  if (!lock || canOverrideVersionLock(user)) {
+    return null;
+  }
+
+  return versionLockResponse(item.version, lock);
+}
+
+module.exports = {
+  getVersionLock,
+  canOverrideVersionLock,
+  versionLockResponse,
+  checkVersionLock
+};
@@ -0,0 +1,61 @@
+/**
+ * Resolution of the version path parameter shared by the version and configuration Lambdas.
+ * A path may name a version by a channel or an alias instead of a semantic version; it is resolved to a
+ * semantic version before anything else is read.
+ */
+
+const AWS = require('aws-sdk');
+const { isVersionAlias, resolveVersionAlias } = require('./semver');
+const { getVersionStatus } = require('./versionStatus');
+
+const dynamoDB = new AWS.DynamoDB.DocumentClient();
+
+/**
+ * Resolve a version path parameter that is not a semantic version: a channel name resolves to the version
+ * the channel points to, and an alias ("latest", "latest-stable", "2.x", "2.1.x") to the highest matching
+ * published version, optionally among the versions of a shortname. Other values are returned unchanged.
+ * @param {string} alias - The channel name or version alias.
+ * @param {string} versionsTable - The versions DynamoDB table name.
+ * @param {string} channelsTable - The channels DynamoDB table name.
+ * @param {string} [shortname] - The shortname whose versions are candidates.
+ * @param {string} [shortnameVersionsTable] - The shortname-versions DynamoDB table name.
+ * @returns {Promise<Object>} - The resolved version, or a 404 response.
+ */
+async function resolveVersion(alias, versionsTable, channelsTable, shortname, shortnameVersionsTable) {
+  if (!isVersionAlias(alias)) {
+    const channel = await dynamoDB.get({ TableName: channelsTable, Key: { channel: alias } }).promise();
+    return { version: channel.Item ? channel.Item.version : alias };
+  }
+
+  const result = await dynamoDB.scan({ TableName: versionsTable }).promise();
+  let candidates = (result.Items || [])
+    .filter(item => getVersionStatus(item) === 'published')
+    .map(item => item.version);
+
+  if (shortname) {
+    const shortnameVersions = await dynamoDB.query({
+      TableName: shortnameVersionsTable,
+      IndexName: 'ShortnameIndex',
+      KeyConditionExpression: 'shortname = :shortname',
+      ExpressionAttributeValues: { ':shortname': shortname }
+    }).promise();
+    const versions = new Set((shortnameVersions.Items || []).map(item => item.version));
+    candidates = candidates.filter(version => versions.has(version));
+  }
+
+  const version = resolveVersionAlias(alias, candidates);
+  if (!version) {
+    return {
+      response: {
+        statusCode: 404,
+        body: JSON.stringify({ message: `No published version matches "${alias}"` })
+      }
+    };
+  }
+
+  return { version };
+}
+
+module.exports = {
+  resolveVersion
+};
@@ -0,0 +1,89 @@
+/**
+ * Version lifecycle shared by the version and configuration Lambdas.
+ * A version starts as a draft, goes through review, is published, then deprecated and finally archived.
+ * Once published, the configurations of a version are immutable; consumers only read published or
+ * deprecated versions.
+ */
+
+const VERSION_STATUSES = ['draft', 'in_review', 'published', 'deprecated', 'archived'];
+const DEFAULT_VERSION_STATUS = 'draft';
+
+// Allowed transitions from each status
+const TRANSITIONS = {
+  draft: ['in_review', 'archived'],
+  in_review: ['draft', 'published'],
+  published: ['deprecated'],
+  deprecated: ['published', 'archived'],
+  archived: []
+};
+
+const WRITABLE_STATUSES = ['draft', 'in_review'];
+const DELIVERABLE_STATUSES = ['published', 'deprecated'];
+
+/**
+ * Get the status of a version item. Versions created before the lifecycle only have an isActive flag:
+ * active versions are considered published and inactive ones drafts.
+ * @param {Object} item - The version item.
+ * @returns {string} - The status.
+ */
+function getVersionStatus(item) {
+  if (item.status) return item.status;
+  return item.isActive ? 'published' : DEFAULT_VERSION_STATUS;
+}
+
+/**
+ * Check whether a string is a version status.
+ * @param {string} status - The status.
+ * @returns {boolean} - Whether the status is valid.
+ */
+function isValidVersionStatus(status) {
+  return VERSION_STATUSES.includes(status);
+}
+
+/**
+ * Check whether a version can move from a status to another.
+ * @param {string} from - The current status.
+ * @param {string} to - The requested status.
+ * @returns {boolean} - Whether the transition is allowed.
+ */
+function canTransition(from, to) {
+  return (TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Get the statuses a version can move to from a status.
+ * @param {string} status - The current status.
+ * @returns {Array<string>} - The allowed next statuses.
+ */
+function getAllowedTransitions(status) {
+  return TRANSITIONS[status] || [];
+}
+
+/**
+ * Check whether the configurations of a version with a status can be written.
+ * @param {string} status - The status.
+ * @returns {boolean} - Whether the version is writable.
+ */
+function isWritableStatus(status) {
+  return WRITABLE_STATUSES.includes(status);
+}
+
+/**
+ * Check whether consumers can read a version with a status.
+ * @param {string} status - The status.
+ * @returns {boolean} - Whether the version is delivered.
+ */
+function isDeliverableStatus(status) {
+  return DELIVERABLE_STATUSES.includes(status);
+}
+
+module.exports = {
+  VERSION_STATUSES,
+  DEFAULT_VERSION_STATUS,
+  getVersionStatus,
+  isValidVersionStatus,
+  canTransition,
+  getAllowedTransitions,
+  isWritableStatus,
+  isDeliverableStatus
+};
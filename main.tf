@@ -86,7 +86,9 @@ resource "aws_iam_policy" "cms_lambda_data_access_policy" {
           "dynamodb:UpdateItem",
           "dynamodb:DeleteItem",
           "dynamodb:Query",
-          "dynamodb:Scan"
+          "dynamodb:Scan",
+          "dynamodb:ConditionCheckItem",
+          "dynamodb:BatchWriteItem"
         ]
         Resource = [
           aws_dynamodb_table.cms_shortnames.arn,
@@ -94,17 +96,65 @@ resource "aws_iam_policy" "cms_lambda_data_access_policy" {
           aws_dynamodb_table.cms_shortname_versions.arn,
           aws_dynamodb_table.cms_configurations.arn,
           aws_dynamodb_table.cms_users.arn,
+          aws_dynamodb_table.cms_configuration_schemas.arn,
+          aws_dynamodb_table.cms_key_deprecations.arn,
+          aws_dynamodb_table.cms_version_channels.arn,
+          aws_dynamodb_table.cms_version_channel_history.arn,
+          aws_dynamodb_table.cms_version_snapshots.arn,
+          aws_dynamodb_table.cms_version_schedules.arn,
+          aws_dynamodb_table.cms_shortname_rollouts.arn,
+          aws_dynamodb_table.cms_configuration_revisions.arn,
+          aws_dynamodb_table.cms_trash.arn,
+          aws_dynamodb_table.cms_change_requests.arn,
+          aws_dynamodb_table.cms_comments.arn,
+          aws_dynamodb_table.cms_comment_threads.arn,
+          aws_dynamodb_table.cms_comment_reads.arn,
           "${aws_dynamodb_table.cms_users.arn}/index/*",
           "${aws_dynamodb_table.cms_shortnames.arn}/index/*",
           "${aws_dynamodb_table.cms_versions.arn}/index/*",
           "${aws_dynamodb_table.cms_shortname_versions.arn}/index/*",
-          "${aws_dynamodb_table.cms_configurations.arn}/index/*"
+          "${aws_dynamodb_table.cms_configurations.arn}/index/*",
+          "${aws_dynamodb_table.cms_version_schedules.arn}/index/*",
+          "${aws_dynamodb_table.cms_trash.arn}/index/*",
+          "${aws_dynamodb_table.cms_change_requests.arn}/index/*",
+          "${aws_dynamodb_table.cms_comments.arn}/index/*",
+          "${aws_dynamodb_table.cms_comment_threads.arn}/index/*"
+        ]
+      },
+      {
+        # The audit log is append-only: entries can be added and queried, never updated or deleted
+        Sid    = "DynamoDBAuditLog"
+        Effect = "Allow"
+        Action = [
+          "dynamodb:PutItem",
+          "dynamodb:Query"
+        ]
+        Resource = [
+          aws_dynamodb_table.cms_audit_log.arn,
+          "${aws_dynamodb_table.cms_audit_log.arn}/index/*"
+        ]
+      },
+      {
+        Sid    = "KMSSecretValues"
+        Effect = "Allow"
+        Action = [
+          "kms:GenerateDataKey",
+          "kms:Decrypt"
+        ]
+        Resource = [
+          aws_kms_key.cms_config_secrets.arn
         ]
       }
     ]
   })
 }
 
+resource "aws_kms_key" "cms_config_secrets" {
+  description             = "Encrypts secret configuration values"
+  deletion_window_in_days = 30
+  enable_key_rotation     = true
+}
+
 resource "aws_iam_role_policy_attachment" "cms_lambda_data_access_attachment" {
   role       = aws_iam_role.cms_lambda_exec.name
   policy_arn = aws_iam_policy.cms_lambda_data_access_policy.arn
@@ -113,12 +163,13 @@ resource "aws_iam_role_policy_attachment" "cms_lambda_data_access_attachment" {
 resource "aws_s3_bucket_lifecycle_configuration" "cms_config_files_lifecycle" {
   bucket = data.aws_s3_bucket.cms_config_bucket.id
 
+  # Only config files expire: snapshot bodies under snapshots/ are kept as long as their metadata
   rule {
     id     = "ExpireOldFiles"
     status = "Enabled"
 
     filter {
-      prefix = ""
+      prefix = "config/"
     }
 
     expiration {
@@ -158,6 +209,7 @@ module "cms_register_lambda" {
     ADMIN_KEY     = var.admin_key
     CONFIG_BUCKET = data.aws_s3_bucket.cms_config_bucket.id
     USERS_TABLE   = aws_dynamodb_table.cms_users.name
+    AUDIT_TABLE   = aws_dynamodb_table.cms_audit_log.name
   }
 
   allowed_triggers = {
@@ -219,6 +271,8 @@ module "cms_shortname_lambda" {
     VERSIONS_TABLE      = aws_dynamodb_table.cms_versions.name
     SHORTNAME_VERSIONS_TABLE = aws_dynamodb_table.cms_shortname_versions.name
     CONFIGURATIONS_TABLE = aws_dynamodb_table.cms_configurations.name
+    AUDIT_TABLE         = aws_dynamodb_table.cms_audit_log.name
+    TRASH_TABLE         = aws_dynamodb_table.cms_trash.name
   }
 
   allowed_triggers = {
@@ -240,6 +294,8 @@ module "cms_version_lambda" {
   runtime       = "nodejs18.x"
   publish       = true
   source_path   = "./lambda/version_lambda"
+  # Duplicating a version or restoring a snapshot copies every configuration of a version
+  timeout       = 30
 
   create_role = false
   lambda_role = aws_iam_role.cms_lambda_exec.arn
@@ -251,6 +307,14 @@ module "cms_version_lambda" {
     VERSIONS_TABLE      = aws_dynamodb_table.cms_versions.name
     SHORTNAME_VERSIONS_TABLE = aws_dynamodb_table.cms_shortname_versions.name
     CONFIGURATIONS_TABLE = aws_dynamodb_table.cms_configurations.name
+    REVISIONS_TABLE     = aws_dynamodb_table.cms_configuration_revisions.name
+    CHANNELS_TABLE      = aws_dynamodb_table.cms_version_channels.name
+    CHANNEL_HISTORY_TABLE = aws_dynamodb_table.cms_version_channel_history.name
+    SNAPSHOTS_TABLE     = aws_dynamodb_table.cms_version_snapshots.name
+    SCHEDULES_TABLE     = aws_dynamodb_table.cms_version_schedules.name
+    ROLLOUTS_TABLE      = aws_dynamodb_table.cms_shortname_rollouts.name
+    AUDIT_TABLE         = aws_dynamodb_table.cms_audit_log.name
+    TRASH_TABLE         = aws_dynamodb_table.cms_trash.name
   }
 
   allowed_triggers = {
@@ -272,6 +336,8 @@ module "cms_configuration_lambda" {
   runtime       = "nodejs18.x"
   publish       = true
   source_path   = "./lambda/configuration_lambda"
+  # Renaming a key across versions snapshots every affected version first
+  timeout       = 30
 
   create_role = false
   lambda_role = aws_iam_role.cms_lambda_exec.arn
@@ -283,6 +349,159 @@ module "cms_configuration_lambda" {
     VERSIONS_TABLE      = aws_dynamodb_table.cms_versions.name
     SHORTNAME_VERSIONS_TABLE = aws_dynamodb_table.cms_shortname_versions.name
     CONFIGURATIONS_TABLE = aws_dynamodb_table.cms_configurations.name
+    SCHEMAS_TABLE       = aws_dynamodb_table.cms_configuration_schemas.name
+    CONFIG_KMS_KEY_ID   = aws_kms_key.cms_config_secrets.arn
+    DELIVERY_INTERNAL_API_KEY = var.delivery_internal_api_key
+    DEPRECATIONS_TABLE  = aws_dynamodb_table.cms_key_deprecations.name
+    CHANNELS_TABLE      = aws_dynamodb_table.cms_version_channels.name
+    SNAPSHOTS_TABLE     = aws_dynamodb_table.cms_version_snapshots.name
+    ROLLOUTS_TABLE      = aws_dynamodb_table.cms_shortname_rollouts.name
+    AUDIT_TABLE         = aws_dynamodb_table.cms_audit_log.name
+    REVISIONS_TABLE     = aws_dynamodb_table.cms_configuration_revisions.name
+    TRASH_TABLE         = aws_dynamodb_table.cms_trash.name
+    CHANGE_REQUESTS_TABLE = aws_dynamodb_table.cms_change_requests.name
+  }
+
+  allowed_triggers = {
+    AllowExecutionFromAPIGateway = {
+      service    = "apigateway"
+      source_arn = "${module.aws_api_gateway.api_execution_arn}/*/*"
+    }
+  }
+
+  layers = [module.lambda_layer.lambda_layer_arn]
+}
+
+# Applies the scheduled status changes of versions every minute
+module "cms_version_scheduler_lambda" {
+  source        = "terraform-aws-modules/lambda/aws"
+  version       = "7.20.0"
+  function_name = "cms-version-scheduler-lambda"
+  description   = "Version scheduler Lambda function"
+  handler       = "scheduler.handler"
+  runtime       = "nodejs18.x"
+  publish       = true
+  source_path   = "./lambda/version_lambda"
+  timeout       = 60
+
+  create_role = false
+  lambda_role = aws_iam_role.cms_lambda_exec.arn
+
+  environment_variables = {
+    SECRET_KEY          = var.secret_key
+    VERSIONS_TABLE      = aws_dynamodb_table.cms_versions.name
+    SCHEDULES_TABLE     = aws_dynamodb_table.cms_version_schedules.name
+    SHORTNAME_VERSIONS_TABLE = aws_dynamodb_table.cms_shortname_versions.name
+    CONFIGURATIONS_TABLE = aws_dynamodb_table.cms_configurations.name
+    AUDIT_TABLE         = aws_dynamodb_table.cms_audit_log.name
+  }
+
+  allowed_triggers = {
+    AllowExecutionFromEventBridge = {
+      principal  = "events.amazonaws.com"
+      source_arn = aws_cloudwatch_event_rule.cms_version_scheduler.arn
+    }
+  }
+
+  layers = [module.lambda_layer.lambda_layer_arn]
+}
+
+resource "aws_cloudwatch_event_rule" "cms_version_scheduler" {
+  name                = "${var.project_name}-version-scheduler-${var.cms_suffix}"
+  description         = "Applies the scheduled status changes of versions"
+  schedule_expression = "rate(1 minute)"
+}
+
+resource "aws_cloudwatch_event_target" "cms_version_scheduler" {
+  rule = aws_cloudwatch_event_rule.cms_version_scheduler.name
+  arn  = module.cms_version_scheduler_lambda.lambda_function_arn
+}
+
+module "cms_audit_lambda" {
+  source        = "terraform-aws-modules/lambda/aws"
+  version       = "7.20.0"
+  function_name = "cms-audit-lambda"
+  description   = "Audit log Lambda function"
+  handler       = "index.handler"
+  runtime       = "nodejs18.x"
+  publish       = true
+  source_path   = "./lambda/audit_lambda"
+
+  create_role = false
+  lambda_role = aws_iam_role.cms_lambda_exec.arn
+
+  environment_variables = {
+    SECRET_KEY          = var.secret_key
+    AUDIT_TABLE         = aws_dynamodb_table.cms_audit_log.name
+  }
+
+  allowed_triggers = {
+    AllowExecutionFromAPIGateway = {
+      service    = "apigateway"
+      source_arn = "${module.aws_api_gateway.api_execution_arn}/*/*"
+    }
+  }
+
+  layers = [module.lambda_layer.lambda_layer_arn]
+}
+
+module "cms_trash_lambda" {
+  source        = "terraform-aws-modules/lambda/aws"
+  version       = "7.20.0"
+  function_name = "cms-trash-lambda"
+  description   = "Trash Lambda function"
+  handler       = "index.handler"
+  runtime       = "nodejs18.x"
+  publish       = true
+  source_path   = "./lambda/trash_lambda"
+  # Restoring a shortname or a version puts back every configuration it held
+  timeout       = 30
+
+  create_role = false
+  lambda_role = aws_iam_role.cms_lambda_exec.arn
+
+  environment_variables = {
+    SECRET_KEY          = var.secret_key
+    SHORTNAMES_TABLE    = aws_dynamodb_table.cms_shortnames.name
+    VERSIONS_TABLE      = aws_dynamodb_table.cms_versions.name
+    SHORTNAME_VERSIONS_TABLE = aws_dynamodb_table.cms_shortname_versions.name
+    CONFIGURATIONS_TABLE = aws_dynamodb_table.cms_configurations.name
+    TRASH_TABLE         = aws_dynamodb_table.cms_trash.name
+    AUDIT_TABLE         = aws_dynamodb_table.cms_audit_log.name
+  }
+
+  allowed_triggers = {
+    AllowExecutionFromAPIGateway = {
+      service    = "apigateway"
+      source_arn = "${module.aws_api_gateway.api_execution_arn}/*/*"
+    }
+  }
+
+  layers = [module.lambda_layer.lambda_layer_arn]
+}
+
+module "cms_comment_lambda" {
+  source        = "terraform-aws-modules/lambda/aws"
+  version       = "7.20.0"
+  function_name = "cms-comment-lambda"
+  description   = "Comment Lambda function"
+  handler       = "index.handler"
+  runtime       = "nodejs18.x"
+  publish       = true
+  source_path   = "./lambda/comment_lambda"
+
+  create_role = false
+  lambda_role = aws_iam_role.cms_lambda_exec.arn
+
+  environment_variables = {
+    SECRET_KEY          = var.secret_key
+    COMMENTS_TABLE      = aws_dynamodb_table.cms_comments.name
+    COMMENT_THREADS_TABLE = aws_dynamodb_table.cms_comment_threads.name
+    COMMENT_READS_TABLE = aws_dynamodb_table.cms_comment_reads.name
+    USERS_TABLE         = aws_dynamodb_table.cms_users.name
+    VERSIONS_TABLE      = aws_dynamodb_table.cms_versions.name
+    SHORTNAME_VERSIONS_TABLE = aws_dynamodb_table.cms_shortname_versions.name
+    CONFIGURATIONS_TABLE = aws_dynamodb_table.cms_configurations.name
   }
 
   allowed_triggers = {
@@ -485,177 +704,910 @@ resource "aws_dynamodb_table" "cms_configurations" {
   }
 }
 
-resource "aws_dynamodb_table" "cms_blacklist" {
-  name         = "${var.project_name}-blacklist-${var.cms_suffix}"
+# Table for storing the numbered revisions of every configuration, written along with the configuration
+resource "aws_dynamodb_table" "cms_configuration_revisions" {
+  name         = "${var.project_name}-configuration-revisions-${var.cms_suffix}"
   billing_mode = "PAY_PER_REQUEST"
-  hash_key     = "token"
+  hash_key     = "configId"
+  range_key    = "revision"
 
   attribute {
-    name = "token"
+    name = "configId"
     type = "S"
   }
+
+  attribute {
+    name = "revision"
+    type = "N"
+  }
 }
 
-module "aws_vpc" {
-  source = "terraform-aws-modules/vpc/aws"
+# Table for storing JSON Schemas attached to a shortname or to a shortname and version
+resource "aws_dynamodb_table" "cms_configuration_schemas" {
+  name         = "${var.project_name}-configuration-schemas-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "schemaId"
 
-  name               = "${var.project_name}-vpc-${var.cms_suffix}"
-  cidr               = "10.0.0.0/16"
-  azs                = ["eu-west-3a", "eu-west-3b"]
-  private_subnets    = ["10.0.1.0/24", "10.0.2.0/24"]
-  public_subnets     = ["10.0.101.0/24", "10.0.102.0/24"]
-  enable_nat_gateway = true
-  enable_vpn_gateway = true
+  attribute {
+    name = "schemaId"
+    type = "S"
+  }
+}
 
-  tags = {
-    Terraform   = "true"
-    Environment = "dev"
+# Table for storing deprecated configuration keys, which apply to every shortname and version
+resource "aws_dynamodb_table" "cms_key_deprecations" {
+  name         = "${var.project_name}-key-deprecations-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "key"
+
+  attribute {
+    name = "key"
+    type = "S"
   }
 }
 
-module "aws_api_gateway" {
-  source = "terraform-aws-modules/apigateway-v2/aws"
+# Table for storing named channels (e.g. stable, beta, canary) pointing to a version
+resource "aws_dynamodb_table" "cms_version_channels" {
+  name         = "${var.project_name}-version-channels-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "channel"
 
-  name          = "${var.project_name}-http"
-  description   = "HTTP API for CMS service"
-  protocol_type = "HTTP"
+  attribute {
+    name = "channel"
+    type = "S"
+  }
+}
 
-  create_domain_name = false
-  # domain_name        = "web.rennes-idnow.fr"
-  # domain_name_certificate_arn = var.certificate_arn
+# Table for storing the history of channel moves, newest last
+resource "aws_dynamodb_table" "cms_version_channel_history" {
+  name         = "${var.project_name}-version-channel-history-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "channel"
+  range_key    = "movedAt"
 
-  authorizers = {}
+  attribute {
+    name = "channel"
+    type = "S"
+  }
 
-  cors_configuration = {
-    allow_headers = var.org_cors_allow_headers
-    allow_methods = var.org_cors_allow_methods
-    allow_origins = var.org_cors_allow_origins
+  attribute {
+    name = "movedAt"
+    type = "S"
   }
+}
 
-  routes = {
-    "POST /api/register" = {
-      integration = {
-        uri                    = module.cms_register_lambda.lambda_function_invoke_arn
-        payload_format_version = "2.0"
-        timeout_milliseconds   = 12000
-        type                   = "AWS_PROXY"
-      }
-    },
+# Table for storing the snapshots of a version; the snapshot bodies are stored in the config bucket
+resource "aws_dynamodb_table" "cms_version_snapshots" {
+  name         = "${var.project_name}-version-snapshots-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "version"
+  range_key    = "snapshotId"
 
-    "POST /api/login" = {
-      integration = {
-        uri                    = module.cms_login_lambda.lambda_function_invoke_arn
-        payload_format_version = "2.0"
-        type                   = "AWS_PROXY"
-      }
-    },
-    
-    # Version-first approach routes
-    "GET /api/versions" = {
-      integration = {
-        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
-        payload_format_version = "2.0"
-        type                   = "AWS_PROXY"
-      }
-    },
+  attribute {
+    name = "version"
+    type = "S"
+  }
 
-    "POST /api/versions" = {
-      integration = {
-        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
-        payload_format_version = "2.0"
-        type                   = "AWS_PROXY"
-      }
-    },
+  attribute {
+    name = "snapshotId"
+    type = "S"
+  }
+}
 
-    "GET /api/versions/{version}" = {
-      integration = {
-        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
-        payload_format_version = "2.0"
-        type                   = "AWS_PROXY"
-      }
-    },
+# Table for storing the scheduled status changes of versions, applied by the version scheduler Lambda
+resource "aws_dynamodb_table" "cms_version_schedules" {
+  name         = "${var.project_name}-version-schedules-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "scheduleId"
 
-    "PUT /api/versions/{version}" = {
-      integration = {
-        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
-        payload_format_version = "2.0"
-        type                   = "AWS_PROXY"
-      }
-    },
+  attribute {
+    name = "scheduleId"
+    type = "S"
+  }
 
-    "DELETE /api/versions/{version}" = {
-      integration = {
-        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
-        payload_format_version = "2.0"
-        type                   = "AWS_PROXY"
-      }
-    },
+  attribute {
+    name = "status"
+    type = "S"
+  }
 
-    "GET /api/versions/{version}/shortnames" = {
-      integration = {
-        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
-        payload_format_version = "2.0"
-        type                   = "AWS_PROXY"
-      }
-    },
+  attribute {
+    name = "runAt"
+    type = "S"
+  }
 
-    "POST /api/versions/{version}/shortnames" = {
-      integration = {
+  global_secondary_index {
+    name               = "StatusRunAtIndex"
+    hash_key           = "status"
+    range_key          = "runAt"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+}
+
+# Table for storing the percentage rollout of each shortname between two versions
+resource "aws_dynamodb_table" "cms_shortname_rollouts" {
+  name         = "${var.project_name}-shortname-rollouts-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "shortname"
+
+  attribute {
+    name = "shortname"
+    type = "S"
+  }
+}
+
+# Append-only audit log of every create, update and delete of shortnames, versions, configurations and users
+resource "aws_dynamodb_table" "cms_audit_log" {
+  name         = "${var.project_name}-audit-log-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "auditId"
+
+  attribute {
+    name = "auditId"
+    type = "S"
+  }
+
+  attribute {
+    name = "timestamp"
+    type = "S"
+  }
+
+  attribute {
+    name = "entity"
+    type = "S"
+  }
+
+  attribute {
+    name = "actor"
+    type = "S"
+  }
+
+  attribute {
+    name = "shortname"
+    type = "S"
+  }
+
+  attribute {
+    name = "version"
+    type = "S"
+  }
+
+  global_secondary_index {
+    name               = "EntityTimestampIndex"
+    hash_key           = "entity"
+    range_key          = "timestamp"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+
+  global_secondary_index {
+    name               = "ActorTimestampIndex"
+    hash_key           = "actor"
+    range_key          = "timestamp"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+
+  global_secondary_index {
+    name               = "ShortnameTimestampIndex"
+    hash_key           = "shortname"
+    range_key          = "timestamp"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+
+  global_secondary_index {
+    name               = "VersionTimestampIndex"
+    hash_key           = "version"
+    range_key          = "timestamp"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+}
+
+# Deleted shortnames, versions and configurations, restorable until they expire: one entry item per deletion
+# (itemKey "entry") and one item per moved item
+resource "aws_dynamodb_table" "cms_trash" {
+  name         = "${var.project_name}-trash-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "deletionId"
+  range_key    = "itemKey"
+
+  attribute {
+    name = "deletionId"
+    type = "S"
+  }
+
+  attribute {
+    name = "itemKey"
+    type = "S"
+  }
+
+  attribute {
+    name = "entity"
+    type = "S"
+  }
+
+  attribute {
+    name = "deletedAt"
+    type = "S"
+  }
+
+  # Only entry items have an entity
+  global_secondary_index {
+    name               = "EntityDeletedAtIndex"
+    hash_key           = "entity"
+    range_key          = "deletedAt"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+
+  # Deletions are removed once their retention period is over
+  ttl {
+    attribute_name = "expiresAt"
+    enabled        = true
+  }
+}
+
+# Changes proposed to the configurations of published versions, applied once approved by another user
+resource "aws_dynamodb_table" "cms_change_requests" {
+  name         = "${var.project_name}-change-requests-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "changeRequestId"
+
+  attribute {
+    name = "changeRequestId"
+    type = "S"
+  }
+
+  attribute {
+    name = "shortnameVersion"
+    type = "S"
+  }
+
+  attribute {
+    name = "createdAt"
+    type = "S"
+  }
+
+  global_secondary_index {
+    name               = "ShortnameVersionIndex"
+    hash_key           = "shortnameVersion"
+    range_key          = "createdAt"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+}
+
+# Comments of the discussion threads on versions, shortnames and configuration keys
+resource "aws_dynamodb_table" "cms_comments" {
+  name         = "${var.project_name}-comments-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "commentId"
+
+  attribute {
+    name = "commentId"
+    type = "S"
+  }
+
+  attribute {
+    name = "threadId"
+    type = "S"
+  }
+
+  attribute {
+    name = "createdAt"
+    type = "S"
+  }
+
+  global_secondary_index {
+    name               = "ThreadCreatedAtIndex"
+    hash_key           = "threadId"
+    range_key          = "createdAt"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+}
+
+# One item per discussion thread, with its comment count and when it was last commented on
+resource "aws_dynamodb_table" "cms_comment_threads" {
+  name         = "${var.project_name}-comment-threads-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "threadId"
+
+  attribute {
+    name = "threadId"
+    type = "S"
+  }
+
+  attribute {
+    name = "version"
+    type = "S"
+  }
+
+  attribute {
+    name = "target"
+    type = "S"
+  }
+
+  global_secondary_index {
+    name               = "VersionIndex"
+    hash_key           = "version"
+    range_key          = "threadId"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+
+  global_secondary_index {
+    name               = "TargetIndex"
+    hash_key           = "target"
+    range_key          = "threadId"
+    projection_type    = "ALL"
+    write_capacity     = 0
+    read_capacity      = 0
+  }
+}
+
+# When each user last read each discussion thread, and was last mentioned in it
+resource "aws_dynamodb_table" "cms_comment_reads" {
+  name         = "${var.project_name}-comment-reads-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "userId"
+  range_key    = "threadId"
+
+  attribute {
+    name = "userId"
+    type = "S"
+  }
+
+  attribute {
+    name = "threadId"
+    type = "S"
+  }
+}
+
+resource "aws_dynamodb_table" "cms_blacklist" {
+  name         = "${var.project_name}-blacklist-${var.cms_suffix}"
+  billing_mode = "PAY_PER_REQUEST"
+  hash_key     = "token"
+
+  attribute {
+    name = "token"
+    type = "S"
+  }
+}
+
+module "aws_vpc" {
+  source = "terraform-aws-modules/vpc/aws"
+
+  name               = "${var.project_name}-vpc-${var.cms_suffix}"
+  cidr               = "10.0.0.0/16"
+  azs                = ["eu-west-3a", "eu-west-3b"]
+  private_subnets    = ["10.0.1.0/24", "10.0.2.0/24"]
+  public_subnets     = ["10.0.101.0/24", "10.0.102.0/24"]
+  enable_nat_gateway = true
+  enable_vpn_gateway = true
+
+  tags = {
+    Terraform   = "true"
+    Environment = "dev"
+  }
+}
+
+module "aws_api_gateway" {
+  source = "terraform-aws-modules/apigateway-v2/aws"
+
+  name          = "${var.project_name}-http"
+  description   = "HTTP API for CMS service"
+  protocol_type = "HTTP"
+
+  create_domain_name = false
+  # domain_name        = "web.rennes-idnow.fr"
+  # domain_name_certificate_arn = var.certificate_arn
+
+  authorizers = {}
+
+  cors_configuration = {
+    allow_headers = var.org_cors_allow_headers
+    allow_methods = var.org_cors_allow_methods
+    allow_origins = var.org_cors_allow_origins
+  }
+
+  routes = {
+    "POST /api/register" = {
+      integration = {
+        uri                    = module.cms_register_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        timeout_milliseconds   = 12000
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/login" = {
+      integration = {
+        uri                    = module.cms_login_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+    
+    # Version-first approach routes
+    "GET /api/versions" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/versions" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/versions/{version}" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/versions/{version}" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/versions/{version}" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/versions/{version}/shortnames" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/versions/{version}/shortnames" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames" = {
+      integration = {
+        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/shortnames" = {
+      integration = {
+        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}" = {
+      integration = {
+        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/shortnames/{shortname}" = {
+      integration = {
+        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/shortnames/{shortname}" = {
+      integration = {
+        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/versions" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/shortnames/{shortname}/versions" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/versions/{version}" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/shortnames/{shortname}/versions/{version}" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/shortnames/{shortname}/versions/{version}" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/versions/{version}/configurations" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/shortnames/{shortname}/versions/{version}/configurations" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/versions/{version}/configurations/{configId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/shortnames/{shortname}/versions/{version}/configurations/{configId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/shortnames/{shortname}/versions/{version}/configurations/{configId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/schema" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/shortnames/{shortname}/schema" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/shortnames/{shortname}/schema" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/versions/{version}/schema" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/shortnames/{shortname}/versions/{version}/schema" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/shortnames/{shortname}/versions/{version}/schema" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/shortnames/{shortname}/versions/{version}/configurations/{configId}/reveal" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/versions/{version}/configurations/resolved" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/defaults/configurations" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/defaults/configurations" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/defaults/configurations/{configId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/defaults/configurations/{configId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/defaults/configurations/{configId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/defaults/configurations/{configId}/reveal" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/versions/{version}/defaults/configurations" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/versions/{version}/defaults/configurations" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/versions/{version}/defaults/configurations/{configId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/versions/{version}/defaults/configurations/{configId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/versions/{version}/defaults/configurations/{configId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/versions/{version}/defaults/configurations/{configId}/reveal" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/delivery/shortnames/{shortname}/versions/{version}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/shortnames/{shortname}/versions/{version}/configurations/{configId}/rename" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/defaults/configurations/{configId}/rename" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/versions/{version}/defaults/configurations/{configId}/rename" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/deprecations" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/deprecations/{key}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/deprecations/{key}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/deprecations/report" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/versions/{version}/configurations" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/channels" = {
+      integration = {
         uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
         type                   = "AWS_PROXY"
       }
     },
 
-    "GET /api/shortnames" = {
+    "PUT /api/channels/{channel}" = {
       integration = {
-        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
         type                   = "AWS_PROXY"
       }
     },
 
-    "POST /api/shortnames" = {
+    "DELETE /api/channels/{channel}" = {
       integration = {
-        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
         type                   = "AWS_PROXY"
       }
     },
 
-    "GET /api/shortnames/{shortname}" = {
+    "GET /api/channels/{channel}/history" = {
       integration = {
-        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
         type                   = "AWS_PROXY"
       }
     },
 
-    "PUT /api/shortnames/{shortname}" = {
+    "PUT /api/versions/{version}/status" = {
       integration = {
-        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
         type                   = "AWS_PROXY"
       }
     },
 
-    "DELETE /api/shortnames/{shortname}" = {
+    "GET /api/versions/{version}/diff/{otherVersion}" = {
       integration = {
-        uri                    = module.cms_shortname_lambda.lambda_function_invoke_arn
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
         type                   = "AWS_PROXY"
       }
     },
 
-    "GET /api/shortnames/{shortname}/versions" = {
+    # POST /api/versions/{version}:duplicate, copying a version server-side
+    "POST /api/versions/{version}" = {
       integration = {
         uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
+        timeout_milliseconds   = 30000
         type                   = "AWS_PROXY"
       }
     },
 
-    "POST /api/shortnames/{shortname}/versions" = {
+    "GET /api/versions/{version}/snapshots" = {
       integration = {
         uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
@@ -663,7 +1615,7 @@ module "aws_api_gateway" {
       }
     },
 
-    "GET /api/shortnames/{shortname}/versions/{version}" = {
+    "POST /api/versions/{version}/snapshots" = {
       integration = {
         uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
@@ -671,15 +1623,16 @@ module "aws_api_gateway" {
       }
     },
 
-    "PUT /api/shortnames/{shortname}/versions/{version}" = {
+    "POST /api/versions/{version}/snapshots/{snapshotId}/restore" = {
       integration = {
         uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
+        timeout_milliseconds   = 30000
         type                   = "AWS_PROXY"
       }
     },
 
-    "DELETE /api/shortnames/{shortname}/versions/{version}" = {
+    "PUT /api/versions/{version}/lock" = {
       integration = {
         uri                    = module.cms_version_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
@@ -687,7 +1640,63 @@ module "aws_api_gateway" {
       }
     },
 
-    "GET /api/shortnames/{shortname}/versions/{version}/configurations" = {
+    "DELETE /api/versions/{version}/lock" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/schedules" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/versions/{version}/schedules" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/schedules/{scheduleId}" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/rollout" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "PUT /api/shortnames/{shortname}/rollout" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/shortnames/{shortname}/rollout" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/delivery/shortnames/{shortname}" = {
       integration = {
         uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
@@ -695,7 +1704,31 @@ module "aws_api_gateway" {
       }
     },
 
-    "POST /api/shortnames/{shortname}/versions/{version}/configurations" = {
+    "GET /api/versions/{version}/release-notes" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/versions/{version}/release-notes" = {
+      integration = {
+        uri                    = module.cms_version_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/audit" = {
+      integration = {
+        uri                    = module.cms_audit_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/versions/{version}/configurations/{configId}/revisions" = {
       integration = {
         uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
@@ -703,7 +1736,7 @@ module "aws_api_gateway" {
       }
     },
 
-    "GET /api/shortnames/{shortname}/versions/{version}/configurations/{configId}" = {
+    "POST /api/shortnames/{shortname}/versions/{version}/configurations/{configId}/revisions/{revision}/revert" = {
       integration = {
         uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
@@ -711,7 +1744,7 @@ module "aws_api_gateway" {
       }
     },
 
-    "PUT /api/shortnames/{shortname}/versions/{version}/configurations/{configId}" = {
+    "GET /api/defaults/configurations/{configId}/revisions" = {
       integration = {
         uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
@@ -719,12 +1752,172 @@ module "aws_api_gateway" {
       }
     },
 
-    "DELETE /api/shortnames/{shortname}/versions/{version}/configurations/{configId}" = {
+    "POST /api/defaults/configurations/{configId}/revisions/{revision}/revert" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/versions/{version}/defaults/configurations/{configId}/revisions" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/versions/{version}/defaults/configurations/{configId}/revisions/{revision}/revert" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/trash" = {
+      integration = {
+        uri                    = module.cms_trash_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/trash/{deletionId}/restore" = {
+      integration = {
+        uri                    = module.cms_trash_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/trash/{deletionId}" = {
+      integration = {
+        uri                    = module.cms_trash_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/shortnames/{shortname}/versions/{version}/change-requests" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/shortnames/{shortname}/versions/{version}/change-requests" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/versions/{version}/defaults/change-requests" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/versions/{version}/defaults/change-requests" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/defaults/change-requests" = {
       integration = {
         uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
         payload_format_version = "2.0"
         type                   = "AWS_PROXY"
       }
+    },
+
+    "POST /api/defaults/change-requests" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/change-requests/{changeRequestId}" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/change-requests/{changeRequestId}/approve" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/change-requests/{changeRequestId}/reject" = {
+      integration = {
+        uri                    = module.cms_configuration_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/comments" = {
+      integration = {
+        uri                    = module.cms_comment_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/comments" = {
+      integration = {
+        uri                    = module.cms_comment_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "DELETE /api/comments/{commentId}" = {
+      integration = {
+        uri                    = module.cms_comment_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "POST /api/comments/read" = {
+      integration = {
+        uri                    = module.cms_comment_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/comments/threads" = {
+      integration = {
+        uri                    = module.cms_comment_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
+    },
+
+    "GET /api/comments/mentions" = {
+      integration = {
+        uri                    = module.cms_comment_lambda.lambda_function_invoke_arn
+        payload_format_version = "2.0"
+        type                   = "AWS_PROXY"
+      }
     }
   }
 
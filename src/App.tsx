@@ -17,6 +17,10 @@ import NotFoundPage from './pages/NotFoundPage';
 import AllVersionsPage from './pages/AllVersionsPage';
 import VersionShortnamesPage from './pages/VersionShortnamesPage';
 import VersionConfigurationsPage from './pages/VersionConfigurationsPage';
+import DeprecationReportPage from './pages/DeprecationReportPage';
+import VersionDiffPage from './pages/VersionDiffPage';
+import AuditPage from './pages/AuditPage';
+import TrashPage from './pages/TrashPage';
 
 const App: React.FC = () => {
   return (
@@ -36,11 +40,17 @@ const App: React.FC = () => {
           <Route path="/" element={<ProtectedRoute><Layout /></ProtectedRoute>}>
             <Route index element={<Navigate to="/dashboard" replace />} />
             <Route path="dashboard" element={<DashboardPage />} />
+            <Route path="defaults" element={<ConfigurationsPage layer="global" />} />
+            <Route path="deprecations" element={<DeprecationReportPage />} />
+            <Route path="audit" element={<AuditPage />} />
+            <Route path="trash" element={<TrashPage />} />
             
             {/* Version-first approach routes */}
             <Route path="versions" element={<AllVersionsPage />} />
+            <Route path="versions/compare" element={<VersionDiffPage />} />
             <Route path="versions/:version/shortnames" element={<VersionShortnamesPage />} />
             <Route path="versions/:version/configurations" element={<VersionConfigurationsPage />} />
+            <Route path="versions/:version/defaults" element={<ConfigurationsPage layer="version" />} />
             <Route path="versions/:version/shortnames/:shortname" element={<ShortnamePage />} />
             <Route path="versions/:version/shortnames/:shortname/configurations" element={<ConfigurationsPage />} />
             
@@ -0,0 +1,252 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests of change requests against in-memory tables: nobody reviews their own changes, and approving applies
+ * every change in a single transaction, or none of them.
+ */
+
+const mockDocumentClient = {};
+
+jest.mock('aws-sdk', () => ({
+  DynamoDB: { DocumentClient: function DocumentClient() { return mockDocumentClient; } },
+  S3: function S3() {},
+  KMS: function KMS() {}
+}), { virtual: true });
+jest.mock('jsonwebtoken', () => ({}), { virtual: true });
+jest.mock('bcryptjs', () => ({}), { virtual: true });
+jest.mock('/opt/nodejs/layer-utils', () => jest.requireActual('../../../layer/nodejs/layer-utils'), { virtual: true });
+
+const {
+  createChangeRequest,
+  approveChangeRequest,
+  rejectChangeRequest
+} = require('../../../lambda/configuration_lambda/utils/index');
+const { canApproveChangeRequests } = require('../../../lambda/configuration_lambda/utils/changeRequests');
+
+const KEYS = {
+  configurations: ['configId'],
+  revisions: ['configId', 'revision'],
+  versions: ['version'],
+  schemas: ['schemaId'],
+  'change-requests': ['changeRequestId'],
+  trash: ['deletionId', 'itemKey'],
+  audit: ['auditId']
+};
+const AUTHOR = { userId: 'author', email: 'author@example.com', userType: 'editor' };
+const REVIEWER = { userId: 'reviewer', email: 'reviewer@example.com', userType: 'editor', permissions: ['change-request:approve'] };
+
+let tables;
+let transactions;
+
+const keyOf = (table, item) => KEYS[table].map(name => item[name]).join('#');
+const find = (table, key) => tables[table].get(keyOf(table, key));
+// Items are read as copies, as from DynamoDB
+const copy = item => item && JSON.parse(JSON.stringify(item));
+
+// Only the conditions written by the configuration Lambda are supported
+const meetsCondition = (table, key, { ConditionExpression, ExpressionAttributeValues: values }) => {
+  const existing = find(table, key);
+  if (!ConditionExpression) return true;
+  if (ConditionExpression.startsWith('attribute_not_exists')) return !existing;
+  if (ConditionExpression === 'updatedAt = :updatedAt') return Boolean(existing) && existing.updatedAt === values[':updatedAt'];
+  if (ConditionExpression === '#status = :pending') return Boolean(existing) && existing.status === values[':pending'];
+  throw new Error(`Unsupported condition: ${ConditionExpression}`);
+};
+
+const applyUpdate = (table, { Key, UpdateExpression, ExpressionAttributeNames: names = {}, ExpressionAttributeValues: values }) => {
+  const item = find(table, Key);
+  for (const assignment of UpdateExpression.replace('SET ', '').split(', ')) {
+    const [name, value] = assignment.split(' = ');
+    item[names[name] || name] = values[value];
+  }
+};
+
+const transactWrite = ({ TransactItems }) => {
+  transactions.push(TransactItems);
+  const operations = TransactItems.map(operation => {
+    const [type, params] = Object.entries(operation)[0];
+    return { type, params, key: params.Key || params.Item };
+  });
+  if (!operations.every(({ params, key }) => meetsCondition(params.TableName, key, params))) {
+    throw Object.assign(new Error('Transaction cancelled'), { code: 'TransactionCanceledException' });
+  }
+
+  for (const { type, params, key } of operations) {
+    if (type === 'Put') tables[params.TableName].set(keyOf(params.TableName, key), params.Item);
+    if (type === 'Delete') tables[params.TableName].delete(keyOf(params.TableName, key));
+    if (type === 'Update') applyUpdate(params.TableName, params);
+  }
+  return {};
+};
+
+const query = ({ TableName, ExpressionAttributeValues: values, ScanIndexForward, Limit }) => {
+  let items = Array.from(tables[TableName].values())
+    .filter(item => Object.entries(values).every(([name, value]) => item[name.slice(1)] === value));
+  if (TableName === 'revisions') {
+    items = items.sort((a, b) => (ScanIndexForward === false ? b.revision - a.revision : a.revision - b.revision));
+  }
+  return { Items: items.slice(0, Limit || items.length).map(copy) };
+};
+
+const configuration = (configId, key, value, valueType) => ({
+  configId,
+  shortnameVersion: 'web:2.0.0',
+  shortname: 'web',
+  version: '2.0.0',
+  key,
+  value,
+  valueType,
+  createdBy: 'user-0',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+const propose = async (user = AUTHOR) => {
+  const result = await createChangeRequest(
+    'web',
+    '2.0.0',
+    {
+      comment: 'Raise the timeout and replace the old flag',
+      changes: [
+        { action: 'update', configId: 'timeout', value: 60 },
+        { action: 'create', key: 'feature.new', value: true, valueType: 'boolean' },
+        { action: 'delete', configId: 'old' }
+      ]
+    },
+    user,
+    'versions',
+    'configurations',
+    'schemas',
+    'change-requests'
+  );
+  expect(result.statusCode).toBe(201);
+  return JSON.parse(result.body).changeRequestId;
+};
+
+const approve = (changeRequestId, user) => approveChangeRequest(
+  changeRequestId,
+  'Looks good',
+  user,
+  'versions',
+  'shortname-versions',
+  'configurations',
+  'schemas',
+  'revisions',
+  'change-requests',
+  { table: 'trash', deletedBy: user.userId },
+  { table: 'audit', actor: user.userId, requestId: 'request-1' }
+);
+
+beforeEach(() => {
+  tables = Object.fromEntries(Object.keys(KEYS).map(table => [table, new Map()]));
+  transactions = [];
+
+  mockDocumentClient.get = ({ TableName, Key }) => ({ promise: async () => ({ Item: copy(find(TableName, Key)) }) });
+  mockDocumentClient.put = (params) => ({
+    promise: async () => {
+      if (!meetsCondition(params.TableName, params.Item, params)) {
+        throw Object.assign(new Error('Condition failed'), { code: 'ConditionalCheckFailedException' });
+      }
+      tables[params.TableName].set(keyOf(params.TableName, params.Item), params.Item);
+      return {};
+    }
+  });
+  mockDocumentClient.query = (params) => ({ promise: async () => query(params) });
+  mockDocumentClient.transactWrite = (params) => ({ promise: async () => transactWrite(params) });
+
+  tables.versions.set('2.0.0', { version: '2.0.0', status: 'published' });
+  for (const item of [configuration('timeout', 'api.timeout', 30, 'number'), configuration('old', 'feature.old', true, 'boolean')]) {
+    tables.configurations.set(item.configId, item);
+  }
+});
+
+describe('approveChangeRequest', () => {
+  it('applies every change in a single transaction, on behalf of the author', async () => {
+    const changeRequestId = await propose();
+
+    const result = await approve(changeRequestId, REVIEWER);
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toMatchObject({ status: 'applied', reviewedBy: REVIEWER.userId, reviewComment: 'Looks good' });
+    expect(transactions).toHaveLength(1);
+    expect(find('configurations', { configId: 'timeout' })).toMatchObject({ value: 60, revision: 2 });
+    expect(find('revisions', { configId: 'timeout', revision: 2 })).toMatchObject({ value: 60, createdBy: AUTHOR.userId });
+    const created = Array.from(tables.configurations.values()).find(item => item.key === 'feature.new');
+    expect(created).toMatchObject({ value: true, revision: 1, createdBy: AUTHOR.userId });
+    expect(find('configurations', { configId: 'old' })).toBeUndefined();
+    expect(Array.from(tables.trash.values()).some(item => item.itemKey === 'entry' && item.entityId === 'old')).toBe(true);
+  });
+
+  it('audits the applied changes for the approver', async () => {
+    const changeRequestId = await propose();
+
+    await approve(changeRequestId, REVIEWER);
+
+    const entries = Array.from(tables.audit.values());
+    expect(entries.map(entry => entry.action).sort()).toEqual(['create', 'delete', 'update']);
+    expect(entries.every(entry => entry.actor === REVIEWER.userId)).toBe(true);
+  });
+
+  it('applies nothing when a configuration changed since the change request was proposed', async () => {
+    const changeRequestId = await propose();
+    find('configurations', { configId: 'old' }).updatedAt = '2026-02-01T00:00:00.000Z';
+
+    const result = await approve(changeRequestId, REVIEWER);
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).message).toContain('was changed since the change request was proposed');
+    expect(find('configurations', { configId: 'timeout' }).value).toBe(30);
+    expect(find('change-requests', { changeRequestId }).status).toBe('pending');
+    expect(transactions).toHaveLength(0);
+  });
+
+  it('rejects the approval of a change request by its author', async () => {
+    const changeRequestId = await propose();
+
+    const result = await approve(changeRequestId, { ...AUTHOR, permissions: ['change-request:approve'] });
+
+    expect(result.statusCode).toBe(403);
+    expect(find('configurations', { configId: 'timeout' }).value).toBe(30);
+    expect(find('change-requests', { changeRequestId }).status).toBe('pending');
+  });
+
+  it('rejects the approval of a change request by its author, even an admin', async () => {
+    const admin = { userId: 'admin', userType: 'admin' };
+    const changeRequestId = await propose(admin);
+
+    const result = await approve(changeRequestId, admin);
+
+    expect(result.statusCode).toBe(403);
+  });
+
+  it('does not apply a change request twice', async () => {
+    const changeRequestId = await propose();
+    await approve(changeRequestId, REVIEWER);
+
+    const result = await approve(changeRequestId, REVIEWER);
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).message).toBe('Change request is already applied');
+  });
+});
+
+describe('rejectChangeRequest', () => {
+  it('rejects the rejection of a change request by its author', async () => {
+    const changeRequestId = await propose();
+
+    const result = await rejectChangeRequest(changeRequestId, 'Never mind', AUTHOR, 'change-requests');
+
+    expect(result.statusCode).toBe(403);
+    expect(find('change-requests', { changeRequestId }).status).toBe('pending');
+  });
+});
+
+describe('canApproveChangeRequests', () => {
+  it('needs the approve permission, which admins hold', () => {
+    expect(canApproveChangeRequests(AUTHOR)).toBe(false);
+    expect(canApproveChangeRequests(REVIEWER)).toBe(true);
+    expect(canApproveChangeRequests({ userId: 'admin', userType: 'admin' })).toBe(true);
+  });
+});
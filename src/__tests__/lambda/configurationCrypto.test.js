@@ -0,0 +1,65 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests of the encryption of secret configuration values with the local key provider.
+ */
+
+jest.mock('aws-sdk', () => ({ KMS: function KMS() {} }), { virtual: true });
+
+const {
+  createLocalKeyProvider,
+  encryptValue,
+  decryptValue
+} = require('../../../lambda/configuration_lambda/utils/crypto');
+
+const KEY = Buffer.alloc(32, 7).toString('base64');
+const OTHER_KEY = Buffer.alloc(32, 8).toString('base64');
+
+describe('local key provider', () => {
+  it.each([
+    ['a string', 'sk_live_123'],
+    ['a number', 42],
+    ['a boolean', false],
+    ['an object', { clientId: 'abc', scopes: ['read', 'write'] }],
+    ['null', null]
+  ])('decrypts %s back to the encrypted value', async (label, value) => {
+    const provider = createLocalKeyProvider(KEY);
+
+    const encrypted = await encryptValue(value, provider);
+
+    expect(encrypted.provider).toBe('local');
+    expect(encrypted.encryptedKey).toBeUndefined();
+    expect(encrypted.ciphertext).not.toContain(JSON.stringify(value));
+    await expect(decryptValue(encrypted, provider)).resolves.toEqual(value);
+  });
+
+  it('uses a new IV for each value', async () => {
+    const provider = createLocalKeyProvider(KEY);
+
+    const [first, second] = await Promise.all([encryptValue('same', provider), encryptValue('same', provider)]);
+
+    expect(first.iv).not.toBe(second.iv);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+  });
+
+  it('does not decrypt with another key', async () => {
+    const encrypted = await encryptValue('secret', createLocalKeyProvider(KEY));
+
+    await expect(decryptValue(encrypted, createLocalKeyProvider(OTHER_KEY))).rejects.toThrow();
+  });
+
+  it('does not decrypt a tampered value', async () => {
+    const provider = createLocalKeyProvider(KEY);
+    const encrypted = await encryptValue('secret', provider);
+    const ciphertext = Buffer.from(encrypted.ciphertext, 'base64');
+    ciphertext[0] ^= 1;
+
+    await expect(decryptValue({ ...encrypted, ciphertext: ciphertext.toString('base64') }, provider)).rejects.toThrow();
+  });
+
+  it('rejects a key that is not 32 bytes', () => {
+    expect(() => createLocalKeyProvider(Buffer.alloc(16).toString('base64'))).toThrow('32 bytes');
+  });
+});
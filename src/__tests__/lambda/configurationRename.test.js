@@ -0,0 +1,195 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests of key renames against in-memory tables: a rename and the references it rewrites are written in a
+ * single transaction, so it applies entirely or not at all.
+ */
+
+const mockDocumentClient = {};
+const mockS3 = { putObject: () => ({ promise: async () => ({}) }) };
+
+jest.mock('aws-sdk', () => ({
+  DynamoDB: { DocumentClient: function DocumentClient() { return mockDocumentClient; } },
+  S3: function S3() { return mockS3; },
+  KMS: function KMS() {}
+}), { virtual: true });
+jest.mock('jsonwebtoken', () => ({}), { virtual: true });
+jest.mock('bcryptjs', () => ({}), { virtual: true });
+jest.mock('/opt/nodejs/layer-utils', () => jest.requireActual('../../../layer/nodejs/layer-utils'), { virtual: true });
+
+const { renameConfiguration } = require('../../../lambda/configuration_lambda/utils/index');
+
+const KEYS = {
+  configurations: ['configId'],
+  revisions: ['configId', 'revision'],
+  versions: ['version'],
+  schemas: ['schemaId'],
+  snapshots: ['version', 'snapshotId'],
+  'shortname-versions': ['shortnameVersionId'],
+  audit: ['auditId']
+};
+const SNAPSHOTS = { snapshotsTable: 'snapshots', shortnameVersionsTable: 'shortname-versions', bucket: 'config-bucket' };
+const USER = { userId: 'user-1', userType: 'editor' };
+
+let tables;
+// Called once the configurations are scanned, to change them as another request would
+let afterScan;
+let transactions;
+
+const keyOf = (table, item) => KEYS[table].map(name => item[name]).join('#');
+const find = (table, key) => tables[table].get(keyOf(table, key));
+// Items are read as copies, as from DynamoDB
+const copy = item => item && JSON.parse(JSON.stringify(item));
+
+const canceled = () => Object.assign(new Error('Transaction cancelled'), { code: 'TransactionCanceledException' });
+
+// Only the conditions written by the configuration Lambda are supported
+const meetsCondition = (table, { Item, ConditionExpression, ExpressionAttributeValues }) => {
+  const existing = find(table, Item);
+  if (!ConditionExpression) return true;
+  if (ConditionExpression.startsWith('attribute_not_exists')) return !existing;
+  if (ConditionExpression === 'updatedAt = :updatedAt') return Boolean(existing) && existing.updatedAt === ExpressionAttributeValues[':updatedAt'];
+  throw new Error(`Unsupported condition: ${ConditionExpression}`);
+};
+
+const query = ({ TableName, ExpressionAttributeValues: values, ScanIndexForward, Limit }) => {
+  let items = Array.from(tables[TableName].values())
+    .filter(item => Object.entries(values).every(([name, value]) => item[name.slice(1)] === value));
+  if (TableName === 'revisions') {
+    items = items.sort((a, b) => (ScanIndexForward === false ? b.revision - a.revision : a.revision - b.revision));
+  }
+  return { Items: items.slice(0, Limit || items.length).map(copy) };
+};
+
+const transactWrite = ({ TransactItems }) => {
+  transactions.push(TransactItems);
+  if (!TransactItems.every(({ Put }) => meetsCondition(Put.TableName, Put))) throw canceled();
+  for (const { Put } of TransactItems) {
+    tables[Put.TableName].set(keyOf(Put.TableName, Put.Item), Put.Item);
+  }
+  return {};
+};
+
+const configuration = (configId, shortname, version, key, value) => ({
+  configId,
+  shortnameVersion: `${shortname}:${version}`,
+  shortname,
+  version,
+  key,
+  value,
+  createdBy: 'user-0',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+const seed = (table, items) => items.forEach(item => tables[table].set(keyOf(table, item), item));
+
+const rename = (configId, options) => renameConfiguration(
+  'web',
+  '1.2.0',
+  configId,
+  options,
+  USER,
+  'configurations',
+  'schemas',
+  'versions',
+  'revisions',
+  SNAPSHOTS,
+  { table: 'audit', actor: USER.userId, requestId: 'request-1' }
+);
+
+beforeEach(() => {
+  tables = Object.fromEntries(Object.keys(KEYS).map(table => [table, new Map()]));
+  afterScan = () => {};
+  transactions = [];
+
+  mockDocumentClient.get = ({ TableName, Key }) => ({ promise: async () => ({ Item: copy(find(TableName, Key)) }) });
+  mockDocumentClient.put = (params) => ({
+    promise: async () => {
+      if (!meetsCondition(params.TableName, params)) throw Object.assign(new Error('Condition failed'), { code: 'ConditionalCheckFailedException' });
+      tables[params.TableName].set(keyOf(params.TableName, params.Item), params.Item);
+      return {};
+    }
+  });
+  mockDocumentClient.scan = ({ TableName }) => ({
+    promise: async () => {
+      const items = Array.from(tables[TableName].values()).map(copy);
+      if (TableName === 'configurations') afterScan();
+      return { Items: items };
+    }
+  });
+  mockDocumentClient.query = (params) => ({ promise: async () => query(params) });
+  mockDocumentClient.transactWrite = (params) => ({ promise: async () => transactWrite(params) });
+
+  seed('versions', [{ version: '1.2.0', status: 'draft' }]);
+  seed('shortname-versions', [{ shortnameVersionId: 'web:1.2.0', shortname: 'web', version: '1.2.0' }]);
+  seed('configurations', [
+    configuration('base', 'web', '1.2.0', 'api.baseUrl', 'https://api.example.com'),
+    configuration('ident', 'web', '1.2.0', 'api.identUrl', '${api.baseUrl}/v2/ident'),
+    configuration('other', 'app', '1.2.0', 'api.identUrl', '${api.baseUrl}/v1/ident')
+  ]);
+});
+
+describe('renameConfiguration', () => {
+  it('renames the key and rewrites the references to it in a single transaction', async () => {
+    const result = await rename('base', { newKey: 'api.rootUrl' });
+
+    expect(result.statusCode).toBe(200);
+    expect(transactions).toHaveLength(1);
+    expect(find('configurations', { configId: 'base' })).toMatchObject({ key: 'api.rootUrl', revision: 2 });
+    expect(find('configurations', { configId: 'ident' })).toMatchObject({ value: '${api.rootUrl}/v2/ident', revision: 2 });
+    // References from scopes the renamed configuration is not visible in are left alone
+    expect(find('configurations', { configId: 'other' }).value).toBe('${api.baseUrl}/v1/ident');
+  });
+
+  it('stores a revision of each configuration it writes and audits them', async () => {
+    await rename('base', { newKey: 'api.rootUrl' });
+
+    expect(find('revisions', { configId: 'base', revision: 1 })).toMatchObject({ key: 'api.baseUrl' });
+    expect(find('revisions', { configId: 'base', revision: 2 })).toMatchObject({ key: 'api.rootUrl', createdBy: USER.userId });
+    expect(find('revisions', { configId: 'ident', revision: 2 })).toMatchObject({ value: '${api.rootUrl}/v2/ident' });
+    const entries = Array.from(tables.audit.values());
+    expect(entries.map(entry => [entry.action, entry.entityId]).sort()).toEqual([['update', 'base'], ['update', 'ident']]);
+  });
+
+  it('writes nothing when a configuration changes during the rename', async () => {
+    afterScan = () => {
+      find('configurations', { configId: 'ident' }).updatedAt = '2026-02-01T00:00:00.000Z';
+    };
+
+    const result = await rename('base', { newKey: 'api.rootUrl' });
+
+    expect(result.statusCode).toBe(409);
+    expect(find('configurations', { configId: 'base' }).key).toBe('api.baseUrl');
+    expect(tables.revisions.size).toBe(0);
+    expect(tables.audit.size).toBe(0);
+  });
+
+  it('only previews a dry run', async () => {
+    const result = await rename('base', { newKey: 'api.rootUrl', dryRun: true });
+
+    expect(result.statusCode).toBe(200);
+    expect(JSON.parse(result.body)).toMatchObject({
+      dryRun: true,
+      configurations: [{ configId: 'base', key: 'api.baseUrl' }],
+      references: [{ configId: 'ident', key: 'api.identUrl' }]
+    });
+    expect(transactions).toHaveLength(0);
+    expect(tables.snapshots.size).toBe(0);
+  });
+
+  it('rejects a rename that does not fit in one transaction', async () => {
+    const scopes = Array.from({ length: 40 }, (_, index) => `app-${index}`);
+    seed('configurations', scopes.map(shortname => configuration(`flag-${shortname}`, shortname, '1.2.0', 'feature.flag', true)));
+    seed('configurations', [configuration('flag', 'web', '1.2.0', 'feature.flag', true)]);
+
+    const result = await rename('flag', { newKey: 'feature.enabled', allScopes: true });
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).message).toContain('more than a single transaction can hold');
+    expect(transactions).toHaveLength(0);
+    expect(find('configurations', { configId: 'flag' }).key).toBe('feature.flag');
+  });
+});
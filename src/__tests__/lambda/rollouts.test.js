@@ -0,0 +1,79 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests of percentage rollouts: clients are bucketed deterministically, and ramping a rollout up only moves
+ * clients to the target version.
+ */
+
+const {
+  ROLLOUT_BUCKETS,
+  validateRolloutPercentage,
+  getRolloutBucket,
+  selectRolloutVersion
+} = require('../../../layer/nodejs/layer-utils/rollouts');
+
+const CLIENTS = Array.from({ length: 2000 }, (_, index) => `client-${index}`);
+
+const rollout = (percentage) => ({ shortname: 'web', baseVersion: '1.0.0', targetVersion: '1.1.0', percentage });
+const targetClients = (percentage) => CLIENTS.filter(clientId => selectRolloutVersion(rollout(percentage), clientId).version === '1.1.0');
+
+describe('getRolloutBucket', () => {
+  it('puts a client in the same bucket every time', () => {
+    expect(getRolloutBucket('web', 'client-1')).toBe(getRolloutBucket('web', 'client-1'));
+  });
+
+  it('puts every client in one of the buckets', () => {
+    const buckets = CLIENTS.map(clientId => getRolloutBucket('web', clientId));
+
+    expect(buckets.every(bucket => Number.isInteger(bucket) && bucket >= 0 && bucket < ROLLOUT_BUCKETS)).toBe(true);
+    expect(new Set(buckets).size).toBe(ROLLOUT_BUCKETS);
+  });
+
+  it('buckets a client independently in each shortname', () => {
+    const differing = CLIENTS.filter(clientId => getRolloutBucket('web', clientId) !== getRolloutBucket('app', clientId));
+
+    expect(differing.length).toBeGreaterThan(CLIENTS.length * 0.9);
+  });
+});
+
+describe('selectRolloutVersion', () => {
+  it('gives the target version to the clients below the percentage', () => {
+    for (const clientId of CLIENTS.slice(0, 50)) {
+      const { version, bucket } = selectRolloutVersion(rollout(30), clientId);
+
+      expect(version).toBe(bucket < 30 ? '1.1.0' : '1.0.0');
+    }
+  });
+
+  it('gives every client the base version at 0% and the target version at 100%', () => {
+    expect(targetClients(0)).toHaveLength(0);
+    expect(targetClients(100)).toHaveLength(CLIENTS.length);
+  });
+
+  it('gives the target version to about the share of clients of the percentage', () => {
+    const share = targetClients(25).length / CLIENTS.length;
+
+    expect(share).toBeGreaterThan(0.2);
+    expect(share).toBeLessThan(0.3);
+  });
+
+  it('keeps the clients of the target version when the rollout is ramped up', () => {
+    const at10 = targetClients(10);
+    const at50 = new Set(targetClients(50));
+
+    expect(at10.every(clientId => at50.has(clientId))).toBe(true);
+    expect(at50.size).toBeGreaterThan(at10.length);
+  });
+});
+
+describe('validateRolloutPercentage', () => {
+  it.each([0, 1, 50, 100])('accepts %s', (percentage) => {
+    expect(validateRolloutPercentage(percentage)).toBeNull();
+  });
+
+  it.each([-1, 101, 12.5, '50', null])('rejects %s', (percentage) => {
+    expect(validateRolloutPercentage(percentage)).toBe('Percentage must be a whole number between 0 and 100');
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests of restoring deletions from the trash against in-memory tables: a deletion is put back as a whole,
+ * unless its items conflict with ones created since or its parents are gone.
+ */
+
+const mockDocumentClient = {};
+
+jest.mock('aws-sdk', () => ({
+  DynamoDB: { DocumentClient: function DocumentClient() { return mockDocumentClient; } },
+  S3: function S3() {}
+}), { virtual: true });
+jest.mock('jsonwebtoken', () => ({}), { virtual: true });
+jest.mock('bcryptjs', () => ({}), { virtual: true });
+jest.mock('/opt/nodejs/layer-utils', () => jest.requireActual('../../../layer/nodejs/layer-utils'), { virtual: true });
+
+const { buildTrashItems } = require('../../../layer/nodejs/layer-utils/trash');
+const { restoreDeletion } = require('../../../lambda/trash_lambda/utils/index');
+
+const KEYS = {
+  shortnames: ['shortname'],
+  versions: ['version'],
+  'shortname-versions': ['shortnameVersionId'],
+  configurations: ['configId'],
+  trash: ['deletionId', 'itemKey'],
+  audit: ['auditId']
+};
+const TABLES = {
+  shortnames: 'shortnames',
+  versions: 'versions',
+  shortnameVersions: 'shortname-versions',
+  configurations: 'configurations'
+};
+const USER = { userId: 'user-1', userType: 'editor' };
+
+let tables;
+
+const keyOf = (table, item) => KEYS[table].map(name => item[name]).join('#');
+const find = (table, key) => tables[table].get(keyOf(table, key));
+const seed = (table, items) => items.forEach(item => tables[table].set(keyOf(table, item), item));
+// Items are read as copies, as from DynamoDB
+const copy = item => item && JSON.parse(JSON.stringify(item));
+
+const configuration = (configId, key, value, shortname = 'web', version = '1.2.0') => ({
+  configId,
+  shortnameVersion: `${shortname}:${version}`,
+  shortname,
+  version,
+  key,
+  value,
+  updatedAt: '2026-01-01T00:00:00.000Z'
+});
+
+/**
+ * Put a deletion in the trash, as the Lambdas that delete do.
+ */
+const trashDeletion = (deletion, items, deletedAt = new Date()) => {
+  const { entry, movedItems } = buildTrashItems({ table: 'trash', deletedBy: 'user-0' }, deletion, items, deletedAt);
+  seed('trash', [entry, ...movedItems]);
+  return entry.deletionId;
+};
+
+const trashConfiguration = (item, deletedAt) => trashDeletion(
+  { entity: 'configuration', entityId: item.configId, shortname: item.shortname, version: item.version, key: item.key },
+  [{ table: 'configurations', key: { configId: item.configId }, item }],
+  deletedAt
+);
+
+const restore = (deletionId, user = USER) => restoreDeletion(deletionId, user, TABLES, 'trash', { table: 'audit', actor: user.userId, requestId: 'request-1' });
+
+beforeEach(() => {
+  tables = Object.fromEntries(Object.keys(KEYS).map(table => [table, new Map()]));
+
+  mockDocumentClient.get = ({ TableName, Key }) => ({ promise: async () => ({ Item: copy(find(TableName, Key)) }) });
+  mockDocumentClient.put = ({ TableName, Item }) => ({
+    promise: async () => {
+      tables[TableName].set(keyOf(TableName, Item), Item);
+      return {};
+    }
+  });
+  mockDocumentClient.query = ({ TableName, ExpressionAttributeValues: values }) => ({
+    promise: async () => ({
+      Items: Array.from(tables[TableName].values())
+        .filter(item => Object.entries(values).every(([name, value]) => item[name.slice(1)] === value))
+        .map(copy)
+    })
+  });
+  mockDocumentClient.batchWrite = ({ RequestItems }) => ({
+    promise: async () => {
+      for (const [table, requests] of Object.entries(RequestItems)) {
+        for (const { PutRequest, DeleteRequest } of requests) {
+          if (PutRequest) tables[table].set(keyOf(table, PutRequest.Item), PutRequest.Item);
+          if (DeleteRequest) tables[table].delete(keyOf(table, DeleteRequest.Key));
+        }
+      }
+      return { UnprocessedItems: {} };
+    }
+  });
+
+  seed('shortnames', [{ shortname: 'web' }]);
+  seed('versions', [{ version: '1.2.0', status: 'draft' }]);
+  seed('shortname-versions', [{ shortnameVersionId: 'web:1.2.0', shortname: 'web', version: '1.2.0' }]);
+});
+
+describe('restoreDeletion', () => {
+  it('puts a deleted configuration back and removes it from the trash', async () => {
+    const item = configuration('timeout', 'api.timeout', 30);
+    const deletionId = trashConfiguration(item);
+
+    const result = await restore(deletionId);
+
+    expect(result.statusCode).toBe(200);
+    expect(find('configurations', { configId: 'timeout' })).toEqual(item);
+    expect(tables.trash.size).toBe(0);
+    const [entry] = Array.from(tables.audit.values());
+    expect(entry).toMatchObject({ entity: 'configuration', action: 'create', entityId: 'timeout', actor: USER.userId });
+  });
+
+  it('restores the version of a shortname along with its configurations', async () => {
+    const link = { shortnameVersionId: 'web:1.3.0', shortname: 'web', version: '1.3.0' };
+    const items = [configuration('a', 'feature.a', true, 'web', '1.3.0'), configuration('b', 'feature.b', false, 'web', '1.3.0')];
+    seed('versions', [{ version: '1.3.0', status: 'draft' }]);
+    const deletionId = trashDeletion({ entity: 'version', entityId: 'web:1.3.0', shortname: 'web', version: '1.3.0' }, [
+      { table: 'shortnameVersions', key: { shortnameVersionId: link.shortnameVersionId }, item: link },
+      ...items.map(item => ({ table: 'configurations', key: { configId: item.configId }, item }))
+    ]);
+
+    const result = await restore(deletionId);
+
+    expect(result.statusCode).toBe(200);
+    expect(find('shortname-versions', { shortnameVersionId: 'web:1.3.0' })).toEqual(link);
+    expect(find('configurations', { configId: 'a' })).toEqual(items[0]);
+    expect(find('configurations', { configId: 'b' })).toEqual(items[1]);
+    expect(Array.from(tables.audit.values())).toEqual([expect.objectContaining({ entity: 'shortname', entityId: 'web:1.3.0' })]);
+  });
+
+  it('rejects the restore of a configuration whose key has been reused since', async () => {
+    const deletionId = trashConfiguration(configuration('timeout', 'api.timeout', 30));
+    seed('configurations', [configuration('timeout-2', 'api.timeout', 45)]);
+
+    const result = await restore(deletionId);
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).conflicts).toEqual(['Key "api.timeout" already exists in web:1.2.0']);
+    expect(find('configurations', { configId: 'timeout' })).toBeUndefined();
+    expect(tables.trash.size).toBe(2);
+  });
+
+  it('rejects the restore of a configuration recreated since with other values', async () => {
+    const item = configuration('timeout', 'api.timeout', 30);
+    const deletionId = trashConfiguration(item);
+    seed('configurations', [{ ...item, value: 45 }]);
+
+    const result = await restore(deletionId);
+
+    expect(result.statusCode).toBe(409);
+    expect(find('configurations', { configId: 'timeout' }).value).toBe(45);
+  });
+
+  it('lists the parents to restore first when they are gone', async () => {
+    const deletionId = trashConfiguration(configuration('timeout', 'api.timeout', 30, 'web', '2.0.0'));
+
+    const result = await restore(deletionId);
+
+    expect(result.statusCode).toBe(409);
+    expect(JSON.parse(result.body).missing).toEqual(['version 2.0.0', 'version 2.0.0 of shortname web']);
+    expect(tables.configurations.size).toBe(0);
+  });
+
+  it('follows the lifecycle and lock rules of the version it restores into', async () => {
+    const deletionId = trashConfiguration(configuration('timeout', 'api.timeout', 30));
+
+    find('versions', { version: '1.2.0' }).status = 'published';
+    expect((await restore(deletionId)).statusCode).toBe(409);
+
+    Object.assign(find('versions', { version: '1.2.0' }), { status: 'draft', lock: { lockedBy: 'user-2', reason: 'QA' } });
+    expect((await restore(deletionId)).statusCode).toBe(423);
+    expect((await restore(deletionId, { userId: 'admin', userType: 'admin' })).statusCode).toBe(200);
+  });
+
+  it('does not restore a deletion past its retention period', async () => {
+    const deletionId = trashConfiguration(configuration('timeout', 'api.timeout', 30), new Date('2020-01-01T00:00:00.000Z'));
+
+    const result = await restore(deletionId);
+
+    expect(result.statusCode).toBe(404);
+    expect(tables.configurations.size).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests of version aliases: their resolution to the highest matching version, and the resolution of the
+ * version path parameter against in-memory versions, channels and shortname links.
+ */
+
+const mockDocumentClient = {};
+
+jest.mock('aws-sdk', () => ({
+  DynamoDB: { DocumentClient: function DocumentClient() { return mockDocumentClient; } }
+}), { virtual: true });
+
+const { compareVersions, isVersionAlias, resolveVersionAlias } = require('../../../layer/nodejs/layer-utils/semver');
+const { resolveVersion } = require('../../../layer/nodejs/layer-utils/versionResolver');
+
+const VERSIONS = ['1.9.0', '1.10.0', '2.0.0-beta.1', '2.0.0', '2.1.0', '2.1.3', '2.2.0-rc.1', '3.0.0-alpha'];
+
+describe('compareVersions', () => {
+  it('orders versions by SemVer precedence', () => {
+    const versions = ['1.0.0', '1.0.0-beta', '1.10.0', '1.0.0-alpha.1', '1.2.0', '1.0.0-alpha'];
+
+    expect(versions.sort(compareVersions)).toEqual(['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-beta', '1.0.0', '1.2.0', '1.10.0']);
+  });
+});
+
+describe('isVersionAlias', () => {
+  it.each(['latest', 'latest-stable', '2.x', '2.1.x'])('accepts %s', (alias) => {
+    expect(isVersionAlias(alias)).toBe(true);
+  });
+
+  it.each(['2.1.0', '2', 'x', '2.x.x', '02.x', 'stable'])('rejects %s', (value) => {
+    expect(isVersionAlias(value)).toBe(false);
+  });
+});
+
+describe('resolveVersionAlias', () => {
+  it.each([
+    ['latest', '3.0.0-alpha'],
+    ['latest-stable', '2.1.3'],
+    ['2.x', '2.1.3'],
+    ['2.1.x', '2.1.3'],
+    ['2.2.x', null],
+    ['1.x', '1.10.0'],
+    ['4.x', null]
+  ])('resolves %s to %s', (alias, version) => {
+    expect(resolveVersionAlias(alias, VERSIONS)).toBe(version);
+  });
+
+  it('ignores candidates that are not semantic versions', () => {
+    expect(resolveVersionAlias('latest', ['next', '1.0.0'])).toBe('1.0.0');
+  });
+});
+
+describe('resolveVersion', () => {
+  beforeEach(() => {
+    const versions = [
+      { version: '2.0.0', status: 'published' },
+      { version: '2.1.0', status: 'published' },
+      { version: '2.2.0', status: 'draft' },
+      { version: '2.1.5', status: 'archived' }
+    ];
+    const channels = [{ channel: 'stable', version: '2.0.0' }];
+    const links = [{ shortname: 'web', version: '2.0.0' }];
+
+    mockDocumentClient.scan = () => ({ promise: async () => ({ Items: versions }) });
+    mockDocumentClient.get = ({ Key }) => ({ promise: async () => ({ Item: channels.find(item => item.channel === Key.channel) }) });
+    mockDocumentClient.query = ({ ExpressionAttributeValues }) => ({
+      promise: async () => ({ Items: links.filter(item => item.shortname === ExpressionAttributeValues[':shortname']) })
+    });
+  });
+
+  it('resolves an alias to the highest published version', async () => {
+    await expect(resolveVersion('2.x', 'versions', 'channels')).resolves.toEqual({ version: '2.1.0' });
+  });
+
+  it('only considers the versions of a shortname when one is given', async () => {
+    await expect(resolveVersion('latest', 'versions', 'channels', 'web', 'shortname-versions')).resolves.toEqual({ version: '2.0.0' });
+  });
+
+  it('resolves a channel to the version it points to', async () => {
+    await expect(resolveVersion('stable', 'versions', 'channels')).resolves.toEqual({ version: '2.0.0' });
+  });
+
+  it('returns other values unchanged', async () => {
+    await expect(resolveVersion('9.9.9', 'versions', 'channels')).resolves.toEqual({ version: '9.9.9' });
+  });
+
+  it('returns a 404 when no published version matches', async () => {
+    const { response } = await resolveVersion('3.x', 'versions', 'channels');
+
+    expect(response.statusCode).toBe(404);
+    expect(JSON.parse(response.body).message).toBe('No published version matches "3.x"');
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests of the version scheduler Lambda against an in-memory schedules table and a stubbed version transition.
+ */
+
+const mockDocumentClient = {};
+const mockTransitionVersion = { implementation: null, calls: [] };
+
+jest.mock('aws-sdk', () => ({
+  DynamoDB: { DocumentClient: function DocumentClient() { return mockDocumentClient; } }
+}), { virtual: true });
+jest.mock('/opt/nodejs/layer-utils', () => jest.requireActual('../../../layer/nodejs/layer-utils/batch'), { virtual: true });
+jest.mock('../../../lambda/version_lambda/utils/index', () => ({
+  transitionVersion: (...args) => {
+    mockTransitionVersion.calls.push(args);
+    return mockTransitionVersion.implementation(...args);
+  }
+}));
+
+const { applyDueSchedules } = require('../../../lambda/version_lambda/scheduler');
+
+const NOW = new Date('2026-03-01T10:00:00.000Z');
+const SCHEDULES_TABLE = 'schedules';
+const VERSIONS_TABLE = 'versions';
+
+let schedules;
+// Called once the due schedules are read, to change the table as another run would
+let afterQuery;
+
+const conditionalCheckFailed = () => Object.assign(new Error('The conditional request failed'), { code: 'ConditionalCheckFailedException' });
+
+const query = async ({ KeyConditionExpression, FilterExpression, ExpressionAttributeValues: values }) => {
+  const status = KeyConditionExpression.includes(':pending') ? values[':pending'] : values[':running'];
+  const items = schedules
+    .filter(item => item.status === status && item.runAt <= values[':now'])
+    .filter(item => !FilterExpression || item.startedAt < values[':staleBefore'])
+    .map(item => ({ ...item }));
+  afterQuery();
+  return { Items: items };
+};
+
+const update = async ({ Key, UpdateExpression, ExpressionAttributeNames: names, ExpressionAttributeValues: values }) => {
+  const item = schedules.find(schedule => schedule.scheduleId === Key.scheduleId);
+  if (!item || item.status !== values[':from'] || (values[':claimedAt'] && item.startedAt !== values[':claimedAt'])) {
+    throw conditionalCheckFailed();
+  }
+
+  for (const assignment of UpdateExpression.replace('SET ', '').split(', ')) {
+    const [name, value] = assignment.split(' = ');
+    item[names[name]] = values[value];
+  }
+  return {};
+};
+
+const schedule = (fields) => ({
+  scheduleId: 'schedule-1',
+  version: '1.2.0',
+  targetStatus: 'published',
+  status: 'pending',
+  runAt: '2026-03-01T09:59:00.000Z',
+  createdBy: 'user-1',
+  ...fields
+});
+
+const run = () => applyDueSchedules(NOW, SCHEDULES_TABLE, VERSIONS_TABLE, 'request-1');
+
+beforeEach(() => {
+  // The scheduler logs every outcome
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'error').mockImplementation(() => {});
+
+  schedules = [];
+  afterQuery = () => {};
+  mockDocumentClient.query = (params) => ({ promise: () => query(params) });
+  mockDocumentClient.update = (params) => ({ promise: () => update(params) });
+  mockTransitionVersion.calls = [];
+  mockTransitionVersion.implementation = async () => ({ statusCode: 200, body: JSON.stringify({ version: '1.2.0', status: 'published' }) });
+});
+
+describe('applyDueSchedules', () => {
+  it('applies a due schedule on behalf of the user who scheduled it', async () => {
+    schedules = [schedule()];
+
+    const result = await run();
+
+    expect(result).toEqual({ applied: ['schedule-1'], failed: [], skipped: [] });
+    expect(mockTransitionVersion.calls).toHaveLength(1);
+    const [version, targetStatus, userId, versionsTable, , , audit] = mockTransitionVersion.calls[0];
+    expect([version, targetStatus, userId, versionsTable]).toEqual(['1.2.0', 'published', 'user-1', VERSIONS_TABLE]);
+    expect(audit).toMatchObject({ actor: 'user-1', requestId: 'request-1' });
+    expect(schedules[0]).toMatchObject({ status: 'applied', startedAt: NOW.toISOString(), appliedAt: NOW.toISOString() });
+  });
+
+  it('leaves a schedule that is not due yet', async () => {
+    schedules = [schedule({ runAt: '2026-03-01T10:00:01.000Z' })];
+
+    const result = await run();
+
+    expect(result).toEqual({ applied: [], failed: [], skipped: [] });
+    expect(mockTransitionVersion.calls).toHaveLength(0);
+    expect(schedules[0].status).toBe('pending');
+  });
+
+  it('skips a schedule claimed by another run since it was read', async () => {
+    schedules = [schedule()];
+    afterQuery = () => Object.assign(schedules[0], { status: 'running', startedAt: NOW.toISOString() });
+
+    const result = await run();
+
+    expect(result).toEqual({ applied: [], failed: [], skipped: ['schedule-1'] });
+    expect(mockTransitionVersion.calls).toHaveLength(0);
+    expect(schedules[0].status).toBe('running');
+  });
+
+  it('fails a schedule whose version can no longer make the transition', async () => {
+    schedules = [schedule()];
+    mockTransitionVersion.implementation = async () => ({
+      statusCode: 409,
+      body: JSON.stringify({ message: 'Version 1.2.0 cannot move from archived to published', status: 'archived' })
+    });
+
+    const result = await run();
+
+    expect(result).toEqual({ applied: [], failed: ['schedule-1'], skipped: [] });
+    expect(schedules[0]).toMatchObject({
+      status: 'failed',
+      failedAt: NOW.toISOString(),
+      error: 'Version 1.2.0 cannot move from archived to published'
+    });
+  });
+
+  it('fails a schedule whose transition throws instead of leaving it running', async () => {
+    schedules = [schedule(), schedule({ scheduleId: 'schedule-2', version: '1.3.0' })];
+    mockTransitionVersion.implementation = async (version) => {
+      if (version === '1.2.0') throw new Error('Throughput exceeded');
+      return { statusCode: 200, body: '{}' };
+    };
+
+    const result = await run();
+
+    expect(result).toEqual({ applied: ['schedule-2'], failed: ['schedule-1'], skipped: [] });
+    expect(schedules[0]).toMatchObject({ status: 'failed', error: 'Throughput exceeded' });
+    expect(schedules[1].status).toBe('applied');
+  });
+
+  it('reclaims a schedule left running by a run that stopped, but not one still running', async () => {
+    schedules = [
+      schedule({ status: 'running', startedAt: '2026-03-01T09:58:00.000Z' }),
+      schedule({ scheduleId: 'schedule-2', status: 'running', startedAt: '2026-03-01T09:59:30.000Z' })
+    ];
+
+    const result = await run();
+
+    expect(result).toEqual({ applied: ['schedule-1'], failed: [], skipped: [] });
+    expect(schedules[0]).toMatchObject({ status: 'applied', startedAt: NOW.toISOString() });
+    expect(schedules[1]).toMatchObject({ status: 'running', startedAt: '2026-03-01T09:59:30.000Z' });
+  });
+
+  it('applies a reclaimed schedule whose version already has the target status', async () => {
+    schedules = [schedule({ status: 'running', startedAt: '2026-03-01T09:58:00.000Z' })];
+    mockTransitionVersion.implementation = async () => ({
+      statusCode: 409,
+      body: JSON.stringify({ message: 'Version 1.2.0 cannot move from published to published', status: 'published' })
+    });
+
+    const result = await run();
+
+    expect(result).toEqual({ applied: ['schedule-1'], failed: [], skipped: [] });
+    expect(schedules[0].status).toBe('applied');
+  });
+});
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Badge, IconButton, Tooltip } from '@mui/material';
+import ChatBubbleOutlineIcon from '@mui/icons-material/ChatBubbleOutline';
+import { CommentThread } from '../../models';
+
+/**
+ * Props for the CommentBadge component
+ */
+export interface CommentBadgeProps {
+  thread?: CommentThread;
+  onClick: () => void;
+}
+
+/**
+ * Button opening a discussion thread, with its comment count; the count is highlighted while the thread is unread
+ */
+const CommentBadge: React.FC<CommentBadgeProps> = ({ thread, onClick }) => {
+  const count = thread ? thread.commentCount : 0;
+  const title = count === 0
+    ? 'Comments'
+    : `${count} comment(s)${thread?.unread ? ', unread' : ''}`;
+
+  return (
+    <Tooltip title={title}>
+      <IconButton
+        size="small"
+        onClick={(e) => {
+          // Tables open a row on click
+          e.stopPropagation();
+          onClick();
+        }}
+      >
+        <Badge badgeContent={count} color={thread?.unread ? 'error' : 'default'} max={99}>
+          <ChatBubbleOutlineIcon fontSize="small" />
+        </Badge>
+      </IconButton>
+    </Tooltip>
+  );
+};
+
+export default CommentBadge;
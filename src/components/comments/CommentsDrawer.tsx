@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Drawer, Box, Typography, IconButton, Alert, CircularProgress, Button, TextField, Paper, Tooltip,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { commentsApi } from '../../services/api';
+import { Comment, CommentThreadRef, MAX_COMMENT_LENGTH } from '../../models';
+import { useAuth } from '../../contexts/AuthContext';
+import { isAdmin } from '../../utils/permissions';
+import { parseApiError } from '../../utils/apiErrors';
+import { describeThread, splitMentions } from '../../utils/comments';
+
+/**
+ * Props for the CommentsDrawer component
+ */
+export interface CommentsDrawerProps {
+  thread: CommentThreadRef | null;
+  onClose: () => void;
+  // Called once the thread has been read or commented on, to refresh comment counts
+  onChanged: () => void;
+}
+
+/**
+ * Drawer showing the comments of a discussion thread, oldest first, to add a comment mentioning other users.
+ * Opening the thread marks it as read.
+ */
+const CommentsDrawer: React.FC<CommentsDrawerProps> = ({ thread, onClose, onChanged }) => {
+  const { authState } = useAuth();
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [body, setBody] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [posting, setPosting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The page builds a new thread object on every render, so the fetch depends on its fields
+  const { target, shortname, version, key } = thread || {};
+
+  const fetchComments = useCallback(async () => {
+    if (!target || !version) return;
+
+    setLoading(true);
+    try {
+      const ref = { target, shortname, version, key };
+      const response = await commentsApi.getThread(ref);
+      setComments(response.comments);
+      await commentsApi.markRead(ref);
+      onChanged();
+    } catch (err) {
+      console.error('Error fetching comments:', err);
+      setError(parseApiError(err, 'Failed to load comments').message);
+    } finally {
+      setLoading(false);
+    }
+  }, [target, shortname, version, key, onChanged]);
+
+  useEffect(() => {
+    setComments([]);
+    setBody('');
+    setError(null);
+    fetchComments();
+  }, [fetchComments]);
+
+  const handlePost = async () => {
+    if (!thread) return;
+
+    setPosting(true);
+    setError(null);
+    try {
+      const comment = await commentsApi.create(thread, body);
+      setComments([...comments, comment]);
+      setBody('');
+      onChanged();
+    } catch (err) {
+      console.error('Error posting comment:', err);
+      setError(parseApiError(err, 'Failed to post comment').message);
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    setError(null);
+    try {
+      await commentsApi.delete(comment.commentId);
+      setComments(comments.filter(item => item.commentId !== comment.commentId));
+      onChanged();
+    } catch (err) {
+      console.error(`Error deleting comment ${comment.commentId}:`, err);
+      setError(parseApiError(err, 'Failed to delete comment').message);
+    }
+  };
+
+  return (
+    <Drawer anchor="right" open={!!thread} onClose={onClose} PaperProps={{ sx: { width: { xs: '100%', sm: 480 } } }}>
+      <Box sx={{ p: 2, display: 'flex', flexDirection: 'column', height: '100%' }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6" sx={{ wordBreak: 'break-all' }}>
+            Comments on {thread && describeThread(thread)}
+          </Typography>
+          <IconButton onClick={onClose} aria-label="Close">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Box sx={{ flexGrow: 1, overflow: 'auto', mb: 2 }}>
+          {loading ? (
+            <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+              <CircularProgress />
+            </Box>
+          ) : comments.length === 0 ? (
+            <Typography color="text.secondary">No comments yet. Start the discussion.</Typography>
+          ) : (
+            comments.map((comment) => (
+              <Paper key={comment.commentId} variant="outlined" sx={{ p: 1.5, mb: 1 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <Typography variant="caption" color="text.secondary">
+                    {comment.createdByEmail || comment.createdBy} on {new Date(comment.createdAt).toLocaleString()}
+                  </Typography>
+                  {(comment.createdBy === authState.user?.userId || isAdmin(authState.user)) && (
+                    <Tooltip title="Delete">
+                      <IconButton size="small" onClick={() => handleDelete(comment)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  )}
+                </Box>
+                <Typography sx={{ whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                  {splitMentions(comment.body).map((part, index) => (index % 2 === 1 ? (
+                    <Box key={index} component="span" sx={{ color: 'primary.main', fontWeight: 'bold' }}>{part}</Box>
+                  ) : part))}
+                </Typography>
+              </Paper>
+            ))
+          )}
+        </Box>
+
+        <TextField
+          label="Comment"
+          fullWidth
+          multiline
+          rows={3}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          error={body.length > MAX_COMMENT_LENGTH}
+          helperText={`Mention users with @ followed by their email (${body.length}/${MAX_COMMENT_LENGTH})`}
+        />
+        <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 1 }}>
+          <Button
+            variant="contained"
+            onClick={handlePost}
+            disabled={posting || !body.trim() || body.length > MAX_COMMENT_LENGTH}
+          >
+            Comment
+          </Button>
+        </Box>
+      </Box>
+    </Drawer>
+  );
+};
+
+export default CommentsDrawer;
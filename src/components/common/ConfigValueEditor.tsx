@@ -0,0 +1,90 @@
+import React from 'react';
+import {
+  Box, TextField, FormControl, FormControlLabel, Switch, InputLabel, Select,
+  MenuItem, FormHelperText,
+} from '@mui/material';
+import { ConfigurationValueType } from '../../models';
+
+/**
+ * Props for the ConfigValueEditor component
+ */
+export interface ConfigValueEditorProps {
+  valueType: ConfigurationValueType;
+  value: any;
+  onChange: (value: any) => void;
+  enumOptions?: string[];
+  error?: string;
+  helperText?: string;
+  disabled?: boolean;
+}
+
+/**
+ * An input for a configuration value that adapts to the declared value type
+ */
+const ConfigValueEditor: React.FC<ConfigValueEditorProps> = ({
+  valueType, value, onChange, enumOptions = [], error, helperText, disabled = false,
+}) => {
+  // Booleans are edited with a switch so they are never saved as "true"/"false" strings
+  if (valueType === 'boolean') {
+    return (
+      <FormControl error={!!error} sx={{ mb: 2, display: 'block' }}>
+        <FormControlLabel
+          control={<Switch checked={Boolean(value)} onChange={(e, checked) => onChange(checked)}
+                           disabled={disabled} color="primary" />}
+          label={value ? 'true' : 'false'}
+        />
+        {(error || helperText) && <FormHelperText>{error || helperText}</FormHelperText>}
+      </FormControl>
+    );
+  }
+
+  if (valueType === 'enum') {
+    return (
+      <FormControl fullWidth error={!!error} disabled={disabled || enumOptions.length === 0} sx={{ mb: 2 }}>
+        <InputLabel id="config-value-label">Value</InputLabel>
+        <Select labelId="config-value-label" value={enumOptions.includes(value) ? value : ''}
+                label="Value" onChange={(e) => onChange(e.target.value)}>
+          {enumOptions.map((option) => <MenuItem key={option} value={option}>{option}</MenuItem>)}
+        </Select>
+        <FormHelperText>{error || helperText || (enumOptions.length === 0 ? 'Add options first' : '')}</FormHelperText>
+      </FormControl>
+    );
+  }
+
+  if (valueType === 'color') {
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2, mb: 2 }}>
+        <TextField label="Value" value={value || ''} onChange={(e) => onChange(e.target.value)}
+                   error={!!error} helperText={error || helperText || 'Hex color, e.g. #1a2b3c'}
+                   disabled={disabled} fullWidth placeholder="#000000" />
+        <Box component="input" type="color" aria-label="Pick color"
+             value={/^#[0-9a-fA-F]{6}$/.test(value) ? value : '#000000'}
+             onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.value)}
+             disabled={disabled}
+             sx={{ width: 56, height: 56, p: 0, border: 'none', background: 'none', cursor: 'pointer' }} />
+      </Box>
+    );
+  }
+
+  const isJson = valueType === 'json';
+
+  return (
+    <TextField
+      label="Value"
+      value={value ?? ''}
+      onChange={(e) => onChange(e.target.value)}
+      error={!!error}
+      helperText={error || helperText}
+      disabled={disabled}
+      fullWidth
+      multiline={isJson}
+      rows={isJson ? 6 : undefined}
+      type={valueType === 'number' ? 'number' : valueType === 'url' ? 'url' : 'text'}
+      placeholder={isJson ? '{ "key": "value" }' : valueType === 'url' ? 'https://' : ''}
+      InputProps={isJson ? { sx: { fontFamily: 'monospace' } } : undefined}
+      sx={{ mb: 2 }}
+    />
+  );
+};
+
+export default ConfigValueEditor;
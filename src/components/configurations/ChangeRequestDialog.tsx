@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Alert, Typography, Chip, Box, Paper,
+  Table, TableBody, TableCell, TableHead, TableRow,
+} from '@mui/material';
+import { changeRequestsApi } from '../../services/api';
+import { ChangeAttributes, ChangeRequest, ChangeRequestChange, ChangeRequestStatus, CHANGE_REQUEST_STATUSES } from '../../models';
+import { useAuth } from '../../contexts/AuthContext';
+import { canReviewChangeRequest, CHANGE_REQUEST_APPROVE } from '../../utils/permissions';
+import { parseApiError } from '../../utils/apiErrors';
+import { formatValue, SECRET_MASK } from '../../utils/formatting';
+
+const STATUS_COLORS: Record<ChangeRequestStatus, 'info' | 'success' | 'error'> = {
+  pending: 'info',
+  applied: 'success',
+  rejected: 'error',
+};
+
+const ACTION_COLORS: Record<ChangeRequestChange['action'], 'success' | 'primary' | 'error'> = {
+  create: 'success',
+  update: 'primary',
+  delete: 'error',
+};
+
+// Attributes shown in the diff of a change, in display order
+const DIFF_ATTRIBUTES: Array<{ attribute: keyof ChangeAttributes; label: string }> = [
+  { attribute: 'value', label: 'Value' },
+  { attribute: 'valueType', label: 'Type' },
+  { attribute: 'enumOptions', label: 'Options' },
+  { attribute: 'visibility', label: 'Visibility' },
+  { attribute: 'tags', label: 'Tags' },
+  { attribute: 'description', label: 'Description' },
+];
+
+/**
+ * Format an attribute of a configuration, before or after a change
+ */
+const formatAttribute = (attribute: keyof ChangeAttributes, value: any, secret?: boolean): string => {
+  if (value === undefined) return '';
+  if (attribute === 'value') return secret ? SECRET_MASK : formatValue(value);
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+/**
+ * Format an attribute of a configuration after a change; secret values are masked, and marked when changed
+ */
+const formatAfter = (change: ChangeRequestChange, attribute: keyof ChangeAttributes, before: string): string => {
+  if (change.action === 'delete') return '';
+  if (attribute === 'value' && (change.visibility || change.before?.visibility) === 'secret') {
+    return change.value !== undefined ? `${SECRET_MASK} (changed)` : SECRET_MASK;
+  }
+  return change[attribute] !== undefined ? formatAttribute(attribute, change[attribute]) : before;
+};
+
+/**
+ * Rows of the diff of a change: the attributes that differ from the configuration it was proposed against,
+ * which covers every attribute of a created or deleted configuration
+ */
+const getDiffRows = (change: ChangeRequestChange) => DIFF_ATTRIBUTES
+  .map(({ attribute, label }) => {
+    const before = change.before ? formatAttribute(attribute, change.before[attribute], change.before.secret) : '';
+    return { label, before, after: formatAfter(change, attribute, before) };
+  })
+  .filter(({ before, after }) => before !== after);
+
+/**
+ * Props for the ChangeRequestDialog component
+ */
+export interface ChangeRequestDialogProps {
+  open: boolean;
+  changeRequest: ChangeRequest | null;
+  onClose: () => void;
+  onReviewed: (changeRequest: ChangeRequest) => void;
+}
+
+/**
+ * Dialog showing the changes of a change request next to the configurations they were proposed against, for
+ * an approver other than the author to approve (applying every change at once) or reject it
+ */
+const ChangeRequestDialog: React.FC<ChangeRequestDialogProps> = ({ open, changeRequest, onClose, onReviewed }) => {
+  const { authState } = useAuth();
+  const [reviewComment, setReviewComment] = useState<string>('');
+  const [reviewing, setReviewing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setReviewComment('');
+    setError(null);
+  }, [open]);
+
+  if (!changeRequest) return null;
+
+  const pending = changeRequest.status === 'pending';
+  const canReview = pending && canReviewChangeRequest(authState.user, changeRequest.createdBy);
+
+  const handleReview = async (approve: boolean) => {
+    setReviewing(true);
+    setError(null);
+    try {
+      const reviewed = approve
+        ? await changeRequestsApi.approve(changeRequest.changeRequestId, reviewComment || undefined)
+        : await changeRequestsApi.reject(changeRequest.changeRequestId, reviewComment || undefined);
+      onReviewed(reviewed);
+    } catch (err) {
+      console.error(`Error reviewing change request ${changeRequest.changeRequestId}:`, err);
+      setError(parseApiError(err, `Failed to ${approve ? 'approve' : 'reject'} change request`).message);
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          Change Request
+          <Chip
+            label={CHANGE_REQUEST_STATUSES.find(item => item.value === changeRequest.status)?.label || changeRequest.status}
+            size="small"
+            color={STATUS_COLORS[changeRequest.status]}
+          />
+        </Box>
+      </DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        <Typography variant="body2" color="text.secondary">
+          Proposed by {changeRequest.createdByEmail || changeRequest.createdBy} on {new Date(changeRequest.createdAt).toLocaleString()}
+        </Typography>
+        <Typography sx={{ mt: 1, mb: 2, whiteSpace: 'pre-wrap' }}>{changeRequest.comment}</Typography>
+
+        {changeRequest.changes.map((change, index) => (
+          <Paper key={index} variant="outlined" sx={{ mb: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1 }}>
+              <Chip label={change.action} size="small" color={ACTION_COLORS[change.action]} variant="outlined" />
+              <Typography sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{change.key}</Typography>
+            </Box>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell>Before</TableCell>
+                  <TableCell>After</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {getDiffRows(change).map(({ label, before, after }) => (
+                  <TableRow key={label}>
+                    <TableCell sx={{ fontWeight: 'bold' }}>{label}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{before}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{after}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Paper>
+        ))}
+
+        {!pending && (
+          <Alert severity={changeRequest.status === 'applied' ? 'success' : 'info'}>
+            {changeRequest.status === 'applied' ? 'Approved' : 'Rejected'} by {changeRequest.reviewedByEmail || changeRequest.reviewedBy}
+            {changeRequest.reviewedAt && ` on ${new Date(changeRequest.reviewedAt).toLocaleString()}`}
+            {changeRequest.reviewComment && `: ${changeRequest.reviewComment}`}
+          </Alert>
+        )}
+
+        {pending && !canReview && (
+          <Alert severity="info">
+            {authState.user?.userId === changeRequest.createdBy
+              ? 'Another user has to review your change request.'
+              : `Only users with the ${CHANGE_REQUEST_APPROVE} permission can review change requests.`}
+          </Alert>
+        )}
+
+        {canReview && (
+          <TextField
+            margin="dense"
+            label="Review comment"
+            fullWidth
+            multiline
+            rows={2}
+            value={reviewComment}
+            onChange={(e) => setReviewComment(e.target.value)}
+          />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        {canReview && (
+          <>
+            <Button onClick={() => handleReview(false)} color="error" disabled={reviewing}>
+              Reject
+            </Button>
+            <Button onClick={() => handleReview(true)} variant="contained" disabled={reviewing}>
+              Approve and apply
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ChangeRequestDialog;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import {
+  Paper, Box, Typography, Chip, Button, Dialog, DialogTitle, DialogContent, DialogActions, TextField, Alert,
+} from '@mui/material';
+import { changeRequestsApi } from '../../services/api';
+import { ChangeRequest, ConfigurationScope, MAX_CHANGE_REQUEST_CHANGES, ProposedChange } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+
+/**
+ * Props for the ChangeRequestDraftBar component
+ */
+export interface ChangeRequestDraftBarProps {
+  scope: ConfigurationScope;
+  changes: ProposedChange[];
+  onRemove: (index: number) => void;
+  onCancel: () => void;
+  onSubmitted: (changeRequest: ChangeRequest) => void;
+}
+
+/**
+ * Bar listing the changes drafted on a published version or on the global defaults, to submit them for review as one change request
+ * with a comment
+ */
+const ChangeRequestDraftBar: React.FC<ChangeRequestDraftBarProps> = ({ scope, changes, onRemove, onCancel, onSubmitted }) => {
+  const [openSubmitDialog, setOpenSubmitDialog] = useState<boolean>(false);
+  const [comment, setComment] = useState<string>('');
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const created = await changeRequestsApi.create(scope, { comment: comment.trim(), changes });
+      setOpenSubmitDialog(false);
+      setComment('');
+      onSubmitted(created);
+    } catch (err) {
+      console.error('Error submitting change request:', err);
+      setError(parseApiError(err, 'Failed to submit change request').message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Paper variant="outlined" sx={{ p: 2, mb: 2, borderColor: 'primary.main' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle1">
+          Proposed changes ({changes.length}/{MAX_CHANGE_REQUEST_CHANGES})
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button onClick={onCancel}>Discard</Button>
+          <Button variant="contained" onClick={() => setOpenSubmitDialog(true)} disabled={changes.length === 0}>
+            Submit for review
+          </Button>
+        </Box>
+      </Box>
+      {changes.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          Add, edit and delete configurations as usual: the changes are collected here and only applied once
+          another user approves them.
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+          {changes.map((change, index) => (
+            <Chip
+              key={`${change.action}:${change.configId || change.key}`}
+              label={`${change.action} ${change.key}`}
+              size="small"
+              color={change.action === 'delete' ? 'error' : change.action === 'create' ? 'success' : 'primary'}
+              variant="outlined"
+              onDelete={() => onRemove(index)}
+            />
+          ))}
+        </Box>
+      )}
+
+      <Dialog open={openSubmitDialog} onClose={() => setOpenSubmitDialog(false)} maxWidth="sm" fullWidth>
+        <DialogTitle>Submit Change Request</DialogTitle>
+        <DialogContent>
+          {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            The {changes.length} change(s) will be applied together once approved by another user.
+          </Typography>
+          <TextField
+            autoFocus
+            margin="dense"
+            label="Comment"
+            placeholder="Why are these changes needed?"
+            fullWidth
+            multiline
+            rows={3}
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpenSubmitDialog(false)}>Cancel</Button>
+          <Button onClick={handleSubmit} variant="contained" disabled={submitting || !comment.trim()}>
+            Submit
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Paper>
+  );
+};
+
+export default ChangeRequestDraftBar;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import {
+  List, ListItem, ListItemButton, ListItemIcon, ListItemText, Collapse, Chip, IconButton,
+  Tooltip, Box, Alert, Typography,
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteSweepIcon from '@mui/icons-material/DeleteSweep';
+import { buildConfigTree, collectSubtree, ConfigTreeNode } from '../../utils/configTree';
+
+/**
+ * Props for the ConfigTreeView component
+ */
+export interface ConfigTreeViewProps<T extends { key: string }> {
+  configurations: T[];
+  renderValue: (config: T) => React.ReactNode;
+  onEdit?: (config: T) => void;
+  onAddUnder?: (keyPrefix: string) => void;
+  onDeleteSubtree?: (configs: T[], keyPrefix: string) => void;
+}
+
+/**
+ * Collapsible tree of configurations built from the dot segments of their keys
+ */
+const ConfigTreeView = <T extends { key: string }>({
+  configurations, renderValue, onEdit, onAddUnder, onDeleteSubtree,
+}: ConfigTreeViewProps<T>) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggle = (keyPrefix: string) => {
+    const next = new Set(collapsed);
+    if (next.has(keyPrefix)) {
+      next.delete(keyPrefix);
+    } else {
+      next.add(keyPrefix);
+    }
+    setCollapsed(next);
+  };
+
+  if (configurations.length === 0) {
+    return <Alert severity="info" sx={{ mt: 2 }}>No configurations found.</Alert>;
+  }
+
+  const renderNode = (node: ConfigTreeNode<T>, depth: number): React.ReactNode => {
+    const isBranch = node.children.length > 0;
+    const open = !collapsed.has(node.keyPrefix);
+
+    const actions = (
+      <Box sx={{ display: 'flex' }}>
+        {node.configs.length === 1 && onEdit && (
+          <Tooltip title="Edit">
+            <IconButton size="small" color="primary" onClick={() => onEdit(node.configs[0])}>
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+        {onAddUnder && (
+          <Tooltip title={`Add key under ${node.keyPrefix}`}>
+            <IconButton size="small" onClick={() => onAddUnder(`${node.keyPrefix}.`)}>
+              <AddIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+        {onDeleteSubtree && (
+          <Tooltip title={isBranch ? 'Delete subtree' : 'Delete'}>
+            <IconButton size="small" color="error" onClick={() => onDeleteSubtree(collectSubtree(node), node.keyPrefix)}>
+              <DeleteSweepIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Box>
+    );
+
+    return (
+      <React.Fragment key={node.keyPrefix}>
+        <ListItem disablePadding secondaryAction={actions}>
+          <ListItemButton onClick={() => isBranch && toggle(node.keyPrefix)} sx={{ pl: 2 + depth * 3, pr: 16 }}>
+            <ListItemIcon sx={{ minWidth: 32 }}>
+              {isBranch ? (open ? <ExpandMoreIcon /> : <ChevronRightIcon />) : null}
+            </ListItemIcon>
+            <ListItemText
+              primary={
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Typography component="span" sx={{ fontWeight: isBranch ? 'bold' : 'normal' }}>{node.name}</Typography>
+                  {isBranch && <Chip label={node.count} size="small" />}
+                </Box>
+              }
+              secondary={node.configs.length > 0
+                ? node.configs.map((config, index) => <div key={index}>{renderValue(config)}</div>)
+                : undefined}
+              secondaryTypographyProps={{ component: 'div' }}
+            />
+          </ListItemButton>
+        </ListItem>
+        {isBranch && (
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <List disablePadding>
+              {node.children.map(child => renderNode(child, depth + 1))}
+            </List>
+          </Collapse>
+        )}
+      </React.Fragment>
+    );
+  };
+
+  return (
+    <List dense>
+      {buildConfigTree(configurations).map(node => renderNode(node, 0))}
+    </List>
+  );
+};
+
+export default ConfigTreeView;
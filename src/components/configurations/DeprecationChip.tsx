@@ -0,0 +1,32 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import { KeyDeprecation } from '../../models';
+
+/**
+ * Whether the sunset date of a deprecation has passed
+ */
+export const isPastSunset = (deprecation: KeyDeprecation): boolean =>
+  deprecation.sunsetDate < new Date().toISOString().slice(0, 10);
+
+/**
+ * Warning badge of a deprecated key, with its replacement and sunset date
+ */
+const DeprecationChip: React.FC<{ deprecation: KeyDeprecation; onClick?: () => void }> = ({ deprecation, onClick }) => {
+  const replacement = deprecation.replacementKey ? `Use ${deprecation.replacementKey} instead. ` : '';
+  const pastSunset = isPastSunset(deprecation);
+
+  return (
+    <Tooltip title={`${replacement}${pastSunset ? 'Sunset' : 'Sunsets'} on ${deprecation.sunsetDate}.${deprecation.reason ? ` ${deprecation.reason}` : ''}`}>
+      <Chip
+        icon={<WarningAmberIcon />}
+        label={pastSunset ? 'past sunset' : 'deprecated'}
+        size="small"
+        color={pastSunset ? 'error' : 'warning'}
+        onClick={onClick}
+      />
+    </Tooltip>
+  );
+};
+
+export default DeprecationChip;
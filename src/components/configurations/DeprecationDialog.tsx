@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Alert, Typography,
+} from '@mui/material';
+import { deprecationsApi } from '../../services/api';
+import { KeyDeprecation } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+
+/**
+ * Props for the DeprecationDialog component
+ */
+export interface DeprecationDialogProps {
+  open: boolean;
+  configKey: string;
+  deprecation?: KeyDeprecation;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * Dialog for deprecating a key with a replacement key and a sunset date, or undoing it
+ */
+const DeprecationDialog: React.FC<DeprecationDialogProps> = ({ open, configKey, deprecation, onClose, onSaved }) => {
+  const [replacementKey, setReplacementKey] = useState<string>('');
+  const [sunsetDate, setSunsetDate] = useState<string>('');
+  const [reason, setReason] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setReplacementKey(deprecation?.replacementKey || '');
+    setSunsetDate(deprecation?.sunsetDate || '');
+    setReason(deprecation?.reason || '');
+    setError(null);
+  }, [open, deprecation]);
+
+  const run = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      onSaved();
+    } catch (err) {
+      console.error('Error saving deprecation:', err);
+      setError(parseApiError(err, fallbackMessage).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!sunsetDate) {
+      setError('Sunset date is required');
+      return;
+    }
+
+    run(() => deprecationsApi.save(configKey, {
+      sunsetDate,
+      replacementKey: replacementKey || undefined,
+      reason: reason || undefined,
+    }), 'Failed to deprecate key');
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{deprecation ? 'Edit Deprecation' : 'Deprecate Key'}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Deprecating <strong>{configKey}</strong> applies to every shortname and version that uses it.
+        </Typography>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <TextField
+          margin="dense"
+          label="Replacement key"
+          fullWidth
+          variant="outlined"
+          value={replacementKey}
+          onChange={(e) => setReplacementKey(e.target.value)}
+        />
+        <TextField
+          margin="dense"
+          label="Sunset date"
+          type="date"
+          fullWidth
+          required
+          variant="outlined"
+          value={sunsetDate}
+          onChange={(e) => setSunsetDate(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+        />
+        <TextField
+          margin="dense"
+          label="Reason"
+          fullWidth
+          multiline
+          rows={2}
+          variant="outlined"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      </DialogContent>
+      <DialogActions>
+        {deprecation && (
+          <Button
+            color="error"
+            onClick={() => run(() => deprecationsApi.delete(configKey), 'Failed to remove deprecation')}
+            disabled={saving}
+            sx={{ mr: 'auto' }}
+          >
+            Remove Deprecation
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DeprecationDialog;
@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Alert,
+  FormControlLabel, Checkbox, List, ListItem, ListItemText, Typography, CircularProgress,
+} from '@mui/material';
+import { layerConfigurationsApi } from '../../services/api';
+import { Configuration, ConfigurationScope, KeyRenameAffectedConfiguration, KeyRenameResponse } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+import { validateConfigKey } from '../../utils/validation';
+
+// Defaults layers are stored under a wildcard shortname and version
+const describeScope = ({ shortname, version }: KeyRenameAffectedConfiguration): string => {
+  if (shortname === '*') return version === '*' ? 'Global default' : `Version default v${version}`;
+  return `${shortname} v${version}`;
+};
+
+/**
+ * Props for the RenameKeyDialog component
+ */
+export interface RenameKeyDialogProps {
+  open: boolean;
+  scope: ConfigurationScope;
+  config: Configuration | null;
+  onClose: () => void;
+  onRenamed: (result: KeyRenameResponse) => void;
+}
+
+/**
+ * Dialog for renaming a configuration key in place, previewing the affected configurations first
+ */
+const RenameKeyDialog: React.FC<RenameKeyDialogProps> = ({ open, scope, config, onClose, onRenamed }) => {
+  const [newKey, setNewKey] = useState<string>('');
+  const [allScopes, setAllScopes] = useState<boolean>(false);
+  const [preview, setPreview] = useState<KeyRenameResponse | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !config) return;
+    setNewKey(config.key);
+    setAllScopes(false);
+    setPreview(null);
+    setError(null);
+  }, [open, config]);
+
+  const submit = async (dryRun: boolean) => {
+    if (!config) return;
+
+    const keyValidation = validateConfigKey(newKey);
+    if (!keyValidation.isValid) {
+      setError(keyValidation.errorMessage || 'Invalid key');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await layerConfigurationsApi.rename(scope, config.configId, { newKey, allScopes, dryRun });
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        onRenamed(result);
+      }
+    } catch (err) {
+      console.error('Error renaming configuration:', err);
+      setPreview(null);
+      setError(parseApiError(err, 'Failed to rename configuration').message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Any change invalidates the preview, which must be run again before renaming
+  const handleKeyChange = (value: string) => {
+    setNewKey(value);
+    setPreview(null);
+  };
+
+  const handleAllScopesChange = (checked: boolean) => {
+    setAllScopes(checked);
+    setPreview(null);
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Rename {config?.key}</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          margin="dense"
+          label="New key"
+          fullWidth
+          variant="outlined"
+          value={newKey}
+          onChange={(e) => handleKeyChange(e.target.value)}
+        />
+        <FormControlLabel
+          control={<Checkbox checked={allScopes} onChange={(e, checked) => handleAllScopesChange(checked)} />}
+          label="Rename in every version and shortname that has this key"
+        />
+        {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+        {preview && (
+          <>
+            <Typography variant="subtitle2" sx={{ mt: 2 }}>
+              {preview.configurations.length} configuration(s) renamed
+            </Typography>
+            <List dense>
+              {preview.configurations.map((affected) => (
+                <ListItem key={affected.configId}>
+                  <ListItemText primary={describeScope(affected)} secondary={`${affected.key} → ${preview.newKey}`} />
+                </ListItem>
+              ))}
+            </List>
+            {preview.references.length > 0 && (
+              <>
+                <Typography variant="subtitle2">
+                  {preview.references.length} reference(s) rewritten
+                </Typography>
+                <List dense>
+                  {preview.references.map((affected) => (
+                    <ListItem key={affected.configId}>
+                      <ListItemText primary={describeScope(affected)} secondary={affected.key} />
+                    </ListItem>
+                  ))}
+                </List>
+              </>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        {loading && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={() => submit(true)} disabled={loading || !newKey || newKey === config?.key}>
+          Preview
+        </Button>
+        <Button variant="contained" onClick={() => submit(false)} disabled={loading || !preview}>
+          Rename
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default RenameKeyDialog;
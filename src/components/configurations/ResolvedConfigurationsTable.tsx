@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import {
+  Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Paper, Chip,
+  IconButton, Collapse, Box, Typography, Alert,
+} from '@mui/material';
+import KeyboardArrowDownIcon from '@mui/icons-material/KeyboardArrowDown';
+import KeyboardArrowUpIcon from '@mui/icons-material/KeyboardArrowUp';
+import { ConfigurationLayer, CONFIGURATION_LAYER_LABELS, ResolvedConfiguration } from '../../models';
+import { formatValue, SECRET_MASK } from '../../utils/formatting';
+import VisibilityChip from './VisibilityChip';
+
+const LAYER_COLORS: Record<ConfigurationLayer, 'default' | 'info' | 'primary'> = {
+  global: 'default',
+  version: 'info',
+  shortname: 'primary',
+};
+
+const displayValue = (value: any, secret: boolean): string => {
+  if (secret) return SECRET_MASK;
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : formatValue(value);
+};
+
+/**
+ * A resolved key, expandable to show the chain of layers that define it
+ */
+const ResolvedRow: React.FC<{ config: ResolvedConfiguration }> = ({ config }) => {
+  const [open, setOpen] = useState(false);
+  const overridden = config.chain.length > 1;
+
+  return (
+    <>
+      <TableRow>
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setOpen(!open)} aria-label="Explain value">
+            {open ? <KeyboardArrowUpIcon /> : <KeyboardArrowDownIcon />}
+          </IconButton>
+        </TableCell>
+        <TableCell>{config.key}</TableCell>
+        <TableCell>
+          {config.interpolationError ? (
+            <Typography variant="body2" color="error">{config.interpolationError}</Typography>
+          ) : displayValue(config.value, config.secret)}
+          {config.rawValue !== undefined && (
+            <Typography variant="caption" display="block" color="text.secondary">
+              from {displayValue(config.rawValue, false)}
+            </Typography>
+          )}
+        </TableCell>
+        <TableCell><VisibilityChip visibility={config.visibility} /></TableCell>
+        <TableCell>
+          <Chip label={CONFIGURATION_LAYER_LABELS[config.source]} color={LAYER_COLORS[config.source]} size="small" />
+        </TableCell>
+        <TableCell>{overridden ? `Overrides ${config.chain.length - 1} layer(s)` : ''}</TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell sx={{ py: 0 }} colSpan={6}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Box sx={{ m: 1 }}>
+              <Typography variant="subtitle2" gutterBottom>Override chain (lowest to highest precedence)</Typography>
+              <Table size="small">
+                <TableBody>
+                  {config.chain.map((entry, index) => (
+                    <TableRow key={entry.configId}>
+                      <TableCell>{CONFIGURATION_LAYER_LABELS[entry.layer]}</TableCell>
+                      <TableCell sx={{ textDecoration: index < config.chain.length - 1 ? 'line-through' : 'none' }}>
+                        {displayValue(entry.value, entry.secret)}
+                      </TableCell>
+                      <TableCell>{entry.updatedAt ? new Date(entry.updatedAt).toLocaleString() : ''}</TableCell>
+                      <TableCell>{index === config.chain.length - 1 ? 'Effective' : 'Overridden'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+};
+
+/**
+ * Table of resolved configurations showing where each effective value comes from
+ */
+const ResolvedConfigurationsTable: React.FC<{ configurations: ResolvedConfiguration[] }> = ({ configurations }) => {
+  if (configurations.length === 0) {
+    return <Alert severity="info" sx={{ mt: 2 }}>No configurations found in any layer.</Alert>;
+  }
+
+  return (
+    <TableContainer component={Paper}>
+      <Table>
+        <TableHead>
+          <TableRow>
+            <TableCell />
+            <TableCell>Key</TableCell>
+            <TableCell>Effective Value</TableCell>
+            <TableCell>Visibility</TableCell>
+            <TableCell>Source</TableCell>
+            <TableCell>Overrides</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {configurations.map((config) => <ResolvedRow key={config.key} config={config} />)}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default ResolvedConfigurationsTable;
@@ -0,0 +1,193 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Drawer, Box, Typography, IconButton, Alert, CircularProgress, Button, Checkbox, Chip, Paper, Tooltip,
+  Table, TableBody, TableCell, TableHead, TableRow,
+} from '@mui/material';
+import CloseIcon from '@mui/icons-material/Close';
+import { layerConfigurationsApi } from '../../services/api';
+import { Configuration, ConfigurationRevision, ConfigurationScope } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+import { formatValue, SECRET_MASK } from '../../utils/formatting';
+
+// Attributes compared between two revisions, in display order
+const DIFF_ATTRIBUTES: Array<{ label: string; read: (revision: ConfigurationRevision) => string }> = [
+  { label: 'Key', read: revision => revision.key },
+  { label: 'Value', read: revision => (revision.secret ? SECRET_MASK : formatValue(revision.value)) },
+  { label: 'Type', read: revision => revision.valueType || 'string' },
+  { label: 'Options', read: revision => (revision.enumOptions || []).join(', ') },
+  { label: 'Visibility', read: revision => revision.visibility },
+  { label: 'Tags', read: revision => (revision.tags || []).join(', ') },
+  { label: 'Description', read: revision => revision.description || '' },
+];
+
+/**
+ * Props for the RevisionHistoryDrawer component
+ */
+export interface RevisionHistoryDrawerProps {
+  open: boolean;
+  scope: ConfigurationScope;
+  config: Configuration | null;
+  // Revisions can be compared but not reverted to while the configuration is read-only
+  readOnly: boolean;
+  onClose: () => void;
+  onReverted: (config: Configuration) => void;
+}
+
+/**
+ * Drawer listing the revisions of a configuration, newest first, to compare any two of them and revert to one.
+ * Reverting writes the chosen revision as a new revision.
+ */
+const RevisionHistoryDrawer: React.FC<RevisionHistoryDrawerProps> = ({ open, scope, config, readOnly, onClose, onReverted }) => {
+  const [revisions, setRevisions] = useState<ConfigurationRevision[]>([]);
+  const [compared, setCompared] = useState<number[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [reverting, setReverting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const configId = config?.configId;
+  // The page builds a new scope object on every render, so the fetch depends on its fields
+  const { layer, shortname, version } = scope;
+
+  const fetchRevisions = useCallback(async () => {
+    if (!configId) return;
+
+    setLoading(true);
+    try {
+      const response = await layerConfigurationsApi.getRevisions({ layer, shortname, version }, configId);
+      setRevisions(response.revisions);
+      // Compare the latest change by default
+      setCompared(response.revisions.slice(0, 2).map(revision => revision.revision));
+    } catch (err) {
+      console.error(`Error fetching revisions of configuration ${configId}:`, err);
+      setError(parseApiError(err, 'Failed to load revisions').message);
+    } finally {
+      setLoading(false);
+    }
+  }, [configId, layer, shortname, version]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setRevisions([]);
+    setCompared([]);
+    setError(null);
+    fetchRevisions();
+  }, [open, fetchRevisions]);
+
+  // Keep the two revisions checked last
+  const handleToggleCompared = (revision: number) => {
+    setCompared(compared.includes(revision)
+      ? compared.filter(item => item !== revision)
+      : [...compared, revision].slice(-2));
+  };
+
+  const handleRevert = async (revision: number) => {
+    if (!configId) return;
+
+    setReverting(true);
+    setError(null);
+    try {
+      const reverted = await layerConfigurationsApi.revert(scope, configId, revision);
+      onReverted(reverted);
+      await fetchRevisions();
+    } catch (err) {
+      console.error(`Error reverting configuration ${configId} to revision ${revision}:`, err);
+      setError(parseApiError(err, 'Failed to revert configuration').message);
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  // Older revision on the left
+  const [from, to] = compared
+    .slice()
+    .sort((a, b) => a - b)
+    .map(number => revisions.find(revision => revision.revision === number));
+  const latest = revisions.length > 0 ? revisions[0].revision : null;
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose} PaperProps={{ sx: { width: { xs: '100%', sm: 560 } } }}>
+      <Box sx={{ p: 2 }}>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+          <Typography variant="h6" sx={{ wordBreak: 'break-all' }}>History of {config?.key}</Typography>
+          <IconButton onClick={onClose} aria-label="Close">
+            <CloseIcon />
+          </IconButton>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            {from && to ? (
+              <Paper variant="outlined" sx={{ mb: 3 }}>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell />
+                      <TableCell>Revision {from.revision}</TableCell>
+                      <TableCell>Revision {to.revision}</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {DIFF_ATTRIBUTES.map(({ label, read }) => {
+                      const changed = read(from) !== read(to);
+                      return (
+                        <TableRow key={label} sx={changed ? { backgroundColor: 'action.selected' } : undefined}>
+                          <TableCell sx={{ fontWeight: changed ? 'bold' : undefined }}>{label}</TableCell>
+                          <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{read(from)}</TableCell>
+                          <TableCell sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>{read(to)}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </Paper>
+            ) : (
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                Check two revisions to compare them.
+              </Typography>
+            )}
+
+            {revisions.map((revision) => (
+              <Paper key={revision.revision} variant="outlined" sx={{ p: 1.5, mb: 1 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                  <Tooltip title="Compare">
+                    <Checkbox
+                      size="small"
+                      checked={compared.includes(revision.revision)}
+                      onChange={() => handleToggleCompared(revision.revision)}
+                    />
+                  </Tooltip>
+                  <Typography variant="subtitle2">Revision {revision.revision}</Typography>
+                  {revision.revision === latest && <Chip label="Latest" size="small" color="primary" variant="outlined" />}
+                  {revision.revertedFrom && <Chip label={`Reverted to ${revision.revertedFrom}`} size="small" variant="outlined" />}
+                  <Box sx={{ flexGrow: 1 }} />
+                  <Button
+                    size="small"
+                    onClick={() => handleRevert(revision.revision)}
+                    disabled={readOnly || reverting || revision.revision === latest}
+                  >
+                    Revert
+                  </Button>
+                </Box>
+                <Typography variant="body2" sx={{ fontFamily: 'monospace', wordBreak: 'break-all', ml: 5 }}>
+                  {revision.secret ? SECRET_MASK : formatValue(revision.value)}
+                </Typography>
+                <Typography variant="caption" color="text.secondary" sx={{ ml: 5 }}>
+                  {new Date(revision.createdAt).toLocaleString()} by {revision.createdBy || 'unknown'}
+                </Typography>
+              </Paper>
+            ))}
+          </>
+        )}
+      </Box>
+    </Drawer>
+  );
+};
+
+export default RevisionHistoryDrawer;
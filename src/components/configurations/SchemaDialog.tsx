@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Alert,
+  ToggleButtonGroup, ToggleButton, Box, CircularProgress, Typography,
+} from '@mui/material';
+import { schemasApi } from '../../services/api';
+import { SchemaSaveResponse } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+
+type SchemaScope = 'version' | 'shortname';
+
+const EXAMPLE_SCHEMA = JSON.stringify({
+  type: 'object',
+  properties: {
+    'public.theme.primaryColor': { type: 'string', format: 'color' },
+  },
+  required: [],
+  additionalProperties: true,
+}, null, 2);
+
+/**
+ * Props for the SchemaDialog component
+ */
+export interface SchemaDialogProps {
+  open: boolean;
+  shortname: string;
+  version: string;
+  onClose: () => void;
+  onSaved: (result: SchemaSaveResponse | null) => void;
+}
+
+/**
+ * Dialog for editing the JSON Schema attached to a version or to the whole shortname
+ */
+const SchemaDialog: React.FC<SchemaDialogProps> = ({ open, shortname, version, onClose, onSaved }) => {
+  const [scope, setScope] = useState<SchemaScope>('version');
+  const [schemaText, setSchemaText] = useState<string>('');
+  const [hasOwnSchema, setHasOwnSchema] = useState<boolean>(false);
+  const [inherited, setInherited] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    schemasApi.get(shortname, scope === 'version' ? version : undefined)
+      .then((response) => {
+        if (cancelled) return;
+        const ownSchema = response.source === scope;
+        setHasOwnSchema(ownSchema);
+        setInherited(!ownSchema && !!response.schema);
+        setSchemaText(response.schema ? JSON.stringify(response.schema, null, 2) : EXAMPLE_SCHEMA);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(parseApiError(err, 'Failed to load schema').message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, shortname, version, scope]);
+
+  const handleSave = async () => {
+    let schema;
+    try {
+      schema = JSON.parse(schemaText);
+    } catch (err) {
+      setError('Schema must be valid JSON');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await schemasApi.save(shortname, scope === 'version' ? version : undefined, schema);
+      onSaved(result);
+    } catch (err) {
+      setError(parseApiError(err, 'Failed to save schema').message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setSaving(true);
+    try {
+      await schemasApi.delete(shortname, scope === 'version' ? version : undefined);
+      onSaved(null);
+    } catch (err) {
+      setError(parseApiError(err, 'Failed to remove schema').message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Configuration Schema</DialogTitle>
+      <DialogContent>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 2, mt: 1 }}>
+          <ToggleButtonGroup value={scope} exclusive size="small"
+                             onChange={(e, value: SchemaScope | null) => value && setScope(value)}>
+            <ToggleButton value="version">Version {version}</ToggleButton>
+            <ToggleButton value="shortname">All versions of {shortname}</ToggleButton>
+          </ToggleButtonGroup>
+          {loading && <CircularProgress size={20} />}
+        </Box>
+        {inherited && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            This version currently uses the schema of {shortname}. Saving here overrides it for v{version} only.
+          </Alert>
+        )}
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <TextField
+          value={schemaText}
+          onChange={(e) => setSchemaText(e.target.value)}
+          fullWidth
+          multiline
+          minRows={14}
+          disabled={loading}
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: 13 } }}
+        />
+        <Typography variant="caption" color="text.secondary">
+          Property names are full configuration keys. Use patternProperties for key families and
+          additionalProperties: false to reject unknown keys.
+        </Typography>
+      </DialogContent>
+      <DialogActions>
+        {hasOwnSchema && (
+          <Button color="error" onClick={handleRemove} disabled={saving} sx={{ mr: 'auto' }}>
+            Remove Schema
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" color="primary" disabled={loading || saving}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SchemaDialog;
@@ -0,0 +1,15 @@
+import React from 'react';
+import { Box, Chip } from '@mui/material';
+
+/**
+ * Chips listing the tags of a configuration; clicking a tag can add it to a filter
+ */
+const TagChips: React.FC<{ tags: string[]; onClick?: (tag: string) => void }> = ({ tags, onClick }) => (
+  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5 }}>
+    {tags.map((tag) => (
+      <Chip key={tag} label={tag} size="small" onClick={onClick ? () => onClick(tag) : undefined} />
+    ))}
+  </Box>
+);
+
+export default TagChips;
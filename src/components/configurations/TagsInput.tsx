@@ -0,0 +1,38 @@
+import React from 'react';
+import { Autocomplete, Chip, TextField } from '@mui/material';
+import { normalizeTags } from '../../utils/tags';
+
+/**
+ * Props for the TagsInput component
+ */
+export interface TagsInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  options: string[];
+  label: string;
+  placeholder?: string;
+  freeSolo?: boolean;
+  size?: 'small' | 'medium';
+}
+
+/**
+ * Multi-tag field used both to edit the tags of a configuration (free solo) and to filter by tags
+ */
+const TagsInput: React.FC<TagsInputProps> = ({
+  value, onChange, options, label, placeholder, freeSolo = false, size = 'medium',
+}) => (
+  <Autocomplete
+    multiple
+    freeSolo={freeSolo}
+    size={size}
+    options={options}
+    value={value}
+    onChange={(e, tags) => onChange(normalizeTags(tags as string[]))}
+    renderTags={(tags, getTagProps) => tags.map((tag, index) => (
+      <Chip label={tag} size="small" {...getTagProps({ index })} />
+    ))}
+    renderInput={(params) => <TextField {...params} label={label} placeholder={placeholder} />}
+  />
+);
+
+export default TagsInput;
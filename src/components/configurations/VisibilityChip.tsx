@@ -0,0 +1,33 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import PublicIcon from '@mui/icons-material/Public';
+import BusinessIcon from '@mui/icons-material/Business';
+import LockIcon from '@mui/icons-material/Lock';
+import { ConfigurationVisibility, CONFIGURATION_VISIBILITIES } from '../../models';
+
+const VISIBILITY_CHIPS: Record<ConfigurationVisibility, { icon: React.ReactElement; color: 'success' | 'info' | 'warning' }> = {
+  public: { icon: <PublicIcon />, color: 'success' },
+  internal: { icon: <BusinessIcon />, color: 'info' },
+  secret: { icon: <LockIcon />, color: 'warning' },
+};
+
+/**
+ * Badge showing the visibility tier of a configuration
+ */
+const VisibilityChip: React.FC<{ visibility: ConfigurationVisibility }> = ({ visibility }) => {
+  const tier = CONFIGURATION_VISIBILITIES.find(option => option.value === visibility);
+
+  return (
+    <Tooltip title={tier?.description || ''}>
+      <Chip
+        icon={VISIBILITY_CHIPS[visibility].icon}
+        label={visibility}
+        size="small"
+        color={VISIBILITY_CHIPS[visibility].color}
+        variant="outlined"
+      />
+    </Tooltip>
+  );
+};
+
+export default VisibilityChip;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Outlet, useNavigate, Link, useLocation } from 'react-router-dom';
 import {
   AppBar,
@@ -19,14 +19,26 @@ import {
   useMediaQuery,
   Avatar,
   Tooltip,
+  Badge,
+  Menu,
+  MenuItem,
 } from '@mui/material';
 import {
   Menu as MenuIcon,
   Dashboard as DashboardIcon,
   List as ListIcon,
+  Layers as LayersIcon,
+  EventBusy as EventBusyIcon,
+  History as HistoryIcon,
+  DeleteOutline as DeleteOutlineIcon,
   Logout as LogoutIcon,
+  AlternateEmail as MentionIcon,
 } from '@mui/icons-material';
 import { useAuth } from '../../contexts/AuthContext';
+import { commentsApi } from '../../services/api';
+import { UnreadMention } from '../../models';
+import { describeThread, getThreadPath } from '../../utils/comments';
+import { canReadAuditLog } from '../../utils/permissions';
 
 const drawerWidth = 240;
 
@@ -36,6 +48,8 @@ const Layout: React.FC = () => {
   const navigate = useNavigate();
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const [mentions, setMentions] = useState<UnreadMention[]>([]);
+  const [mentionsAnchor, setMentionsAnchor] = useState<HTMLElement | null>(null);
 
   const handleDrawerToggle = () => {
     setMobileOpen(!mobileOpen);
@@ -47,11 +61,28 @@ const Layout: React.FC = () => {
   };
 
   const location = useLocation();
+
+  // Unread mentions are refreshed on every page change, as reading a thread clears its mention
+  useEffect(() => {
+    commentsApi.getMentions()
+      .then(response => setMentions(response.mentions))
+      .catch(err => console.error('Error fetching mentions:', err));
+  }, [location.pathname]);
+
+  const handleMentionClick = (mention: UnreadMention) => {
+    setMentionsAnchor(null);
+    const { target, shortname, version, key } = mention;
+    navigate(getThreadPath(mention), { state: { commentThread: { target, shortname, version, key } } });
+  };
   
   const menuItems = [
     { text: 'Dashboard', icon: <DashboardIcon />, path: '/dashboard' },
     { text: 'Versions', icon: <ListIcon />, path: '/versions' },
     { text: 'Shortnames', icon: <ListIcon />, path: '/shortnames' },
+    { text: 'Global Defaults', icon: <LayersIcon />, path: '/defaults' },
+    { text: 'Deprecations', icon: <EventBusyIcon />, path: '/deprecations' },
+    ...(canReadAuditLog(authState.user) ? [{ text: 'Audit Log', icon: <HistoryIcon />, path: '/audit' }] : []),
+    { text: 'Trash', icon: <DeleteOutlineIcon />, path: '/trash' },
   ];
   
   const getInitials = (name: string) => {
@@ -169,6 +200,27 @@ const Layout: React.FC = () => {
             {authState.user?.userType === 'admin' ? 'Admin Dashboard' : 'User Dashboard'}
           </Typography>
           <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <Tooltip title="Mentions">
+              <IconButton color="inherit" onClick={(e) => setMentionsAnchor(e.currentTarget)} sx={{ mr: 1 }}>
+                <Badge badgeContent={mentions.length} color="error">
+                  <MentionIcon />
+                </Badge>
+              </IconButton>
+            </Tooltip>
+            <Menu anchorEl={mentionsAnchor} open={!!mentionsAnchor} onClose={() => setMentionsAnchor(null)}>
+              {mentions.length === 0 ? (
+                <MenuItem disabled>No unread mentions</MenuItem>
+              ) : (
+                mentions.map((mention) => (
+                  <MenuItem key={mention.threadId} onClick={() => handleMentionClick(mention)}>
+                    <ListItemText
+                      primary={`${mention.mentionedByEmail || mention.mentionedBy} mentioned you on ${describeThread(mention)}`}
+                      secondary={new Date(mention.lastMentionedAt).toLocaleString()}
+                    />
+                  </MenuItem>
+                ))
+              )}
+            </Menu>
             {authState.user && (
               <Tooltip title={authState.user.email}>
                 <Avatar 
@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Alert,
+  FormControl, InputLabel, Select, MenuItem, FormHelperText,
+} from '@mui/material';
+import { channelsApi } from '../../services/api';
+import { Version, VersionChannel } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+
+/**
+ * Props for the ChannelDialog component
+ */
+export interface ChannelDialogProps {
+  open: boolean;
+  channel?: VersionChannel;
+  versions: Version[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * Dialog for creating a channel, moving it to another version or deleting it
+ */
+const ChannelDialog: React.FC<ChannelDialogProps> = ({ open, channel, versions, onClose, onSaved }) => {
+  const [name, setName] = useState<string>('');
+  const [version, setVersion] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(channel?.channel || '');
+    setVersion(channel?.version || '');
+    setDescription(channel?.description || '');
+    setError(null);
+  }, [open, channel]);
+
+  const run = async (action: () => Promise<unknown>, fallbackMessage: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      onSaved();
+    } catch (err) {
+      console.error('Error saving channel:', err);
+      setError(parseApiError(err, fallbackMessage).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The expected version makes the move fail if someone else moved the channel meanwhile
+  const handleSave = () => {
+    if (!name || !version) {
+      setError('Channel and version are required');
+      return;
+    }
+
+    run(() => channelsApi.move(name, {
+      version,
+      expectedVersion: channel ? channel.version : null,
+      description,
+    }), 'Failed to move channel');
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{channel ? `Move Channel ${channel.channel}` : 'New Channel'}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <TextField
+          margin="dense"
+          label="Channel"
+          fullWidth
+          required
+          variant="outlined"
+          value={name}
+          onChange={(e) => setName(e.target.value.toLowerCase())}
+          disabled={Boolean(channel)}
+          helperText="e.g. stable, beta or canary"
+        />
+        <FormControl fullWidth margin="dense" required>
+          <InputLabel id="channel-version-label">Version</InputLabel>
+          <Select
+            labelId="channel-version-label"
+            value={version}
+            label="Version"
+            onChange={(e) => setVersion(e.target.value)}
+          >
+            {versions.map((item) => (
+              <MenuItem key={item.version} value={item.version}>{item.version}</MenuItem>
+            ))}
+          </Select>
+          {channel && <FormHelperText>Currently {channel.version}</FormHelperText>}
+        </FormControl>
+        <TextField
+          margin="dense"
+          label="Description"
+          fullWidth
+          variant="outlined"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+      </DialogContent>
+      <DialogActions>
+        {channel && (
+          <Button
+            color="error"
+            onClick={() => run(() => channelsApi.delete(channel.channel), 'Failed to delete channel')}
+            disabled={saving}
+            sx={{ mr: 'auto' }}
+          >
+            Delete Channel
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          {channel ? 'Move' : 'Create'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ChannelDialog;
@@ -0,0 +1,86 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Alert, CircularProgress, Box,
+  Table, TableBody, TableCell, TableHead, TableRow,
+} from '@mui/material';
+import { channelsApi } from '../../services/api';
+import { ChannelMove } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+
+/**
+ * Props for the ChannelHistoryDialog component
+ */
+export interface ChannelHistoryDialogProps {
+  open: boolean;
+  channel: string;
+  onClose: () => void;
+}
+
+/**
+ * Dialog listing the moves of a channel, newest first
+ */
+const ChannelHistoryDialog: React.FC<ChannelHistoryDialogProps> = ({ open, channel, onClose }) => {
+  const [moves, setMoves] = useState<ChannelMove[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !channel) return;
+
+    setLoading(true);
+    setError(null);
+    channelsApi.getHistory(channel)
+      .then((response) => setMoves(response.moves))
+      .catch((err) => {
+        console.error(`Error fetching history of channel ${channel}:`, err);
+        setError(parseApiError(err, 'Failed to load channel history').message);
+      })
+      .finally(() => setLoading(false));
+  }, [open, channel]);
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>History of Channel {channel}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Date</TableCell>
+                <TableCell>From</TableCell>
+                <TableCell>To</TableCell>
+                <TableCell>Moved By</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {moves.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} align="center">This channel was never moved.</TableCell>
+                </TableRow>
+              ) : (
+                moves.map((move) => (
+                  <TableRow key={move.movedAt}>
+                    <TableCell>{new Date(move.movedAt).toLocaleString()}</TableCell>
+                    <TableCell>{move.fromVersion || 'Created'}</TableCell>
+                    <TableCell>{move.toVersion || 'Deleted'}</TableCell>
+                    <TableCell>{move.movedBy}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ChannelHistoryDialog;
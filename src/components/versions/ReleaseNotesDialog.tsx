@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Alert, CircularProgress, Typography,
+} from '@mui/material';
+import { versionsApi } from '../../services/api';
+import { Version } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+
+/**
+ * Props for the ReleaseNotesDialog component
+ */
+export interface ReleaseNotesDialogProps {
+  open: boolean;
+  version: Version;
+  onClose: () => void;
+  onSaved: (version: Version) => void;
+}
+
+/**
+ * Dialog for editing the Markdown release notes of a version, generating them from the configuration
+ * changes since the previous version, and downloading them
+ */
+const ReleaseNotesDialog: React.FC<ReleaseNotesDialogProps> = ({ open, version, onClose, onSaved }) => {
+  const [releaseNotes, setReleaseNotes] = useState<string>('');
+  const [previousVersion, setPreviousVersion] = useState<string | null | undefined>(undefined);
+  const [generating, setGenerating] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setReleaseNotes(version.releaseNotes || '');
+    setPreviousVersion(undefined);
+    setError(null);
+  }, [open, version]);
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    setError(null);
+    try {
+      const generated = await versionsApi.generateReleaseNotes(version.version);
+      setReleaseNotes(generated.releaseNotes);
+      setPreviousVersion(generated.previousVersion);
+    } catch (err) {
+      console.error(`Error generating release notes of version ${version.version}:`, err);
+      setError(parseApiError(err, 'Failed to generate release notes').message);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([releaseNotes], { type: 'text/markdown;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `release-notes-${version.version}.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      const updated = await versionsApi.updateReleaseNotes(version.version, releaseNotes);
+      onSaved(updated);
+    } catch (err) {
+      console.error(`Error saving release notes of version ${version.version}:`, err);
+      setError(parseApiError(err, 'Failed to save release notes').message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Release Notes of Version {version.version}</DialogTitle>
+      <DialogContent>
+        {previousVersion !== undefined && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            {previousVersion
+              ? `Generated from the configuration changes since version ${previousVersion}. Review and save them to keep them.`
+              : 'Generated as a first release: every configuration is listed as added. Review and save them to keep them.'}
+          </Alert>
+        )}
+        {!version.releaseNotes && previousVersion === undefined && (
+          <Alert severity="info" sx={{ mb: 2 }}>
+            This version has no release notes yet. They are generated when the version is published, or generate them now from its configuration changes.
+          </Alert>
+        )}
+        <TextField
+          margin="dense"
+          label="Release notes (Markdown)"
+          fullWidth
+          multiline
+          minRows={16}
+          value={releaseNotes}
+          onChange={(e) => setReleaseNotes(e.target.value)}
+          InputProps={{ sx: { fontFamily: 'monospace', fontSize: '0.875rem' } }}
+        />
+        {version.releaseNotesUpdatedAt && (
+          <Typography variant="caption" color="text.secondary">
+            Last changed {new Date(version.releaseNotesUpdatedAt).toLocaleString()} by {version.releaseNotesUpdatedBy}.
+          </Typography>
+        )}
+        {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        {(generating || saving) && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button onClick={handleGenerate} disabled={generating || saving}>
+          Generate from Changes
+        </Button>
+        <Button onClick={handleDownload} disabled={!releaseNotes}>
+          Download
+        </Button>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={generating || saving}>
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ReleaseNotesDialog;
@@ -0,0 +1,227 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box, Typography, Button, Alert, CircularProgress, Card, CardContent, Divider, TextField, Slider,
+  FormControl, InputLabel, Select, MenuItem,
+} from '@mui/material';
+import { rolloutsApi, versionsApi } from '../../services/api';
+import { RolloutAssignment, ShortnameRollout, Version, isDeliveredVersionStatus } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+
+const PERCENTAGE_MARKS = [0, 5, 10, 25, 50, 75, 100].map(value => ({ value, label: `${value}%` }));
+
+/**
+ * Props for the RolloutPanel component
+ */
+export interface RolloutPanelProps {
+  shortname: string;
+}
+
+/**
+ * Card showing the current split of the percentage rollout of a shortname between two versions, to start
+ * it, ramp its percentage or end it, and to look up the version a client gets
+ */
+const RolloutPanel: React.FC<RolloutPanelProps> = ({ shortname }) => {
+  const [rollout, setRollout] = useState<ShortnameRollout | null>(null);
+  const [versions, setVersions] = useState<Version[]>([]);
+  const [baseVersion, setBaseVersion] = useState<string>('');
+  const [targetVersion, setTargetVersion] = useState<string>('');
+  const [percentage, setPercentage] = useState<number>(0);
+  const [clientId, setClientId] = useState<string>('');
+  const [assignment, setAssignment] = useState<RolloutAssignment | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const showRollout = (current: ShortnameRollout | null) => {
+    setRollout(current);
+    setBaseVersion(current ? current.baseVersion : '');
+    setTargetVersion(current ? current.targetVersion : '');
+    setPercentage(current ? current.percentage : 0);
+    setAssignment(null);
+  };
+
+  const fetchRollout = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [rolloutResponse, versionsResponse] = await Promise.all([
+        rolloutsApi.get(shortname),
+        versionsApi.getAll(shortname)
+      ]);
+      showRollout(rolloutResponse.rollout);
+      // Only versions delivered to consumers can be rolled out
+      setVersions(versionsResponse.versions.filter(version => isDeliveredVersionStatus(version.status)));
+      setError(null);
+    } catch (err) {
+      console.error(`Error fetching rollout of shortname ${shortname}:`, err);
+      setError(parseApiError(err, 'Failed to load rollout').message);
+    } finally {
+      setLoading(false);
+    }
+  }, [shortname]);
+
+  useEffect(() => {
+    fetchRollout();
+  }, [fetchRollout]);
+
+  const handleSave = async () => {
+    if (!baseVersion || !targetVersion) {
+      setError('Base and target versions are required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      showRollout(await rolloutsApi.save(shortname, { baseVersion, targetVersion, percentage }));
+    } catch (err) {
+      console.error(`Error saving rollout of shortname ${shortname}:`, err);
+      setError(parseApiError(err, 'Failed to save rollout').message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEnd = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await rolloutsApi.delete(shortname);
+      showRollout(null);
+    } catch (err) {
+      console.error(`Error ending rollout of shortname ${shortname}:`, err);
+      setError(parseApiError(err, 'Failed to end rollout').message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLookup = async () => {
+    if (!clientId) return;
+
+    try {
+      const response = await rolloutsApi.get(shortname, clientId);
+      setAssignment(response.assignment || null);
+    } catch (err) {
+      console.error(`Error looking up client ${clientId}:`, err);
+      setError(parseApiError(err, 'Failed to look up client').message);
+    }
+  };
+
+  const renderVersionSelect = (label: string, value: string, onChange: (version: string) => void) => (
+    <FormControl size="small" sx={{ minWidth: 160 }}>
+      <InputLabel id={`rollout-${label}-label`}>{label}</InputLabel>
+      <Select
+        labelId={`rollout-${label}-label`}
+        value={versions.some(version => version.version === value) ? value : ''}
+        label={label}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {versions.map((version) => (
+          <MenuItem key={version.version} value={version.version}>{version.version}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  const renderSplit = (current: ShortnameRollout) => (
+    <Box sx={{ mb: 3 }}>
+      <Box sx={{ display: 'flex', height: 32, borderRadius: 1, overflow: 'hidden', mb: 1 }}>
+        {current.percentage > 0 && (
+          <Box sx={{ width: `${current.percentage}%`, bgcolor: 'primary.main', color: 'primary.contrastText', display: 'flex', alignItems: 'center', px: 1 }}>
+            <Typography variant="body2" noWrap>{current.targetVersion}</Typography>
+          </Box>
+        )}
+        {current.percentage < 100 && (
+          <Box sx={{ flex: 1, bgcolor: 'grey.300', display: 'flex', alignItems: 'center', px: 1 }}>
+            <Typography variant="body2" noWrap>{current.baseVersion}</Typography>
+          </Box>
+        )}
+      </Box>
+      <Typography variant="body2" color="text.secondary">
+        {current.percentage}% of clients get {current.targetVersion}, {100 - current.percentage}% get {current.baseVersion}.
+        Last changed {new Date(current.updatedAt).toLocaleString()} by {current.updatedBy}.
+      </Typography>
+    </Box>
+  );
+
+  return (
+    <Card>
+      <CardContent>
+        <Typography variant="h6" gutterBottom>
+          Percentage Rollout
+        </Typography>
+        <Divider sx={{ mb: 2 }} />
+
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
+            <CircularProgress />
+          </Box>
+        ) : (
+          <>
+            {rollout ? renderSplit(rollout) : (
+              <Alert severity="info" sx={{ mb: 2 }}>
+                No rollout: consumers read the version they request. Start a rollout to split the clients of{' '}
+                {shortname} between two published versions, by client identifier.
+              </Alert>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+              {renderVersionSelect('Base version', baseVersion, setBaseVersion)}
+              {renderVersionSelect('Target version', targetVersion, setTargetVersion)}
+            </Box>
+            <Box sx={{ px: 1, mb: 2, maxWidth: 600 }}>
+              <Typography variant="body2" gutterBottom>
+                Share of clients getting the target version: {percentage}%
+              </Typography>
+              <Slider
+                value={percentage}
+                onChange={(e, value) => setPercentage(value as number)}
+                min={0}
+                max={100}
+                step={1}
+                marks={PERCENTAGE_MARKS}
+                valueLabelDisplay="auto"
+              />
+            </Box>
+            <Box sx={{ display: 'flex', gap: 1, mb: 3 }}>
+              <Button variant="contained" onClick={handleSave} disabled={saving || !baseVersion || !targetVersion}>
+                {rollout ? 'Update Rollout' : 'Start Rollout'}
+              </Button>
+              {rollout && (
+                <Button color="error" onClick={handleEnd} disabled={saving}>
+                  End Rollout
+                </Button>
+              )}
+            </Box>
+
+            {rollout && (
+              <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+                <TextField
+                  size="small"
+                  label="Client identifier"
+                  value={clientId}
+                  onChange={(e) => {
+                    setClientId(e.target.value);
+                    setAssignment(null);
+                  }}
+                />
+                <Button variant="outlined" onClick={handleLookup} disabled={!clientId}>
+                  Look Up
+                </Button>
+                {assignment && (
+                  <Typography variant="body2">
+                    Client {assignment.clientId} gets version {assignment.version} (bucket {assignment.bucket} of 0-99).
+                  </Typography>
+                )}
+              </Box>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RolloutPanel;
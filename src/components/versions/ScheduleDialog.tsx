@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Alert,
+  FormControl, InputLabel, Select, MenuItem, FormHelperText,
+} from '@mui/material';
+import { schedulesApi } from '../../services/api';
+import { SchedulableStatus, Version, VERSION_STATUSES, VERSION_STATUS_TRANSITIONS } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+
+const SCHEDULABLE_STATUSES: SchedulableStatus[] = ['published', 'deprecated'];
+
+// Statuses a version can be scheduled to move to from its current status
+const getSchedulableStatuses = (version?: Version): SchedulableStatus[] => (version
+  ? SCHEDULABLE_STATUSES.filter(status => VERSION_STATUS_TRANSITIONS[version.status].includes(status))
+  : []);
+
+/**
+ * Props for the ScheduleDialog component
+ */
+export interface ScheduleDialogProps {
+  open: boolean;
+  versions: Version[];
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/**
+ * Dialog for scheduling a version to be published or deprecated at a future time
+ */
+const ScheduleDialog: React.FC<ScheduleDialogProps> = ({ open, versions, onClose, onSaved }) => {
+  const [version, setVersion] = useState<string>('');
+  const [targetStatus, setTargetStatus] = useState<SchedulableStatus | ''>('');
+  const [runAt, setRunAt] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const schedulableVersions = versions.filter(item => getSchedulableStatuses(item).length > 0);
+  const targetStatuses = getSchedulableStatuses(versions.find(item => item.version === version));
+
+  useEffect(() => {
+    if (!open) return;
+    setVersion('');
+    setTargetStatus('');
+    setRunAt('');
+    setError(null);
+  }, [open]);
+
+  const handleVersionChange = (value: string) => {
+    setVersion(value);
+    const statuses = getSchedulableStatuses(versions.find(item => item.version === value));
+    setTargetStatus(statuses.length === 1 ? statuses[0] : '');
+  };
+
+  const handleSave = async () => {
+    if (!version || !targetStatus || !runAt) {
+      setError('Version, status and run time are required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      // The picked date and time are in the local time zone of the browser
+      await schedulesApi.create(version, { targetStatus, runAt: new Date(runAt).toISOString() });
+      onSaved();
+    } catch (err) {
+      console.error('Error scheduling version:', err);
+      setError(parseApiError(err, 'Failed to schedule version').message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Schedule Status Change</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        <FormControl fullWidth margin="dense" required>
+          <InputLabel id="schedule-version-label">Version</InputLabel>
+          <Select
+            labelId="schedule-version-label"
+            value={version}
+            label="Version"
+            onChange={(e) => handleVersionChange(e.target.value)}
+          >
+            {schedulableVersions.map((item) => (
+              <MenuItem key={item.version} value={item.version}>{item.version} ({item.status})</MenuItem>
+            ))}
+          </Select>
+          <FormHelperText>Only versions that can be published or deprecated are listed</FormHelperText>
+        </FormControl>
+        <FormControl fullWidth margin="dense" required disabled={!version}>
+          <InputLabel id="schedule-status-label">Move to</InputLabel>
+          <Select
+            labelId="schedule-status-label"
+            value={targetStatus}
+            label="Move to"
+            onChange={(e) => setTargetStatus(e.target.value as SchedulableStatus)}
+          >
+            {targetStatuses.map((status) => (
+              <MenuItem key={status} value={status}>
+                {VERSION_STATUSES.find(item => item.value === status)?.label}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <TextField
+          margin="dense"
+          label="Run at"
+          type="datetime-local"
+          fullWidth
+          required
+          variant="outlined"
+          value={runAt}
+          onChange={(e) => setRunAt(e.target.value)}
+          InputLabelProps={{ shrink: true }}
+          helperText="Applied within a minute of this time, if the version can still move to this status"
+        />
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSave} disabled={saving}>
+          Schedule
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default ScheduleDialog;
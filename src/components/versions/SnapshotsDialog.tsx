@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, Alert, CircularProgress, Box, TextField, Typography,
+  Table, TableBody, TableCell, TableHead, TableRow,
+} from '@mui/material';
+import { snapshotsApi } from '../../services/api';
+import { SnapshotRestoreResponse, SnapshotTrigger, VersionSnapshot } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+import VersionDiffView from './VersionDiffView';
+
+const TRIGGER_LABELS: Record<SnapshotTrigger, string> = {
+  manual: 'Manual',
+  restore: 'Before restore',
+  rename: 'Before key rename'
+};
+
+/**
+ * Props for the SnapshotsDialog component
+ */
+export interface SnapshotsDialogProps {
+  open: boolean;
+  version: string;
+  // Snapshots of a version that can no longer be modified can be taken and previewed, not restored
+  editable: boolean;
+  onClose: () => void;
+  onRestored?: (result: SnapshotRestoreResponse) => void;
+}
+
+/**
+ * Dialog listing the snapshots of a version, to take a new one or restore the version to one of them
+ * after previewing the changes
+ */
+const SnapshotsDialog: React.FC<SnapshotsDialogProps> = ({ open, version, editable, onClose, onRestored }) => {
+  const [snapshots, setSnapshots] = useState<VersionSnapshot[]>([]);
+  const [description, setDescription] = useState<string>('');
+  const [preview, setPreview] = useState<SnapshotRestoreResponse | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fetchSnapshots = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await snapshotsApi.getAll(version);
+      setSnapshots(response.snapshots);
+    } catch (err) {
+      console.error(`Error fetching snapshots of version ${version}:`, err);
+      setError(parseApiError(err, 'Failed to load snapshots').message);
+    } finally {
+      setLoading(false);
+    }
+  }, [version]);
+
+  useEffect(() => {
+    if (!open || !version) return;
+
+    setDescription('');
+    setPreview(null);
+    setError(null);
+    setNotice(null);
+    fetchSnapshots();
+  }, [open, version, fetchSnapshots]);
+
+  const handleTakeSnapshot = async () => {
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await snapshotsApi.create(version, description);
+      setDescription('');
+      setNotice('Snapshot taken.');
+      await fetchSnapshots();
+    } catch (err) {
+      console.error(`Error taking a snapshot of version ${version}:`, err);
+      setError(parseApiError(err, 'Failed to take snapshot').message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: VersionSnapshot, dryRun: boolean) => {
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const result = await snapshotsApi.restore(version, snapshot.snapshotId, dryRun);
+      if (dryRun) {
+        setPreview(result);
+        return;
+      }
+
+      setPreview(null);
+      setNotice(`Version ${version} restored to the snapshot of ${new Date(snapshot.createdAt).toLocaleString()}. A snapshot of the previous state was taken first.`);
+      await fetchSnapshots();
+      if (onRestored) onRestored(result);
+    } catch (err) {
+      console.error(`Error restoring version ${version} to snapshot ${snapshot.snapshotId}:`, err);
+      setError(parseApiError(err, 'Failed to restore snapshot').message);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderSnapshots = () => (
+    <>
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', mb: 2 }}>
+        <TextField
+          size="small"
+          label="Description"
+          fullWidth
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+        <Button variant="outlined" onClick={handleTakeSnapshot} disabled={submitting} sx={{ whiteSpace: 'nowrap' }}>
+          Take Snapshot
+        </Button>
+      </Box>
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Date</TableCell>
+              <TableCell>Trigger</TableCell>
+              <TableCell>Description</TableCell>
+              <TableCell>Contents</TableCell>
+              <TableCell>Taken By</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {snapshots.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} align="center">No snapshots of this version yet.</TableCell>
+              </TableRow>
+            ) : (
+              snapshots.map((snapshot) => (
+                <TableRow key={snapshot.snapshotId}>
+                  <TableCell>{new Date(snapshot.createdAt).toLocaleString()}</TableCell>
+                  <TableCell>{TRIGGER_LABELS[snapshot.trigger] || snapshot.trigger}</TableCell>
+                  <TableCell>{snapshot.description}</TableCell>
+                  <TableCell>{snapshot.shortnames} shortname(s), {snapshot.configurations} configuration(s)</TableCell>
+                  <TableCell>{snapshot.createdBy}</TableCell>
+                  <TableCell align="right">
+                    <Button size="small" onClick={() => handleRestore(snapshot, true)} disabled={submitting}>
+                      Preview Restore
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      )}
+    </>
+  );
+
+  const renderPreview = (restore: SnapshotRestoreResponse) => (
+    <>
+      <Typography variant="subtitle2" sx={{ mb: 2 }}>
+        Restoring to the snapshot of {new Date(restore.snapshot.createdAt).toLocaleString()}
+        {restore.snapshot.description && ` (${restore.snapshot.description})`} makes these changes:
+      </Typography>
+      {restore.shortnames.length === 0 && (
+        <Alert severity="success" sx={{ mb: 2 }}>Version {version} already matches this snapshot.</Alert>
+      )}
+      {!editable && (
+        <Alert severity="info" sx={{ mb: 2 }}>Version {version} can no longer be modified, so it cannot be restored.</Alert>
+      )}
+      <VersionDiffView changes={restore} fromLabel="Current" toLabel="Snapshot" fromVersion={version} toVersion={version} />
+    </>
+  );
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Snapshots of Version {version}</DialogTitle>
+      <DialogContent>
+        {error && <Alert severity="error" sx={{ mb: 2 }}>{error}</Alert>}
+        {notice && <Alert severity="success" sx={{ mb: 2 }}>{notice}</Alert>}
+        {preview ? renderPreview(preview) : renderSnapshots()}
+      </DialogContent>
+      <DialogActions>
+        {submitting && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        {preview ? (
+          <>
+            <Button onClick={() => setPreview(null)} disabled={submitting}>Back</Button>
+            <Button
+              variant="contained"
+              color="warning"
+              onClick={() => handleRestore(preview.snapshot, false)}
+              disabled={submitting || !editable || preview.shortnames.length === 0}
+            >
+              Restore
+            </Button>
+          </>
+        ) : (
+          <Button onClick={onClose}>Close</Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default SnapshotsDialog;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Box, Typography, Paper, Table, TableBody, TableCell, TableContainer, TableHead, TableRow, Chip,
+} from '@mui/material';
+import { ShortnameDiff, VersionChanges } from '../../models';
+import { formatValue, SECRET_MASK } from '../../utils/formatting';
+
+const STATUS_COLORS: Record<ShortnameDiff['status'], 'success' | 'error' | 'info'> = {
+  added: 'success',
+  removed: 'error',
+  changed: 'info'
+};
+
+const renderDiffValue = (value: any, secret: boolean) => (secret ? SECRET_MASK : formatValue(value));
+
+// One row per key, with the old and new values side by side
+const getRows = (diff: ShortnameDiff) => [
+  ...diff.added.map(entry => ({ key: entry.key, change: 'added', from: '', to: renderDiffValue(entry.value, entry.secret) })),
+  ...diff.removed.map(entry => ({ key: entry.key, change: 'removed', from: renderDiffValue(entry.value, entry.secret), to: '' })),
+  ...diff.changed.map(entry => ({
+    key: entry.key,
+    change: 'changed',
+    from: renderDiffValue(entry.from, entry.secret),
+    to: renderDiffValue(entry.to, entry.secret)
+  }))
+].sort((a, b) => a.key.localeCompare(b.key));
+
+/**
+ * Props for the VersionDiffView component
+ */
+export interface VersionDiffViewProps {
+  changes: VersionChanges;
+  fromLabel: string;
+  toLabel: string;
+  // Versions the shortnames link to: removed shortnames only exist in fromVersion
+  fromVersion: string;
+  toVersion: string;
+}
+
+/**
+ * Summary and per-shortname tables of the differences between two states of versions
+ */
+const VersionDiffView: React.FC<VersionDiffViewProps> = ({ changes, fromLabel, toLabel, fromVersion, toVersion }) => (
+  <>
+    <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 3 }}>
+      <Chip label={`${changes.summary.shortnamesAdded} shortname(s) added`} size="small" />
+      <Chip label={`${changes.summary.shortnamesRemoved} shortname(s) removed`} size="small" />
+      <Chip label={`${changes.summary.keysAdded} key(s) added`} size="small" />
+      <Chip label={`${changes.summary.keysRemoved} key(s) removed`} size="small" />
+      <Chip label={`${changes.summary.valuesChanged} value(s) changed`} size="small" />
+    </Box>
+
+    {changes.shortnames.map((shortnameDiff) => {
+      const version = shortnameDiff.status === 'removed' ? fromVersion : toVersion;
+      // Version defaults are stored under the wildcard shortname
+      const isVersionDefaults = shortnameDiff.shortname === '*';
+
+      return (
+        <Box key={shortnameDiff.shortname} sx={{ mb: 3 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Typography variant="h6">
+              <Link to={isVersionDefaults ? `/versions/${version}/defaults` : `/versions/${version}/shortnames/${shortnameDiff.shortname}/configurations`}>
+                {isVersionDefaults ? 'Version defaults' : shortnameDiff.shortname}
+              </Link>
+            </Typography>
+            <Chip label={shortnameDiff.status} size="small" color={STATUS_COLORS[shortnameDiff.status]} />
+          </Box>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Key</TableCell>
+                  <TableCell>Change</TableCell>
+                  <TableCell>{fromLabel}</TableCell>
+                  <TableCell>{toLabel}</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {getRows(shortnameDiff).map((row) => (
+                  <TableRow key={row.key}>
+                    <TableCell>{row.key}</TableCell>
+                    <TableCell>{row.change}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', color: 'error.main' }}>{row.from}</TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', color: 'success.main' }}>{row.to}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Box>
+      );
+    })}
+  </>
+);
+
+export default VersionDiffView;
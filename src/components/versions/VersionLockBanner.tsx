@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Alert, AlertTitle, Button } from '@mui/material';
+import LockIcon from '@mui/icons-material/Lock';
+import { versionsApi } from '../../services/api';
+import { Version } from '../../models';
+import { useAuth } from '../../contexts/AuthContext';
+import { parseApiError } from '../../utils/apiErrors';
+import { canOverrideVersionLock } from '../../utils/permissions';
+
+/**
+ * Props for the VersionLockBanner component
+ */
+export interface VersionLockBannerProps {
+  version: Version;
+  onUnlocked: (version: Version) => void;
+}
+
+/**
+ * Banner shown while a version is locked for a release, with who locked it and why. The user who
+ * locked the version and users who can override version locks can unlock it from here.
+ */
+const VersionLockBanner: React.FC<VersionLockBannerProps> = ({ version, onUnlocked }) => {
+  const { authState } = useAuth();
+  const [unlocking, setUnlocking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!version.lock) return null;
+
+  const { lock } = version;
+  const canOverride = canOverrideVersionLock(authState.user);
+  const canUnlock = canOverride || lock.lockedBy === authState.user?.userId;
+
+  const handleUnlock = async () => {
+    setUnlocking(true);
+    setError(null);
+    try {
+      onUnlocked(await versionsApi.unlock(version.version));
+    } catch (err) {
+      console.error(`Error unlocking version ${version.version}:`, err);
+      setError(parseApiError(err, 'Failed to unlock version').message);
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <Alert
+      severity="warning"
+      icon={<LockIcon />}
+      sx={{ mb: 2 }}
+      action={canUnlock && (
+        <Button color="inherit" size="small" onClick={handleUnlock} disabled={unlocking}>
+          Unlock
+        </Button>
+      )}
+    >
+      <AlertTitle>Version {version.version} is locked for release</AlertTitle>
+      Locked by {lock.owner} on {new Date(lock.lockedAt).toLocaleString()}: {lock.reason}.{' '}
+      {canOverride
+        ? 'You can override the lock, but changes should be agreed with the lock owner.'
+        : 'Its shortnames and configurations cannot be changed until it is unlocked.'}
+      {error && <div>{error}</div>}
+    </Alert>
+  );
+};
+
+export default VersionLockBanner;
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog, DialogTitle, DialogContent, DialogActions, Button, TextField, Alert, CircularProgress,
+} from '@mui/material';
+import { versionsApi } from '../../services/api';
+import { Version } from '../../models';
+import { parseApiError } from '../../utils/apiErrors';
+
+/**
+ * Props for the VersionLockDialog component
+ */
+export interface VersionLockDialogProps {
+  open: boolean;
+  version: string;
+  onClose: () => void;
+  onLocked: (version: Version) => void;
+}
+
+/**
+ * Dialog for locking a version for a release, with a reason and an owner
+ */
+const VersionLockDialog: React.FC<VersionLockDialogProps> = ({ open, version, onClose, onLocked }) => {
+  const [reason, setReason] = useState<string>('');
+  const [owner, setOwner] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setReason('');
+    setOwner('');
+    setError(null);
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      setError('Reason is required');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const locked = await versionsApi.lock(version, { reason: reason.trim(), owner: owner.trim() || undefined });
+      onLocked(locked);
+    } catch (err) {
+      console.error(`Error locking version ${version}:`, err);
+      setError(parseApiError(err, 'Failed to lock version').message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Lock Version {version} for Release</DialogTitle>
+      <DialogContent>
+        <Alert severity="info" sx={{ mb: 2 }}>
+          While the version is locked, its shortnames and configurations cannot be changed, except by users who can override version locks.
+        </Alert>
+        <TextField
+          autoFocus
+          margin="dense"
+          label="Reason"
+          placeholder="e.g. QA validation of the 2.1 release"
+          fullWidth
+          required
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <TextField
+          margin="dense"
+          label="Owner"
+          helperText="Who to ask to unlock the version; defaults to you"
+          fullWidth
+          value={owner}
+          onChange={(e) => setOwner(e.target.value)}
+        />
+        {error && <Alert severity="error" sx={{ mt: 1 }}>{error}</Alert>}
+      </DialogContent>
+      <DialogActions>
+        {saving && <CircularProgress size={20} sx={{ mr: 1 }} />}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={saving}>
+          Lock
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default VersionLockDialog;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import { VersionStatus, VERSION_STATUSES } from '../../models';
+
+const STATUS_COLORS: Record<VersionStatus, 'default' | 'info' | 'success' | 'warning' | 'error'> = {
+  draft: 'default',
+  in_review: 'info',
+  published: 'success',
+  deprecated: 'warning',
+  archived: 'error',
+};
+
+/**
+ * Badge showing the lifecycle status of a version
+ */
+const VersionStatusChip: React.FC<{ status: VersionStatus }> = ({ status }) => {
+  const option = VERSION_STATUSES.find(item => item.value === status);
+
+  return (
+    <Tooltip title={option?.description || ''}>
+      <Chip label={option?.label || status} size="small" color={STATUS_COLORS[status]} />
+    </Tooltip>
+  );
+};
+
+export default VersionStatusChip;
@@ -27,6 +27,7 @@ export const API_ENDPOINTS = {
     ALL: `${API_BASE_URL}/versions`,
     CREATE: `${API_BASE_URL}/versions`,
     DETAIL_BY_ID: (version: string) => `${API_BASE_URL}/versions/${version}`,
+    DUPLICATE: (version: string) => `${API_BASE_URL}/versions/${version}:duplicate`,
     SHORTNAMES: (version: string) => `${API_BASE_URL}/versions/${version}/shortnames`,
     
     // Legacy shortname-first approach endpoints (kept for backward compatibility)
@@ -37,6 +38,7 @@ export const API_ENDPOINTS = {
   CONFIGURATIONS: {
     BY_VERSION: (shortname: string, version: string) => `${API_BASE_URL}/shortnames/${shortname}/versions/${version}/configurations`,
     DETAIL: (shortname: string, version: string, configId: string) => `${API_BASE_URL}/shortnames/${shortname}/versions/${version}/configurations/${configId}`,
+    REVEAL: (shortname: string, version: string, configId: string) => `${API_BASE_URL}/shortnames/${shortname}/versions/${version}/configurations/${configId}/reveal`,
   },
 };
 
@@ -0,0 +1,60 @@
+/**
+ * Audit log related types
+ */
+
+/**
+ * Entities whose creates, updates and deletes are audited
+ */
+export type AuditEntity = 'shortname' | 'version' | 'configuration' | 'user';
+
+/**
+ * Audited actions; a reveal is the read of a secret configuration value
+ */
+export type AuditAction = 'create' | 'update' | 'delete' | 'reveal';
+
+export const AUDIT_ENTITIES: Array<{ value: AuditEntity; label: string }> = [
+  { value: 'shortname', label: 'Shortname' },
+  { value: 'version', label: 'Version' },
+  { value: 'configuration', label: 'Configuration' },
+  { value: 'user', label: 'User' },
+];
+
+/**
+ * Audit log entry: one create, update or delete, with the item before and after it (null when it did not
+ * exist), or one reveal, with the key revealed after it. Secret values are null and password hashes are left out.
+ */
+export interface AuditEntry {
+  auditId: string;
+  timestamp: string;
+  entity: AuditEntity;
+  action: AuditAction;
+  entityId: string;
+  actor: string;
+  actorEmail?: string;
+  requestId: string | null;
+  shortname?: string;
+  version?: string;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+}
+
+/**
+ * Audit log filters; dates are YYYY-MM-DD and the end date includes the whole day
+ */
+export interface AuditFilters {
+  actor?: string;
+  entity?: AuditEntity;
+  shortname?: string;
+  version?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * Audit log response interface; truncated is set when older entries match the filters too
+ */
+export interface AuditLogResponse {
+  entries: AuditEntry[];
+  truncated: boolean;
+}
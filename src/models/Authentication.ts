@@ -9,6 +9,7 @@ export interface User {
   userId: string;
   email: string;
   userType: 'admin' | 'user';
+  permissions?: string[];
 }
 
 /**
@@ -0,0 +1,90 @@
+/**
+ * Change request related types
+ */
+
+import { Configuration, ConfigurationValueType, ConfigurationVisibility } from './Configuration';
+
+/**
+ * Change requests are pending until reviewed: approving one applies all of its changes at once
+ */
+export type ChangeRequestStatus = 'pending' | 'applied' | 'rejected';
+
+export type ChangeRequestAction = 'create' | 'update' | 'delete';
+
+export const CHANGE_REQUEST_STATUSES: Array<{ value: ChangeRequestStatus; label: string }> = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'applied', label: 'Applied' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+/**
+ * Maximum number of changes a change request can hold
+ */
+export const MAX_CHANGE_REQUEST_CHANGES = 25;
+
+/**
+ * Attributes of a configuration a change may set
+ */
+export interface ChangeAttributes {
+  value?: any;
+  valueType?: ConfigurationValueType;
+  enumOptions?: string[];
+  visibility?: ConfigurationVisibility;
+  tags?: string[];
+  description?: string;
+}
+
+/**
+ * Change proposed in a change request: a configuration to create (by key), or to update or delete (by ID)
+ */
+export interface ProposedChange extends ChangeAttributes {
+  action: ChangeRequestAction;
+  configId?: string;
+  key?: string;
+}
+
+/**
+ * Change as stored in a change request, with the configuration it was proposed against. Proposed secret
+ * values are null.
+ */
+export interface ChangeRequestChange extends ProposedChange {
+  key: string;
+  secret?: boolean;
+  before?: Configuration;
+  baseUpdatedAt?: string;
+}
+
+/**
+ * Change request to the configurations of a published version, or to its defaults when shortname is "*", or to the
+ * global defaults when version is "*" too
+ */
+export interface ChangeRequest {
+  changeRequestId: string;
+  shortname: string;
+  version: string;
+  status: ChangeRequestStatus;
+  comment: string;
+  changes: ChangeRequestChange[];
+  createdBy: string;
+  createdByEmail?: string;
+  createdAt: string;
+  reviewedBy?: string;
+  reviewedByEmail?: string;
+  reviewedAt?: string;
+  reviewComment?: string;
+}
+
+/**
+ * Change request creation payload
+ */
+export interface ChangeRequestFormData {
+  comment: string;
+  changes: ProposedChange[];
+}
+
+/**
+ * Change requests response interface
+ */
+export interface ChangeRequestsResponse {
+  changeRequests: ChangeRequest[];
+}
@@ -0,0 +1,50 @@
+/**
+ * Version channel related types
+ */
+
+/**
+ * A named channel (e.g. stable, beta, canary) pointing to a version
+ */
+export interface VersionChannel {
+  channel: string;
+  version: string;
+  description: string;
+  createdAt: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+/**
+ * Channel move request interface; expectedVersion guards against concurrent moves (null for a new channel)
+ */
+export interface ChannelMoveRequest {
+  version: string;
+  expectedVersion?: string | null;
+  description?: string;
+}
+
+/**
+ * Version channels response interface
+ */
+export interface VersionChannelsResponse {
+  channels: VersionChannel[];
+}
+
+/**
+ * A move of a channel; toVersion is null when the channel was deleted
+ */
+export interface ChannelMove {
+  channel: string;
+  movedAt: string;
+  fromVersion: string | null;
+  toVersion: string | null;
+  movedBy: string;
+}
+
+/**
+ * Channel history response interface
+ */
+export interface ChannelHistoryResponse {
+  channel: string;
+  moves: ChannelMove[];
+}
@@ -0,0 +1,89 @@
+/**
+ * Comment related types
+ */
+
+/**
+ * What a discussion thread is about: a version, a shortname within a version, or a configuration key of a layer
+ */
+export type CommentTarget = 'version' | 'shortname' | 'configuration';
+
+/**
+ * Maximum number of characters of a comment
+ */
+export const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Thread a comment belongs to. The shortname is "*" for the defaults layers, and the version "*" for the global
+ * defaults.
+ */
+export interface CommentThreadRef {
+  target: CommentTarget;
+  version: string;
+  shortname?: string;
+  key?: string;
+}
+
+/**
+ * User mentioned in a comment, as @ followed by their email
+ */
+export interface CommentMention {
+  userId: string;
+  email: string;
+}
+
+/**
+ * Comment model
+ */
+export interface Comment extends CommentThreadRef {
+  commentId: string;
+  threadId: string;
+  body: string;
+  mentions: CommentMention[];
+  createdBy: string;
+  createdByEmail?: string;
+  createdAt: string;
+}
+
+/**
+ * Discussion thread, unread when someone else commented since the user last read it
+ */
+export interface CommentThread extends CommentThreadRef {
+  threadId: string;
+  commentCount: number;
+  lastCommentAt: string;
+  lastCommentBy: string;
+  lastCommentByEmail?: string;
+  unread?: boolean;
+}
+
+/**
+ * Thread the user was mentioned in and has not read since
+ */
+export interface UnreadMention extends CommentThreadRef {
+  threadId: string;
+  lastMentionedAt: string;
+  mentionedBy: string;
+  mentionedByEmail?: string;
+}
+
+/**
+ * Comments response interface
+ */
+export interface CommentsResponse {
+  thread: CommentThread | null;
+  comments: Comment[];
+}
+
+/**
+ * Comment threads response interface
+ */
+export interface CommentThreadsResponse {
+  threads: CommentThread[];
+}
+
+/**
+ * Unread mentions response interface
+ */
+export interface UnreadMentionsResponse {
+  mentions: UnreadMention[];
+}
@@ -1,3 +1,58 @@
+/**
+ * Supported configuration value types
+ */
+export type ConfigurationValueType = 'string' | 'number' | 'boolean' | 'json' | 'enum' | 'url' | 'color';
+
+/**
+ * Value types offered in the configuration editor, in display order
+ */
+export const CONFIGURATION_VALUE_TYPES: Array<{ value: ConfigurationValueType; label: string }> = [
+  { value: 'string', label: 'String' },
+  { value: 'number', label: 'Number' },
+  { value: 'boolean', label: 'Boolean' },
+  { value: 'json', label: 'JSON' },
+  { value: 'enum', label: 'Enum' },
+  { value: 'url', label: 'URL' },
+  { value: 'color', label: 'Color' },
+];
+
+/**
+ * Visibility tiers: who may read a configuration
+ */
+export type ConfigurationVisibility = 'public' | 'internal' | 'secret';
+
+/**
+ * Visibility tiers offered in the configuration editor, in display order
+ */
+export const CONFIGURATION_VISIBILITIES: Array<{ value: ConfigurationVisibility; label: string; description: string }> = [
+  { value: 'public', label: 'Public', description: 'Delivered to end-user SDKs' },
+  { value: 'internal', label: 'Internal', description: 'Only delivered to backend services' },
+  { value: 'secret', label: 'Secret', description: 'Internal, stored encrypted and masked in lists' },
+];
+
+/**
+ * Configuration layers, from lowest to highest precedence
+ */
+export type ConfigurationLayer = 'global' | 'version' | 'shortname';
+
+/**
+ * Display labels of the configuration layers
+ */
+export const CONFIGURATION_LAYER_LABELS: Record<ConfigurationLayer, string> = {
+  global: 'Global default',
+  version: 'Version default',
+  shortname: 'Shortname override',
+};
+
+/**
+ * The layer a set of configurations belongs to, with the shortname and version it applies to
+ */
+export interface ConfigurationScope {
+  layer: ConfigurationLayer;
+  shortname?: string;
+  version?: string;
+}
+
 /**
  * Configuration model class
  */
@@ -5,9 +60,15 @@ export class Configuration {
   configId: string;
   key: string;
   value: any;
+  valueType: ConfigurationValueType;
+  enumOptions?: string[];
+  visibility: ConfigurationVisibility;
+  secret: boolean;
+  tags: string[];
   description: string;
   shortname: string;
   version: string;
+  revision?: number;
   createdAt: string;
   updatedAt: string;
 
@@ -15,9 +76,15 @@ export class Configuration {
     this.configId = data.configId || '';
     this.key = data.key || '';
     this.value = data.value;
+    this.valueType = data.valueType || 'string';
+    this.enumOptions = data.enumOptions;
+    this.secret = data.secret || data.visibility === 'secret';
+    this.visibility = data.visibility || (this.secret ? 'secret' : 'public');
+    this.tags = data.tags || [];
     this.description = data.description || '';
     this.shortname = data.shortname || '';
     this.version = data.version || '';
+    this.revision = data.revision;
     this.createdAt = data.createdAt || new Date().toISOString();
     this.updatedAt = data.updatedAt || new Date().toISOString();
   }
@@ -72,6 +139,10 @@ export class Configuration {
     return {
       key: this.key,
       value: this.value,
+      valueType: this.valueType,
+      enumOptions: this.enumOptions,
+      visibility: this.visibility,
+      tags: this.tags,
       description: this.description,
     };
   }
@@ -84,21 +155,36 @@ export class Configuration {
       configId: data.configId,
       key: data.key,
       value: data.value,
+      valueType: data.valueType,
+      enumOptions: data.enumOptions,
+      visibility: data.visibility,
+      secret: data.secret,
+      tags: data.tags,
       description: data.description,
       shortname: data.shortname,
       version: data.version,
+      revision: data.revision,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
     });
   }
 }
 
+/**
+ * Created configuration response, with warnings such as the use of a deprecated key
+ */
+export type ConfigurationCreateResponse = Configuration & { warnings?: string[] };
+
 /**
  * Configuration form data interface
  */
 export interface ConfigurationFormData {
   key: string;
   value: any;
+  valueType: ConfigurationValueType;
+  enumOptions?: string[];
+  visibility?: ConfigurationVisibility;
+  tags?: string[];
   description: string;
 }
 
@@ -108,3 +194,123 @@ export interface ConfigurationFormData {
 export interface ConfigurationResponse {
   configurations: Configuration[];
 }
+
+/**
+ * Configurations of every shortname of a version, filtered by tags
+ */
+export interface VersionConfigurationsResponse {
+  version: string;
+  tags: string[];
+  configurations: Configuration[];
+}
+
+/**
+ * The value a layer defines for a resolved key
+ */
+export interface ResolvedConfigurationLayerValue {
+  layer: ConfigurationLayer;
+  configId: string;
+  value: any;
+  secret: boolean;
+  updatedAt: string;
+}
+
+/**
+ * The effective configuration of a key, with the chain of layers that define it
+ */
+export interface ResolvedConfiguration {
+  key: string;
+  value: any;
+  valueType: ConfigurationValueType;
+  visibility: ConfigurationVisibility;
+  secret: boolean;
+  tags: string[];
+  description: string;
+  configId: string;
+  source: ConfigurationLayer;
+  chain: ResolvedConfigurationLayerValue[];
+  rawValue?: any;
+  interpolationError?: string;
+}
+
+/**
+ * Resolved configurations response interface
+ */
+export interface ResolvedConfigurationResponse {
+  shortname: string;
+  version: string;
+  layers: ConfigurationLayer[];
+  configurations: ResolvedConfiguration[];
+}
+
+/**
+ * Revealed secret value response interface
+ */
+export interface SecretRevealResponse {
+  configId: string;
+  key: string;
+  value: any;
+}
+
+/**
+ * A configuration affected by a key rename
+ */
+export interface KeyRenameAffectedConfiguration {
+  configId: string;
+  shortname: string;
+  version: string;
+  key: string;
+}
+
+/**
+ * Key rename options
+ */
+export interface KeyRenameRequest {
+  newKey: string;
+  allScopes?: boolean;
+  dryRun?: boolean;
+}
+
+/**
+ * Key rename response interface: the renamed configurations, and the configurations whose
+ * references to the old key are rewritten. snapshotIds holds the snapshot taken of each affected
+ * version before the rename.
+ */
+export interface KeyRenameResponse {
+  oldKey: string;
+  newKey: string;
+  dryRun?: boolean;
+  configurations: KeyRenameAffectedConfiguration[];
+  references: KeyRenameAffectedConfiguration[];
+  conflicts?: KeyRenameAffectedConfiguration[];
+  snapshotIds?: Record<string, string>;
+}
+
+/**
+ * A numbered revision of a configuration, stored by every write. Secret values are never returned.
+ * revertedFrom is the revision a revert went back to.
+ */
+export interface ConfigurationRevision {
+  configId: string;
+  revision: number;
+  key: string;
+  value: any;
+  valueType?: ConfigurationValueType;
+  enumOptions?: string[];
+  visibility: ConfigurationVisibility;
+  secret?: boolean;
+  tags?: string[];
+  description?: string;
+  createdBy: string;
+  createdAt: string;
+  revertedFrom?: number;
+}
+
+/**
+ * Configuration revisions response interface, newest revision first
+ */
+export interface ConfigurationRevisionsResponse {
+  configId: string;
+  key: string;
+  revisions: ConfigurationRevision[];
+}
@@ -0,0 +1,52 @@
+/**
+ * Key deprecation related types
+ */
+
+/**
+ * A deprecated configuration key; deprecation applies to the key in every shortname and version
+ */
+export interface KeyDeprecation {
+  key: string;
+  replacementKey?: string;
+  sunsetDate: string;
+  reason?: string;
+  deprecatedBy: string;
+  deprecatedAt: string;
+}
+
+/**
+ * Key deprecation form data interface
+ */
+export interface KeyDeprecationFormData {
+  replacementKey?: string;
+  sunsetDate: string;
+  reason?: string;
+}
+
+/**
+ * Key deprecations response interface
+ */
+export interface KeyDeprecationsResponse {
+  deprecations: KeyDeprecation[];
+}
+
+/**
+ * A shortname and version still using a deprecated key
+ */
+export interface DeprecatedKeyUsage {
+  key: string;
+  shortname: string;
+  version: string;
+  configId: string;
+  replacementKey?: string;
+  sunsetDate: string;
+  pastSunset: boolean;
+}
+
+/**
+ * Deprecation report response interface
+ */
+export interface DeprecationReportResponse {
+  date: string;
+  usages: DeprecatedKeyUsage[];
+}
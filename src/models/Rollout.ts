@@ -0,0 +1,45 @@
+/**
+ * Percentage rollout related types
+ */
+
+/**
+ * Percentage rollout of a shortname: percentage % of the clients get the target version, the others the
+ * base version. Clients are assigned by a hash of their identifier, so they keep their version.
+ */
+export interface ShortnameRollout {
+  shortname: string;
+  baseVersion: string;
+  targetVersion: string;
+  percentage: number;
+  createdBy: string;
+  createdAt: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+/**
+ * Version a client gets from a rollout, and the bucket (0 to 99) its identifier hashes to
+ */
+export interface RolloutAssignment {
+  clientId: string;
+  version: string;
+  bucket: number;
+}
+
+/**
+ * Rollout response interface; rollout is null when the shortname has none
+ */
+export interface ShortnameRolloutResponse {
+  shortname: string;
+  rollout: ShortnameRollout | null;
+  assignment?: RolloutAssignment;
+}
+
+/**
+ * Rollout request interface
+ */
+export interface RolloutRequest {
+  baseVersion: string;
+  targetVersion: string;
+  percentage: number;
+}
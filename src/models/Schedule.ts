@@ -0,0 +1,48 @@
+/**
+ * Scheduled version status change related types
+ */
+
+import { VersionStatus } from './Version';
+
+/**
+ * Statuses a version can be scheduled to move to
+ */
+export type SchedulableStatus = Extract<VersionStatus, 'published' | 'deprecated'>;
+
+/**
+ * Status of a schedule: pending until the scheduler applies it
+ */
+export type ScheduleStatus = 'pending' | 'running' | 'applied' | 'failed' | 'cancelled';
+
+/**
+ * A version status change scheduled at a future time
+ */
+export interface VersionSchedule {
+  scheduleId: string;
+  version: string;
+  targetStatus: SchedulableStatus;
+  runAt: string;
+  status: ScheduleStatus;
+  createdBy: string;
+  createdAt: string;
+  appliedAt?: string;
+  failedAt?: string;
+  error?: string;
+  cancelledBy?: string;
+  cancelledAt?: string;
+}
+
+/**
+ * Schedule request interface; runAt is an ISO 8601 timestamp
+ */
+export interface ScheduleRequest {
+  targetStatus: SchedulableStatus;
+  runAt: string;
+}
+
+/**
+ * Version schedules response interface, sorted by run time
+ */
+export interface VersionSchedulesResponse {
+  schedules: VersionSchedule[];
+}
@@ -0,0 +1,59 @@
+/**
+ * Configuration schema related types
+ */
+
+/**
+ * A JSON Schema describing the allowed configuration keys and the shape of their values
+ */
+export type ConfigurationSchemaDocument = Record<string, any>;
+
+/**
+ * Where an effective schema is attached
+ */
+export type SchemaSource = 'version' | 'shortname';
+
+/**
+ * A single schema violation
+ */
+export interface SchemaViolation {
+  field?: 'key' | 'value';
+  path: string;
+  message: string;
+}
+
+/**
+ * Schema violations of one configuration
+ */
+export interface ConfigurationConformance {
+  configId: string;
+  key: string;
+  errors: SchemaViolation[];
+}
+
+/**
+ * Schema response interface
+ */
+export interface ConfigurationSchemaResponse {
+  schema: ConfigurationSchemaDocument | null;
+  source: SchemaSource | null;
+  violations?: ConfigurationConformance[];
+  missingKeys?: string[];
+  updatedAt?: string | null;
+}
+
+/**
+ * Schema save response interface, listing the versions that no longer conform
+ */
+export interface SchemaSaveResponse {
+  schemaId: string;
+  shortname: string;
+  version?: string;
+  schema: ConfigurationSchemaDocument;
+  updatedBy: string;
+  updatedAt: string;
+  nonConforming: Array<{
+    version: string;
+    violations: ConfigurationConformance[];
+    missingKeys: string[];
+  }>;
+}
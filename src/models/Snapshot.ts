@@ -0,0 +1,44 @@
+/**
+ * Version snapshot related types
+ */
+
+import { VersionChanges } from './VersionDiff';
+
+/**
+ * What took a snapshot: a user, or the operation the snapshot precedes
+ */
+export type SnapshotTrigger = 'manual' | 'restore' | 'rename';
+
+/**
+ * An immutable snapshot of the shortname links and configurations of a version
+ */
+export interface VersionSnapshot {
+  version: string;
+  snapshotId: string;
+  trigger: SnapshotTrigger;
+  description: string;
+  shortnames: number;
+  configurations: number;
+  createdBy: string;
+  createdAt: string;
+}
+
+/**
+ * Version snapshots response interface, newest first
+ */
+export interface VersionSnapshotsResponse {
+  version: string;
+  snapshots: VersionSnapshot[];
+}
+
+/**
+ * Snapshot restore response interface: the changes from the current state of the version to the snapshot.
+ * preRestoreSnapshotId is the snapshot taken before the restore, to undo it.
+ */
+export interface SnapshotRestoreResponse extends VersionChanges {
+  version: string;
+  snapshot: VersionSnapshot;
+  dryRun?: boolean;
+  message?: string;
+  preRestoreSnapshotId?: string;
+}
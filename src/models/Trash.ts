@@ -0,0 +1,51 @@
+/**
+ * Trash related types
+ */
+
+/**
+ * Entities whose deletions are moved to the trash
+ */
+export type TrashEntity = 'shortname' | 'version' | 'configuration';
+
+export const TRASH_ENTITIES: Array<{ value: TrashEntity; label: string }> = [
+  { value: 'shortname', label: 'Shortname' },
+  { value: 'version', label: 'Version' },
+  { value: 'configuration', label: 'Configuration' },
+];
+
+/**
+ * Number of days a deletion stays in the trash before it expires
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Deletion in the trash: a shortname with its versions and configurations, a version with its shortnames and
+ * configurations (or the version of one shortname, when shortname is set), or a configuration
+ */
+export interface TrashEntry {
+  deletionId: string;
+  entity: TrashEntity;
+  entityId: string;
+  shortname?: string;
+  version?: string;
+  // Key of a deleted configuration
+  key?: string;
+  deletedBy: string;
+  deletedByEmail?: string;
+  deletedAt: string;
+  // Epoch time in seconds
+  expiresAt: number;
+  counts: {
+    shortnames: number;
+    versions: number;
+    shortnameVersions: number;
+    configurations: number;
+  };
+}
+
+/**
+ * Trash response interface
+ */
+export interface TrashResponse {
+  entries: TrashEntry[];
+}
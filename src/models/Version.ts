@@ -1,3 +1,93 @@
+/**
+ * Version lifecycle statuses
+ */
+export type VersionStatus = 'draft' | 'in_review' | 'published' | 'deprecated' | 'archived';
+
+/**
+ * Version lifecycle statuses, in lifecycle order
+ */
+export const VERSION_STATUSES: Array<{ value: VersionStatus; label: string; description: string }> = [
+  { value: 'draft', label: 'Draft', description: 'Being edited, not delivered to consumers' },
+  { value: 'in_review', label: 'In review', description: 'Awaiting approval, not delivered to consumers' },
+  { value: 'published', label: 'Published', description: 'Delivered to consumers; configurations are immutable' },
+  { value: 'deprecated', label: 'Deprecated', description: 'Still delivered to consumers, to be archived' },
+  { value: 'archived', label: 'Archived', description: 'No longer delivered to consumers' },
+];
+
+/**
+ * Statuses a version can move to from each status, as enforced by the server
+ */
+export const VERSION_STATUS_TRANSITIONS: Record<VersionStatus, VersionStatus[]> = {
+  draft: ['in_review', 'archived'],
+  in_review: ['draft', 'published'],
+  published: ['deprecated'],
+  deprecated: ['published', 'archived'],
+  archived: [],
+};
+
+/**
+ * Whether the configurations of a version with the given status can still be edited
+ */
+export const isEditableVersionStatus = (status: VersionStatus): boolean =>
+  status === 'draft' || status === 'in_review';
+
+/**
+ * Whether a version with the given status is delivered to consumers
+ */
+export const isDeliveredVersionStatus = (status: VersionStatus): boolean =>
+  status === 'published' || status === 'deprecated';
+
+/**
+ * Record of a server-side copy of a version; a version whose copy is in progress or incomplete
+ * does not hold every configuration of its source version
+ */
+export interface VersionDuplication {
+  sourceVersion: string;
+  status: 'in_progress' | 'complete' | 'incomplete';
+  startedAt: string;
+  completedAt?: string;
+  copied?: VersionDuplicateCopied;
+  error?: string;
+}
+
+/**
+ * What a version duplication copied
+ */
+export interface VersionDuplicateCopied {
+  shortnames: string[];
+  configurations: number;
+  versionDefaults: number;
+}
+
+/**
+ * Release lock of a version: while it is set, writes to the shortnames and configurations of the
+ * version are rejected, except for users who can override version locks
+ */
+export interface VersionLock {
+  reason: string;
+  owner: string;
+  lockedBy: string;
+  lockedAt: string;
+}
+
+/**
+ * Version lock request interface; the owner defaults to the email of the user locking the version
+ */
+export interface VersionLockRequest {
+  reason: string;
+  owner?: string;
+}
+
+/**
+ * Release notes generated from the configuration changes of a version since a previous version,
+ * in Markdown; they are returned to be edited and are not stored
+ */
+export interface ReleaseNotesResponse {
+  version: string;
+  previousVersion: string | null;
+  releaseNotes: string;
+}
+
 /**
  * Version model class
  */
@@ -5,28 +95,38 @@ export class Version {
   versionId: string;
   version: string;
   description: string;
-  isActive: boolean;
+  status: VersionStatus;
   createdAt: string;
   updatedAt: string;
   shortname?: string;
   createdBy?: string;
+  duplication?: VersionDuplication;
+  lock?: VersionLock;
+  releaseNotes?: string;
+  releaseNotesUpdatedBy?: string;
+  releaseNotesUpdatedAt?: string;
 
   constructor(data: Partial<Version>) {
     this.versionId = data.versionId || '';
     this.version = data.version || '';
     this.description = data.description || '';
-    this.isActive = data.isActive ?? true;
+    this.status = data.status || 'draft';
     this.createdAt = data.createdAt || new Date().toISOString();
     this.updatedAt = data.updatedAt || new Date().toISOString();
     this.shortname = data.shortname;
     this.createdBy = data.createdBy || 'System';
+    this.duplication = data.duplication;
+    this.lock = data.lock;
+    this.releaseNotes = data.releaseNotes;
+    this.releaseNotesUpdatedBy = data.releaseNotesUpdatedBy;
+    this.releaseNotesUpdatedAt = data.releaseNotesUpdatedAt;
   }
 
   /**
-   * Check if the version is active
+   * Check if the configurations of the version can still be edited
    */
-  isActiveVersion(): boolean {
-    return this.isActive;
+  isEditable(): boolean {
+    return isEditableVersionStatus(this.status);
   }
 
   /**
@@ -50,7 +150,6 @@ export class Version {
     return {
       version: this.version,
       description: this.description,
-      isActive: this.isActive,
     };
   }
 
@@ -62,11 +161,16 @@ export class Version {
       versionId: data.versionId,
       version: data.version,
       description: data.description,
-      isActive: data.isActive,
+      status: data.status,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
       shortname: data.shortname,
       createdBy: data.createdBy,
+      duplication: data.duplication,
+      lock: data.lock,
+      releaseNotes: data.releaseNotes,
+      releaseNotesUpdatedBy: data.releaseNotesUpdatedBy,
+      releaseNotesUpdatedAt: data.releaseNotesUpdatedAt,
     });
   }
 }
@@ -77,7 +181,13 @@ export class Version {
 export interface VersionFormData {
   version: string;
   description: string;
-  isActive: boolean;
+}
+
+/**
+ * Version duplicate response interface
+ */
+export interface VersionDuplicateResponse extends Version {
+  copied: VersionDuplicateCopied;
 }
 
 /**
@@ -0,0 +1,55 @@
+/**
+ * Version comparison related types
+ */
+
+/**
+ * A key present in only one of the compared versions; secret values are null
+ */
+export interface KeyDiffEntry {
+  key: string;
+  value: any;
+  secret: boolean;
+}
+
+/**
+ * A key whose value differs between the compared versions; secret values are null
+ */
+export interface ValueChange {
+  key: string;
+  from: any;
+  to: any;
+  secret: boolean;
+}
+
+/**
+ * The differences of a shortname between two versions, version defaults included
+ */
+export interface ShortnameDiff {
+  shortname: string;
+  status: 'added' | 'removed' | 'changed';
+  added: KeyDiffEntry[];
+  removed: KeyDiffEntry[];
+  changed: ValueChange[];
+}
+
+/**
+ * The differences of every shortname between two states of versions; unchanged shortnames are left out
+ */
+export interface VersionChanges {
+  summary: {
+    shortnamesAdded: number;
+    shortnamesRemoved: number;
+    keysAdded: number;
+    keysRemoved: number;
+    valuesChanged: number;
+  };
+  shortnames: ShortnameDiff[];
+}
+
+/**
+ * Version diff response interface
+ */
+export interface VersionDiffResponse extends VersionChanges {
+  from: string;
+  to: string;
+}
@@ -7,3 +7,14 @@ export * from './Version';
 export * from './Shortname';
 export * from './Configuration';
 export * from './Authentication';
+export * from './Schema';
+export * from './Deprecation';
+export * from './Channel';
+export * from './VersionDiff';
+export * from './Snapshot';
+export * from './Schedule';
+export * from './Rollout';
+export * from './Audit';
+export * from './Trash';
+export * from './ChangeRequest';
+export * from './Comment';
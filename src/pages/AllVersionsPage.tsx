@@ -26,28 +26,61 @@ import {
   Select,
   FormControl,
   InputLabel,
-  FormHelperText
+  FormHelperText,
+  Chip,
+  Tooltip
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import DeleteIcon from '@mui/icons-material/Delete';
-import { versionsApi } from '../services/api';
-import { Version, VersionFormData } from '../models';
+import HistoryIcon from '@mui/icons-material/History';
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows';
+import RestoreIcon from '@mui/icons-material/Restore';
+import LockIcon from '@mui/icons-material/Lock';
+import ScheduleIcon from '@mui/icons-material/Schedule';
+import { channelsApi, commentsApi, schedulesApi, versionsApi } from '../services/api';
+import { CommentThread, CommentThreadRef, Version, VersionChannel, VersionFormData, VersionSchedule, VersionStatus, VERSION_STATUSES, VERSION_STATUS_TRANSITIONS, isEditableVersionStatus, TRASH_RETENTION_DAYS } from '../models';
+import VersionStatusChip from '../components/versions/VersionStatusChip';
+import ChannelDialog from '../components/versions/ChannelDialog';
+import ChannelHistoryDialog from '../components/versions/ChannelHistoryDialog';
+import SnapshotsDialog from '../components/versions/SnapshotsDialog';
+import ScheduleDialog from '../components/versions/ScheduleDialog';
+import CommentBadge from '../components/comments/CommentBadge';
+import CommentsDrawer from '../components/comments/CommentsDrawer';
+import { parseApiError } from '../utils/apiErrors';
+import { validateVersion } from '../utils/validation';
+import { findLatestVersions, isPrerelease, sortByVersionDescending } from '../utils/semver';
+import { indexThreads } from '../utils/comments';
 
 const AllVersionsPage: React.FC = () => {
   const navigate = useNavigate();
   const [versions, setVersions] = useState<Version[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState<boolean>(false);
   const [openDialog, setOpenDialog] = useState<boolean>(false);
   const [formData, setFormData] = useState<VersionFormData>({
     version: '',
-    description: '',
-    isActive: true
+    description: ''
   });
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState<boolean>(false);
   const [versionToDelete, setVersionToDelete] = useState<string | null>(null);
   const [duplicateFromVersion, setDuplicateFromVersion] = useState<string>('');
   const [isDuplicating, setIsDuplicating] = useState<boolean>(false);
+  const [channels, setChannels] = useState<VersionChannel[]>([]);
+  const [channelDialogOpen, setChannelDialogOpen] = useState<boolean>(false);
+  const [editingChannel, setEditingChannel] = useState<VersionChannel | undefined>(undefined);
+  const [historyChannel, setHistoryChannel] = useState<string | null>(null);
+  const [snapshotsVersion, setSnapshotsVersion] = useState<Version | null>(null);
+  const [schedules, setSchedules] = useState<VersionSchedule[]>([]);
+  const [scheduleDialogOpen, setScheduleDialogOpen] = useState<boolean>(false);
+  const [commentThreads, setCommentThreads] = useState<Record<string, CommentThread>>({});
+  const [commentThread, setCommentThread] = useState<CommentThreadRef | null>(null);
+
+  // Versions are listed from the highest to the lowest semantic version
+  const sortedVersions = useMemo(() => sortByVersionDescending(versions), [versions]);
+  const { latest, latestStable } = useMemo(() => findLatestVersions(versions), [versions]);
+  const versionValidation = formData.version ? validateVersion(formData.version) : { isValid: true };
 
   const fetchVersions = useCallback(async () => {
     setLoading(true);
@@ -67,13 +100,80 @@ const AllVersionsPage: React.FC = () => {
     fetchVersions();
   }, [fetchVersions]);
 
+  // Comment counts of the versions
+  const fetchCommentThreads = useCallback(async () => {
+    try {
+      const response = await commentsApi.getThreads('version');
+      setCommentThreads(indexThreads(response.threads, 'version'));
+    } catch (err) {
+      console.error('Error fetching comment threads:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCommentThreads();
+  }, [fetchCommentThreads]);
+
+  const fetchChannels = useCallback(async () => {
+    try {
+      const response = await channelsApi.getAll();
+      setChannels(response.channels);
+    } catch (err) {
+      console.error('Error fetching channels:', err);
+      setError('Failed to load channels. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchChannels();
+  }, [fetchChannels]);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await schedulesApi.getAll('pending');
+      setSchedules(response.schedules);
+    } catch (err) {
+      console.error('Error fetching schedules:', err);
+      setError('Failed to load schedules. Please try again.');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const handleScheduleSaved = () => {
+    setScheduleDialogOpen(false);
+    fetchSchedules();
+  };
+
+  const handleCancelSchedule = async (schedule: VersionSchedule) => {
+    try {
+      await schedulesApi.cancel(schedule.scheduleId);
+    } catch (err) {
+      console.error('Error cancelling schedule:', err);
+      setError(parseApiError(err, 'Failed to cancel schedule. Please try again.').message);
+    } finally {
+      fetchSchedules();
+    }
+  };
+
+  const handleOpenChannelDialog = (channel?: VersionChannel) => {
+    setEditingChannel(channel);
+    setChannelDialogOpen(true);
+  };
+
+  const handleChannelSaved = () => {
+    setChannelDialogOpen(false);
+    fetchChannels();
+  };
+
   const handleCreateVersion = () => {
     setIsDuplicating(false);
     setDuplicateFromVersion('');
     setFormData({
       version: '',
-      description: '',
-      isActive: true
+      description: ''
     });
     setOpenDialog(true);
   };
@@ -82,8 +182,7 @@ const AllVersionsPage: React.FC = () => {
     setOpenDialog(false);
     setFormData({
       version: '',
-      description: '',
-      isActive: true
+      description: ''
     });
     setIsDuplicating(false);
     setDuplicateFromVersion('');
@@ -93,33 +192,41 @@ const AllVersionsPage: React.FC = () => {
     setIsDuplicating(checked);
     if (!checked) {
       setDuplicateFromVersion('');
-    } else if (versions.length > 0) {
-      setDuplicateFromVersion(versions[0].version);
+    } else if (sortedVersions.length > 0) {
+      setDuplicateFromVersion(sortedVersions[0].version);
     }
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, checked } = e.target;
+    const { name, value } = e.target;
     setFormData({
       ...formData,
-      [name]: name === 'isActive' ? checked : value
+      [name]: value
     });
   };
 
   const handleSubmit = async () => {
+    setSubmitting(true);
     try {
       if (isDuplicating && duplicateFromVersion) {
-        // Duplicate version
-        await versionsApi.duplicateVersion(duplicateFromVersion, formData);
+        // The copy runs server-side and is rolled back if it fails
+        const { copied } = await versionsApi.duplicateVersion(duplicateFromVersion, formData);
+        setNotice(
+          `Version ${formData.version} created from ${duplicateFromVersion}: ${copied.shortnames.length} shortname(s), ` +
+          `${copied.configurations} configuration(s) and ${copied.versionDefaults} version default(s) copied.`
+        );
       } else {
         // Create new version
         await versionsApi.createVersion(formData);
       }
+      setError(null);
       handleCloseDialog();
-      fetchVersions();
     } catch (err) {
       console.error('Error creating version:', err);
-      setError('Failed to create version. Please try again.');
+      setError(parseApiError(err, 'Failed to create version. Please try again.').message);
+    } finally {
+      setSubmitting(false);
+      fetchVersions();
     }
   };
 
@@ -132,6 +239,16 @@ const AllVersionsPage: React.FC = () => {
     navigate(`/versions/${version.version}/configurations`);
   };
   
+  const handleStatusChange = async (version: Version, status: VersionStatus) => {
+    try {
+      await versionsApi.updateStatus(version.version, status);
+      fetchVersions();
+    } catch (err) {
+      console.error('Error changing version status:', err);
+      setError(parseApiError(err, 'Failed to change version status. Please try again.').message);
+    }
+  };
+
   const handleDeleteClick = (event: React.MouseEvent<HTMLButtonElement>, version: Version) => {
     event.stopPropagation();
     setVersionToDelete(version.version);
@@ -154,7 +271,7 @@ const AllVersionsPage: React.FC = () => {
       fetchVersions();
     } catch (err) {
       console.error('Error deleting version:', err);
-      setError('Failed to delete version. Please try again.');
+      setError(parseApiError(err, 'Failed to delete version. Please try again.').message);
     } finally {
       setLoading(false);
     }
@@ -164,14 +281,31 @@ const AllVersionsPage: React.FC = () => {
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h4">All Versions</Typography>
-        <Button 
-          variant="contained" 
-          color="primary" 
-          startIcon={<AddIcon />}
-          onClick={handleCreateVersion}
-        >
-          Create Version
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            startIcon={<CompareArrowsIcon />}
+            onClick={() => navigate(sortedVersions.length > 1
+              ? `/versions/compare?from=${sortedVersions[1].version}&to=${sortedVersions[0].version}`
+              : '/versions/compare')}
+          >
+            Compare Versions
+          </Button>
+          <Button variant="outlined" startIcon={<ScheduleIcon />} onClick={() => setScheduleDialogOpen(true)}>
+            Schedule Status Change
+          </Button>
+          <Button variant="outlined" startIcon={<AddIcon />} onClick={() => handleOpenChannelDialog()}>
+            New Channel
+          </Button>
+          <Button 
+            variant="contained" 
+            color="primary" 
+            startIcon={<AddIcon />}
+            onClick={handleCreateVersion}
+          >
+            Create Version
+          </Button>
+        </Box>
       </Box>
 
       {error && (
@@ -180,6 +314,82 @@ const AllVersionsPage: React.FC = () => {
         </Alert>
       )}
 
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      {channels.length > 0 && (
+        <TableContainer component={Paper} sx={{ mb: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Channel</TableCell>
+                <TableCell>Version</TableCell>
+                <TableCell>Description</TableCell>
+                <TableCell>Moved</TableCell>
+                <TableCell>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {channels.map((channel) => (
+                <TableRow key={channel.channel}>
+                  <TableCell><Chip label={channel.channel} size="small" color="secondary" /></TableCell>
+                  <TableCell>{channel.version}</TableCell>
+                  <TableCell>{channel.description}</TableCell>
+                  <TableCell>{new Date(channel.updatedAt).toLocaleString()} by {channel.updatedBy}</TableCell>
+                  <TableCell>
+                    <ButtonGroup size="small">
+                      <Button variant="outlined" onClick={() => handleOpenChannelDialog(channel)}>
+                        Move
+                      </Button>
+                      <Button variant="outlined" onClick={() => setHistoryChannel(channel.channel)} aria-label="Channel history">
+                        <HistoryIcon fontSize="small" />
+                      </Button>
+                    </ButtonGroup>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {schedules.length > 0 && (
+        <TableContainer component={Paper} sx={{ mb: 3 }}>
+          <Typography variant="subtitle1" sx={{ px: 2, pt: 1.5 }}>Pending schedules</Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Version</TableCell>
+                <TableCell>Change</TableCell>
+                <TableCell>Runs At</TableCell>
+                <TableCell>Scheduled</TableCell>
+                <TableCell>Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {schedules.map((schedule) => (
+                <TableRow key={schedule.scheduleId}>
+                  <TableCell>{schedule.version}</TableCell>
+                  <TableCell>
+                    Move to {VERSION_STATUSES.find(item => item.value === schedule.targetStatus)?.label}
+                  </TableCell>
+                  <TableCell>{new Date(schedule.runAt).toLocaleString()}</TableCell>
+                  <TableCell>{new Date(schedule.createdAt).toLocaleString()} by {schedule.createdBy}</TableCell>
+                  <TableCell>
+                    <Button size="small" variant="outlined" color="error" onClick={() => handleCancelSchedule(schedule)}>
+                      Cancel
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
       {loading ? (
         <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
           <CircularProgress />
@@ -200,24 +410,80 @@ const AllVersionsPage: React.FC = () => {
             <TableBody>
               {versions.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={5} align="center">
+                  <TableCell colSpan={6} align="center">
                     No versions found. Create a new version to get started.
                   </TableCell>
                 </TableRow>
               ) : (
-                versions.map((version) => (
+                sortedVersions.map((version) => (
                   <TableRow 
                     key={version.versionId} 
                     hover 
                     onClick={() => handleVersionClick(version)}
                     sx={{ cursor: 'pointer' }}
                   >
-                    <TableCell>{version.version}</TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        {version.version}
+                        {version.version === latest && <Chip label="latest" size="small" color="primary" />}
+                        {version.version === latestStable && <Chip label="latest-stable" size="small" color="success" />}
+                        {isPrerelease(version.version) && <Chip label="pre-release" size="small" variant="outlined" />}
+                        {version.duplication && version.duplication.status !== 'complete' && (
+                          <Tooltip title={`Copy of ${version.duplication.sourceVersion} ${version.duplication.status === 'incomplete' ? `failed: ${version.duplication.error}` : 'in progress'}`}>
+                            <Chip
+                              label={version.duplication.status === 'incomplete' ? 'incomplete copy' : 'copying'}
+                              size="small"
+                              color="error"
+                            />
+                          </Tooltip>
+                        )}
+                        {version.lock && (
+                          <Tooltip title={`Locked by ${version.lock.owner}: ${version.lock.reason}`}>
+                            <Chip icon={<LockIcon />} label="locked" size="small" color="warning" />
+                          </Tooltip>
+                        )}
+                        {schedules.filter(schedule => schedule.version === version.version).map((schedule) => (
+                          <Tooltip
+                            key={schedule.scheduleId}
+                            title={`Moves to ${schedule.targetStatus} on ${new Date(schedule.runAt).toLocaleString()}`}
+                          >
+                            <Chip icon={<ScheduleIcon />} label="scheduled" size="small" variant="outlined" />
+                          </Tooltip>
+                        ))}
+                        {channels.filter(channel => channel.version === version.version).map((channel) => (
+                          <Chip key={channel.channel} label={channel.channel} size="small" color="secondary" />
+                        ))}
+                      </Box>
+                    </TableCell>
                     <TableCell>{version.description}</TableCell>
-                    <TableCell>{version.isActive ? 'Active' : 'Inactive'}</TableCell>
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        <VersionStatusChip status={version.status} />
+                        {VERSION_STATUS_TRANSITIONS[version.status].length > 0 && (
+                          <Select
+                            size="small"
+                            value=""
+                            displayEmpty
+                            onChange={(e) => handleStatusChange(version, e.target.value as VersionStatus)}
+                            renderValue={() => 'Move to'}
+                            sx={{ fontSize: '0.8125rem' }}
+                          >
+                            {VERSION_STATUS_TRANSITIONS[version.status].map((status) => (
+                              <MenuItem key={status} value={status}>
+                                {VERSION_STATUSES.find(item => item.value === status)?.label}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                        )}
+                      </Box>
+                    </TableCell>
                     <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
                     <TableCell>{new Date(version.updatedAt).toLocaleString()}</TableCell>
-                    <TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                      <CommentBadge
+                        thread={commentThreads[version.version]}
+                        onClick={() => setCommentThread({ target: 'version', version: version.version })}
+                      />
                       <ButtonGroup size="small">
                         <Button 
                           variant="outlined" 
@@ -225,9 +491,20 @@ const AllVersionsPage: React.FC = () => {
                         >
                           Configurations
                         </Button>
+                        <Button
+                          variant="outlined"
+                          startIcon={<RestoreIcon fontSize="small" />}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setSnapshotsVersion(version);
+                          }}
+                        >
+                          Snapshots
+                        </Button>
                         <Button 
                           variant="outlined" 
                           color="error"
+                          disabled={version.status === 'published' || version.status === 'deprecated'}
                           onClick={(e) => handleDeleteClick(e, version)}
                         >
                           <DeleteIcon fontSize="small" />
@@ -255,6 +532,8 @@ const AllVersionsPage: React.FC = () => {
             variant="outlined"
             value={formData.version}
             onChange={handleInputChange}
+            error={!versionValidation.isValid}
+            helperText={versionValidation.errorMessage || 'Semantic version, e.g. 2.1.0 or 2.1.0-beta.1'}
             sx={{ mb: 2 }}
           />
           <TextField
@@ -270,18 +549,6 @@ const AllVersionsPage: React.FC = () => {
             onChange={handleInputChange}
             sx={{ mb: 2 }}
           />
-          <FormControlLabel
-            control={
-              <Switch
-                checked={formData.isActive}
-                onChange={handleInputChange}
-                name="isActive"
-              />
-            }
-            label="Active"
-            sx={{ mb: 2, display: 'block' }}
-          />
-          
           <FormControlLabel
             control={
               <Switch
@@ -302,7 +569,7 @@ const AllVersionsPage: React.FC = () => {
                 label="Source Version"
                 onChange={(e) => setDuplicateFromVersion(e.target.value)}
               >
-                {versions.map((version) => (
+                {sortedVersions.map((version) => (
                   <MenuItem key={version.version} value={version.version}>
                     {version.version}
                   </MenuItem>
@@ -321,19 +588,59 @@ const AllVersionsPage: React.FC = () => {
           )}
         </DialogContent>
         <DialogActions>
-          <Button onClick={handleCloseDialog}>Cancel</Button>
-          <Button onClick={handleSubmit} variant="contained" color="primary">
-            Create
+          <Button onClick={handleCloseDialog} disabled={submitting}>Cancel</Button>
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            color="primary"
+            disabled={submitting || !formData.version || !versionValidation.isValid}
+          >
+            {submitting ? 'Creating...' : 'Create'}
           </Button>
         </DialogActions>
       </Dialog>
       
+      <ChannelDialog
+        open={channelDialogOpen}
+        channel={editingChannel}
+        versions={sortedVersions}
+        onClose={() => setChannelDialogOpen(false)}
+        onSaved={handleChannelSaved}
+      />
+
+      <ChannelHistoryDialog
+        open={historyChannel !== null}
+        channel={historyChannel || ''}
+        onClose={() => setHistoryChannel(null)}
+      />
+
+      <ScheduleDialog
+        open={scheduleDialogOpen}
+        versions={sortedVersions}
+        onClose={() => setScheduleDialogOpen(false)}
+        onSaved={handleScheduleSaved}
+      />
+
+      <SnapshotsDialog
+        open={snapshotsVersion !== null}
+        version={snapshotsVersion ? snapshotsVersion.version : ''}
+        editable={snapshotsVersion ? isEditableVersionStatus(snapshotsVersion.status) : false}
+        onClose={() => setSnapshotsVersion(null)}
+        onRestored={fetchVersions}
+      />
+      
+      <CommentsDrawer
+        thread={commentThread}
+        onClose={() => setCommentThread(null)}
+        onChanged={fetchCommentThreads}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteConfirmOpen} onClose={handleDeleteCancel}>
         <DialogTitle>Delete Version</DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to delete version "{versionToDelete}"? This will remove the version from all shortnames. This action cannot be undone.
+            Are you sure you want to delete version "{versionToDelete}"? This will remove the version from all shortnames. It can be restored from the Trash for {TRASH_RETENTION_DAYS} days.
           </Typography>
         </DialogContent>
         <DialogActions>
@@ -0,0 +1,249 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  CircularProgress,
+  Alert,
+  Chip,
+  Button,
+  TextField,
+  MenuItem,
+  IconButton,
+  Collapse,
+  Grid,
+} from '@mui/material';
+import {
+  KeyboardArrowDown as ExpandIcon,
+  KeyboardArrowUp as CollapseIcon,
+} from '@mui/icons-material';
+import { auditApi } from '../services/api';
+import { AUDIT_ENTITIES, AuditAction, AuditEntry, AuditFilters } from '../models';
+import { parseApiError } from '../utils/apiErrors';
+
+const ACTION_COLORS: Record<AuditAction, 'success' | 'info' | 'error' | 'warning'> = {
+  create: 'success',
+  update: 'info',
+  delete: 'error',
+  reveal: 'warning',
+};
+
+const EMPTY_FILTERS: AuditFilters = { actor: '', entity: undefined, shortname: '', version: '', from: '', to: '' };
+
+/**
+ * Attributes whose value differs between the item before and after a change
+ */
+const getChangedAttributes = (entry: AuditEntry): string[] => {
+  const before = entry.before || {};
+  const after = entry.after || {};
+  return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+    .filter(name => name !== 'updatedAt' && JSON.stringify(before[name]) !== JSON.stringify(after[name]))
+    .sort();
+};
+
+const renderItem = (title: string, item: Record<string, any> | null) => (
+  <Grid item xs={12} md={6}>
+    <Typography variant="subtitle2" gutterBottom>{title}</Typography>
+    <Paper variant="outlined" sx={{ p: 1, maxHeight: 320, overflow: 'auto' }}>
+      <Box component="pre" sx={{ m: 0, fontSize: '0.75rem', whiteSpace: 'pre-wrap', wordBreak: 'break-all' }}>
+        {item ? JSON.stringify(item, null, 2) : 'None'}
+      </Box>
+    </Paper>
+  </Grid>
+);
+
+const AuditRow: React.FC<{ entry: AuditEntry }> = ({ entry }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const changed = entry.action === 'update' ? getChangedAttributes(entry) : [];
+
+  return (
+    <>
+      <TableRow hover>
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setOpen(!open)} aria-label="Show changes">
+            {open ? <CollapseIcon /> : <ExpandIcon />}
+          </IconButton>
+        </TableCell>
+        <TableCell>{new Date(entry.timestamp).toLocaleString()}</TableCell>
+        <TableCell>{entry.actorEmail || entry.actor}</TableCell>
+        <TableCell>
+          <Chip label={entry.action} size="small" color={ACTION_COLORS[entry.action]} variant="outlined" />
+        </TableCell>
+        <TableCell>{entry.entity}</TableCell>
+        <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>
+          {entry.entity === 'configuration' ? (entry.after || entry.before || {}).key || entry.entityId : entry.entityId}
+        </TableCell>
+        <TableCell>{entry.shortname || '-'}</TableCell>
+        <TableCell>{entry.version || '-'}</TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell sx={{ py: 0 }} colSpan={8}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Box sx={{ py: 2 }}>
+              <Typography variant="body2" color="text.secondary" gutterBottom>
+                Request {entry.requestId || 'unknown'} by user {entry.actor}
+                {changed.length > 0 && ` · Changed: ${changed.join(', ')}`}
+              </Typography>
+              <Grid container spacing={2}>
+                {renderItem('Before', entry.before)}
+                {renderItem('After', entry.after)}
+              </Grid>
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+};
+
+const AuditPage: React.FC = () => {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [truncated, setTruncated] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await auditApi.getEntries(appliedFilters);
+      setEntries(response.entries);
+      setTruncated(response.truncated);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching audit log:', err);
+      setError(parseApiError(err, 'Failed to load the audit log').message);
+    } finally {
+      setLoading(false);
+    }
+  }, [appliedFilters]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleFilterChange = (name: keyof AuditFilters) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFilters({ ...filters, [name]: e.target.value || undefined });
+  };
+
+  const handleClear = () => {
+    setFilters(EMPTY_FILTERS);
+    setAppliedFilters(EMPTY_FILTERS);
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Audit Log</Typography>
+      </Box>
+
+      <Paper sx={{ p: 2, mb: 3 }}>
+        <Box
+          component="form"
+          onSubmit={(e: React.FormEvent) => {
+            e.preventDefault();
+            setAppliedFilters(filters);
+          }}
+          sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center' }}
+        >
+          <TextField
+            size="small"
+            label="Actor"
+            placeholder="Email or user ID"
+            value={filters.actor || ''}
+            onChange={handleFilterChange('actor')}
+          />
+          <TextField
+            select
+            size="small"
+            label="Entity"
+            value={filters.entity || ''}
+            onChange={handleFilterChange('entity')}
+            sx={{ minWidth: 160 }}
+          >
+            <MenuItem value="">All</MenuItem>
+            {AUDIT_ENTITIES.map((entity) => (
+              <MenuItem key={entity.value} value={entity.value}>{entity.label}</MenuItem>
+            ))}
+          </TextField>
+          <TextField size="small" label="Shortname" value={filters.shortname || ''} onChange={handleFilterChange('shortname')} />
+          <TextField size="small" label="Version" value={filters.version || ''} onChange={handleFilterChange('version')} />
+          <TextField
+            size="small"
+            type="date"
+            label="From"
+            value={filters.from || ''}
+            onChange={handleFilterChange('from')}
+            InputLabelProps={{ shrink: true }}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label="To"
+            value={filters.to || ''}
+            onChange={handleFilterChange('to')}
+            InputLabelProps={{ shrink: true }}
+          />
+          <Button type="submit" variant="contained">Apply</Button>
+          <Button onClick={handleClear}>Clear</Button>
+        </Box>
+      </Paper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {truncated
+              ? `Showing the ${entries.length} newest changes; narrow the filters to see older ones.`
+              : `${entries.length} change(s).`}
+          </Typography>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell>Time</TableCell>
+                  <TableCell>Actor</TableCell>
+                  <TableCell>Action</TableCell>
+                  <TableCell>Entity</TableCell>
+                  <TableCell>Item</TableCell>
+                  <TableCell>Shortname</TableCell>
+                  <TableCell>Version</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} align="center">
+                      No change matches the filters.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => <AuditRow key={entry.auditId} entry={entry} />)
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default AuditPage;
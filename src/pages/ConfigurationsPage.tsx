@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { 
   Box, 
   Typography, 
@@ -18,75 +18,314 @@ import {
   DialogActions,
   TextField,
   Alert,
-  IconButton
+  IconButton,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  Tooltip,
+  InputAdornment,
+  ToggleButtonGroup,
+  ToggleButton
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
-import { configurationsApi } from '../services/api';
-import { Configuration, ConfigurationFormData } from '../models';
+import SchemaIcon from '@mui/icons-material/Schema';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+import VisibilityIcon from '@mui/icons-material/Visibility';
+import VisibilityOffIcon from '@mui/icons-material/VisibilityOff';
+import TableRowsIcon from '@mui/icons-material/TableRows';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
+import EventBusyIcon from '@mui/icons-material/EventBusy';
+import HistoryIcon from '@mui/icons-material/History';
+import RateReviewIcon from '@mui/icons-material/RateReview';
+import { changeRequestsApi, commentsApi, deprecationsApi, layerConfigurationsApi, schemasApi, versionsApi } from '../services/api';
+import {
+  ChangeRequest,
+  CHANGE_REQUEST_STATUSES,
+  CommentThread,
+  CommentThreadRef,
+  MAX_CHANGE_REQUEST_CHANGES,
+  ProposedChange,
+  Configuration,
+  ConfigurationFormData,
+  ConfigurationLayer,
+  ConfigurationScope,
+  ConfigurationValueType,
+  ConfigurationVisibility,
+  CONFIGURATION_VALUE_TYPES,
+  CONFIGURATION_VISIBILITIES,
+  ConfigurationSchemaResponse,
+  KeyDeprecation,
+  KeyRenameResponse,
+  SchemaSaveResponse,
+  Version,
+  VERSION_STATUSES,
+  isEditableVersionStatus,
+  TRASH_RETENTION_DAYS
+} from '../models';
+import ConfigValueEditor from '../components/common/ConfigValueEditor';
+import SchemaDialog from '../components/configurations/SchemaDialog';
+import RenameKeyDialog from '../components/configurations/RenameKeyDialog';
+import RevisionHistoryDrawer from '../components/configurations/RevisionHistoryDrawer';
+import ChangeRequestDialog from '../components/configurations/ChangeRequestDialog';
+import ChangeRequestDraftBar from '../components/configurations/ChangeRequestDraftBar';
+import VersionLockBanner from '../components/versions/VersionLockBanner';
+import CommentBadge from '../components/comments/CommentBadge';
+import CommentsDrawer from '../components/comments/CommentsDrawer';
+import { useAuth } from '../contexts/AuthContext';
+import { canOverrideVersionLock } from '../utils/permissions';
+import ConfigTreeView from '../components/configurations/ConfigTreeView';
+import VisibilityChip from '../components/configurations/VisibilityChip';
+import DeprecationChip from '../components/configurations/DeprecationChip';
+import DeprecationDialog from '../components/configurations/DeprecationDialog';
+import TagsInput from '../components/configurations/TagsInput';
+import TagChips from '../components/configurations/TagChips';
+import { parseApiError } from '../utils/apiErrors';
+import { findReferences, resolveValue } from '../utils/interpolation';
+import { parseConfigValue, validateConfigKey } from '../utils/validation';
+import { formatValue, toEditorValue, SECRET_MASK } from '../utils/formatting';
+import { collectTags, hasAllTags, normalizeTags } from '../utils/tags';
+import { getConfigurationThread, indexThreads } from '../utils/comments';
 
-// Validation function for configuration keys
-const validateConfigKey = (key: string): { isValid: boolean; errorMessage?: string } => {
-  if (!key) {
-    return { isValid: false, errorMessage: 'Key is required' };
-  }
-  
-  if (!key.startsWith('public.')) {
-    return { isValid: false, errorMessage: 'Key must start with "public."' };
-  }
-  
-  return { isValid: true };
+const emptyFormData: ConfigurationFormData = {
+  key: '',
+  value: '',
+  valueType: 'string',
+  visibility: 'public',
+  tags: [],
+  description: ''
+};
+
+// Parse the comma-separated enum options typed in the dialog
+const parseEnumOptions = (input: string): string[] =>
+  Array.from(new Set(input.split(',').map(option => option.trim()).filter(Boolean)));
+
+// The global layer needs no URL parameter, version defaults need the version, overrides need both
+const getScope = (layer: ConfigurationLayer, shortname?: string, version?: string): ConfigurationScope | null => {
+  if (layer === 'global') return { layer };
+  if (layer === 'version') return version ? { layer, version } : null;
+  return shortname && version ? { layer, shortname, version } : null;
+};
+
+// The layers below a scope, whose keys the scope inherits and may reference
+const getLowerScopes = (scope: ConfigurationScope): ConfigurationScope[] => {
+  if (scope.layer === 'shortname') return [{ layer: 'global' }, { layer: 'version', version: scope.version }];
+  if (scope.layer === 'version') return [{ layer: 'global' }];
+  return [];
 };
 
-const ConfigurationsPage: React.FC = () => {
+/**
+ * Props for the ConfigurationsPage component
+ */
+interface ConfigurationsPageProps {
+  layer?: ConfigurationLayer;
+}
+
+const ConfigurationsPage: React.FC<ConfigurationsPageProps> = ({ layer = 'shortname' }) => {
   const { shortname, version } = useParams<{ shortname: string; version: string }>();
+  const scope = getScope(layer, shortname, version);
   const navigate = useNavigate();
+  const location = useLocation();
   const [configurations, setConfigurations] = useState<Configuration[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [openDialog, setOpenDialog] = useState<boolean>(false);
   const [openDeleteDialog, setOpenDeleteDialog] = useState<boolean>(false);
   const [selectedConfig, setSelectedConfig] = useState<Configuration | null>(null);
-  const [formData, setFormData] = useState<ConfigurationFormData>({
-    key: 'public.',
-    value: '',
-    description: ''
-  });
+  const [formData, setFormData] = useState<ConfigurationFormData>(emptyFormData);
+  const [enumOptionsInput, setEnumOptionsInput] = useState<string>('');
   const [formErrors, setFormErrors] = useState<{
     key?: string;
     value?: string;
+    enumOptions?: string;
     description?: string;
   }>({});
   const [isEditing, setIsEditing] = useState<boolean>(false);
+  const [schemaInfo, setSchemaInfo] = useState<ConfigurationSchemaResponse | null>(null);
+  const [openSchemaDialog, setOpenSchemaDialog] = useState<boolean>(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [openRenameDialog, setOpenRenameDialog] = useState<boolean>(false);
+  const [historyConfig, setHistoryConfig] = useState<Configuration | null>(null);
+  const [deprecations, setDeprecations] = useState<Record<string, KeyDeprecation>>({});
+  const [keyToDeprecate, setKeyToDeprecate] = useState<string | null>(null);
+  const [revealedValues, setRevealedValues] = useState<Record<string, any>>({});
+  const [secretValueChanged, setSecretValueChanged] = useState<boolean>(false);
+  const [inheritedConfigurations, setInheritedConfigurations] = useState<Configuration[]>([]);
+  const [viewMode, setViewMode] = useState<'table' | 'tree'>('table');
+  const [visibilityFilter, setVisibilityFilter] = useState<ConfigurationVisibility | 'all'>('all');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [subtreeToDelete, setSubtreeToDelete] = useState<{ keyPrefix: string; configs: Configuration[] } | null>(null);
+  const [deletingSubtree, setDeletingSubtree] = useState<boolean>(false);
+  const [versionDetails, setVersionDetails] = useState<Version | null>(null);
+  const [proposing, setProposing] = useState<boolean>(false);
+  const [proposedChanges, setProposedChanges] = useState<ProposedChange[]>([]);
+  const [changeRequests, setChangeRequests] = useState<ChangeRequest[]>([]);
+  const [selectedChangeRequest, setSelectedChangeRequest] = useState<ChangeRequest | null>(null);
+  const [commentThreads, setCommentThreads] = useState<Record<string, CommentThread>>({});
+  const [commentThread, setCommentThread] = useState<CommentThreadRef | null>(null);
+  const { authState } = useAuth();
+
+  // Configurations of a version are read-only once the version is published, and while it is locked for a
+  // release unless the user can override the lock; global defaults stay editable, except for the keys published
+  // versions inherit, which the server rejects
+  const versionStatus = versionDetails ? versionDetails.status : null;
+  const statusReadOnly = layer !== 'global' && versionStatus !== null && !isEditableVersionStatus(versionStatus);
+  const lockReadOnly = layer !== 'global' && !!versionDetails?.lock && !canOverrideVersionLock(authState.user);
+  // Changes to a published version, and to global defaults it inherits, are proposed in a change request instead,
+  // while proposing them edits collect the changes instead of writing them
+  const canPropose = layer === 'global' || (versionStatus === 'published' && !lockReadOnly);
+  const readOnly = (statusReadOnly && !(canPropose && proposing)) || lockReadOnly;
 
   const fetchConfigurations = useCallback(async () => {
-    if (!shortname || !version) return;
+    const scope = getScope(layer, shortname, version);
+    if (!scope) return;
     
     setLoading(true);
     try {
-      const response = await configurationsApi.getAll(shortname, version);
+      const response = await layerConfigurationsApi.getAll(scope);
       setConfigurations(response.configurations);
+      setRevealedValues({});
       setError(null);
+
+      const lowerResponses = await Promise.all(getLowerScopes(scope).map(lower => layerConfigurationsApi.getAll(lower)));
+      setInheritedConfigurations(lowerResponses.flatMap(lower => lower.configurations));
     } catch (err) {
       console.error('Error fetching configurations:', err);
       setError('Failed to load configurations. Please try again.');
     } finally {
       setLoading(false);
     }
-  }, [shortname, version]);
+
+    // Schemas only apply to shortname overrides
+    if (scope.layer !== 'shortname') return;
+
+    try {
+      setSchemaInfo(await schemasApi.get(scope.shortname!, scope.version));
+    } catch (err) {
+      console.error('Error fetching schema:', err);
+      setSchemaInfo(null);
+    }
+  }, [layer, shortname, version]);
+
+  // Deprecations apply to keys in every layer, shortname and version
+  const fetchDeprecations = useCallback(async () => {
+    try {
+      const response = await deprecationsApi.getAll();
+      setDeprecations(Object.fromEntries(response.deprecations.map(deprecation => [deprecation.key, deprecation])));
+    } catch (err) {
+      console.error('Error fetching deprecations:', err);
+    }
+  }, []);
+
+  const fetchChangeRequests = useCallback(async () => {
+    const scope = getScope(layer, shortname, version);
+    if (!scope) return;
+
+    try {
+      const response = await changeRequestsApi.getAll(scope);
+      setChangeRequests(response.changeRequests);
+    } catch (err) {
+      console.error('Error fetching change requests:', err);
+    }
+  }, [layer, shortname, version]);
+
+  // Comment counts of the keys of this scope
+  const fetchCommentThreads = useCallback(async () => {
+    const scope = getScope(layer, shortname, version);
+    if (!scope) return;
+
+    const { shortname: threadShortname, version: threadVersion } = getConfigurationThread(scope, '');
+    try {
+      const response = await commentsApi.getThreads('configuration', { shortname: threadShortname, version: threadVersion });
+      setCommentThreads(indexThreads(response.threads, 'key'));
+    } catch (err) {
+      console.error('Error fetching comment threads:', err);
+    }
+  }, [layer, shortname, version]);
+
+  // Keys that values of this scope may reference: inherited keys, overridden by the keys of this scope
+  const referenceValues: Record<string, any> = {};
+  const referenceSecretKeys = new Set<string>();
+  const referenceVisibilities: Record<string, ConfigurationVisibility> = {};
+  for (const config of [...inheritedConfigurations, ...configurations]) {
+    delete referenceValues[config.key];
+    referenceSecretKeys.delete(config.key);
+    referenceVisibilities[config.key] = config.visibility;
+    if (config.secret) {
+      referenceSecretKeys.add(config.key);
+    } else {
+      referenceValues[config.key] = config.value;
+    }
+  }
+
+  const resolvePreview = (key: string, value: any, visibility: ConfigurationVisibility = 'public') => {
+    const references = findReferences(value);
+    if (references.length === 0) return null;
+
+    // Public values are delivered to end-user SDKs, so they cannot pull in internal values
+    const internalKey = references.find(name => referenceVisibilities[name] === 'internal');
+    if (visibility === 'public' && internalKey) {
+      return { error: `Public key "${key}" cannot reference internal key "${internalKey}"` };
+    }
+
+    const { [key]: current, ...others } = referenceValues;
+    return resolveValue(key, value, others, referenceSecretKeys);
+  };
+
+  const formValue = parseConfigValue(formData.value, formData.valueType, formData.enumOptions);
+  const formPreview = formData.visibility === 'secret' ? null : resolvePreview(formData.key, formValue.error ? formData.value : formValue.value, formData.visibility);
+
+  const filteredConfigurations = configurations.filter(config =>
+    (visibilityFilter === 'all' || config.visibility === visibilityFilter) && hasAllTags(config, tagFilter));
+  const knownTags = collectTags([...inheritedConfigurations, ...configurations]);
+
+  const schemaErrorsByConfigId = new Map(
+    (schemaInfo?.violations || []).map(violation => [violation.configId, violation.errors])
+  );
 
   useEffect(() => {
     fetchConfigurations();
   }, [fetchConfigurations]);
 
-  const handleCreateConfiguration = () => {
+  useEffect(() => {
+    fetchDeprecations();
+  }, [fetchDeprecations]);
+
+  useEffect(() => {
+    fetchChangeRequests();
+  }, [fetchChangeRequests]);
+
+  useEffect(() => {
+    fetchCommentThreads();
+  }, [fetchCommentThreads]);
+
+  // Mentions link to the page with the thread to open
+  useEffect(() => {
+    const state = location.state as { commentThread?: CommentThreadRef } | null;
+    if (state?.commentThread) setCommentThread(state.commentThread);
+  }, [location.state]);
+
+  useEffect(() => {
+    if (layer === 'global' || !version) {
+      setVersionDetails(null);
+      return;
+    }
+
+    versionsApi.getVersion(version)
+      .then(setVersionDetails)
+      .catch(err => {
+        console.error('Error fetching version status:', err);
+        setVersionDetails(null);
+      });
+  }, [layer, version]);
+
+  const handleCreateConfiguration = (keyPrefix?: string) => {
     setIsEditing(false);
-    setFormData({
-      key: 'public.',
-      value: '',
-      description: ''
-    });
+    setFormData(keyPrefix ? { ...emptyFormData, key: keyPrefix } : emptyFormData);
+    setEnumOptionsInput('');
     setFormErrors({});
     setOpenDialog(true);
   };
@@ -94,11 +333,18 @@ const ConfigurationsPage: React.FC = () => {
   const handleEditConfiguration = (config: Configuration) => {
     setIsEditing(true);
     setSelectedConfig(config);
+    const valueType = config.valueType || 'string';
     setFormData({
       key: config.key,
-      value: config.value,
+      value: toEditorValue(config.value, valueType),
+      valueType,
+      enumOptions: config.enumOptions,
+      visibility: config.visibility,
+      tags: config.tags,
       description: config.description
     });
+    setSecretValueChanged(false);
+    setEnumOptionsInput((config.enumOptions || []).join(', '));
     setFormErrors({});
     setOpenDialog(true);
   };
@@ -108,16 +354,79 @@ const ConfigurationsPage: React.FC = () => {
     setOpenDeleteDialog(true);
   };
 
+  const handleRevealSecret = async (config: Configuration) => {
+    if (!scope) return;
+
+    if (config.configId in revealedValues) {
+      const { [config.configId]: hidden, ...rest } = revealedValues;
+      setRevealedValues(rest);
+      return;
+    }
+
+    try {
+      const response = await layerConfigurationsApi.reveal(scope, config.configId);
+      setRevealedValues({ ...revealedValues, [config.configId]: response.value });
+    } catch (err) {
+      console.error('Error revealing configuration:', err);
+      setError(`Failed to reveal configuration. ${parseApiError(err, 'Please try again.').message}`);
+    }
+  };
+
+  // An existing secret keeps its stored value unless a new one is typed in
+  const keepsSecretValue = (): boolean =>
+    isEditing && !!selectedConfig?.secret && !secretValueChanged;
+
   const handleCloseDialog = () => {
     setOpenDialog(false);
-    setFormData({
-      key: 'public.',
-      value: '',
-      description: ''
-    });
+    setFormData(emptyFormData);
+    setEnumOptionsInput('');
     setFormErrors({});
   };
 
+  const handleKeyRenamed = (result: KeyRenameResponse) => {
+    setOpenRenameDialog(false);
+    handleCloseDialog();
+    const references = result.references.length > 0 ? ` and ${result.references.length} reference(s)` : '';
+    const snapshotted = Object.keys(result.snapshotIds || {});
+    const snapshots = snapshotted.length > 0 ? ` Snapshots of v${snapshotted.join(', v')} were taken first and can be restored from the version page.` : '';
+    setNotice(`Renamed ${result.oldKey} to ${result.newKey} in ${result.configurations.length} configuration(s)${references}.${snapshots}`);
+    fetchConfigurations();
+  };
+
+  const handleReverted = (config: Configuration) => {
+    setNotice(`Reverted ${config.key}, stored as revision ${config.revision}.`);
+    fetchConfigurations();
+  };
+
+  // A configuration is changed at most once per change request: a new change replaces the drafted one
+  const addProposedChange = (...changes: ProposedChange[]) => {
+    const replaced = new Set(changes.map(change => change.configId || change.key));
+    const kept = proposedChanges.filter(change => !replaced.has(change.configId || change.key));
+    if (kept.length + changes.length > MAX_CHANGE_REQUEST_CHANGES) {
+      setError(`A change request can hold at most ${MAX_CHANGE_REQUEST_CHANGES} changes.`);
+      return;
+    }
+    setProposedChanges([...kept, ...changes]);
+  };
+
+  const handleCancelProposal = () => {
+    setProposing(false);
+    setProposedChanges([]);
+  };
+
+  const handleChangeRequestSubmitted = (changeRequest: ChangeRequest) => {
+    handleCancelProposal();
+    setNotice(`Change request with ${changeRequest.changes.length} change(s) submitted for review.`);
+    fetchChangeRequests();
+  };
+
+  const handleChangeRequestReviewed = (changeRequest: ChangeRequest) => {
+    setSelectedChangeRequest(null);
+    setNotice(`Change request ${changeRequest.status === 'applied' ? 'approved and applied' : 'rejected'}.`);
+    fetchChangeRequests();
+    fetchConfigurations();
+  };
+
   const handleCloseDeleteDialog = () => {
     setOpenDeleteDialog(false);
     setSelectedConfig(null);
@@ -131,8 +440,23 @@ const ConfigurationsPage: React.FC = () => {
     });
   };
 
+  const handleValueTypeChange = (valueType: ConfigurationValueType) => {
+    // Keep the current value when it still makes sense for the new type
+    setFormData({
+      ...formData,
+      valueType,
+      value: valueType === 'boolean' ? formData.value === true || formData.value === 'true' : toEditorValue(formData.value, valueType)
+    });
+    setFormErrors({ ...formErrors, value: undefined, enumOptions: undefined });
+  };
+
+  const handleEnumOptionsChange = (input: string) => {
+    setEnumOptionsInput(input);
+    setFormData({ ...formData, enumOptions: parseEnumOptions(input) });
+  };
+
   const validateForm = (): boolean => {
-    const errors: { key?: string; value?: string; description?: string } = {};
+    const errors: { key?: string; value?: string; enumOptions?: string; description?: string } = {};
     let isValid = true;
 
     // Validate key
@@ -142,9 +466,15 @@ const ConfigurationsPage: React.FC = () => {
       isValid = false;
     }
 
-    // Validate value (optional validation)
-    if (!formData.value) {
-      errors.value = 'Value is required';
+    // Validate value against its declared type
+    if (formData.valueType === 'enum' && (formData.enumOptions || []).length === 0) {
+      errors.enumOptions = 'Add at least one option';
+      isValid = false;
+    }
+
+    const parsed = parseConfigValue(formData.value, formData.valueType, formData.enumOptions);
+    if (parsed.error && !keepsSecretValue()) {
+      errors.value = parsed.error;
       isValid = false;
     }
 
@@ -153,29 +483,79 @@ const ConfigurationsPage: React.FC = () => {
   };
 
   const handleSubmit = async () => {
-    if (!shortname || !version) return;
+    if (!scope) return;
     
     if (!validateForm()) return;
+
+    const payload: ConfigurationFormData = {
+      ...formData,
+      value: keepsSecretValue()
+        ? undefined
+        : parseConfigValue(formData.value, formData.valueType, formData.enumOptions).value,
+      enumOptions: formData.valueType === 'enum' ? formData.enumOptions : undefined
+    };
+
+    if (proposing) {
+      addProposedChange(isEditing && selectedConfig
+        ? { ...payload, action: 'update', configId: selectedConfig.configId, key: selectedConfig.key }
+        : { ...payload, action: 'create' });
+      handleCloseDialog();
+      return;
+    }
     
     try {
       if (isEditing && selectedConfig) {
-        await configurationsApi.update(shortname, version, selectedConfig.configId, formData);
+        await layerConfigurationsApi.update(scope, selectedConfig.configId, payload);
       } else {
-        await configurationsApi.create(shortname, version, formData);
+        const created = await layerConfigurationsApi.create(scope, payload);
+        if (created.warnings && created.warnings.length > 0) {
+          setNotice(created.warnings.join(' '));
+        }
       }
       handleCloseDialog();
       fetchConfigurations();
     } catch (err) {
       console.error('Error saving configuration:', err);
-      setError(`Failed to ${isEditing ? 'update' : 'create'} configuration. Please try again.`);
+      const { message, errors } = parseApiError(err, 'Please try again.');
+      if (errors && errors.length > 0) {
+        // Show schema violations next to the field they relate to
+        const keyError = errors.find(e => e.field === 'key');
+        const valueErrors = errors.filter(e => e.field !== 'key');
+        setFormErrors({
+          ...formErrors,
+          key: keyError?.message,
+          value: valueErrors.length > 0 ? valueErrors.map(e => `${e.path}: ${e.message}`).join('; ') : undefined
+        });
+        return;
+      }
+      setError(`Failed to ${isEditing ? 'update' : 'create'} configuration. ${message}`);
+    }
+  };
+
+  const handleSchemaSaved = (result: SchemaSaveResponse | null) => {
+    setOpenSchemaDialog(false);
+    if (!result) {
+      setNotice('Schema removed.');
+    } else if (result.nonConforming.length > 0) {
+      const versions = result.nonConforming.map(item => `v${item.version}`).join(', ');
+      setNotice(`Schema saved. Existing configurations in ${versions} do not conform to it.`);
+    } else {
+      setNotice('Schema saved. All existing configurations conform to it.');
     }
+    fetchConfigurations();
   };
 
   const handleDeleteSubmit = async () => {
-    if (!shortname || !version || !selectedConfig) return;
+    if (!scope || !selectedConfig) return;
+
+    if (proposing) {
+      addProposedChange({ action: 'delete', configId: selectedConfig.configId, key: selectedConfig.key });
+      handleCloseDeleteDialog();
+      return;
+    }
     
     try {
-      await configurationsApi.delete(shortname, version, selectedConfig.configId);
+      await layerConfigurationsApi.delete(scope, selectedConfig.configId);
       handleCloseDeleteDialog();
       fetchConfigurations();
     } catch (err) {
@@ -184,18 +564,89 @@ const ConfigurationsPage: React.FC = () => {
     }
   };
 
+  const handleDeleteSubtreeSubmit = async () => {
+    if (!scope || !subtreeToDelete) return;
+
+    if (proposing) {
+      addProposedChange(...subtreeToDelete.configs.map(config => ({ action: 'delete' as const, configId: config.configId, key: config.key })));
+      setSubtreeToDelete(null);
+      return;
+    }
+
+    setDeletingSubtree(true);
+    const failedKeys: string[] = [];
+    for (const config of subtreeToDelete.configs) {
+      try {
+        await layerConfigurationsApi.delete(scope, config.configId);
+      } catch (err) {
+        console.error(`Error deleting configuration ${config.key}:`, err);
+        failedKeys.push(`${config.key} (${parseApiError(err, 'failed').message})`);
+      }
+    }
+    setDeletingSubtree(false);
+    setSubtreeToDelete(null);
+
+    if (failedKeys.length > 0) {
+      setError(`Failed to delete: ${failedKeys.join(', ')}`);
+    }
+    fetchConfigurations();
+  };
+
+  const renderValue = (config: Configuration) => (
+    config.secret ? (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        {config.configId in revealedValues ? formatValue(revealedValues[config.configId]) : SECRET_MASK}
+        <Tooltip title={config.configId in revealedValues ? 'Hide' : 'Reveal'}>
+          <IconButton size="small" onClick={() => handleRevealSecret(config)}>
+            {config.configId in revealedValues ? <VisibilityOffIcon fontSize="small" /> : <VisibilityIcon fontSize="small" />}
+          </IconButton>
+        </Tooltip>
+      </Box>
+    ) : (
+      <>
+        {typeof config.value === 'object' ? JSON.stringify(config.value) : formatValue(config.value)}
+        {findReferences(config.value).length > 0 && (
+          <Typography variant="caption" display="block" color="text.secondary">
+            = {(() => {
+              const preview = resolvePreview(config.key, config.value, config.visibility);
+              return preview?.error || formatValue(preview?.value);
+            })()}
+          </Typography>
+        )}
+      </>
+    )
+  );
+
   return (
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
-        <Typography variant="h4">Configurations for {shortname} v{version}</Typography>
-        <Button 
-          variant="contained" 
-          color="primary" 
-          startIcon={<AddIcon />}
-          onClick={handleCreateConfiguration}
-        >
-          Add Configuration
-        </Button>
+        <Typography variant="h4">
+          {layer === 'global'
+            ? 'Global Defaults'
+            : layer === 'version'
+              ? `Defaults for v${version}`
+              : `Configurations for ${shortname} v${version}`}
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          {layer === 'shortname' && (
+            <Button
+              variant="outlined"
+              startIcon={<SchemaIcon />}
+              onClick={() => setOpenSchemaDialog(true)}
+            >
+              Schema{schemaInfo?.source ? ` (${schemaInfo.source})` : ''}
+            </Button>
+          )}
+          <Button 
+            variant="contained" 
+            color="primary" 
+            startIcon={<AddIcon />}
+            onClick={() => handleCreateConfiguration()}
+            disabled={readOnly}
+          >
+            Add Configuration
+          </Button>
+        </Box>
       </Box>
 
       {error && (
@@ -204,10 +655,145 @@ const ConfigurationsPage: React.FC = () => {
         </Alert>
       )}
 
+      {layer !== 'global' && versionDetails && (
+        <VersionLockBanner version={versionDetails} onUnlocked={setVersionDetails} />
+      )}
+
+      {statusReadOnly && !proposing && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={canPropose ? (
+            <Button color="inherit" size="small" startIcon={<RateReviewIcon />} onClick={() => setProposing(true)}>
+              Propose changes
+            </Button>
+          ) : undefined}
+        >
+          Version {version} is {VERSION_STATUSES.find(item => item.value === versionStatus)?.label.toLowerCase()} and its
+          configurations are read-only.
+          {canPropose && ' Changes can be proposed in a change request, applied once approved by another user.'}
+        </Alert>
+      )}
+
+      {layer === 'global' && !proposing && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={(
+            <Button color="inherit" size="small" startIcon={<RateReviewIcon />} onClick={() => setProposing(true)}>
+              Propose changes
+            </Button>
+          )}
+        >
+          Keys inherited by published or deprecated versions can only be changed in a change request, applied once
+          approved by another user.
+        </Alert>
+      )}
+
+      {proposing && scope && (
+        <ChangeRequestDraftBar
+          scope={scope}
+          changes={proposedChanges}
+          onRemove={(index) => setProposedChanges(proposedChanges.filter((change, position) => position !== index))}
+          onCancel={handleCancelProposal}
+          onSubmitted={handleChangeRequestSubmitted}
+        />
+      )}
+
+      {changeRequests.length > 0 && (
+        <Paper variant="outlined" sx={{ mb: 2 }}>
+          <Typography variant="subtitle1" sx={{ px: 2, pt: 1 }}>Change requests</Typography>
+          <Table size="small">
+            <TableBody>
+              {changeRequests.map((changeRequest) => (
+                <TableRow key={changeRequest.changeRequestId} hover sx={{ cursor: 'pointer' }} onClick={() => setSelectedChangeRequest(changeRequest)}>
+                  <TableCell sx={{ width: 100 }}>
+                    <Chip
+                      label={CHANGE_REQUEST_STATUSES.find(item => item.value === changeRequest.status)?.label}
+                      size="small"
+                      color={changeRequest.status === 'pending' ? 'info' : changeRequest.status === 'applied' ? 'success' : 'default'}
+                    />
+                  </TableCell>
+                  <TableCell>{changeRequest.comment}</TableCell>
+                  <TableCell>{changeRequest.changes.length} change(s)</TableCell>
+                  <TableCell>{changeRequest.createdByEmail || changeRequest.createdBy}</TableCell>
+                  <TableCell>{new Date(changeRequest.createdAt).toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Paper>
+      )}
+
+      {notice && (
+        <Alert severity="info" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      {schemaInfo?.schema && ((schemaInfo.violations || []).length > 0 || (schemaInfo.missingKeys || []).length > 0) && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {(schemaInfo.violations || []).length > 0 && (
+            <div>{schemaInfo.violations!.length} configuration(s) do not conform to the schema.</div>
+          )}
+          {(schemaInfo.missingKeys || []).length > 0 && (
+            <div>Missing required keys: {schemaInfo.missingKeys!.join(', ')}</div>
+          )}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          <FormControl size="small" sx={{ minWidth: 180 }}>
+            <InputLabel id="visibility-filter-label">Visibility</InputLabel>
+            <Select
+              labelId="visibility-filter-label"
+              value={visibilityFilter}
+              label="Visibility"
+              onChange={(e) => setVisibilityFilter(e.target.value as ConfigurationVisibility | 'all')}
+            >
+              <MenuItem value="all">All tiers</MenuItem>
+              {CONFIGURATION_VISIBILITIES.map((tier) => (
+                <MenuItem key={tier.value} value={tier.value}>{tier.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Box sx={{ minWidth: 300 }}>
+            <TagsInput
+              size="small"
+              label="Tags"
+              placeholder="Filter by tags"
+              options={knownTags}
+              value={tagFilter}
+              onChange={setTagFilter}
+            />
+          </Box>
+        </Box>
+        <ToggleButtonGroup
+          value={viewMode}
+          exclusive
+          size="small"
+          onChange={(e, mode: 'table' | 'tree' | null) => mode && setViewMode(mode)}
+        >
+          <ToggleButton value="table" aria-label="Table view"><TableRowsIcon fontSize="small" /></ToggleButton>
+          <ToggleButton value="tree" aria-label="Tree view"><AccountTreeIcon fontSize="small" /></ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
       {loading ? (
         <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
           <CircularProgress />
         </Box>
+      ) : viewMode === 'tree' ? (
+        <Paper>
+          <ConfigTreeView
+            configurations={filteredConfigurations}
+            renderValue={renderValue}
+            onEdit={readOnly ? undefined : handleEditConfiguration}
+            onAddUnder={readOnly ? undefined : handleCreateConfiguration}
+            onDeleteSubtree={readOnly ? undefined : (configs, keyPrefix) => setSubtreeToDelete({ configs, keyPrefix })}
+          />
+        </Paper>
       ) : (
         <TableContainer component={Paper}>
           <Table>
@@ -215,6 +801,9 @@ const ConfigurationsPage: React.FC = () => {
               <TableRow>
                 <TableCell>Key</TableCell>
                 <TableCell>Value</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Visibility</TableCell>
+                <TableCell>Tags</TableCell>
                 <TableCell>Description</TableCell>
                 <TableCell>Created At</TableCell>
                 <TableCell>Updated At</TableCell>
@@ -222,31 +811,74 @@ const ConfigurationsPage: React.FC = () => {
               </TableRow>
             </TableHead>
             <TableBody>
-              {configurations.length === 0 ? (
+              {filteredConfigurations.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} align="center">
-                    No configurations found. Add a new configuration to get started.
+                  <TableCell colSpan={9} align="center">
+                    {configurations.length === 0
+                      ? 'No configurations found. Add a new configuration to get started.'
+                      : 'No configurations match the filters.'}
                   </TableCell>
                 </TableRow>
               ) : (
-                configurations.map((config) => (
+                filteredConfigurations.map((config) => (
                   <TableRow key={config.configId}>
-                    <TableCell>{config.key}</TableCell>
-                    <TableCell>{typeof config.value === 'object' ? JSON.stringify(config.value) : config.value}</TableCell>
+                    <TableCell>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                        {config.key}
+                        {deprecations[config.key] && (
+                          <DeprecationChip deprecation={deprecations[config.key]} onClick={() => setKeyToDeprecate(config.key)} />
+                        )}
+                        {schemaErrorsByConfigId.has(config.configId) && (
+                          <Tooltip title={schemaErrorsByConfigId.get(config.configId)!.map(e => `${e.path}: ${e.message}`).join('; ')}>
+                            <WarningAmberIcon color="warning" fontSize="small" />
+                          </Tooltip>
+                        )}
+                      </Box>
+                    </TableCell>
+                    <TableCell>{renderValue(config)}</TableCell>
+                    <TableCell>
+                      <Chip label={config.valueType || 'string'} size="small" variant="outlined" />
+                    </TableCell>
+                    <TableCell>
+                      <VisibilityChip visibility={config.visibility} />
+                    </TableCell>
+                    <TableCell>
+                      <TagChips tags={config.tags} onClick={(tag) => setTagFilter(normalizeTags([...tagFilter, tag]))} />
+                    </TableCell>
                     <TableCell>{config.description}</TableCell>
                     <TableCell>{new Date(config.createdAt).toLocaleString()}</TableCell>
                     <TableCell>{new Date(config.updatedAt).toLocaleString()}</TableCell>
-                    <TableCell>
+                    <TableCell sx={{ whiteSpace: 'nowrap' }}>
                       <IconButton 
                         color="primary" 
                         onClick={() => handleEditConfiguration(config)}
+                        disabled={readOnly}
                         size="small"
                       >
                         <EditIcon />
                       </IconButton>
+                      <Tooltip title="History">
+                        <IconButton onClick={() => setHistoryConfig(config)} size="small">
+                          <HistoryIcon />
+                        </IconButton>
+                      </Tooltip>
+                      {scope && (
+                        <CommentBadge
+                          thread={commentThreads[config.key]}
+                          onClick={() => setCommentThread(getConfigurationThread(scope, config.key))}
+                        />
+                      )}
+                      {!deprecations[config.key] && (
+                        <Tooltip title="Deprecate key">
+                          <IconButton onClick={() => setKeyToDeprecate(config.key)} size="small">
+                            <EventBusyIcon />
+                          </IconButton>
+                        </Tooltip>
+                      )}
                       <IconButton 
                         color="error" 
                         onClick={() => handleDeleteConfiguration(config)}
+                        disabled={readOnly}
                         size="small"
                       >
                         <DeleteIcon />
@@ -261,7 +893,7 @@ const ConfigurationsPage: React.FC = () => {
       )}
 
       {/* Create/Edit Dialog */}
-      <Dialog open={openDialog} onClose={handleCloseDialog}>
+      <Dialog open={openDialog} onClose={handleCloseDialog} maxWidth="sm" fullWidth>
         <DialogTitle>{isEditing ? 'Edit Configuration' : 'Add Configuration'}</DialogTitle>
         <DialogContent>
           <TextField
@@ -276,22 +908,90 @@ const ConfigurationsPage: React.FC = () => {
             onChange={handleInputChange}
             disabled={isEditing}
             error={!!formErrors.key}
-            helperText={formErrors.key || "Key must start with 'public.'"}
+            helperText={formErrors.key || 'Dot-separated key, e.g. theme.primaryColor'}
+            InputProps={isEditing && !proposing ? {
+              endAdornment: (
+                <InputAdornment position="end">
+                  <Button size="small" onClick={() => setOpenRenameDialog(true)}>Rename</Button>
+                </InputAdornment>
+              ),
+            } : undefined}
             sx={{ mb: 2 }}
           />
-          <TextField
-            margin="dense"
-            name="value"
-            label="Value"
-            type="text"
-            fullWidth
-            variant="outlined"
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel id="value-type-label">Type</InputLabel>
+            <Select
+              labelId="value-type-label"
+              value={formData.valueType}
+              label="Type"
+              onChange={(e) => handleValueTypeChange(e.target.value as ConfigurationValueType)}
+            >
+              {CONFIGURATION_VALUE_TYPES.map((type) => (
+                <MenuItem key={type.value} value={type.value}>{type.label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          {formData.valueType === 'enum' && (
+            <TextField
+              margin="dense"
+              label="Options"
+              fullWidth
+              variant="outlined"
+              value={enumOptionsInput}
+              onChange={(e) => handleEnumOptionsChange(e.target.value)}
+              error={!!formErrors.enumOptions}
+              helperText={formErrors.enumOptions || 'Comma-separated list of allowed values'}
+              sx={{ mb: 2 }}
+            />
+          )}
+          <FormControl fullWidth sx={{ mb: 2 }}>
+            <InputLabel id="visibility-label">Visibility</InputLabel>
+            <Select
+              labelId="visibility-label"
+              value={formData.visibility || 'public'}
+              label="Visibility"
+              onChange={(e) => setFormData({ ...formData, visibility: e.target.value as ConfigurationVisibility })}
+            >
+              {CONFIGURATION_VISIBILITIES.map((tier) => (
+                <MenuItem key={tier.value} value={tier.value}>{tier.label} ({tier.description.toLowerCase()})</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Box sx={{ mb: 2 }}>
+            <TagsInput
+              freeSolo
+              label="Tags"
+              placeholder="e.g. ui, liveness, legal"
+              options={knownTags}
+              value={formData.tags || []}
+              onChange={(tags) => setFormData({ ...formData, tags })}
+            />
+          </Box>
+          <ConfigValueEditor
+            valueType={formData.valueType}
             value={formData.value}
-            onChange={handleInputChange}
-            error={!!formErrors.value}
-            helperText={formErrors.value}
-            sx={{ mb: 2 }}
+            onChange={(value) => {
+              setSecretValueChanged(true);
+              setFormData({ ...formData, value });
+            }}
+            enumOptions={formData.enumOptions}
+            error={formErrors.value}
+            helperText={keepsSecretValue()
+              ? 'Leave unchanged to keep the current secret value'
+              : `Reference other keys with \${some.key}`}
           />
+          {!isEditing && deprecations[formData.key] && (
+            <Alert severity="warning" sx={{ mb: 2 }}>
+              This key is deprecated
+              {deprecations[formData.key].replacementKey ? `, use ${deprecations[formData.key].replacementKey} instead` : ''}
+              {` (sunset ${deprecations[formData.key].sunsetDate}).`}
+            </Alert>
+          )}
+          {formPreview && (
+            <Alert severity={formPreview.error ? 'error' : 'info'} sx={{ mb: 2 }}>
+              {formPreview.error || `Preview: ${formatValue(formPreview.value)}`}
+            </Alert>
+          )}
           <TextField
             margin="dense"
             name="description"
@@ -308,23 +1008,97 @@ const ConfigurationsPage: React.FC = () => {
         <DialogActions>
           <Button onClick={handleCloseDialog}>Cancel</Button>
           <Button onClick={handleSubmit} variant="contained" color="primary">
-            {isEditing ? 'Update' : 'Create'}
+            {proposing ? 'Add to change request' : isEditing ? 'Update' : 'Create'}
           </Button>
         </DialogActions>
       </Dialog>
 
+      {layer === 'shortname' && shortname && version && (
+        <SchemaDialog
+          open={openSchemaDialog}
+          shortname={shortname}
+          version={version}
+          onClose={() => setOpenSchemaDialog(false)}
+          onSaved={handleSchemaSaved}
+        />
+      )}
+
+      {scope && (
+        <RenameKeyDialog
+          open={openRenameDialog}
+          scope={scope}
+          config={selectedConfig}
+          onClose={() => setOpenRenameDialog(false)}
+          onRenamed={handleKeyRenamed}
+        />
+      )}
+
+      {scope && (
+        <RevisionHistoryDrawer
+          open={!!historyConfig}
+          scope={scope}
+          config={historyConfig}
+          readOnly={statusReadOnly || lockReadOnly}
+          onClose={() => setHistoryConfig(null)}
+          onReverted={handleReverted}
+        />
+      )}
+
+      <CommentsDrawer
+        thread={commentThread}
+        onClose={() => setCommentThread(null)}
+        onChanged={fetchCommentThreads}
+      />
+
+      <DeprecationDialog
+        open={!!keyToDeprecate}
+        configKey={keyToDeprecate || ''}
+        deprecation={keyToDeprecate ? deprecations[keyToDeprecate] : undefined}
+        onClose={() => setKeyToDeprecate(null)}
+        onSaved={() => {
+          setKeyToDeprecate(null);
+          fetchDeprecations();
+        }}
+      />
+
+      <ChangeRequestDialog
+        open={!!selectedChangeRequest}
+        changeRequest={selectedChangeRequest}
+        onClose={() => setSelectedChangeRequest(null)}
+        onReviewed={handleChangeRequestReviewed}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={openDeleteDialog} onClose={handleCloseDeleteDialog}>
         <DialogTitle>Delete Configuration</DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to delete the configuration "{selectedConfig?.key}"? This action cannot be undone.
+            Are you sure you want to delete the configuration "{selectedConfig?.key}"? It can be restored from the Trash for {TRASH_RETENTION_DAYS} days.
           </Typography>
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseDeleteDialog}>Cancel</Button>
           <Button onClick={handleDeleteSubmit} variant="contained" color="error">
-            Delete
+            {proposing ? 'Propose deletion' : 'Delete'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Delete Subtree Confirmation Dialog */}
+      <Dialog open={!!subtreeToDelete} onClose={() => setSubtreeToDelete(null)} maxWidth="sm" fullWidth>
+        <DialogTitle>Delete {subtreeToDelete?.keyPrefix}</DialogTitle>
+        <DialogContent>
+          <Typography gutterBottom>
+            The following {subtreeToDelete?.configs.length} configuration(s) will be deleted. They can be restored from the Trash for {TRASH_RETENTION_DAYS} days.
+          </Typography>
+          <Box component="ul" sx={{ maxHeight: 240, overflow: 'auto', fontFamily: 'monospace', fontSize: 13 }}>
+            {subtreeToDelete?.configs.map(config => <li key={config.configId}>{config.key}</li>)}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSubtreeToDelete(null)} disabled={deletingSubtree}>Cancel</Button>
+          <Button onClick={handleDeleteSubtreeSubmit} variant="contained" color="error" disabled={deletingSubtree}>
+            {proposing ? 'Propose deletion of' : 'Delete'} {subtreeToDelete?.configs.length}
           </Button>
         </DialogActions>
       </Dialog>
@@ -0,0 +1,136 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  CircularProgress,
+  Alert,
+  Chip,
+  FormControlLabel,
+  Switch,
+  Button
+} from '@mui/material';
+import { deprecationsApi } from '../services/api';
+import { DeprecatedKeyUsage } from '../models';
+
+// Defaults layers are stored under a wildcard shortname and version
+const describeScope = ({ shortname, version }: DeprecatedKeyUsage): string => {
+  if (shortname === '*') return version === '*' ? 'Global defaults' : 'Version defaults';
+  return shortname;
+};
+
+const getConfigurationsPath = ({ shortname, version }: DeprecatedKeyUsage): string => {
+  if (shortname === '*') return version === '*' ? '/defaults' : `/versions/${version}/defaults`;
+  return `/versions/${version}/shortnames/${shortname}/configurations`;
+};
+
+const DeprecationReportPage: React.FC = () => {
+  const [usages, setUsages] = useState<DeprecatedKeyUsage[]>([]);
+  const [date, setDate] = useState<string>('');
+  const [pastSunsetOnly, setPastSunsetOnly] = useState<boolean>(true);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await deprecationsApi.getReport(pastSunsetOnly);
+      setUsages(response.usages);
+      setDate(response.date);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching deprecation report:', err);
+      setError('Failed to load the deprecation report. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, [pastSunsetOnly]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Deprecation Report</Typography>
+        <FormControlLabel
+          control={<Switch checked={pastSunsetOnly} onChange={(e, checked) => setPastSunsetOnly(checked)} />}
+          label="Only keys past their sunset date"
+        />
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {usages.length} usage(s) of deprecated keys as of {date}.
+          </Typography>
+          <TableContainer component={Paper}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell>Key</TableCell>
+                  <TableCell>Replacement</TableCell>
+                  <TableCell>Sunset Date</TableCell>
+                  <TableCell>Shortname</TableCell>
+                  <TableCell>Version</TableCell>
+                  <TableCell>Actions</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {usages.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} align="center">
+                      No shortname or version uses a deprecated key.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  usages.map((usage) => (
+                    <TableRow key={usage.configId}>
+                      <TableCell>{usage.key}</TableCell>
+                      <TableCell>{usage.replacementKey || '-'}</TableCell>
+                      <TableCell>
+                        <Chip
+                          label={usage.sunsetDate}
+                          size="small"
+                          color={usage.pastSunset ? 'error' : 'warning'}
+                          variant="outlined"
+                        />
+                      </TableCell>
+                      <TableCell>{describeScope(usage)}</TableCell>
+                      <TableCell>{usage.version === '*' ? 'All' : usage.version}</TableCell>
+                      <TableCell>
+                        <Button size="small" component={Link} to={getConfigurationsPath(usage)}>
+                          View
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default DeprecationReportPage;
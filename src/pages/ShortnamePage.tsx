@@ -21,7 +21,8 @@ import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import VersionsIcon from '@mui/icons-material/Collections';
 import { shortnamesApi } from '../services/api';
-import { Shortname, ShortnameFormData } from '../models';
+import { Shortname, ShortnameFormData, TRASH_RETENTION_DAYS } from '../models';
+import RolloutPanel from '../components/versions/RolloutPanel';
 
 const ShortnamePage: React.FC = () => {
   const { shortname } = useParams<{ shortname: string }>();
@@ -242,6 +243,9 @@ const ShortnamePage: React.FC = () => {
             </CardContent>
           </Card>
         </Grid>
+        <Grid item xs={12}>
+          <RolloutPanel shortname={shortnameData.shortname} />
+        </Grid>
       </Grid>
 
       {/* Edit Dialog */}
@@ -287,7 +291,7 @@ const ShortnamePage: React.FC = () => {
         <DialogTitle>Delete Shortname</DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to delete the shortname "{shortnameData.shortname}"? This action cannot be undone and will delete all associated versions and configurations.
+            Are you sure you want to delete the shortname "{shortnameData.shortname}"? This will delete all associated versions and configurations. They can be restored from the Trash for {TRASH_RETENTION_DAYS} days.
           </Typography>
         </DialogContent>
         <DialogActions>
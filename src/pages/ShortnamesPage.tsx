@@ -24,7 +24,7 @@ import {
 } from '@mui/icons-material';
 import { useAuth } from '../contexts/AuthContext';
 import { shortnamesApi } from '../services/api';
-import { Shortname, ShortnameFormData } from '../models';
+import { Shortname, ShortnameFormData, TRASH_RETENTION_DAYS } from '../models';
 
 const ShortnamesPage: React.FC = () => {
   const [shortnames, setShortnames] = useState<Shortname[]>([]);
@@ -264,7 +264,7 @@ const ShortnamesPage: React.FC = () => {
         <DialogTitle>Confirm Delete</DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to delete the shortname "{shortnameToDelete}"? This action cannot be undone.
+            Are you sure you want to delete the shortname "{shortnameToDelete}"? It can be restored from the Trash for {TRASH_RETENTION_DAYS} days.
           </Typography>
         </DialogContent>
         <DialogActions>
@@ -0,0 +1,253 @@
+import React, { useEffect, useState, useCallback } from 'react';
+import {
+  Box,
+  Typography,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  CircularProgress,
+  Alert,
+  Chip,
+  Button,
+  TextField,
+  MenuItem,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+} from '@mui/material';
+import {
+  RestoreFromTrash as RestoreIcon,
+  DeleteForever as PurgeIcon,
+} from '@mui/icons-material';
+import { trashApi } from '../services/api';
+import { TRASH_ENTITIES, TRASH_RETENTION_DAYS, TrashEntity, TrashEntry } from '../models';
+import { useAuth } from '../contexts/AuthContext';
+import { isAdmin } from '../utils/permissions';
+import { parseApiError } from '../utils/apiErrors';
+
+// Defaults are stored under the wildcard shortname and version
+const ANY = '*';
+
+/**
+ * Name of the item a deletion was made on
+ */
+const describeEntry = (entry: TrashEntry): string => {
+  switch (entry.entity) {
+    case 'shortname':
+      return entry.entityId;
+    case 'version':
+      return entry.shortname ? `${entry.version} of ${entry.shortname}` : entry.entityId;
+    default: {
+      const scope = entry.shortname === ANY
+        ? (entry.version === ANY ? 'global defaults' : `defaults of ${entry.version}`)
+        : `${entry.shortname} ${entry.version}`;
+      return `${entry.key || entry.entityId} (${scope})`;
+    }
+  }
+};
+
+/**
+ * What a deletion holds besides the item itself
+ */
+const describeContents = (entry: TrashEntry): string => {
+  const { versions, shortnameVersions, configurations } = entry.counts;
+  const parts = [];
+  if (entry.entity === 'shortname' && versions + shortnameVersions > 0) parts.push(`${versions + shortnameVersions} version(s)`);
+  if (entry.entity === 'version' && !entry.shortname && shortnameVersions > 0) parts.push(`${shortnameVersions} shortname(s)`);
+  if (entry.entity !== 'configuration' && configurations > 0) parts.push(`${configurations} configuration(s)`);
+  return parts.length > 0 ? parts.join(', ') : '-';
+};
+
+const TrashPage: React.FC = () => {
+  const { authState } = useAuth();
+  const canPurge = isAdmin(authState.user);
+
+  const [entity, setEntity] = useState<TrashEntity | ''>('');
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [working, setWorking] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [entryToPurge, setEntryToPurge] = useState<TrashEntry | null>(null);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await trashApi.getEntries(entity || undefined);
+      setEntries(response.entries);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching trash:', err);
+      setError(parseApiError(err, 'Failed to load the trash').message);
+    } finally {
+      setLoading(false);
+    }
+  }, [entity]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const handleRestore = async (entry: TrashEntry) => {
+    setWorking(true);
+    setNotice(null);
+    try {
+      await trashApi.restore(entry.deletionId);
+      setNotice(`Restored ${entry.entity} ${describeEntry(entry)}.`);
+      setError(null);
+      await fetchEntries();
+    } catch (err) {
+      console.error(`Error restoring deletion ${entry.deletionId}:`, err);
+      setError(parseApiError(err, 'Failed to restore').message);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handlePurgeConfirm = async () => {
+    if (!entryToPurge) return;
+
+    setWorking(true);
+    setNotice(null);
+    try {
+      await trashApi.purge(entryToPurge.deletionId);
+      setNotice(`Purged ${entryToPurge.entity} ${describeEntry(entryToPurge)}.`);
+      setError(null);
+      setEntryToPurge(null);
+      await fetchEntries();
+    } catch (err) {
+      console.error(`Error purging deletion ${entryToPurge.deletionId}:`, err);
+      setError(parseApiError(err, 'Failed to purge').message);
+      setEntryToPurge(null);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
+        <Typography variant="h4">Trash</Typography>
+        <TextField
+          select
+          size="small"
+          label="Entity"
+          value={entity}
+          onChange={(e) => setEntity(e.target.value as TrashEntity | '')}
+          sx={{ minWidth: 160 }}
+        >
+          <MenuItem value="">All</MenuItem>
+          {TRASH_ENTITIES.map((item) => (
+            <MenuItem key={item.value} value={item.value}>{item.label}</MenuItem>
+          ))}
+        </TextField>
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Deleted shortnames, versions and configurations can be restored for {TRASH_RETENTION_DAYS} days, with
+        everything they held. After that, they are removed for good.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Deleted</TableCell>
+                <TableCell>Entity</TableCell>
+                <TableCell>Item</TableCell>
+                <TableCell>Contents</TableCell>
+                <TableCell>Deleted by</TableCell>
+                <TableCell>Expires</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} align="center">
+                    The trash is empty.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map((entry) => (
+                  <TableRow key={entry.deletionId} hover>
+                    <TableCell>{new Date(entry.deletedAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Chip label={entry.entity} size="small" variant="outlined" />
+                    </TableCell>
+                    <TableCell sx={{ fontFamily: 'monospace', fontSize: '0.8rem' }}>{describeEntry(entry)}</TableCell>
+                    <TableCell>{describeContents(entry)}</TableCell>
+                    <TableCell>{entry.deletedByEmail || entry.deletedBy}</TableCell>
+                    <TableCell>{new Date(entry.expiresAt * 1000).toLocaleDateString()}</TableCell>
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                      <Button
+                        size="small"
+                        startIcon={<RestoreIcon />}
+                        onClick={() => handleRestore(entry)}
+                        disabled={working}
+                      >
+                        Restore
+                      </Button>
+                      {canPurge && (
+                        <Button
+                          size="small"
+                          color="error"
+                          startIcon={<PurgeIcon />}
+                          onClick={() => setEntryToPurge(entry)}
+                          disabled={working}
+                        >
+                          Purge
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Purge Confirmation Dialog */}
+      <Dialog open={Boolean(entryToPurge)} onClose={() => setEntryToPurge(null)}>
+        <DialogTitle>Confirm Purge</DialogTitle>
+        <DialogContent>
+          <Typography>
+            Are you sure you want to purge the {entryToPurge?.entity} "{entryToPurge && describeEntry(entryToPurge)}"?
+            It will be removed for good and can no longer be restored.
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEntryToPurge(null)}>Cancel</Button>
+          <Button onClick={handlePurgeConfirm} color="error" variant="contained" disabled={working}>
+            Purge
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default TrashPage;
@@ -17,10 +17,31 @@ import {
   Tab,
   Card,
   CardContent,
-  Divider
+  Divider,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButtonGroup,
+  ToggleButton
 } from '@mui/material';
+import TableRowsIcon from '@mui/icons-material/TableRows';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
 import { configurationsApi, versionsApi } from '../services/api';
-import { Configuration, Shortname } from '../models';
+import {
+  Configuration,
+  ConfigurationVisibility,
+  CONFIGURATION_VISIBILITIES,
+  ResolvedConfiguration,
+  Shortname
+} from '../models';
+import ResolvedConfigurationsTable from '../components/configurations/ResolvedConfigurationsTable';
+import ConfigTreeView from '../components/configurations/ConfigTreeView';
+import VisibilityChip from '../components/configurations/VisibilityChip';
+import TagChips from '../components/configurations/TagChips';
+import TagsInput from '../components/configurations/TagsInput';
+import { formatValue, SECRET_MASK } from '../utils/formatting';
+import { collectTags, hasAllTags } from '../utils/tags';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -52,6 +73,13 @@ const VersionConfigurationsPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [tabValue, setTabValue] = useState(0);
   const [allConfigurations, setAllConfigurations] = useState<Configuration[]>([]);
+  const [resolvedShortname, setResolvedShortname] = useState<string>('');
+  const [resolvedConfigurations, setResolvedConfigurations] = useState<ResolvedConfiguration[]>([]);
+  const [resolvedLoading, setResolvedLoading] = useState<boolean>(false);
+  const [viewMode, setViewMode] = useState<'table' | 'tree'>('table');
+  const [visibilityFilter, setVisibilityFilter] = useState<ConfigurationVisibility | 'all'>('all');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [taggedConfigurations, setTaggedConfigurations] = useState<Configuration[]>([]);
 
   const fetchData = useCallback(async () => {
     if (!version) return;
@@ -88,11 +116,60 @@ const VersionConfigurationsPage: React.FC = () => {
     fetchData();
   }, [fetchData]);
 
+  useEffect(() => {
+    if (!resolvedShortname && shortnames.length > 0) {
+      setResolvedShortname(shortnames[0].shortname);
+    }
+  }, [shortnames, resolvedShortname]);
+
+  useEffect(() => {
+    if (!version || !resolvedShortname) return;
+
+    setResolvedLoading(true);
+    configurationsApi.getResolved(resolvedShortname, version)
+      .then((response) => setResolvedConfigurations(response.configurations))
+      .catch((err) => {
+        console.error(`Error resolving configurations for ${resolvedShortname}:`, err);
+        setError('Failed to resolve configurations');
+      })
+      .finally(() => setResolvedLoading(false));
+  }, [version, resolvedShortname]);
+
+  // Configurations with the selected tags across all shortnames are queried server side
+  useEffect(() => {
+    if (!version || tagFilter.length === 0) return;
+
+    configurationsApi.getByVersion(version, tagFilter)
+      .then((response) => setTaggedConfigurations(response.configurations))
+      .catch((err) => {
+        console.error(`Error fetching configurations tagged ${tagFilter.join(', ')}:`, err);
+        setError('Failed to fetch tagged configurations');
+      });
+  }, [version, tagFilter]);
+
   const handleTabChange = (event: React.SyntheticEvent, newValue: number) => {
     setTabValue(newValue);
   };
 
-  const renderConfigurationsTable = (configs: Configuration[]) => {
+  const renderValue = (config: Configuration) =>
+    config.secret ? SECRET_MASK : typeof config.value === 'object' ? JSON.stringify(config.value) : formatValue(config.value);
+
+  const renderConfigurationsTable = (allConfigs: Configuration[]) => {
+    const configs = allConfigs.filter(config =>
+      (visibilityFilter === 'all' || config.visibility === visibilityFilter) && hasAllTags(config, tagFilter)
+    );
+
+    if (viewMode === 'tree') {
+      return (
+        <Paper>
+          <ConfigTreeView
+            configurations={configs}
+            renderValue={(config) => `${renderValue(config)} (${config.shortname})`}
+          />
+        </Paper>
+      );
+    }
+
     if (configs.length === 0) {
       return (
         <Alert severity="info" sx={{ mt: 2 }}>
@@ -108,6 +185,8 @@ const VersionConfigurationsPage: React.FC = () => {
             <TableRow>
               <TableCell>Key</TableCell>
               <TableCell>Value</TableCell>
+              <TableCell>Visibility</TableCell>
+              <TableCell>Tags</TableCell>
               <TableCell>Description</TableCell>
               <TableCell>Shortname</TableCell>
               <TableCell>Updated At</TableCell>
@@ -117,7 +196,14 @@ const VersionConfigurationsPage: React.FC = () => {
             {configs.map((config) => (
               <TableRow key={config.configId}>
                 <TableCell>{config.key}</TableCell>
-                <TableCell>{typeof config.value === 'object' ? JSON.stringify(config.value) : config.value}</TableCell>
+                <TableCell>{renderValue(config)}</TableCell>
+                <TableCell><VisibilityChip visibility={config.visibility} /></TableCell>
+                <TableCell>
+                  <TagChips
+                    tags={config.tags || []}
+                    onClick={(tag) => !tagFilter.includes(tag) && setTagFilter([...tagFilter, tag])}
+                  />
+                </TableCell>
                 <TableCell>{config.description}</TableCell>
                 <TableCell>{config.shortname}</TableCell>
                 <TableCell>{new Date(config.updatedAt).toLocaleString()}</TableCell>
@@ -133,14 +219,23 @@ const VersionConfigurationsPage: React.FC = () => {
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 3 }}>
         <Typography variant="h4">Configurations for Version: {version}</Typography>
-        <Button 
-          variant="contained" 
-          color="primary" 
-          component={Link}
-          to={`/versions/${version}/shortnames`}
-        >
-          Manage Shortnames
-        </Button>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button
+            variant="outlined"
+            component={Link}
+            to={`/versions/${version}/defaults`}
+          >
+            Version Defaults
+          </Button>
+          <Button 
+            variant="contained" 
+            color="primary" 
+            component={Link}
+            to={`/versions/${version}/shortnames`}
+          >
+            Manage Shortnames
+          </Button>
+        </Box>
       </Box>
 
       {error && (
@@ -156,8 +251,43 @@ const VersionConfigurationsPage: React.FC = () => {
       ) : (
         <Box sx={{ width: '100%' }}>
           <Box sx={{ borderBottom: 1, borderColor: 'divider' }}>
+            <Box sx={{ float: 'right', mt: 1, display: 'flex', gap: 1 }}>
+              <Box sx={{ minWidth: 220 }}>
+                <TagsInput
+                  value={tagFilter}
+                  onChange={setTagFilter}
+                  options={collectTags(allConfigurations)}
+                  label="Tags"
+                  size="small"
+                />
+              </Box>
+              <FormControl size="small" sx={{ minWidth: 140 }}>
+                <InputLabel id="visibility-filter-label">Visibility</InputLabel>
+                <Select
+                  labelId="visibility-filter-label"
+                  value={visibilityFilter}
+                  label="Visibility"
+                  onChange={(e) => setVisibilityFilter(e.target.value as ConfigurationVisibility | 'all')}
+                >
+                  <MenuItem value="all">All tiers</MenuItem>
+                  {CONFIGURATION_VISIBILITIES.map((tier) => (
+                    <MenuItem key={tier.value} value={tier.value}>{tier.label}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <ToggleButtonGroup
+                value={viewMode}
+                exclusive
+                size="small"
+                onChange={(e, mode: 'table' | 'tree' | null) => mode && setViewMode(mode)}
+              >
+                <ToggleButton value="table" aria-label="Table view"><TableRowsIcon fontSize="small" /></ToggleButton>
+                <ToggleButton value="tree" aria-label="Tree view"><AccountTreeIcon fontSize="small" /></ToggleButton>
+              </ToggleButtonGroup>
+            </Box>
             <Tabs value={tabValue} onChange={handleTabChange} aria-label="shortname tabs">
               <Tab label="All Configurations" />
+              <Tab label="Resolved" />
               {shortnames.map((shortname, index) => (
                 <Tab key={shortname.shortname} label={shortname.shortname} />
               ))}
@@ -168,11 +298,45 @@ const VersionConfigurationsPage: React.FC = () => {
             <Typography variant="h6" gutterBottom>
               All Configurations
             </Typography>
-            {renderConfigurationsTable(allConfigurations)}
+            {renderConfigurationsTable(tagFilter.length > 0 ? taggedConfigurations : allConfigurations)}
+          </TabPanel>
+
+          <TabPanel value={tabValue} index={1}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+              <Typography variant="h6">
+                Resolved Configurations
+              </Typography>
+              <FormControl size="small" sx={{ minWidth: 200 }}>
+                <InputLabel id="resolved-shortname-label">Shortname</InputLabel>
+                <Select
+                  labelId="resolved-shortname-label"
+                  value={resolvedShortname}
+                  label="Shortname"
+                  onChange={(e) => setResolvedShortname(e.target.value)}
+                >
+                  {shortnames.map((shortname) => (
+                    <MenuItem key={shortname.shortname} value={shortname.shortname}>{shortname.shortname}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+            <Typography variant="body2" color="text.secondary" paragraph>
+              Effective values after applying global defaults, version defaults and shortname overrides.
+              Expand a key to see which layers define it.
+            </Typography>
+            {resolvedLoading ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+                <CircularProgress />
+              </Box>
+            ) : shortnames.length === 0 ? (
+              <Alert severity="info">Add a shortname to this version to see its resolved configurations.</Alert>
+            ) : (
+              <ResolvedConfigurationsTable configurations={resolvedConfigurations} />
+            )}
           </TabPanel>
           
           {shortnames.map((shortname, index) => (
-            <TabPanel key={shortname.shortname} value={tabValue} index={index + 1}>
+            <TabPanel key={shortname.shortname} value={tabValue} index={index + 2}>
               <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
                 <Typography variant="h6" gutterBottom>
                   {shortname.shortname}
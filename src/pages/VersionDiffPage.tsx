@@ -0,0 +1,134 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  IconButton,
+  Tooltip
+} from '@mui/material';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import { versionsApi } from '../services/api';
+import { Version, VersionDiffResponse } from '../models';
+import VersionDiffView from '../components/versions/VersionDiffView';
+import { parseApiError } from '../utils/apiErrors';
+import { sortByVersionDescending } from '../utils/semver';
+
+const VersionDiffPage: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const from = searchParams.get('from') || '';
+  const to = searchParams.get('to') || '';
+  const [versions, setVersions] = useState<Version[]>([]);
+  const [diff, setDiff] = useState<VersionDiffResponse | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    versionsApi.getAllVersions()
+      .then(response => setVersions(sortByVersionDescending(response.versions)))
+      .catch(err => {
+        console.error('Error fetching versions:', err);
+        setError('Failed to load versions. Please try again.');
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!from || !to) {
+      setDiff(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    versionsApi.getDiff(from, to)
+      .then(response => {
+        if (cancelled) return;
+        setDiff(response);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error comparing versions:', err);
+        if (!cancelled) setError(parseApiError(err, 'Failed to compare versions. Please try again.').message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to]);
+
+  const selectVersions = (nextFrom: string, nextTo: string) => {
+    setSearchParams({ from: nextFrom, to: nextTo });
+  };
+
+  const renderVersionSelect = (label: string, value: string, onChange: (version: string) => void) => (
+    <FormControl size="small" sx={{ minWidth: 180 }}>
+      <InputLabel id={`${label}-version-label`}>{label}</InputLabel>
+      <Select
+        labelId={`${label}-version-label`}
+        value={versions.some(version => version.version === value) ? value : ''}
+        label={label}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {versions.map((version) => (
+          <MenuItem key={version.version} value={version.version}>{version.version}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  return (
+    <Box>
+      <Typography variant="h4" sx={{ mb: 3 }}>Compare Versions</Typography>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 3 }}>
+        {renderVersionSelect('From', from, (version) => selectVersions(version, to))}
+        <Tooltip title="Swap versions">
+          <span>
+            <IconButton onClick={() => selectVersions(to, from)} disabled={!from || !to}>
+              <SwapHorizIcon />
+            </IconButton>
+          </span>
+        </Tooltip>
+        {renderVersionSelect('To', to, (version) => selectVersions(from, version))}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {!from || !to ? (
+        <Alert severity="info">Select two versions to compare their configurations across every shortname.</Alert>
+      ) : loading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : diff && (
+        <>
+          {diff.shortnames.length === 0 && (
+            <Alert severity="success" sx={{ mb: 2 }}>Versions {diff.from} and {diff.to} have the same configurations.</Alert>
+          )}
+
+          <VersionDiffView
+            changes={diff}
+            fromLabel={`v${diff.from}`}
+            toLabel={`v${diff.to}`}
+            fromVersion={diff.from}
+            toVersion={diff.to}
+          />
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default VersionDiffPage;
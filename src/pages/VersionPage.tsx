@@ -16,15 +16,17 @@ import {
   DialogTitle,
   DialogContent,
   DialogActions,
-  TextField,
-  FormControlLabel,
-  Switch
+  TextField
 } from '@mui/material';
 import SettingsIcon from '@mui/icons-material/Settings';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
+import RestoreIcon from '@mui/icons-material/Restore';
 import { versionsApi } from '../services/api';
-import { Version, VersionFormData } from '../models';
+import { parseApiError } from '../utils/apiErrors';
+import { Version, VersionFormData, VersionStatus, VERSION_STATUSES, VERSION_STATUS_TRANSITIONS, isEditableVersionStatus, TRASH_RETENTION_DAYS } from '../models';
+import VersionStatusChip from '../components/versions/VersionStatusChip';
+import SnapshotsDialog from '../components/versions/SnapshotsDialog';
 
 const VersionPage: React.FC = () => {
   const { shortname, version: versionId } = useParams<{ shortname: string; version: string }>();
@@ -34,10 +36,10 @@ const VersionPage: React.FC = () => {
   const [error, setError] = useState<string | null>(null);
   const [openEditDialog, setOpenEditDialog] = useState<boolean>(false);
   const [openDeleteDialog, setOpenDeleteDialog] = useState<boolean>(false);
+  const [openSnapshotsDialog, setOpenSnapshotsDialog] = useState<boolean>(false);
   const [formData, setFormData] = useState<VersionFormData>({
     version: '',
-    description: '',
-    isActive: true
+    description: ''
   });
 
   const fetchVersion = async () => {
@@ -49,8 +51,7 @@ const VersionPage: React.FC = () => {
       setVersionData(response);
       setFormData({
         version: response.version,
-        description: response.description,
-        isActive: response.isActive
+        description: response.description
       });
       setError(null);
     } catch (err) {
@@ -83,8 +84,7 @@ const VersionPage: React.FC = () => {
     if (versionData) {
       setFormData({
         version: versionData.version,
-        description: versionData.description,
-        isActive: versionData.isActive
+        description: versionData.description
       });
     }
   };
@@ -94,10 +94,10 @@ const VersionPage: React.FC = () => {
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, checked } = e.target;
+    const { name, value } = e.target;
     setFormData({
       ...formData,
-      [name]: name === 'isActive' ? checked : value
+      [name]: value
     });
   };
 
@@ -114,6 +114,18 @@ const VersionPage: React.FC = () => {
     }
   };
 
+  const handleStatusChange = async (status: VersionStatus) => {
+    if (!versionId) return;
+
+    try {
+      await versionsApi.updateStatus(versionId, status);
+      fetchVersion();
+    } catch (err) {
+      console.error('Error changing version status:', err);
+      setError(parseApiError(err, 'Failed to change version status. Please try again.').message);
+    }
+  };
+
   const handleDeleteSubmit = async () => {
     if (!shortname || !versionId) return;
     
@@ -122,7 +134,7 @@ const VersionPage: React.FC = () => {
       navigate(`/shortnames/${shortname}/versions`);
     } catch (err) {
       console.error('Error deleting version:', err);
-      setError('Failed to delete version. Please try again.');
+      setError(parseApiError(err, 'Failed to delete version. Please try again.').message);
       setOpenDeleteDialog(false);
     }
   };
@@ -180,10 +192,20 @@ const VersionPage: React.FC = () => {
             color="error" 
             startIcon={<DeleteIcon />}
             onClick={handleDeleteClick}
+            disabled={versionData.status === 'published' || versionData.status === 'deprecated'}
             sx={{ mr: 1 }}
           >
             Delete
           </Button>
+          <Button
+            variant="outlined"
+            color="primary"
+            startIcon={<RestoreIcon />}
+            onClick={() => setOpenSnapshotsDialog(true)}
+            sx={{ mr: 1 }}
+          >
+            Snapshots
+          </Button>
           <Button 
             variant="contained" 
             color="primary" 
@@ -216,9 +238,14 @@ const VersionPage: React.FC = () => {
                   <Typography variant="body2" color="text.secondary">
                     Status
                   </Typography>
-                  <Typography variant="body1">
-                    {versionData.isActive ? 'Active' : 'Inactive'}
-                  </Typography>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', mt: 0.5 }}>
+                    <VersionStatusChip status={versionData.status} />
+                    {VERSION_STATUS_TRANSITIONS[versionData.status].map((status) => (
+                      <Button key={status} size="small" onClick={() => handleStatusChange(status)}>
+                        Move to {VERSION_STATUSES.find(item => item.value === status)?.label}
+                      </Button>
+                    ))}
+                  </Box>
                 </Grid>
                 <Grid item xs={12} sm={6}>
                   <Typography variant="body2" color="text.secondary">
@@ -287,16 +314,6 @@ const VersionPage: React.FC = () => {
             onChange={handleInputChange}
             sx={{ mb: 2 }}
           />
-          <FormControlLabel
-            control={
-              <Switch
-                checked={formData.isActive}
-                onChange={handleInputChange}
-                name="isActive"
-              />
-            }
-            label="Active"
-          />
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseEditDialog}>Cancel</Button>
@@ -311,7 +328,7 @@ const VersionPage: React.FC = () => {
         <DialogTitle>Delete Version</DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to delete version {versionData.version}? This action cannot be undone.
+            Are you sure you want to delete version {versionData.version}? It can be restored from the Trash for {TRASH_RETENTION_DAYS} days.
           </Typography>
         </DialogContent>
         <DialogActions>
@@ -321,6 +338,13 @@ const VersionPage: React.FC = () => {
           </Button>
         </DialogActions>
       </Dialog>
+
+      <SnapshotsDialog
+        open={openSnapshotsDialog}
+        version={versionData.version}
+        editable={isEditableVersionStatus(versionData.status)}
+        onClose={() => setOpenSnapshotsDialog(false)}
+      />
     </Box>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useCallback } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useParams, useNavigate, Link, useLocation } from 'react-router-dom';
 import {
   Box,
   Typography,
@@ -21,13 +21,26 @@ import {
   Add as AddIcon,
   Delete as DeleteIcon,
   Edit as EditIcon,
+  Lock as LockIcon,
+  Description as DescriptionIcon,
 } from '@mui/icons-material';
-import { versionsApi, shortnamesApi } from '../services/api';
-import { Shortname, ShortnameFormData, Version } from '../models';
+import { versionsApi, shortnamesApi, commentsApi } from '../services/api';
+import { CommentThread, CommentThreadRef, Shortname, ShortnameFormData, Version, isEditableVersionStatus, TRASH_RETENTION_DAYS } from '../models';
+import VersionStatusChip from '../components/versions/VersionStatusChip';
+import VersionLockBanner from '../components/versions/VersionLockBanner';
+import VersionLockDialog from '../components/versions/VersionLockDialog';
+import ReleaseNotesDialog from '../components/versions/ReleaseNotesDialog';
+import CommentBadge from '../components/comments/CommentBadge';
+import CommentsDrawer from '../components/comments/CommentsDrawer';
+import { useAuth } from '../contexts/AuthContext';
+import { canOverrideVersionLock } from '../utils/permissions';
+import { indexThreads } from '../utils/comments';
 
 const VersionShortnamesPage: React.FC = () => {
   const { version } = useParams<{ version: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
+  const { authState } = useAuth();
   
   const [versionDetails, setVersionDetails] = useState<Version | null>(null);
   const [shortnames, setShortnames] = useState<Shortname[]>([]);
@@ -45,6 +58,11 @@ const VersionShortnamesPage: React.FC = () => {
   const [submitting, setSubmitting] = useState<boolean>(false);
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState<boolean>(false);
   const [shortnameToDelete, setShortnameToDelete] = useState<string | null>(null);
+  const [lockDialogOpen, setLockDialogOpen] = useState<boolean>(false);
+  const [releaseNotesDialogOpen, setReleaseNotesDialogOpen] = useState<boolean>(false);
+  const [versionThread, setVersionThread] = useState<CommentThread | undefined>(undefined);
+  const [shortnameThreads, setShortnameThreads] = useState<Record<string, CommentThread>>({});
+  const [commentThread, setCommentThread] = useState<CommentThreadRef | null>(null);
 
   const fetchShortnames = useCallback(async () => {
     if (!version) return;
@@ -65,6 +83,56 @@ const VersionShortnamesPage: React.FC = () => {
     fetchShortnames();
   }, [fetchShortnames]);
 
+  // Comment counts of the version and of its shortnames
+  const fetchCommentThreads = useCallback(async () => {
+    if (!version) return;
+
+    try {
+      const [versionResponse, shortnamesResponse] = await Promise.all([
+        commentsApi.getThreads('version', { version }),
+        commentsApi.getThreads('shortname', { version }),
+      ]);
+      setVersionThread(versionResponse.threads[0]);
+      setShortnameThreads(indexThreads(shortnamesResponse.threads, 'shortname'));
+    } catch (err) {
+      console.error('Error fetching comment threads:', err);
+    }
+  }, [version]);
+
+  useEffect(() => {
+    fetchCommentThreads();
+  }, [fetchCommentThreads]);
+
+  // Mentions link to the page with the thread to open
+  useEffect(() => {
+    const state = location.state as { commentThread?: CommentThreadRef } | null;
+    if (state?.commentThread) setCommentThread(state.commentThread);
+  }, [location.state]);
+
+  useEffect(() => {
+    if (!version) return;
+
+    versionsApi.getVersion(version)
+      .then(setVersionDetails)
+      .catch(err => console.error('Error fetching version:', err));
+  }, [version]);
+
+  // Shortnames cannot be added to published versions, nor to versions locked for a release
+  const readOnly = !!versionDetails && (
+    !isEditableVersionStatus(versionDetails.status) ||
+    (!!versionDetails.lock && !canOverrideVersionLock(authState.user))
+  );
+
+  const handleLocked = (locked: Version) => {
+    setVersionDetails(locked);
+    setLockDialogOpen(false);
+  };
+
+  const handleReleaseNotesSaved = (updated: Version) => {
+    setVersionDetails(updated);
+    setReleaseNotesDialogOpen(false);
+  };
+
   const handleOpenDialog = () => {
     setFormData({ shortname: '', description: '' });
     setFormErrors({});
@@ -135,19 +203,52 @@ const VersionShortnamesPage: React.FC = () => {
   return (
     <Box>
       <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 4 }}>
-        <Typography variant="h4" component="h1" gutterBottom>
-          Shortnames for Version: {version}
-        </Typography>
-        <Button
-          variant="contained"
-          color="primary"
-          startIcon={<AddIcon />}
-          onClick={handleOpenDialog}
-        >
-          New Shortname
-        </Button>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Shortnames for Version: {version}
+          </Typography>
+          {versionDetails && <VersionStatusChip status={versionDetails.status} />}
+          {version && (
+            <CommentBadge thread={versionThread} onClick={() => setCommentThread({ target: 'version', version })} />
+          )}
+        </Box>
+        <Box>
+          {versionDetails && (
+            <Button
+              variant="outlined"
+              color="primary"
+              startIcon={<DescriptionIcon />}
+              onClick={() => setReleaseNotesDialogOpen(true)}
+              sx={{ mr: 1 }}
+            >
+              Release Notes
+            </Button>
+          )}
+          {versionDetails && !versionDetails.lock && (
+            <Button
+              variant="outlined"
+              color="primary"
+              startIcon={<LockIcon />}
+              onClick={() => setLockDialogOpen(true)}
+              sx={{ mr: 1 }}
+            >
+              Lock for Release
+            </Button>
+          )}
+          <Button
+            variant="contained"
+            color="primary"
+            startIcon={<AddIcon />}
+            onClick={handleOpenDialog}
+            disabled={readOnly}
+          >
+            New Shortname
+          </Button>
+        </Box>
       </Box>
 
+      {versionDetails && <VersionLockBanner version={versionDetails} onUnlocked={setVersionDetails} />}
+
       {error && (
         <Alert severity="error" sx={{ mb: 2 }}>
           {error}
@@ -196,6 +297,12 @@ const VersionShortnamesPage: React.FC = () => {
                     </Button>
                   </Box>
                   <Box>
+                    {version && (
+                      <CommentBadge
+                        thread={shortnameThreads[shortname.shortname]}
+                        onClick={() => setCommentThread({ target: 'shortname', shortname: shortname.shortname, version })}
+                      />
+                    )}
                     <IconButton
                       size="small"
                       component={Link}
@@ -261,12 +368,36 @@ const VersionShortnamesPage: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {version && (
+        <VersionLockDialog
+          open={lockDialogOpen}
+          version={version}
+          onClose={() => setLockDialogOpen(false)}
+          onLocked={handleLocked}
+        />
+      )}
+
+      {versionDetails && (
+        <ReleaseNotesDialog
+          open={releaseNotesDialogOpen}
+          version={versionDetails}
+          onClose={() => setReleaseNotesDialogOpen(false)}
+          onSaved={handleReleaseNotesSaved}
+        />
+      )}
+
+      <CommentsDrawer
+        thread={commentThread}
+        onClose={() => setCommentThread(null)}
+        onChanged={fetchCommentThreads}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={deleteConfirmOpen} onClose={handleDeleteCancel}>
         <DialogTitle>Confirm Delete</DialogTitle>
         <DialogContent>
           <Typography>
-            Are you sure you want to delete the shortname "{shortnameToDelete}"? This action cannot be undone.
+            Are you sure you want to delete the shortname "{shortnameToDelete}"? It can be restored from the Trash for {TRASH_RETENTION_DAYS} days.
           </Typography>
         </DialogContent>
         <DialogActions>
@@ -17,13 +17,14 @@ import {
   DialogContent,
   DialogActions,
   TextField,
-  FormControlLabel,
-  Switch,
   Alert
 } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import { versionsApi } from '../services/api';
 import { Version, VersionFormData } from '../models';
+import VersionStatusChip from '../components/versions/VersionStatusChip';
+import { validateVersion } from '../utils/validation';
+import { sortByVersionDescending } from '../utils/semver';
 
 const VersionsPage: React.FC = () => {
   const { shortname } = useParams<{ shortname: string }>();
@@ -34,8 +35,7 @@ const VersionsPage: React.FC = () => {
   const [openDialog, setOpenDialog] = useState<boolean>(false);
   const [formData, setFormData] = useState<VersionFormData>({
     version: '',
-    description: '',
-    isActive: true
+    description: ''
   });
 
   const fetchVersions = useCallback(async () => {
@@ -44,7 +44,7 @@ const VersionsPage: React.FC = () => {
     setLoading(true);
     try {
       const response = await versionsApi.getAll(shortname);
-      setVersions(response.versions);
+      setVersions(sortByVersionDescending(response.versions));
       setError(null);
     } catch (err) {
       console.error('Error fetching versions:', err);
@@ -58,6 +58,8 @@ const VersionsPage: React.FC = () => {
     fetchVersions();
   }, [shortname, fetchVersions]);
 
+  const versionValidation = formData.version ? validateVersion(formData.version) : { isValid: true };
+
   const handleCreateVersion = () => {
     setOpenDialog(true);
   };
@@ -66,16 +68,15 @@ const VersionsPage: React.FC = () => {
     setOpenDialog(false);
     setFormData({
       version: '',
-      description: '',
-      isActive: true
+      description: ''
     });
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value, checked } = e.target;
+    const { name, value } = e.target;
     setFormData({
       ...formData,
-      [name]: name === 'isActive' ? checked : value
+      [name]: value
     });
   };
 
@@ -149,7 +150,7 @@ const VersionsPage: React.FC = () => {
                   >
                     <TableCell>{version.version}</TableCell>
                     <TableCell>{version.description}</TableCell>
-                    <TableCell>{version.isActive ? 'Active' : 'Inactive'}</TableCell>
+                    <TableCell><VersionStatusChip status={version.status} /></TableCell>
                     <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
                     <TableCell>{new Date(version.updatedAt).toLocaleString()}</TableCell>
                   </TableRow>
@@ -173,6 +174,8 @@ const VersionsPage: React.FC = () => {
             variant="outlined"
             value={formData.version}
             onChange={handleInputChange}
+            error={!versionValidation.isValid}
+            helperText={versionValidation.errorMessage || 'Semantic version, e.g. 2.1.0 or 2.1.0-beta.1'}
             sx={{ mb: 2 }}
           />
           <TextField
@@ -188,20 +191,15 @@ const VersionsPage: React.FC = () => {
             onChange={handleInputChange}
             sx={{ mb: 2 }}
           />
-          <FormControlLabel
-            control={
-              <Switch
-                checked={formData.isActive}
-                onChange={handleInputChange}
-                name="isActive"
-              />
-            }
-            label="Active"
-          />
         </DialogContent>
         <DialogActions>
           <Button onClick={handleCloseDialog}>Cancel</Button>
-          <Button onClick={handleSubmit} variant="contained" color="primary">
+          <Button
+            onClick={handleSubmit}
+            variant="contained"
+            color="primary"
+            disabled={!formData.version || !versionValidation.isValid}
+          >
             Create
           </Button>
         </DialogActions>
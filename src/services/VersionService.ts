@@ -1,5 +1,5 @@
 import { API_ENDPOINTS } from '../config/api.config';
-import { Version, VersionFormData, VersionResponse } from '../models';
+import { Version, VersionDuplicateResponse, VersionFormData, VersionResponse } from '../models';
 import { BaseService } from './BaseService';
 import { ShortnameResponse } from '../models/Shortname';
 
@@ -96,61 +96,18 @@ export class VersionService extends BaseService {
   }
 
   /**
-   * Duplicate a version
+   * Duplicate a version server-side, with its shortnames and configurations; a failed copy is rolled back
    * @param sourceVersion - Source version string
    * @param newVersionData - New version form data
    * @param setError - Optional error setter function
-   * @returns Created version
+   * @returns Created version and what was copied
    */
   async duplicateVersion(
     sourceVersion: string,
     newVersionData: VersionFormData,
     setError?: (error: string) => void
-  ): Promise<Version> {
-    try {
-      // 1. Create the new version first as a top-level entity
-      const newVersion = await this.createVersion(newVersionData);
-      
-      // 2. Get all shortnames associated with the source version
-      const shortnamesResponse = await this.getVersionShortnames(sourceVersion);
-      
-      // 3. For each shortname in the source version, create it in the new version
-      for (const shortname of shortnamesResponse.shortnames) {
-        try {
-          // Create the shortname in the new version
-          const newShortname = await this.createShortnameInVersion(newVersionData.version, {
-            shortname: shortname.shortname,
-            description: shortname.description
-          });
-          
-          // Get all configurations for this shortname in the source version
-          const configsUrl = API_ENDPOINTS.CONFIGURATIONS.BY_VERSION(shortname.shortname, sourceVersion);
-          const configsResponse = await this.get<any>(configsUrl);
-          
-          // Create each configuration in the new version
-          for (const config of configsResponse.configurations) {
-            const newConfigUrl = API_ENDPOINTS.CONFIGURATIONS.BY_VERSION(
-              shortname.shortname, // Use the same shortname
-              newVersionData.version // But with the new version
-            );
-            
-            await this.post(newConfigUrl, {
-              key: config.key,
-              value: config.value,
-              description: config.description
-            });
-          }
-        } catch (err) {
-          console.error(`Error duplicating shortname ${shortname.shortname}:`, err);
-          // Continue with other shortnames even if one fails
-        }
-      }
-      
-      return newVersion;
-    } catch (error) {
-      if (setError) setError(error instanceof Error ? error.message : 'Failed to duplicate version');
-      throw error;
-    }
+  ): Promise<VersionDuplicateResponse> {
+    return this.post<VersionDuplicateResponse>(API_ENDPOINTS.VERSIONS.DUPLICATE(sourceVersion), newVersionData, setError);
   }
 
   /**
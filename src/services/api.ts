@@ -15,15 +15,88 @@ import {
 import {
   Version,
   VersionResponse,
-  VersionFormData
+  VersionFormData,
+  VersionStatus,
+  VersionDuplicateResponse,
+  VersionLockRequest,
+  ReleaseNotesResponse
 } from '../models/Version';
 
 import {
   Configuration,
+  ConfigurationCreateResponse,
   ConfigurationResponse,
-  ConfigurationFormData
+  ConfigurationRevisionsResponse,
+  ConfigurationFormData,
+  ConfigurationScope,
+  KeyRenameRequest,
+  KeyRenameResponse,
+  ResolvedConfigurationResponse,
+  SecretRevealResponse,
+  VersionConfigurationsResponse
 } from '../models/Configuration';
 
+import {
+  ConfigurationSchemaDocument,
+  ConfigurationSchemaResponse,
+  SchemaSaveResponse
+} from '../models/Schema';
+
+import {
+  KeyDeprecation,
+  KeyDeprecationFormData,
+  KeyDeprecationsResponse,
+  DeprecationReportResponse
+} from '../models/Deprecation';
+
+import {
+  VersionChannel,
+  ChannelMoveRequest,
+  VersionChannelsResponse,
+  ChannelHistoryResponse
+} from '../models/Channel';
+
+import { VersionDiffResponse } from '../models/VersionDiff';
+
+import {
+  VersionSnapshot,
+  VersionSnapshotsResponse,
+  SnapshotRestoreResponse
+} from '../models/Snapshot';
+
+import {
+  VersionSchedule,
+  ScheduleRequest,
+  ScheduleStatus,
+  VersionSchedulesResponse
+} from '../models/Schedule';
+
+import {
+  ShortnameRollout,
+  ShortnameRolloutResponse,
+  RolloutRequest
+} from '../models/Rollout';
+
+import { AuditFilters, AuditLogResponse } from '../models/Audit';
+
+import { TrashEntity, TrashEntry, TrashResponse } from '../models/Trash';
+
+import {
+  ChangeRequest,
+  ChangeRequestFormData,
+  ChangeRequestStatus,
+  ChangeRequestsResponse
+} from '../models/ChangeRequest';
+
+import {
+  Comment,
+  CommentTarget,
+  CommentThreadRef,
+  CommentsResponse,
+  CommentThreadsResponse,
+  UnreadMentionsResponse
+} from '../models/Comment';
+
 import { API_BASE_URL, getAuthHeaders } from '../config/api.config';
 
 async function handleApiResponse<T>(response: Response, setError?: (error: string) => void): Promise<T> {
@@ -173,6 +246,66 @@ export const versionsApi = {
     }
   },
 
+  getVersion: async (version: string, setError?: (error: string) => void): Promise<Version> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<Version>(response, setError);
+  },
+
+  updateStatus: async (version: string, status: VersionStatus, setError?: (error: string) => void): Promise<Version> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}/status`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ status })
+    });
+    return handleApiResponse<Version>(response, setError);
+  },
+
+  lock: async (version: string, data: VersionLockRequest, setError?: (error: string) => void): Promise<Version> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}/lock`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data)
+    });
+    return handleApiResponse<Version>(response, setError);
+  },
+
+  unlock: async (version: string, setError?: (error: string) => void): Promise<Version> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}/lock`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<Version>(response, setError);
+  },
+
+  getDiff: async (fromVersion: string, toVersion: string, setError?: (error: string) => void): Promise<VersionDiffResponse> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${fromVersion}/diff/${toVersion}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<VersionDiffResponse>(response, setError);
+  },
+
+  generateReleaseNotes: async (version: string, from?: string, setError?: (error: string) => void): Promise<ReleaseNotesResponse> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}/release-notes`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ from })
+    });
+    return handleApiResponse<ReleaseNotesResponse>(response, setError);
+  },
+
+  updateReleaseNotes: async (version: string, releaseNotes: string, setError?: (error: string) => void): Promise<Version> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ releaseNotes })
+    });
+    return handleApiResponse<Version>(response, setError);
+  },
+
   getVersionShortnames: async (version: string, setError?: (error: string) => void): Promise<ShortnameResponse> => {
     
     try {
@@ -208,8 +341,7 @@ export const versionsApi = {
       
       await versionsApi.create(shortnameResponse.shortname, {
         version: version,
-        description: `Version ${version} for ${shortnameResponse.shortname}`,
-        isActive: true
+        description: `Version ${version} for ${shortnameResponse.shortname}`
       });
       
       return shortnameResponse;
@@ -235,41 +367,13 @@ export const versionsApi = {
     }
   },
   
-  duplicateVersion: async (sourceVersion: string, newVersionData: VersionFormData, setError?: (error: string) => void): Promise<Version> => {
-    try {
-      
-      const newVersion = await versionsApi.createVersion(newVersionData);
-      
-      const shortnamesResponse = await versionsApi.getVersionShortnames(sourceVersion);
-      
-      for (const shortname of shortnamesResponse.shortnames) {
-        try {
-          
-          const newShortname = await versionsApi.createShortnameInVersion(newVersionData.version, {
-            shortname: shortname.shortname,
-            description: shortname.description
-          });
-          
-          const configsResponse = await configurationsApi.getAll(shortname.shortname, sourceVersion);
-          
-          for (const config of configsResponse.configurations) {
-            await configurationsApi.create(newShortname.shortname, newVersionData.version, {
-              key: config.key,
-              value: config.value,
-              description: config.description
-            });
-          }
-        } catch (err) {
-          console.error(`Error duplicating shortname ${shortname.shortname}:`, err);
-          
-        }
-      }
-      
-      return newVersion;
-    } catch (error) {
-      if (setError) setError(error instanceof Error ? error.message : 'Failed to duplicate version');
-      throw error;
-    }
+  duplicateVersion: async (sourceVersion: string, newVersionData: VersionFormData, setError?: (error: string) => void): Promise<VersionDuplicateResponse> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${sourceVersion}:duplicate`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(newVersionData)
+    });
+    return handleApiResponse<VersionDuplicateResponse>(response, setError);
   },
 
   getAll: async (shortname: string, setError?: (error: string) => void): Promise<VersionResponse> => {
@@ -357,6 +461,450 @@ export const configurationsApi = {
     });
     return handleApiResponse<ApiResponse<void>>(response, setError);
   },
+
+  reveal: async (shortname: string, version: string, configId: string, setError?: (error: string) => void): Promise<SecretRevealResponse> => {
+    const response = await fetch(`${API_BASE_URL}/shortnames/${shortname}/versions/${version}/configurations/${configId}/reveal`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<SecretRevealResponse>(response, setError);
+  },
+
+  getResolved: async (shortname: string, version: string, setError?: (error: string) => void): Promise<ResolvedConfigurationResponse> => {
+    const response = await fetch(`${API_BASE_URL}/shortnames/${shortname}/versions/${version}/configurations/resolved`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ResolvedConfigurationResponse>(response, setError);
+  },
+
+  getByVersion: async (version: string, tags: string[] = [], setError?: (error: string) => void): Promise<VersionConfigurationsResponse> => {
+    const query = tags.length > 0 ? `?tags=${encodeURIComponent(tags.join(','))}` : '';
+    const response = await fetch(`${API_BASE_URL}/versions/${version}/configurations${query}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<VersionConfigurationsResponse>(response, setError);
+  },
+};
+
+const configurationsUrl = ({ layer, shortname, version }: ConfigurationScope): string => {
+  if (layer === 'global') return `${API_BASE_URL}/defaults/configurations`;
+  if (layer === 'version') return `${API_BASE_URL}/versions/${version}/defaults/configurations`;
+  return `${API_BASE_URL}/shortnames/${shortname}/versions/${version}/configurations`;
+};
+
+export const layerConfigurationsApi = {
+  getAll: async (scope: ConfigurationScope, setError?: (error: string) => void): Promise<ConfigurationResponse> => {
+    const response = await fetch(configurationsUrl(scope), {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ConfigurationResponse>(response, setError);
+  },
+
+  create: async (scope: ConfigurationScope, data: ConfigurationFormData, setError?: (error: string) => void): Promise<ConfigurationCreateResponse> => {
+    const response = await fetch(configurationsUrl(scope), {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data)
+    });
+    return handleApiResponse<ConfigurationCreateResponse>(response, setError);
+  },
+
+  update: async (scope: ConfigurationScope, configId: string, data: ConfigurationFormData, setError?: (error: string) => void): Promise<Configuration> => {
+    const response = await fetch(`${configurationsUrl(scope)}/${configId}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data)
+    });
+    return handleApiResponse<Configuration>(response, setError);
+  },
+
+  delete: async (scope: ConfigurationScope, configId: string, setError?: (error: string) => void): Promise<ApiResponse<void>> => {
+    const response = await fetch(`${configurationsUrl(scope)}/${configId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ApiResponse<void>>(response, setError);
+  },
+
+  reveal: async (scope: ConfigurationScope, configId: string, setError?: (error: string) => void): Promise<SecretRevealResponse> => {
+    const response = await fetch(`${configurationsUrl(scope)}/${configId}/reveal`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<SecretRevealResponse>(response, setError);
+  },
+
+  rename: async (scope: ConfigurationScope, configId: string, data: KeyRenameRequest, setError?: (error: string) => void): Promise<KeyRenameResponse> => {
+    const response = await fetch(`${configurationsUrl(scope)}/${configId}/rename`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data)
+    });
+    return handleApiResponse<KeyRenameResponse>(response, setError);
+  },
+
+  getRevisions: async (scope: ConfigurationScope, configId: string, setError?: (error: string) => void): Promise<ConfigurationRevisionsResponse> => {
+    const response = await fetch(`${configurationsUrl(scope)}/${configId}/revisions`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ConfigurationRevisionsResponse>(response, setError);
+  },
+
+  revert: async (scope: ConfigurationScope, configId: string, revision: number, setError?: (error: string) => void): Promise<Configuration> => {
+    const response = await fetch(`${configurationsUrl(scope)}/${configId}/revisions/${revision}/revert`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<Configuration>(response, setError);
+  },
+};
+
+const schemaUrl = (shortname: string, version?: string): string =>
+  version
+    ? `${API_BASE_URL}/shortnames/${shortname}/versions/${version}/schema`
+    : `${API_BASE_URL}/shortnames/${shortname}/schema`;
+
+export const schemasApi = {
+  get: async (shortname: string, version?: string, setError?: (error: string) => void): Promise<ConfigurationSchemaResponse> => {
+    const response = await fetch(schemaUrl(shortname, version), {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ConfigurationSchemaResponse>(response, setError);
+  },
+
+  save: async (shortname: string, version: string | undefined, schema: ConfigurationSchemaDocument, setError?: (error: string) => void): Promise<SchemaSaveResponse> => {
+    const response = await fetch(schemaUrl(shortname, version), {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ schema })
+    });
+    return handleApiResponse<SchemaSaveResponse>(response, setError);
+  },
+
+  delete: async (shortname: string, version?: string, setError?: (error: string) => void): Promise<ApiResponse<void>> => {
+    const response = await fetch(schemaUrl(shortname, version), {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ApiResponse<void>>(response, setError);
+  },
+};
+
+export const deprecationsApi = {
+  getAll: async (setError?: (error: string) => void): Promise<KeyDeprecationsResponse> => {
+    const response = await fetch(`${API_BASE_URL}/deprecations`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<KeyDeprecationsResponse>(response, setError);
+  },
+
+  save: async (key: string, data: KeyDeprecationFormData, setError?: (error: string) => void): Promise<KeyDeprecation> => {
+    const response = await fetch(`${API_BASE_URL}/deprecations/${encodeURIComponent(key)}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data)
+    });
+    return handleApiResponse<KeyDeprecation>(response, setError);
+  },
+
+  delete: async (key: string, setError?: (error: string) => void): Promise<ApiResponse<void>> => {
+    const response = await fetch(`${API_BASE_URL}/deprecations/${encodeURIComponent(key)}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ApiResponse<void>>(response, setError);
+  },
+
+  getReport: async (pastSunset: boolean, setError?: (error: string) => void): Promise<DeprecationReportResponse> => {
+    const response = await fetch(`${API_BASE_URL}/deprecations/report?pastSunset=${pastSunset}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<DeprecationReportResponse>(response, setError);
+  },
+};
+
+export const channelsApi = {
+  getAll: async (setError?: (error: string) => void): Promise<VersionChannelsResponse> => {
+    const response = await fetch(`${API_BASE_URL}/channels`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<VersionChannelsResponse>(response, setError);
+  },
+
+  move: async (channel: string, data: ChannelMoveRequest, setError?: (error: string) => void): Promise<VersionChannel> => {
+    const response = await fetch(`${API_BASE_URL}/channels/${channel}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data)
+    });
+    return handleApiResponse<VersionChannel>(response, setError);
+  },
+
+  delete: async (channel: string, setError?: (error: string) => void): Promise<ApiResponse<void>> => {
+    const response = await fetch(`${API_BASE_URL}/channels/${channel}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ApiResponse<void>>(response, setError);
+  },
+
+  getHistory: async (channel: string, setError?: (error: string) => void): Promise<ChannelHistoryResponse> => {
+    const response = await fetch(`${API_BASE_URL}/channels/${channel}/history`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ChannelHistoryResponse>(response, setError);
+  },
+};
+
+export const snapshotsApi = {
+  getAll: async (version: string, setError?: (error: string) => void): Promise<VersionSnapshotsResponse> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}/snapshots`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<VersionSnapshotsResponse>(response, setError);
+  },
+
+  create: async (version: string, description: string, setError?: (error: string) => void): Promise<VersionSnapshot> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}/snapshots`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ description })
+    });
+    return handleApiResponse<VersionSnapshot>(response, setError);
+  },
+
+  restore: async (version: string, snapshotId: string, dryRun: boolean, setError?: (error: string) => void): Promise<SnapshotRestoreResponse> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}/snapshots/${snapshotId}/restore`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ dryRun })
+    });
+    return handleApiResponse<SnapshotRestoreResponse>(response, setError);
+  },
+};
+
+export const schedulesApi = {
+  getAll: async (status: ScheduleStatus = 'pending', setError?: (error: string) => void): Promise<VersionSchedulesResponse> => {
+    const response = await fetch(`${API_BASE_URL}/schedules?status=${status}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<VersionSchedulesResponse>(response, setError);
+  },
+
+  create: async (version: string, data: ScheduleRequest, setError?: (error: string) => void): Promise<VersionSchedule> => {
+    const response = await fetch(`${API_BASE_URL}/versions/${version}/schedules`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data)
+    });
+    return handleApiResponse<VersionSchedule>(response, setError);
+  },
+
+  cancel: async (scheduleId: string, setError?: (error: string) => void): Promise<VersionSchedule> => {
+    const response = await fetch(`${API_BASE_URL}/schedules/${scheduleId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<VersionSchedule>(response, setError);
+  },
+};
+
+export const rolloutsApi = {
+  get: async (shortname: string, clientId?: string, setError?: (error: string) => void): Promise<ShortnameRolloutResponse> => {
+    const query = clientId ? `?clientId=${encodeURIComponent(clientId)}` : '';
+    const response = await fetch(`${API_BASE_URL}/shortnames/${shortname}/rollout${query}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ShortnameRolloutResponse>(response, setError);
+  },
+
+  save: async (shortname: string, data: RolloutRequest, setError?: (error: string) => void): Promise<ShortnameRollout> => {
+    const response = await fetch(`${API_BASE_URL}/shortnames/${shortname}/rollout`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data)
+    });
+    return handleApiResponse<ShortnameRollout>(response, setError);
+  },
+
+  delete: async (shortname: string, setError?: (error: string) => void): Promise<ApiResponse<void>> => {
+    const response = await fetch(`${API_BASE_URL}/shortnames/${shortname}/rollout`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ApiResponse<void>>(response, setError);
+  },
+};
+
+export const auditApi = {
+  getEntries: async (filters: AuditFilters, setError?: (error: string) => void): Promise<AuditLogResponse> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([name, value]) => {
+      if (value !== undefined && value !== '') params.append(name, String(value));
+    });
+    const query = params.toString() ? `?${params.toString()}` : '';
+    const response = await fetch(`${API_BASE_URL}/audit${query}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<AuditLogResponse>(response, setError);
+  },
+};
+
+export const trashApi = {
+  getEntries: async (entity?: TrashEntity, setError?: (error: string) => void): Promise<TrashResponse> => {
+    const query = entity ? `?entity=${encodeURIComponent(entity)}` : '';
+    const response = await fetch(`${API_BASE_URL}/trash${query}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<TrashResponse>(response, setError);
+  },
+
+  restore: async (deletionId: string, setError?: (error: string) => void): Promise<{ message: string; entry: TrashEntry }> => {
+    const response = await fetch(`${API_BASE_URL}/trash/${encodeURIComponent(deletionId)}/restore`, {
+      method: 'POST',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<{ message: string; entry: TrashEntry }>(response, setError);
+  },
+
+  // Admins only
+  purge: async (deletionId: string, setError?: (error: string) => void): Promise<{ message: string }> => {
+    const response = await fetch(`${API_BASE_URL}/trash/${encodeURIComponent(deletionId)}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<{ message: string }>(response, setError);
+  },
+};
+
+const changeRequestsUrl = ({ layer, shortname, version }: ConfigurationScope): string => {
+  if (layer === 'global') return `${API_BASE_URL}/defaults/change-requests`;
+  return layer === 'version'
+    ? `${API_BASE_URL}/versions/${version}/defaults/change-requests`
+    : `${API_BASE_URL}/shortnames/${shortname}/versions/${version}/change-requests`;
+};
+
+export const changeRequestsApi = {
+  getAll: async (scope: ConfigurationScope, status?: ChangeRequestStatus, setError?: (error: string) => void): Promise<ChangeRequestsResponse> => {
+    const query = status ? `?status=${encodeURIComponent(status)}` : '';
+    const response = await fetch(`${changeRequestsUrl(scope)}${query}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ChangeRequestsResponse>(response, setError);
+  },
+
+  create: async (scope: ConfigurationScope, data: ChangeRequestFormData, setError?: (error: string) => void): Promise<ChangeRequest> => {
+    const response = await fetch(changeRequestsUrl(scope), {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(data)
+    });
+    return handleApiResponse<ChangeRequest>(response, setError);
+  },
+
+  getOne: async (changeRequestId: string, setError?: (error: string) => void): Promise<ChangeRequest> => {
+    const response = await fetch(`${API_BASE_URL}/change-requests/${encodeURIComponent(changeRequestId)}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<ChangeRequest>(response, setError);
+  },
+
+  // Approvers other than the author only
+  approve: async (changeRequestId: string, comment?: string, setError?: (error: string) => void): Promise<ChangeRequest> => {
+    const response = await fetch(`${API_BASE_URL}/change-requests/${encodeURIComponent(changeRequestId)}/approve`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ comment })
+    });
+    return handleApiResponse<ChangeRequest>(response, setError);
+  },
+
+  // Approvers other than the author only
+  reject: async (changeRequestId: string, comment?: string, setError?: (error: string) => void): Promise<ChangeRequest> => {
+    const response = await fetch(`${API_BASE_URL}/change-requests/${encodeURIComponent(changeRequestId)}/reject`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ comment })
+    });
+    return handleApiResponse<ChangeRequest>(response, setError);
+  },
+};
+
+export const commentsApi = {
+  getThread: async (thread: CommentThreadRef, setError?: (error: string) => void): Promise<CommentsResponse> => {
+    const params = new URLSearchParams();
+    Object.entries(thread).forEach(([name, value]) => {
+      if (value !== undefined) params.append(name, value);
+    });
+    const response = await fetch(`${API_BASE_URL}/comments?${params.toString()}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<CommentsResponse>(response, setError);
+  },
+
+  create: async (thread: CommentThreadRef, body: string, setError?: (error: string) => void): Promise<Comment> => {
+    const response = await fetch(`${API_BASE_URL}/comments`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify({ ...thread, body })
+    });
+    return handleApiResponse<Comment>(response, setError);
+  },
+
+  // Authors and admins only
+  delete: async (commentId: string, setError?: (error: string) => void): Promise<{ message: string }> => {
+    const response = await fetch(`${API_BASE_URL}/comments/${encodeURIComponent(commentId)}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<{ message: string }>(response, setError);
+  },
+
+  markRead: async (thread: CommentThreadRef, setError?: (error: string) => void): Promise<{ threadId: string; lastReadAt: string }> => {
+    const response = await fetch(`${API_BASE_URL}/comments/read`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(thread)
+    });
+    return handleApiResponse<{ threadId: string; lastReadAt: string }>(response, setError);
+  },
+
+  getThreads: async (target: CommentTarget, filters: { version?: string; shortname?: string } = {}, setError?: (error: string) => void): Promise<CommentThreadsResponse> => {
+    const params = new URLSearchParams({ target });
+    Object.entries(filters).forEach(([name, value]) => {
+      if (value !== undefined) params.append(name, value);
+    });
+    const response = await fetch(`${API_BASE_URL}/comments/threads?${params.toString()}`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<CommentThreadsResponse>(response, setError);
+  },
+
+  getMentions: async (setError?: (error: string) => void): Promise<UnreadMentionsResponse> => {
+    const response = await fetch(`${API_BASE_URL}/comments/mentions`, {
+      method: 'GET',
+      headers: getAuthHeaders()
+    });
+    return handleApiResponse<UnreadMentionsResponse>(response, setError);
+  },
 };
 
 export default {
@@ -364,4 +912,15 @@ export default {
   shortnames: shortnamesApi,
   versions: versionsApi,
   configurations: configurationsApi,
+  layerConfigurations: layerConfigurationsApi,
+  schemas: schemasApi,
+  deprecations: deprecationsApi,
+  channels: channelsApi,
+  snapshots: snapshotsApi,
+  schedules: schedulesApi,
+  rollouts: rolloutsApi,
+  audit: auditApi,
+  trash: trashApi,
+  changeRequests: changeRequestsApi,
+  comments: commentsApi,
 };
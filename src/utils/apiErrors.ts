@@ -0,0 +1,33 @@
+/**
+ * API error utility functions
+ */
+
+import { SchemaViolation } from '../models/Schema';
+
+/**
+ * Details of a failed API call
+ */
+export interface ApiErrorDetails {
+  message: string;
+  errors?: SchemaViolation[];
+}
+
+/**
+ * Extracts the message and per-field errors from an error thrown by the API client
+ * @param err - The caught error (its message holds the raw response body)
+ * @param fallbackMessage - Message used when the response body has none
+ * @returns The error details
+ */
+export const parseApiError = (err: unknown, fallbackMessage: string): ApiErrorDetails => {
+  const raw = err instanceof Error ? err.message : '';
+  
+  try {
+    const body = JSON.parse(raw);
+    return {
+      message: body.message || fallbackMessage,
+      errors: Array.isArray(body.errors) ? body.errors : undefined,
+    };
+  } catch (error) {
+    return { message: raw || fallbackMessage };
+  }
+};
@@ -0,0 +1,63 @@
+/**
+ * Comment utility functions
+ */
+
+import { CommentThread, CommentThreadRef, ConfigurationScope } from '../models';
+
+// Defaults are stored under the wildcard shortname and version
+const ANY = '*';
+
+// An @ followed by the email of a user, as the server reads mentions; trailing punctuation is not part of it
+const MENTION_PATTERN = /(@[^\s@]+@[^\s@]+\.[^\s@]*[^\s@.,;:!?)\]])/;
+
+/**
+ * Splits a comment into text and mentions
+ * @param body - The comment
+ * @returns The parts of the comment, mentions at odd indexes
+ */
+export const splitMentions = (body: string): string[] => body.split(MENTION_PATTERN);
+
+/**
+ * Gets the thread of a configuration key of a layer
+ * @param scope - The layer of the configuration
+ * @param key - The configuration key
+ * @returns The thread
+ */
+export const getConfigurationThread = ({ layer, shortname, version }: ConfigurationScope, key: string): CommentThreadRef => ({
+  target: 'configuration',
+  shortname: layer === 'shortname' ? shortname : ANY,
+  version: layer === 'global' ? ANY : version!,
+  key,
+});
+
+/**
+ * Gets the page showing a thread
+ * @param thread - The thread
+ * @returns The path of the page
+ */
+export const getThreadPath = ({ target, shortname, version }: CommentThreadRef): string => {
+  if (target !== 'configuration') return `/versions/${version}/shortnames`;
+  if (shortname === ANY) return version === ANY ? '/defaults' : `/versions/${version}/defaults`;
+  return `/versions/${version}/shortnames/${shortname}/configurations`;
+};
+
+/**
+ * Describes what a thread is about
+ * @param thread - The thread
+ * @returns The description
+ */
+export const describeThread = ({ target, shortname, version, key }: CommentThreadRef): string => {
+  if (target === 'version') return `version ${version}`;
+  if (target === 'shortname') return `${shortname} in version ${version}`;
+  if (shortname === ANY) return `${key} (${version === ANY ? 'global defaults' : `defaults of ${version}`})`;
+  return `${key} (${shortname} ${version})`;
+};
+
+/**
+ * Indexes threads by a field of their target
+ * @param threads - The threads
+ * @param field - The field: key, shortname or version
+ * @returns The threads, by the value of the field
+ */
+export const indexThreads = (threads: CommentThread[], field: 'key' | 'shortname' | 'version'): Record<string, CommentThread> =>
+  Object.fromEntries(threads.map(thread => [thread[field] || '', thread]));
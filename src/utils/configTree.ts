@@ -0,0 +1,74 @@
+/**
+ * Configuration tree utility functions
+ */
+
+import { formatConfigKey } from './formatting';
+
+/**
+ * A node of the tree built from the dot segments of configuration keys
+ */
+export interface ConfigTreeNode<T extends { key: string }> {
+  name: string;
+  keyPrefix: string;
+  children: ConfigTreeNode<T>[];
+  configs: T[];
+  count: number;
+}
+
+const createNode = <T extends { key: string }>(name: string, keyPrefix: string): ConfigTreeNode<T> => ({
+  name,
+  keyPrefix,
+  children: [],
+  configs: [],
+  count: 0,
+});
+
+/**
+ * Builds a tree from dotted configuration keys, ignoring the 'public.' prefix.
+ * Configurations sharing a key (e.g. from several shortnames) end up on the same node.
+ * @param configs - The configurations
+ * @returns The root nodes, sorted by name
+ */
+export const buildConfigTree = <T extends { key: string }>(configs: T[]): ConfigTreeNode<T>[] => {
+  const root = createNode<T>('', '');
+
+  for (const config of configs) {
+    const displayKey = formatConfigKey(config.key);
+    // Keep the stripped prefix so keys added under a node get it back
+    let keyPrefix = config.key.slice(0, config.key.length - displayKey.length);
+    let node = root;
+    node.count++;
+
+    for (const segment of displayKey.split('.')) {
+      keyPrefix += segment;
+      let child = node.children.find(existing => existing.name === segment);
+      if (!child) {
+        child = createNode<T>(segment, keyPrefix);
+        node.children.push(child);
+      }
+      child.count++;
+      node = child;
+      keyPrefix += '.';
+    }
+
+    node.configs.push(config);
+  }
+
+  const sort = (nodes: ConfigTreeNode<T>[]) => {
+    nodes.sort((a, b) => a.name.localeCompare(b.name));
+    nodes.forEach(node => sort(node.children));
+  };
+  sort(root.children);
+
+  return root.children;
+};
+
+/**
+ * Collects the configurations of a node and all its descendants
+ * @param node - The tree node
+ * @returns The configurations in the subtree
+ */
+export const collectSubtree = <T extends { key: string }>(node: ConfigTreeNode<T>): T[] => [
+  ...node.configs,
+  ...node.children.flatMap(child => collectSubtree(child)),
+];
@@ -2,6 +2,13 @@
  * Formatting utility functions
  */
 
+import { ConfigurationValueType } from '../models/Configuration';
+
+/**
+ * Placeholder shown instead of secret configuration values
+ */
+export const SECRET_MASK = '••••••••';
+
 /**
  * Formats a date to a localized string
  * @param date - The date to format (string or Date object)
@@ -43,6 +50,28 @@ export const formatValue = (value: any): string => {
   return String(value);
 };
 
+/**
+ * Converts a typed configuration value into the form held by the value editor
+ * @param value - The typed value
+ * @param valueType - The declared value type
+ * @returns The editor value (booleans stay booleans, everything else becomes text)
+ */
+export const toEditorValue = (value: any, valueType: ConfigurationValueType): any => {
+  if (valueType === 'boolean') {
+    return value === true || value === 'true';
+  }
+
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  if (valueType === 'json' && typeof value === 'object') {
+    return JSON.stringify(value, null, 2);
+  }
+
+  return String(value);
+};
+
 /**
  * Truncates a string to a specified length
  * @param str - The string to truncate
@@ -0,0 +1,95 @@
+/**
+ * Interpolation utility functions
+ *
+ * Mirrors the server-side resolution of ${key} references so values can be previewed while editing.
+ */
+
+const REFERENCE_PATTERN = /\$\{([^}]+)\}/g;
+
+/**
+ * Result of resolving a value
+ */
+export interface InterpolationResult {
+  value?: any;
+  error?: string;
+}
+
+/**
+ * Finds the keys a value references
+ * @param value - The value; strings nested in JSON values are searched too
+ * @returns The referenced keys
+ */
+export const findReferences = (value: any): string[] => {
+  if (typeof value === 'string') {
+    return Array.from(value.matchAll(REFERENCE_PATTERN), match => match[1].trim());
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(findReferences);
+  }
+
+  return [];
+};
+
+// Replaces the references of a value, strings nested in JSON values included
+const substitute = (value: any, resolveKey: (name: string) => any): any => {
+  if (typeof value === 'string') {
+    return value.replace(REFERENCE_PATTERN, (match, reference: string) => {
+      const resolved = resolveKey(reference.trim());
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => substitute(item, resolveKey));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([name, item]) => [name, substitute(item, resolveKey)]));
+  }
+
+  return value;
+};
+
+/**
+ * Resolves the references of a value
+ * @param key - The key the value is stored under
+ * @param value - The raw value
+ * @param values - The raw values of the other keys in scope
+ * @param secretKeys - Keys whose values cannot be referenced
+ * @returns The resolved value, or the reason it cannot be resolved
+ */
+export const resolveValue = (
+  key: string,
+  value: any,
+  values: Record<string, any>,
+  secretKeys: Set<string> = new Set()
+): InterpolationResult => {
+  const scope: Record<string, any> = { ...values, [key]: value };
+  const resolving: string[] = [];
+
+  const resolveKey = (name: string): any => {
+    if (resolving.includes(name)) {
+      throw new Error(`Circular reference: ${[...resolving.slice(resolving.indexOf(name)), name].join(' -> ')}`);
+    }
+    if (name !== key && secretKeys.has(name)) {
+      throw new Error(`Secret key "${name}" cannot be referenced`);
+    }
+    if (!Object.prototype.hasOwnProperty.call(scope, name)) {
+      throw new Error(`Referenced key "${name}" does not exist`);
+    }
+
+    resolving.push(name);
+    try {
+      return substitute(scope[name], resolveKey);
+    } finally {
+      resolving.pop();
+    }
+  };
+
+  try {
+    return { value: resolveKey(key) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+};
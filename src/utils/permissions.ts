@@ -0,0 +1,62 @@
+/**
+ * Permission utility functions, mirroring the checks made by the server
+ */
+
+import { User } from '../models/Authentication';
+
+/**
+ * Permission to write to the shortnames and configurations of a version locked for a release
+ */
+export const VERSION_LOCK_OVERRIDE = 'version-lock:override';
+
+/**
+ * Permission to approve or reject the change requests proposed to the configurations of published versions
+ */
+export const CHANGE_REQUEST_APPROVE = 'change-request:approve';
+
+/**
+ * Permission to read the audit log
+ */
+export const AUDIT_READ = 'audit:read';
+
+/**
+ * Checks whether a user is an admin; some operations, such as purging the trash, are reserved to admins
+ * @param user - The current user
+ * @returns Whether the user is an admin
+ */
+export const isAdmin = (user: User | null): boolean => user?.userType === 'admin';
+
+/**
+ * Checks whether a user holds a permission; admins hold every permission
+ * @param user - The current user
+ * @param permission - The permission
+ * @returns Whether the user holds the permission
+ */
+export const hasPermission = (user: User | null, permission: string): boolean => {
+  if (!user) return false;
+  if (isAdmin(user)) return true;
+  return (user.permissions || []).includes(permission);
+};
+
+/**
+ * Checks whether a user can write to a version locked for a release
+ * @param user - The current user
+ * @returns Whether the user can override version locks
+ */
+export const canOverrideVersionLock = (user: User | null): boolean => hasPermission(user, VERSION_LOCK_OVERRIDE);
+
+/**
+ * Checks whether a user can read the audit log
+ * @param user - The current user
+ * @returns Whether the user can read the audit log
+ */
+export const canReadAuditLog = (user: User | null): boolean => hasPermission(user, AUDIT_READ);
+
+/**
+ * Checks whether a user can review a change request; nobody reviews their own changes, admins included
+ * @param user - The current user
+ * @param createdBy - The user ID of the author of the change request
+ * @returns Whether the user can approve or reject the change request
+ */
+export const canReviewChangeRequest = (user: User | null, createdBy: string): boolean =>
+  hasPermission(user, CHANGE_REQUEST_APPROVE) && user?.userId !== createdBy;
@@ -0,0 +1,113 @@
+/**
+ * Semantic version utility functions
+ *
+ * Mirrors the server-side parsing and ordering of versions: MAJOR.MINOR.PATCH with an optional
+ * pre-release tag, without build metadata since versions are used in URL paths.
+ */
+
+const IDENTIFIER = '(?:0|[1-9]\\d*|\\d*[a-zA-Z-][0-9a-zA-Z-]*)';
+const VERSION_PATTERN = new RegExp(
+  `^(0|[1-9]\\d*)\\.(0|[1-9]\\d*)\\.(0|[1-9]\\d*)(?:-(${IDENTIFIER}(?:\\.${IDENTIFIER})*))?$`
+);
+
+/**
+ * Parsed semantic version
+ */
+export interface SemanticVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: string[];
+}
+
+/**
+ * Parses a semantic version
+ * @param version - The version, e.g. 2.1.0 or 2.1.0-beta.1
+ * @returns The parsed version, or null when the version is not a semantic version
+ */
+export const parseVersion = (version: string): SemanticVersion | null => {
+  const match = VERSION_PATTERN.exec(version);
+  if (!match) return null;
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : []
+  };
+};
+
+/**
+ * Checks whether a version has a pre-release tag
+ * @param version - The version
+ * @returns Whether the version is a pre-release
+ */
+export const isPrerelease = (version: string): boolean =>
+  (parseVersion(version)?.prerelease.length ?? 0) > 0;
+
+const compareIdentifiers = (a: string, b: string): number => {
+  const aNumeric = /^\d+$/.test(a);
+  const bNumeric = /^\d+$/.test(b);
+  if (aNumeric && bNumeric) return Number(a) - Number(b);
+  if (aNumeric) return -1;
+  if (bNumeric) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+};
+
+/**
+ * Compares two versions by semantic version precedence; versions that are not semantic versions
+ * are ordered after the valid ones
+ * @param a - The first version
+ * @param b - The second version
+ * @returns A negative number if a is lower than b, zero if they are equal, a positive number otherwise
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const parsedA = parseVersion(a);
+  const parsedB = parseVersion(b);
+  if (!parsedA || !parsedB) {
+    if (parsedA) return -1;
+    if (parsedB) return 1;
+    return a.localeCompare(b);
+  }
+
+  const difference = parsedA.major - parsedB.major || parsedA.minor - parsedB.minor || parsedA.patch - parsedB.patch;
+  if (difference !== 0) return difference;
+
+  // A pre-release is lower than the release it precedes
+  if (parsedA.prerelease.length === 0 || parsedB.prerelease.length === 0) {
+    return parsedB.prerelease.length - parsedA.prerelease.length;
+  }
+
+  const length = Math.min(parsedA.prerelease.length, parsedB.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    const identifierDifference = compareIdentifiers(parsedA.prerelease[i], parsedB.prerelease[i]);
+    if (identifierDifference !== 0) return identifierDifference;
+  }
+
+  return parsedA.prerelease.length - parsedB.prerelease.length;
+};
+
+/**
+ * Sorts items holding a version from the highest to the lowest version
+ * @param items - The items
+ * @returns A sorted copy of the items
+ */
+export const sortByVersionDescending = <T extends { version: string }>(items: T[]): T[] =>
+  [...items].sort((a, b) => compareVersions(b.version, a.version));
+
+/**
+ * Finds the versions the "latest" and "latest-stable" aliases resolve to, among published versions
+ * @param versions - The versions
+ * @returns The latest version, pre-releases included, and the latest stable version
+ */
+export const findLatestVersions = (
+  versions: Array<{ version: string; status: string }>
+): { latest?: string; latestStable?: string } => {
+  const published = sortByVersionDescending(
+    versions.filter(version => version.status === 'published' && parseVersion(version.version))
+  );
+  return {
+    latest: published[0]?.version,
+    latestStable: published.find(version => !isPrerelease(version.version))?.version
+  };
+};
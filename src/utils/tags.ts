@@ -0,0 +1,28 @@
+/**
+ * Tag utility functions
+ */
+
+/**
+ * Normalizes tags the way the server stores them: trimmed, lowercase, unique and sorted
+ * @param tags - The tags
+ * @returns The normalized tags
+ */
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))).sort();
+
+/**
+ * Collects the tags used by a list of configurations
+ * @param configs - The configurations
+ * @returns The tags, sorted
+ */
+export const collectTags = (configs: Array<{ tags?: string[] }>): string[] =>
+  normalizeTags(configs.flatMap(config => config.tags || []));
+
+/**
+ * Checks whether a configuration carries all the given tags
+ * @param config - The configuration
+ * @param tags - The tags to look for; no tags matches every configuration
+ * @returns Whether the configuration carries all the tags
+ */
+export const hasAllTags = (config: { tags?: string[] }, tags: string[]): boolean =>
+  tags.every(tag => (config.tags || []).includes(tag));
@@ -2,6 +2,9 @@
  * Validation utility functions
  */
 
+import { ConfigurationValueType } from '../models/Configuration';
+import { parseVersion } from './semver';
+
 /**
  * Validation result interface
  */
@@ -116,6 +119,22 @@ export class PrefixValidator extends Validator<string> {
   }
 }
 
+/**
+ * Semantic version validator
+ */
+export class SemanticVersionValidator extends Validator<string> {
+  validate(value: string): ValidationResult {
+    if (!parseVersion(value)) {
+      return {
+        isValid: false,
+        errorMessage: 'Version must be a semantic version such as 2.1.0 or 2.1.0-beta.1'
+      };
+    }
+
+    return { isValid: true };
+  }
+}
+
 /**
  * Composite validator that runs multiple validators
  */
@@ -155,7 +174,6 @@ export const shortnameValidator = new CompositeValidator([
  */
 export const configKeyValidator = new CompositeValidator([
   new RequiredValidator('Key'),
-  new PrefixValidator('public.'),
   new PatternValidator(
     /^[a-zA-Z0-9._-]+$/,
     'Key can only contain letters, numbers, dots, underscores, and hyphens'
@@ -167,10 +185,7 @@ export const configKeyValidator = new CompositeValidator([
  */
 export const versionValidator = new CompositeValidator([
   new RequiredValidator('Version'),
-  new PatternValidator(
-    /^[a-zA-Z0-9.-]+$/,
-    'Version can only contain letters, numbers, dots, and hyphens'
-  )
+  new SemanticVersionValidator()
 ]);
 
 /**
@@ -200,6 +215,69 @@ export const validateVersion = (version: string): ValidationResult => {
   return versionValidator.validate(version);
 };
 
+/**
+ * Parses a value entered in the configuration editor into its typed form
+ * @param rawValue - The value as held by the editor
+ * @param valueType - The declared value type
+ * @param enumOptions - The allowed options for enum values
+ * @returns The typed value, or an error message when the value does not match the type
+ */
+export const parseConfigValue = (
+  rawValue: any,
+  valueType: ConfigurationValueType,
+  enumOptions: string[] = []
+): { value?: any; error?: string } => {
+  if (valueType === 'boolean') {
+    return { value: Boolean(rawValue) };
+  }
+
+  if (rawValue === undefined || rawValue === null || String(rawValue).trim() === '') {
+    return { error: 'Value is required' };
+  }
+
+  const text = String(rawValue);
+
+  switch (valueType) {
+    case 'number': {
+      const value = Number(text);
+      return Number.isFinite(value) ? { value } : { error: 'Value must be a number' };
+    }
+
+    case 'json': {
+      try {
+        const value = JSON.parse(text);
+        if (value === null || typeof value !== 'object') return { error: 'Value must be a JSON object or array' };
+        return { value };
+      } catch (error) {
+        return { error: 'Value must be valid JSON' };
+      }
+    }
+
+    case 'enum': {
+      if (enumOptions.length === 0) return { error: 'Add at least one option' };
+      return enumOptions.includes(text) ? { value: text } : { error: 'Value must be one of the options' };
+    }
+
+    case 'url': {
+      try {
+        const url = new URL(text);
+        if (!['http:', 'https:'].includes(url.protocol)) return { error: 'URL must use http or https' };
+        return { value: text };
+      } catch (error) {
+        return { error: 'Value must be a valid absolute URL' };
+      }
+    }
+
+    case 'color':
+      return /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{4}|[0-9a-fA-F]{6}|[0-9a-fA-F]{8})$/.test(text)
+        ? { value: text }
+        : { error: 'Value must be a hex color such as #1a2b3c' };
+
+    default:
+      return { value: text };
+  }
+};
+
 /**
  * Validates form data with custom validation rules
  * @param data - The form data to validate
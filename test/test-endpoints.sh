@@ -144,7 +144,7 @@ fi
 
 # 6. Create a version for the shortname
 echo -e "\n=== 6. Create a version for the shortname ==="
-version_data="{\"version\":\"$version\",\"description\":\"Test version\",\"isActive\":true}"
+version_data="{\"version\":\"$version\",\"description\":\"Test version\"}"
 make_request "POST" "/shortnames/$shortname/versions" "$version_data" "$token"
 
 if [ $? -ne 0 ]; then
@@ -229,7 +229,7 @@ fi
 
 # 14. Update the version
 echo -e "\n=== 14. Update the version ==="
-update_version_data="{\"description\":\"Updated version\",\"isActive\":false}"
+update_version_data="{\"description\":\"Updated version\"}"
 make_request "PUT" "/shortnames/$shortname/versions/$version" "$update_version_data" "$token"
 
 if [ $? -ne 0 ]; then
@@ -65,3 +65,9 @@ variable "certificate_arn" {
   description = "ARN of the SSL certificate for the custom domain"
   type        = string
 }
+
+variable "delivery_internal_api_key" {
+  description = "API key backend services send to also receive internal and secret configurations"
+  type        = string
+  sensitive   = true
+}